@@ -0,0 +1,455 @@
+/**
+ * Alert rules evaluated by the collector after each sync.
+ *
+ * Every rule turns the current state of one cluster/namespace into candidate alerts keyed by a
+ * dedup key. Candidates without a firing alert are inserted, firing alerts that still match are
+ * refreshed, and firing alerts of an evaluated rule that no longer match are resolved.
+ *
+ * ALERT_RULES is a JSON array that replaces the default rule list:
+ *   [{ "id": "api-errors", "type": "error_rate", "threshold": 5, "windowMinutes": 10,
+ *      "severity": "critical", "namespaces": ["prod"], "deployments": ["api"] }]
+ * Unset fields fall back to the defaults for the rule type; `[]` disables alerting.
+ */
+import { deploymentVersions, resolveVersionImpact } from './version-impact.mjs';
+import { deploymentNameFor } from './workload-owners.mjs';
+
+export const ALERT_RULE_TYPES = ['pod_health', 'restart_increase', 'error_rate', 'memory_p95', 'version_impact'];
+const ALERT_SEVERITIES = ['info', 'warning', 'critical'];
+
+// threshold units: restarts, error/fatal lines per minute, percent of the memory limit, impact score (version_impact
+// fires on the `degraded` verdict; a threshold additionally requires that minimum score)
+const RULE_TYPE_DEFAULTS = {
+  pod_health: { severity: 'critical', threshold: null, windowMinutes: null },
+  restart_increase: { severity: 'warning', threshold: 1, windowMinutes: 10 },
+  error_rate: { severity: 'warning', threshold: 10, windowMinutes: 5 },
+  memory_p95: { severity: 'warning', threshold: 90, windowMinutes: 30 },
+  version_impact: { severity: 'warning', threshold: null, windowMinutes: 30 },
+};
+
+export const DEFAULT_ALERT_RULES = [
+  { id: 'pod-health', type: 'pod_health' },
+  { id: 'restart-increase', type: 'restart_increase' },
+  { id: 'error-log-rate', type: 'error_rate' },
+  { id: 'memory-p95', type: 'memory_p95' },
+  { id: 'version-impact', type: 'version_impact' },
+];
+
+// Same thresholds the dashboard uses for pod health (src/lib/podHealth.ts)
+const POD_ERROR_STATUSES = ['Error', 'OOMKilled', 'CrashLoopBackOff'];
+const CONTAINER_ERROR_REASONS = new Set([
+  'CrashLoopBackOff',
+  'OOMKilled',
+  'Error',
+  'ImagePullBackOff',
+  'ErrImagePull',
+  'CreateContainerConfigError',
+  'InvalidImageName',
+  'RunContainerError',
+]);
+const CONTAINER_ERROR_RESTARTS = 5;
+
+function compileAlertRule(config, index) {
+  const source = `ALERT_RULES[${index}]`;
+  if (!config || typeof config !== 'object') {
+    throw new Error(`${source} must be an object`);
+  }
+  if (!ALERT_RULE_TYPES.includes(config.type)) {
+    throw new Error(`${source}.type must be one of ${ALERT_RULE_TYPES.join(', ')}`);
+  }
+  const rule = { ...RULE_TYPE_DEFAULTS[config.type], ...config, id: String(config.id || config.type) };
+  if (!ALERT_SEVERITIES.includes(rule.severity)) {
+    throw new Error(`${source}.severity must be one of ${ALERT_SEVERITIES.join(', ')}`);
+  }
+  if (rule.threshold !== null && !(Number.isFinite(rule.threshold) && rule.threshold >= 0)) {
+    throw new Error(`${source}.threshold must be a non-negative number`);
+  }
+  if (rule.windowMinutes !== null && !(Number.isInteger(rule.windowMinutes) && rule.windowMinutes > 0)) {
+    throw new Error(`${source}.windowMinutes must be a positive whole number`);
+  }
+  for (const key of ['namespaces', 'deployments']) {
+    if (rule[key] !== undefined && !Array.isArray(rule[key])) {
+      throw new Error(`${source}.${key} must be an array of names`);
+    }
+  }
+  return rule;
+}
+
+export function compileAlertRules(raw) {
+  if (!raw || !raw.trim()) {
+    return DEFAULT_ALERT_RULES.map(compileAlertRule);
+  }
+  let config;
+  try {
+    config = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`ALERT_RULES is not valid JSON: ${error.message}`);
+  }
+  if (!Array.isArray(config)) {
+    throw new Error('ALERT_RULES must be a JSON array of rules');
+  }
+  const rules = config.filter((rule) => rule?.enabled !== false).map(compileAlertRule);
+  const ids = new Set();
+  for (const rule of rules) {
+    if (ids.has(rule.id)) throw new Error(`ALERT_RULES contains duplicate id "${rule.id}"`);
+    ids.add(rule.id);
+  }
+  return rules;
+}
+
+function isMissingTable(error, table) {
+  return String(error?.message || '').includes(table);
+}
+
+// Pods written by the sync that just finished; stale rows from earlier syncs are not alerted on.
+const CURRENT_POD_CONDITION = 'p.cluster = $1 AND p.namespace = $2 AND p.updated_at >= $3';
+
+async function podHealthCandidates(db, rule, scope) {
+  const res = await db.query(
+    `SELECT p.id AS pod_id, p.name AS pod_name, p.labels, p.workload_name, p.status::text AS pod_status,
+            c.name AS container_name, c.status::text AS container_status, c.restart_count,
+            c.last_state_reason, c.last_state_message
+     FROM pods p
+     LEFT JOIN containers c ON c.pod_id = p.id
+     WHERE ${CURRENT_POD_CONDITION}
+     ORDER BY p.id, c.name`,
+    [scope.cluster, scope.namespace, scope.syncStartedAt]
+  );
+
+  const pods = new Map();
+  for (const row of res.rows) {
+    const pod = pods.get(row.pod_id) ?? { ...row, failure: null };
+    pods.set(row.pod_id, pod);
+    if (!row.container_name) continue;
+    const restarts = row.restart_count || 0;
+    const reason = row.last_state_reason || '';
+    if (
+      row.container_status === 'Terminated' ||
+      CONTAINER_ERROR_REASONS.has(reason) ||
+      restarts >= CONTAINER_ERROR_RESTARTS
+    ) {
+      const score = 100 + restarts;
+      if (!pod.failure || score > pod.failure.score) {
+        pod.failure = {
+          score,
+          containerName: row.container_name,
+          reason: reason || 'Container failure',
+          details: row.last_state_message,
+          restarts,
+        };
+      }
+    }
+  }
+
+  const candidates = [];
+  for (const pod of pods.values()) {
+    const podFailed = POD_ERROR_STATUSES.includes(pod.pod_status);
+    if (!podFailed && !pod.failure) continue;
+    const reason = podFailed ? pod.pod_status : pod.failure.reason;
+    candidates.push({
+      dedupKey: `${rule.id}:${pod.pod_id}`,
+      deploymentName: deploymentNameFor(pod.pod_name, pod.labels, pod.workload_name),
+      podId: pod.pod_id,
+      podName: pod.pod_name,
+      containerName: podFailed ? null : pod.failure.containerName,
+      title: `Pod ${pod.pod_name} is unhealthy`,
+      message: !podFailed && pod.failure.details ? `${reason}: ${pod.failure.details}` : reason,
+      value: podFailed ? null : pod.failure.restarts,
+    });
+  }
+  return candidates;
+}
+
+async function restartIncreaseCandidates(db, rule, scope) {
+  // Baseline is the last recorded restart count before the window, or the first one inside it
+  // for containers that first appeared during the window.
+  const res = await db.query(
+    `WITH window_history AS (
+       SELECT h.container_id, MAX(h.restart_count) AS latest_restarts, MIN(h.restart_count) AS first_restarts
+       FROM container_status_history h
+       WHERE h.recorded_at >= now() - make_interval(mins => $4)
+       GROUP BY h.container_id
+     )
+     SELECT p.id AS pod_id, p.name AS pod_name, p.labels, p.workload_name, c.id AS container_id, c.name AS container_name,
+            (w.latest_restarts - COALESCE(
+              (
+                SELECT h.restart_count
+                FROM container_status_history h
+                WHERE h.container_id = w.container_id
+                  AND h.recorded_at < now() - make_interval(mins => $4)
+                ORDER BY h.recorded_at DESC
+                LIMIT 1
+              ),
+              w.first_restarts
+            ))::int AS increase
+     FROM window_history w
+     JOIN containers c ON c.id = w.container_id
+     JOIN pods p ON p.id = c.pod_id
+     WHERE ${CURRENT_POD_CONDITION}`,
+    [scope.cluster, scope.namespace, scope.syncStartedAt, rule.windowMinutes]
+  );
+
+  return res.rows
+    .filter((row) => row.increase > 0 && row.increase >= rule.threshold)
+    .map((row) => ({
+      dedupKey: `${rule.id}:${row.container_id}`,
+      deploymentName: deploymentNameFor(row.pod_name, row.labels, row.workload_name),
+      podId: row.pod_id,
+      podName: row.pod_name,
+      containerName: row.container_name,
+      title: `Container ${row.pod_name}/${row.container_name} restarted`,
+      message: `${row.increase} restart${row.increase === 1 ? '' : 's'} in the last ${rule.windowMinutes} minutes`,
+      value: row.increase,
+    }));
+}
+
+async function errorRateCandidates(db, rule, scope) {
+  const res = await db.query(
+    `SELECT p.id AS pod_id, p.name AS pod_name, p.labels, p.workload_name, c.id AS container_id, c.name AS container_name,
+            COUNT(*)::int AS error_count
+     FROM logs l
+     JOIN containers c ON c.id = l.container_id
+     JOIN pods p ON p.id = c.pod_id
+     WHERE ${CURRENT_POD_CONDITION}
+       AND l.level IN ('error', 'fatal')
+       AND l.timestamp >= now() - make_interval(mins => $4)
+     GROUP BY p.id, p.name, p.labels, p.workload_name, c.id, c.name`,
+    [scope.cluster, scope.namespace, scope.syncStartedAt, rule.windowMinutes]
+  );
+
+  return res.rows
+    .map((row) => ({ ...row, perMinute: row.error_count / rule.windowMinutes }))
+    .filter((row) => row.perMinute > rule.threshold)
+    .map((row) => ({
+      dedupKey: `${rule.id}:${row.container_id}`,
+      deploymentName: deploymentNameFor(row.pod_name, row.labels, row.workload_name),
+      podId: row.pod_id,
+      podName: row.pod_name,
+      containerName: row.container_name,
+      title: `High error log rate in ${row.pod_name}/${row.container_name}`,
+      message: `${row.error_count} error lines in the last ${rule.windowMinutes} minutes (${row.perMinute.toFixed(1)}/min)`,
+      value: row.perMinute,
+    }));
+}
+
+async function memoryP95Candidates(db, rule, scope) {
+  let res;
+  try {
+    res = await db.query(
+      `SELECT p.id AS pod_id, p.name AS pod_name, p.labels, p.workload_name, c.id AS container_id, c.name AS container_name,
+              c.memory_limit_bytes,
+              percentile_cont(0.95) WITHIN GROUP (ORDER BY s.memory_bytes) AS memory_p95
+       FROM container_resource_samples s
+       JOIN containers c ON c.id = s.container_id
+       JOIN pods p ON p.id = c.pod_id
+       WHERE ${CURRENT_POD_CONDITION}
+         AND c.memory_limit_bytes > 0
+         AND s.sampled_at >= now() - make_interval(mins => $4)
+       GROUP BY p.id, p.name, p.labels, p.workload_name, c.id, c.name, c.memory_limit_bytes`,
+      [scope.cluster, scope.namespace, scope.syncStartedAt, rule.windowMinutes]
+    );
+  } catch (error) {
+    // The resource collector creates the samples table; without it there is nothing to evaluate.
+    if (isMissingTable(error, 'container_resource_samples')) return [];
+    throw error;
+  }
+
+  return res.rows
+    .map((row) => ({ ...row, percent: (Number(row.memory_p95) / Number(row.memory_limit_bytes)) * 100 }))
+    .filter((row) => row.percent > rule.threshold)
+    .map((row) => ({
+      dedupKey: `${rule.id}:${row.container_id}`,
+      deploymentName: deploymentNameFor(row.pod_name, row.labels, row.workload_name),
+      podId: row.pod_id,
+      podName: row.pod_name,
+      containerName: row.container_name,
+      title: `Memory near limit in ${row.pod_name}/${row.container_name}`,
+      message: `p95 memory over the last ${rule.windowMinutes} minutes is ${row.percent.toFixed(1)}% of the limit`,
+      value: row.percent,
+    }));
+}
+
+const IMPACT_DIMENSION_LABELS = {
+  cpu: 'CPU p95',
+  memory: 'memory p95',
+  error_rate: 'error rate',
+  exception_rate: 'exception rate',
+  restart_rate: 'restart rate',
+  time_to_ready: 'time to ready',
+};
+
+// The newest version of each deployment against the version before it, through the same persisted impact the
+// dashboard and /version-impact show (version-impact.mjs), over the rule's window. Fires on the impact's
+// `degraded` verdict, so a change has to be significant and backed by enough samples, not just 10% off.
+// Only deployments whose newest pod of that version was seen by this sync are evaluated.
+async function versionImpactCandidates(db, rule, scope) {
+  const podsRes = await db.query(
+    `SELECT p.id, p.name, p.labels, p.workload_name, p.created_at, p.updated_at >= $3 AS is_current
+     FROM pods p
+     WHERE p.cluster = $1 AND p.namespace = $2`,
+    [scope.cluster, scope.namespace, scope.syncStartedAt]
+  );
+  const podsByDeployment = new Map();
+  for (const pod of podsRes.rows) {
+    const deploymentName = deploymentNameFor(pod.name, pod.labels, pod.workload_name);
+    const pods = podsByDeployment.get(deploymentName) ?? [];
+    pods.push(pod);
+    podsByDeployment.set(deploymentName, pods);
+  }
+
+  const candidates = [];
+  for (const [deploymentName, pods] of podsByDeployment) {
+    // Impacts are costly to compute, so deployments the rule ignores are skipped up front
+    if (rule.deployments?.length && !rule.deployments.includes(deploymentName)) continue;
+    const versions = deploymentVersions(pods, deploymentName);
+    if (versions.length < 2) continue;
+    const [current, baseline] = versions;
+    const latestPod = pods
+      .filter((pod) => current.pod_ids.includes(pod.id))
+      .reduce((latest, pod) => (new Date(pod.created_at) > new Date(latest.created_at) ? pod : latest));
+    if (!latestPod.is_current) continue;
+
+    const impact = await resolveVersionImpact(
+      db,
+      {
+        cluster: scope.cluster,
+        namespace: scope.namespace,
+        deployment: deploymentName,
+        windowMinutes: rule.windowMinutes,
+      },
+      versions,
+      current.version,
+      baseline.version
+    );
+    if (impact.status !== 'degraded') continue;
+    if (rule.threshold !== null && (impact.score === null || impact.score < rule.threshold)) continue;
+    const degraded = new Set(
+      impact.containers.flatMap((container) =>
+        Object.entries(container.dimensions)
+          .filter(([, dimension]) => dimension.status === 'degraded')
+          .map(([name]) => IMPACT_DIMENSION_LABELS[name])
+      )
+    );
+    candidates.push({
+      dedupKey: `${rule.id}:${scope.cluster}/${scope.namespace}/${deploymentName}`,
+      deploymentName,
+      podId: latestPod.id,
+      podName: latestPod.name,
+      containerName: null,
+      title: `${deploymentName} ${current.version} is degraded`,
+      message:
+        `Significantly worse than ${baseline.version} over the last ${rule.windowMinutes} minutes: ` +
+        [...degraded].join(', '),
+      value: impact.score,
+    });
+  }
+  return candidates;
+}
+
+const CANDIDATE_BUILDERS = {
+  pod_health: podHealthCandidates,
+  restart_increase: restartIncreaseCandidates,
+  error_rate: errorRateCandidates,
+  memory_p95: memoryP95Candidates,
+  version_impact: versionImpactCandidates,
+};
+
+// Evaluates `rules` for one cluster/namespace and returns the alerts that started firing and the
+// ones that resolved during this run.
+export async function evaluateAlerts(pool, rules, scope) {
+  const applicable = rules.filter((rule) => !rule.namespaces?.length || rule.namespaces.includes(scope.namespace));
+  const evaluated = [];
+  for (const rule of applicable) {
+    try {
+      const candidates = await CANDIDATE_BUILDERS[rule.type](pool, rule, scope);
+      evaluated.push({
+        rule,
+        candidates: rule.deployments?.length
+          ? candidates.filter((candidate) => rule.deployments.includes(candidate.deploymentName))
+          : candidates,
+      });
+    } catch (error) {
+      // Firing alerts of a rule that failed to evaluate are left as they are.
+      console.warn(`Skipping alert rule ${rule.id}:`, error.message);
+    }
+  }
+
+  const db = await pool.connect();
+  try {
+    await db.query('BEGIN');
+    const fired = [];
+    for (const { rule, candidates } of evaluated) {
+      for (const candidate of candidates) {
+        // A silence outlives the alert it was set on, so a flapping condition stays quiet.
+        const res = await db.query(
+          `INSERT INTO alerts (
+             dedup_key, rule_id, rule_type, severity, cluster, namespace, deployment_name,
+             pod_id, pod_name, container_name, title, message, value, threshold, silenced_until
+           )
+           VALUES (
+             $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14,
+             (SELECT MAX(silenced_until) FROM alerts WHERE dedup_key = $1 AND silenced_until > now())
+           )
+           ON CONFLICT (dedup_key) WHERE status = 'firing' DO UPDATE SET
+             severity = EXCLUDED.severity,
+             deployment_name = EXCLUDED.deployment_name,
+             pod_id = EXCLUDED.pod_id,
+             pod_name = EXCLUDED.pod_name,
+             container_name = EXCLUDED.container_name,
+             title = EXCLUDED.title,
+             message = EXCLUDED.message,
+             value = EXCLUDED.value,
+             threshold = EXCLUDED.threshold,
+             last_seen_at = now()
+           RETURNING *, (xmax = 0) AS inserted`,
+          [
+            candidate.dedupKey,
+            rule.id,
+            rule.type,
+            rule.severity,
+            scope.cluster,
+            scope.namespace,
+            candidate.deploymentName,
+            candidate.podId,
+            candidate.podName,
+            candidate.containerName,
+            candidate.title,
+            candidate.message,
+            candidate.value,
+            rule.threshold,
+          ]
+        );
+        const { inserted, ...alert } = res.rows[0];
+        if (inserted) fired.push(alert);
+      }
+    }
+
+    // Alerts of rules that were removed from ALERT_RULES (or scoped away from this namespace) resolve too.
+    const resolvedRes = await db.query(
+      `UPDATE alerts
+       SET status = 'resolved', resolved_at = now()
+       WHERE status = 'firing'
+         AND cluster = $1
+         AND namespace = $2
+         AND (
+           (rule_id = ANY($3::text[]) AND NOT (dedup_key = ANY($4::text[])))
+           OR NOT (rule_id = ANY($5::text[]))
+         )
+       RETURNING *`,
+      [
+        scope.cluster,
+        scope.namespace,
+        evaluated.map(({ rule }) => rule.id),
+        evaluated.flatMap(({ candidates }) => candidates.map((candidate) => candidate.dedupKey)),
+        applicable.map((rule) => rule.id),
+      ]
+    );
+
+    await db.query('COMMIT');
+    return { fired, resolved: resolvedRes.rows };
+  } catch (error) {
+    await db.query('ROLLBACK');
+    throw error;
+  } finally {
+    db.release();
+  }
+}
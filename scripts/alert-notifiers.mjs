@@ -0,0 +1,487 @@
+/**
+ * Alert notification channels used by the collector after each alert evaluation.
+ *
+ * ALERT_NOTIFIERS is a JSON array of channels:
+ *   { "id": "ops", "type": "webhook", "url": "https://...", "headers": { "X-Token": "..." } }
+ *   { "id": "team", "type": "slack", "url": "https://hooks.slack.com/...", "channel": "#alerts" }
+ *   { "id": "oncall", "type": "email", "to": ["oncall@example.com"], "from": "pod-watch@example.com",
+ *     "smtp": { "host": "smtp.example.com", "port": 587, "user": "...", "password": "..." } }
+ * Every channel also takes optional `namespaces`, `deployments`, `severities` and `rules` filters,
+ * `sendResolved` (default true), `maxAttempts` (default 3) and `template: { title, body }`.
+ *
+ * Each delivery ends up as one row in alert_deliveries with its final status and attempt count.
+ */
+import net from 'node:net';
+import tls from 'node:tls';
+import os from 'node:os';
+import crypto from 'node:crypto';
+
+export const NOTIFIER_TYPES = ['webhook', 'slack', 'email'];
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY_MS = 2000;
+const REQUEST_TIMEOUT_MS = 10000;
+const LOG_LINE_MAX_LENGTH = 300;
+
+// {{placeholders}} available to templates; see buildTemplateValues
+const DEFAULT_TITLE_TEMPLATE = '[{{statusLabel}}] {{title}}';
+const DEFAULT_BODY_TEMPLATES = {
+  webhook: '{{attentionReason}}\n\nPod: {{podName}} ({{cluster}}/{{namespace}})\n{{link}}',
+  slack:
+    '{{attentionReason}}\n*Pod:* `{{podName}}` in `{{cluster}}/{{namespace}}`\n*Last log lines:*\n```\n{{logLines}}\n```\n{{link}}',
+  email:
+    '{{attentionReason}}\n\nCluster/namespace: {{cluster}}/{{namespace}}\nDeployment: {{deploymentName}}\nPod: {{podName}}\nContainer: {{containerName}}\nStarted: {{startedAt}}\n\nLast log lines:\n{{logLines}}\n\n{{link}}',
+};
+const SLACK_COLORS = { critical: '#d92d20', warning: '#f79009', info: '#2e90fa', resolved: '#12b76a' };
+
+function compileNotifier(config, index) {
+  const source = `ALERT_NOTIFIERS[${index}]`;
+  if (!config || typeof config !== 'object') {
+    throw new Error(`${source} must be an object`);
+  }
+  if (!NOTIFIER_TYPES.includes(config.type)) {
+    throw new Error(`${source}.type must be one of ${NOTIFIER_TYPES.join(', ')}`);
+  }
+  if ((config.type === 'webhook' || config.type === 'slack') && !config.url) {
+    throw new Error(`${source}.url is required for ${config.type} notifiers`);
+  }
+  if (config.type === 'email') {
+    if (!config.smtp?.host) throw new Error(`${source}.smtp.host is required for email notifiers`);
+    if (!config.from) throw new Error(`${source}.from is required for email notifiers`);
+    if (!Array.isArray(config.to) || config.to.length === 0) {
+      throw new Error(`${source}.to must be a non-empty array of addresses`);
+    }
+  }
+  for (const key of ['namespaces', 'deployments', 'severities', 'rules']) {
+    if (config[key] !== undefined && !Array.isArray(config[key])) {
+      throw new Error(`${source}.${key} must be an array`);
+    }
+  }
+  const maxAttempts = config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  if (!(Number.isInteger(maxAttempts) && maxAttempts > 0)) {
+    throw new Error(`${source}.maxAttempts must be a positive whole number`);
+  }
+  return {
+    ...config,
+    id: String(config.id || `${config.type}-${index}`),
+    sendResolved: config.sendResolved !== false,
+    maxAttempts,
+    retryDelayMs: config.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS,
+    template: {
+      title: config.template?.title || DEFAULT_TITLE_TEMPLATE,
+      body: config.template?.body || DEFAULT_BODY_TEMPLATES[config.type],
+    },
+  };
+}
+
+export function compileNotifiers(raw) {
+  if (!raw || !raw.trim()) return [];
+  let config;
+  try {
+    config = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`ALERT_NOTIFIERS is not valid JSON: ${error.message}`);
+  }
+  if (!Array.isArray(config)) {
+    throw new Error('ALERT_NOTIFIERS must be a JSON array of notifiers');
+  }
+  const notifiers = config.filter((notifier) => notifier?.enabled !== false).map(compileNotifier);
+  const ids = new Set();
+  for (const notifier of notifiers) {
+    if (ids.has(notifier.id)) throw new Error(`ALERT_NOTIFIERS contains duplicate id "${notifier.id}"`);
+    ids.add(notifier.id);
+  }
+  return notifiers;
+}
+
+function notifierMatches(notifier, alert) {
+  if (notifier.namespaces?.length && !notifier.namespaces.includes(alert.namespace)) return false;
+  if (notifier.deployments?.length && !notifier.deployments.includes(alert.deployment_name)) return false;
+  if (notifier.severities?.length && !notifier.severities.includes(alert.severity)) return false;
+  if (notifier.rules?.length && !notifier.rules.includes(alert.rule_id)) return false;
+  return true;
+}
+
+export function renderTemplate(template, values) {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key) => (values[key] ?? '').toString());
+}
+
+// Link into the UI, scoped to the alert's cluster/namespace; empty without ALERT_LINK_BASE_URL.
+// Alerts about a pod open the dashboard on that pod (and container), otherwise the alerts page.
+function buildAlertLink(baseUrl, alert) {
+  if (!baseUrl) return '';
+  const base = baseUrl.replace(/\/$/, '');
+  const params = new URLSearchParams({ cluster: alert.cluster, namespace: alert.namespace });
+  if (!alert.deployment_name || !alert.pod_name) return `${base}/alerts?${params.toString()}`;
+  const deployment = [alert.cluster, alert.namespace, alert.deployment_name].map(encodeURIComponent).join('/');
+  let path = `/deployments/${deployment}/pods/${encodeURIComponent(alert.pod_name)}`;
+  if (alert.container_name) path += `/containers/${encodeURIComponent(alert.container_name)}`;
+  if (alert.rule_type === 'error_rate') params.set('level', 'error');
+  return `${base}${path}?${params.toString()}`;
+}
+
+function buildTemplateValues(alert, event, logLines, link) {
+  const formatDate = (value) => (value ? new Date(value).toISOString() : '');
+  return {
+    event,
+    statusLabel: event === 'resolved' ? 'RESOLVED' : event === 'test' ? 'TEST' : 'FIRING',
+    title: alert.title,
+    message: alert.message || '',
+    // Same wording the dashboard shows next to an unhealthy pod
+    attentionReason: alert.message || alert.title,
+    severity: alert.severity,
+    rule: alert.rule_id,
+    ruleType: alert.rule_type,
+    cluster: alert.cluster,
+    namespace: alert.namespace,
+    deploymentName: alert.deployment_name || '-',
+    podName: alert.pod_name || '-',
+    containerName: alert.container_name || '-',
+    value: alert.value ?? '',
+    threshold: alert.threshold ?? '',
+    startedAt: formatDate(alert.started_at),
+    resolvedAt: formatDate(alert.resolved_at),
+    logLines:
+      logLines.length > 0
+        ? logLines
+            .map((line) => `${formatDate(line.timestamp)} ${line.level.toUpperCase()} ${line.message.slice(0, LOG_LINE_MAX_LENGTH)}`)
+            .join('\n')
+        : '(no recent log lines)',
+    link,
+  };
+}
+
+export function buildNotification(notifier, alert, event, logLines, linkBaseUrl) {
+  const link = buildAlertLink(linkBaseUrl, alert);
+  const values = buildTemplateValues(alert, event, logLines, link);
+  return {
+    event,
+    alert,
+    logLines,
+    link,
+    attentionReason: values.attentionReason,
+    title: renderTemplate(notifier.template.title, values),
+    // Templates usually end with {{link}}, which is empty without ALERT_LINK_BASE_URL
+    body: renderTemplate(notifier.template.body, values).trimEnd(),
+  };
+}
+
+class DeliveryError extends Error {
+  constructor(message, { retryable = true, responseStatus = null } = {}) {
+    super(message);
+    this.retryable = retryable;
+    this.responseStatus = responseStatus;
+  }
+}
+
+async function postJson(url, payload, headers = {}) {
+  let response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new DeliveryError(`Request failed: ${error.message}`);
+  }
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    // Client errors other than rate limiting will not succeed on retry
+    const retryable = response.status >= 500 || response.status === 429;
+    throw new DeliveryError(`HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`, {
+      retryable,
+      responseStatus: response.status,
+    });
+  }
+  return response.status;
+}
+
+function toWebhookPayload(notification) {
+  const { alert } = notification;
+  return {
+    event: notification.event,
+    title: notification.title,
+    text: notification.body,
+    attentionReason: notification.attentionReason,
+    link: notification.link || null,
+    alert: {
+      id: alert.id,
+      ruleId: alert.rule_id,
+      ruleType: alert.rule_type,
+      severity: alert.severity,
+      status: alert.status,
+      cluster: alert.cluster,
+      namespace: alert.namespace,
+      deploymentName: alert.deployment_name,
+      podName: alert.pod_name,
+      containerName: alert.container_name,
+      title: alert.title,
+      message: alert.message,
+      value: alert.value,
+      threshold: alert.threshold,
+      startedAt: alert.started_at,
+      resolvedAt: alert.resolved_at,
+    },
+    logLines: notification.logLines.map((line) => ({
+      timestamp: line.timestamp,
+      level: line.level,
+      message: line.message,
+    })),
+  };
+}
+
+// Slack and Mattermost incoming webhooks accept the same `text` + `attachments` payload.
+function toSlackPayload(notifier, notification) {
+  const color =
+    notification.event === 'resolved' ? SLACK_COLORS.resolved : SLACK_COLORS[notification.alert.severity] || SLACK_COLORS.info;
+  return {
+    ...(notifier.channel ? { channel: notifier.channel } : {}),
+    ...(notifier.username ? { username: notifier.username } : {}),
+    ...(notifier.iconEmoji ? { icon_emoji: notifier.iconEmoji } : {}),
+    text: notification.title,
+    attachments: [{ color, fallback: notification.title, text: notification.body }],
+  };
+}
+
+// Minimal SMTP client: EHLO, optional STARTTLS and AUTH PLAIN, one message per connection.
+function openSmtpReader(socket) {
+  const state = { buffer: '', lines: [], waiter: null, error: null, socket };
+  const deliver = () => {
+    if (!state.waiter) return;
+    if (state.error) {
+      const { reject } = state.waiter;
+      state.waiter = null;
+      reject(state.error);
+      return;
+    }
+    const finalIndex = state.lines.findIndex((line) => /^\d{3}( |$)/.test(line));
+    if (finalIndex < 0) return;
+    const replyLines = state.lines.splice(0, finalIndex + 1);
+    const { resolve } = state.waiter;
+    state.waiter = null;
+    resolve({ code: parseInt(replyLines[replyLines.length - 1].slice(0, 3), 10), lines: replyLines });
+  };
+  const onData = (chunk) => {
+    state.buffer += chunk.toString('utf8');
+    let newline;
+    while ((newline = state.buffer.indexOf('\r\n')) >= 0) {
+      state.lines.push(state.buffer.slice(0, newline));
+      state.buffer = state.buffer.slice(newline + 2);
+    }
+    deliver();
+  };
+  const onError = (error) => {
+    state.error = error;
+    deliver();
+  };
+  const onClose = () => onError(new Error('SMTP connection closed'));
+  const attach = (target) => {
+    target.on('data', onData);
+    target.on('error', onError);
+    target.on('close', onClose);
+  };
+  attach(socket);
+
+  return {
+    read() {
+      return new Promise((resolve, reject) => {
+        state.waiter = { resolve, reject };
+        deliver();
+      });
+    },
+    write(text) {
+      state.socket.write(text);
+    },
+    // STARTTLS: keep reading from the upgraded socket instead of the plain one.
+    upgrade(nextSocket) {
+      state.socket.removeListener('data', onData);
+      state.socket.removeListener('error', onError);
+      state.socket.removeListener('close', onClose);
+      state.socket = nextSocket;
+      attach(nextSocket);
+    },
+    get socket() {
+      return state.socket;
+    },
+  };
+}
+
+function encodeHeader(value) {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function buildEmailMessage({ from, to, subject, body }) {
+  const encodedBody = Buffer.from(body, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n');
+  return [
+    `From: ${from}`,
+    `To: ${to.join(', ')}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${os.hostname()}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodedBody,
+  ].join('\r\n');
+}
+
+async function sendSmtpMail(smtp, { from, to, subject, body }) {
+  const port = smtp.port ?? (smtp.secure ? 465 : 587);
+  const connectOptions = { host: smtp.host, port, servername: smtp.host, rejectUnauthorized: smtp.rejectUnauthorized !== false };
+  const socket = await new Promise((resolve, reject) => {
+    const connection = smtp.secure ? tls.connect(connectOptions) : net.connect({ host: smtp.host, port });
+    connection.setTimeout(REQUEST_TIMEOUT_MS, () => connection.destroy(new Error('SMTP connection timed out')));
+    connection.once(smtp.secure ? 'secureConnect' : 'connect', () => resolve(connection));
+    connection.once('error', reject);
+  });
+  const session = openSmtpReader(socket);
+
+  const command = async (line, expectedCodes) => {
+    if (line !== null) session.write(`${line}\r\n`);
+    const reply = await session.read();
+    if (!expectedCodes.includes(reply.code)) {
+      // 5xx replies are permanent; 4xx replies may succeed later
+      throw new DeliveryError(`SMTP ${line?.split(' ')[0] || 'greeting'} failed: ${reply.lines.join(' ')}`, {
+        retryable: reply.code < 500,
+        responseStatus: reply.code,
+      });
+    }
+    return reply;
+  };
+
+  try {
+    await command(null, [220]);
+    const heloName = smtp.heloName || os.hostname();
+    let ehlo = await command(`EHLO ${heloName}`, [250]);
+    const supportsStartTls = ehlo.lines.some((line) => /^250[- ]STARTTLS/i.test(line));
+    if (!smtp.secure && smtp.starttls !== false && (supportsStartTls || smtp.starttls === true)) {
+      await command('STARTTLS', [220]);
+      const secureSocket = await new Promise((resolve, reject) => {
+        const upgraded = tls.connect({ ...connectOptions, socket: session.socket }, () => resolve(upgraded));
+        upgraded.once('error', reject);
+      });
+      session.upgrade(secureSocket);
+      ehlo = await command(`EHLO ${heloName}`, [250]);
+    }
+    if (smtp.user) {
+      const credentials = Buffer.from(`\u0000${smtp.user}\u0000${smtp.password || ''}`, 'utf8').toString('base64');
+      await command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+    await command(`MAIL FROM:<${from}>`, [250]);
+    for (const recipient of to) {
+      await command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await command('DATA', [354]);
+    // Dot-stuffing: lines starting with "." get an extra one
+    const message = buildEmailMessage({ from, to, subject, body }).replace(/^\./gm, '..');
+    const accepted = await command(`${message}\r\n.`, [250]);
+    await command('QUIT', [221]).catch(() => {});
+    return accepted.code;
+  } finally {
+    session.socket.destroy();
+  }
+}
+
+async function sendOnce(notifier, notification) {
+  switch (notifier.type) {
+    case 'webhook':
+      return postJson(notifier.url, toWebhookPayload(notification), notifier.headers);
+    case 'slack':
+      return postJson(notifier.url, toSlackPayload(notifier, notification));
+    case 'email':
+      return sendSmtpMail(notifier.smtp, {
+        from: notifier.from,
+        to: notifier.to,
+        subject: notification.title,
+        body: notification.body,
+      });
+    default:
+      throw new DeliveryError(`Unknown notifier type: ${notifier.type}`, { retryable: false });
+  }
+}
+
+// Sends with retries and exponential backoff; never throws, the outcome is returned for the delivery log.
+export async function deliverNotification(notifier, notification) {
+  let attempts = 0;
+  let lastError = null;
+  while (attempts < notifier.maxAttempts) {
+    attempts += 1;
+    try {
+      const responseStatus = await sendOnce(notifier, notification);
+      return { status: 'sent', attempts, responseStatus, error: null };
+    } catch (error) {
+      lastError = error;
+      if (error.retryable === false || attempts >= notifier.maxAttempts) break;
+      await new Promise((resolve) => setTimeout(resolve, notifier.retryDelayMs * 2 ** (attempts - 1)));
+    }
+  }
+  return {
+    status: 'failed',
+    attempts,
+    responseStatus: lastError?.responseStatus ?? null,
+    error: lastError?.message || 'Unknown error',
+  };
+}
+
+async function fetchRecentLogLines(pool, alert, limit) {
+  if (!alert.pod_id || limit <= 0) return [];
+  const res = await pool.query(
+    `SELECT l.timestamp, l.level::text AS level, l.message
+     FROM logs l
+     JOIN containers c ON c.id = l.container_id
+     WHERE c.pod_id = $1
+       AND ($2::text IS NULL OR c.name = $2)
+     ORDER BY l.timestamp DESC
+     LIMIT $3`,
+    [alert.pod_id, alert.container_name, limit]
+  );
+  return res.rows.reverse();
+}
+
+function isSilenced(alert) {
+  return alert.silenced_until && new Date(alert.silenced_until).getTime() > Date.now();
+}
+
+// Notifies every matching channel about newly fired and resolved alerts and records each delivery.
+export async function notifyAlerts(pool, notifiers, { fired, resolved }, { linkBaseUrl = '', logLineCount = 10 } = {}) {
+  const events = [
+    ...fired.map((alert) => ({ alert, event: 'firing' })),
+    ...resolved.map((alert) => ({ alert, event: 'resolved' })),
+  ].filter(({ alert }) => !isSilenced(alert));
+
+  let sent = 0;
+  let failed = 0;
+  for (const { alert, event } of events) {
+    const targets = notifiers.filter(
+      (notifier) => notifierMatches(notifier, alert) && (event === 'firing' || notifier.sendResolved)
+    );
+    if (targets.length === 0) continue;
+    const logLines = await fetchRecentLogLines(pool, alert, logLineCount);
+
+    for (const notifier of targets) {
+      const notification = buildNotification(notifier, alert, event, logLines, linkBaseUrl);
+      const outcome = await deliverNotification(notifier, notification);
+      if (outcome.status === 'sent') sent += 1;
+      else failed += 1;
+      await pool.query(
+        `INSERT INTO alert_deliveries (
+           alert_id, notifier_id, notifier_type, event, status, attempts, response_status, error, delivered_at
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CASE WHEN $5::text = 'sent' THEN now() END)`,
+        [
+          alert.id,
+          notifier.id,
+          notifier.type,
+          event,
+          outcome.status,
+          outcome.attempts,
+          outcome.responseStatus,
+          outcome.error,
+        ]
+      );
+    }
+  }
+  return { sent, failed };
+}
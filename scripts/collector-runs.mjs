@@ -0,0 +1,55 @@
+/**
+ * Records each collector pass in collector_runs (start, end, outcome, counts) so the API's health
+ * action can tell a live snapshot from one a stopped collector left behind.
+ * Recording is best effort: a failed write is logged and never fails the collection itself.
+ */
+
+const MAX_ERROR_LENGTH = 2000;
+
+// Returns the run id, or null when the row could not be written.
+export async function startCollectorRun(pool, { collector, cluster, namespace }) {
+  try {
+    const res = await pool.query(
+      `INSERT INTO collector_runs (collector, cluster, namespace)
+       VALUES ($1, $2, $3)
+       RETURNING id`,
+      [collector, cluster, namespace]
+    );
+    return res.rows[0].id;
+  } catch (error) {
+    console.warn('Failed to record collector run start:', error.message);
+    return null;
+  }
+}
+
+export async function finishCollectorRun(
+  pool,
+  runId,
+  { status, podsSeen = null, logsInserted = null, samplesInserted = null, errorCount = 0, error = null }
+) {
+  if (!runId) return;
+  try {
+    await pool.query(
+      `UPDATE collector_runs
+       SET finished_at = now(),
+           status = $2,
+           pods_seen = $3,
+           logs_inserted = $4,
+           samples_inserted = $5,
+           error_count = $6,
+           error = $7
+       WHERE id = $1`,
+      [
+        runId,
+        status,
+        podsSeen,
+        logsInserted,
+        samplesInserted,
+        errorCount,
+        error ? String(error).slice(0, MAX_ERROR_LENGTH) : null,
+      ]
+    );
+  } catch (updateError) {
+    console.warn('Failed to record collector run result:', updateError.message);
+  }
+}
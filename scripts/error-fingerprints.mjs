@@ -0,0 +1,90 @@
+/**
+ * Groups error and exception log lines into fingerprints: the message with ids, timestamps, addresses and
+ * numbers normalized away, counted per container and pod version in error_fingerprints.
+ */
+import crypto from 'node:crypto';
+
+// Postgres-compatible regex sources; the database API counts and searches exception lines with the same ones.
+export const EXCEPTION_PATTERN = '(exception|stacktrace|traceback|(^|\\s)at\\s+\\S+)';
+// Stack frames and "Caused by:" lines belong to the exception above them, so they are not counted again.
+export const STACK_CONTINUATION_PATTERN =
+  '^(\\s+|Caused by:|Suppressed:|\\.\\.\\. [0-9]+ more|goroutine [0-9]+ \\[|at [^ ]+\\()';
+const EXCEPTION_REGEX = new RegExp(EXCEPTION_PATTERN, 'i');
+const STACK_CONTINUATION_REGEX = new RegExp(STACK_CONTINUATION_PATTERN);
+const ERROR_FINGERPRINT_PATTERN_MAX_LENGTH = 500;
+
+// Strips the parts of an error message that change between occurrences of the same error.
+export function normalizeErrorMessage(message) {
+  return message
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>')
+    .replace(/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:?\d{2})?/g, '<ts>')
+    .replace(/\b\d{1,3}(\.\d{1,3}){3}(:\d+)?\b/g, '<ip>')
+    .replace(/\b0x[0-9a-f]+\b|\b[0-9a-f]{12,}\b/gi, '<hex>')
+    .replace(/\d+(\.\d+)?/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, ERROR_FINGERPRINT_PATTERN_MAX_LENGTH);
+}
+
+function isErrorForFingerprint(level, message) {
+  if (STACK_CONTINUATION_REGEX.test(message)) return false;
+  return level === 'error' || level === 'fatal' || EXCEPTION_REGEX.test(message);
+}
+
+// Folds newly inserted error/exception lines into per-container, per-version fingerprint counters.
+// Sample messages are cut to maxSampleLength, like the log lines themselves.
+export async function recordErrorFingerprints(db, containerId, version, insertedRows, maxSampleLength) {
+  const byFingerprint = new Map();
+  for (const row of insertedRows) {
+    const structuredMessage = row.fields?.msg ?? row.fields?.message;
+    const text = typeof structuredMessage === 'string' ? structuredMessage : row.message;
+    if (!isErrorForFingerprint(row.level, text)) continue;
+    const pattern = normalizeErrorMessage(text);
+    if (!pattern) continue;
+    const fingerprint = crypto.createHash('md5').update(pattern).digest('hex');
+    const seenAt = new Date(row.timestamp).toISOString();
+    const existing = byFingerprint.get(fingerprint);
+    if (existing) {
+      existing.count += 1;
+      if (seenAt < existing.firstSeen) existing.firstSeen = seenAt;
+      if (seenAt > existing.lastSeen) {
+        existing.lastSeen = seenAt;
+        existing.sample = text;
+        existing.level = row.level;
+      }
+    } else {
+      byFingerprint.set(fingerprint, { pattern, sample: text, level: row.level, count: 1, firstSeen: seenAt, lastSeen: seenAt });
+    }
+  }
+  if (byFingerprint.size === 0) return;
+
+  const entries = [...byFingerprint.entries()];
+  await db.query(
+    `INSERT INTO error_fingerprints (
+       container_id, version, fingerprint, pattern, sample_message, level, occurrences, first_seen, last_seen
+     )
+     SELECT $1, $2, t.fingerprint, t.pattern, t.sample, t.lvl::log_level, t.cnt, t.first_seen::timestamptz, t.last_seen::timestamptz
+     FROM unnest($3::text[], $4::text[], $5::text[], $6::text[], $7::int[], $8::text[], $9::text[])
+       AS t(fingerprint, pattern, sample, lvl, cnt, first_seen, last_seen)
+     ON CONFLICT (container_id, fingerprint) DO UPDATE SET
+       occurrences = error_fingerprints.occurrences + EXCLUDED.occurrences,
+       first_seen = LEAST(error_fingerprints.first_seen, EXCLUDED.first_seen),
+       last_seen = GREATEST(error_fingerprints.last_seen, EXCLUDED.last_seen),
+       sample_message = CASE
+         WHEN EXCLUDED.last_seen >= error_fingerprints.last_seen THEN EXCLUDED.sample_message
+         ELSE error_fingerprints.sample_message
+       END,
+       level = GREATEST(error_fingerprints.level, EXCLUDED.level)`,
+    [
+      containerId,
+      version,
+      entries.map(([fingerprint]) => fingerprint),
+      entries.map(([, entry]) => entry.pattern),
+      entries.map(([, entry]) => entry.sample.slice(0, maxSampleLength)),
+      entries.map(([, entry]) => entry.level),
+      entries.map(([, entry]) => entry.count),
+      entries.map(([, entry]) => entry.firstSeen),
+      entries.map(([, entry]) => entry.lastSeen),
+    ]
+  );
+}
@@ -3,12 +3,26 @@ import { readFileSync } from 'node:fs';
 import https from 'node:https';
 import crypto from 'node:crypto';
 import pg from 'pg';
+import { compileAlertRules, evaluateAlerts } from './alert-engine.mjs';
+import { compileNotifiers, notifyAlerts } from './alert-notifiers.mjs';
+import { compileRedactionRules, redactLogMessage } from './log-redaction.mjs';
+import { classifyLogLevel, compileLogLevelRules, levelRulesForDeployment, parseStructuredLog } from './log-levels.mjs';
+import { recordErrorFingerprints } from './error-fingerprints.mjs';
+import { finishCollectorRun, startCollectorRun } from './collector-runs.mjs';
+import {
+  createOwnerLookup,
+  OWNER_LIST_PATHS,
+  podDeploymentName,
+  podVersion,
+  resolvePodWorkload,
+} from './workload-owners.mjs';
 
 const { Pool } = pg;
 
 const K8S_HOST = process.env.K8S_HOST || process.env.KUBERNETES_SERVICE_HOST || 'kubernetes.default.svc';
 const K8S_PORT = process.env.K8S_PORT || process.env.KUBERNETES_SERVICE_PORT || '443';
 const TARGET_NAMESPACE = process.env.TARGET_NAMESPACE || process.env.POD_NAMESPACE || 'default';
+const CLUSTER_NAME = process.env.CLUSTER_NAME || 'default';
 const LOG_TAIL_LINES = parseInt(process.env.LOG_TAIL_LINES || '100', 10);
 const MAX_LOG_MESSAGE_LENGTH = parseInt(process.env.MAX_LOG_MESSAGE_LENGTH || '8192', 10);
 const parsedLogRetentionDays = parseInt(process.env.LOG_RETENTION_DAYS || '14', 10);
@@ -58,12 +72,19 @@ function makeUuidFromString(value) {
   return `${md5.slice(0, 8)}-${md5.slice(8, 12)}-${md5.slice(12, 16)}-${md5.slice(16, 20)}-${md5.slice(20, 32)}`;
 }
 
-function inferLogLevel(message) {
-  const m = message.toLowerCase();
-  if (m.includes('error') || m.includes('exception') || m.includes('fatal')) return 'error';
-  if (m.includes('warn')) return 'warn';
-  return 'info';
-}
+const LOG_LEVEL_RULES = compileLogLevelRules(process.env.LOG_LEVEL_RULES);
+const LOG_REDACTION_RULES = compileRedactionRules(process.env.LOG_REDACTION);
+const ALERT_RULES = compileAlertRules(process.env.ALERT_RULES);
+const ALERT_NOTIFIERS = compileNotifiers(process.env.ALERT_NOTIFIERS);
+const ALERT_LINK_BASE_URL = process.env.ALERT_LINK_BASE_URL || '';
+const ALERT_NOTIFY_LOG_LINES = parseInt(process.env.ALERT_NOTIFY_LOG_LINES || '10', 10);
+// A rollout still progressing after this long is reported as stuck (Deployments also use their progress deadline)
+const ROLLOUT_STUCK_AFTER_MINUTES = parseInt(process.env.ROLLOUT_STUCK_AFTER_MINUTES || '15', 10);
+const WORKLOAD_LIST_PATHS = {
+  Deployment: `/apis/apps/v1/namespaces/${TARGET_NAMESPACE}/deployments`,
+  StatefulSet: `/apis/apps/v1/namespaces/${TARGET_NAMESPACE}/statefulsets`,
+  DaemonSet: `/apis/apps/v1/namespaces/${TARGET_NAMESPACE}/daemonsets`,
+};
 
 function parseCpuToMillicores(quantity) {
   if (!quantity) return null;
@@ -165,7 +186,15 @@ function shouldCollectContainerLogs(containerName) {
   return !SIDECAR_LOG_STOP_WORDS.some((word) => normalized.includes(word));
 }
 
-async function collectContainerLogs(db, token, ca, podName, containerName, containerId, { previous = false } = {}) {
+async function collectContainerLogs(
+  db,
+  token,
+  ca,
+  podName,
+  containerName,
+  containerId,
+  { previous = false, levelRules = LOG_LEVEL_RULES.global, version = 'unknown' } = {}
+) {
   const query = new URLSearchParams({
     container: containerName,
     tailLines: String(LOG_TAIL_LINES),
@@ -190,13 +219,21 @@ async function collectContainerLogs(db, token, ca, podName, containerName, conta
   const timestamps = [];
   const levels = [];
   const messages = [];
+  const fieldValues = [];
+  const redactionValues = [];
 
   for (const rawLine of lines) {
     const parsed = parseK8sLogLine(rawLine);
     if (!parsed.message) continue;
+    // Redact before parsing so secrets never reach the stored message or structured fields
+    const { message, redactions } = redactLogMessage(parsed.message, LOG_REDACTION_RULES);
     timestamps.push(parsed.timestamp);
-    levels.push(inferLogLevel(parsed.message));
-    messages.push(parsed.message.slice(0, MAX_LOG_MESSAGE_LENGTH));
+    const fields = parseStructuredLog(message);
+    levels.push(classifyLogLevel(message, fields, levelRules));
+    messages.push(message.slice(0, MAX_LOG_MESSAGE_LENGTH));
+    fieldValues.push(fields ? JSON.stringify(fields) : null);
+    // Detector ids are restricted to [A-Za-z0-9_-], so a comma-joined string round-trips through unnest
+    redactionValues.push(redactions.length > 0 ? redactions.join(',') : null);
   }
 
   if (messages.length === 0) {
@@ -204,15 +241,202 @@ async function collectContainerLogs(db, token, ca, podName, containerName, conta
   }
 
   const insertResult = await db.query(
-    `INSERT INTO logs (container_id, timestamp, level, message)
-     SELECT $1, t.ts::timestamptz, t.lvl::log_level, t.msg
-     FROM unnest($2::text[], $3::text[], $4::text[]) AS t(ts, lvl, msg)
-     ON CONFLICT (container_id, timestamp, md5(message)) DO NOTHING`,
-    [containerId, timestamps, levels, messages]
+    `INSERT INTO logs (container_id, timestamp, level, message, fields, redactions)
+     SELECT $1, t.ts::timestamptz, t.lvl::log_level, t.msg, t.fields::jsonb, string_to_array(t.redactions, ',')
+     FROM unnest($2::text[], $3::text[], $4::text[], $5::text[], $6::text[]) AS t(ts, lvl, msg, fields, redactions)
+     ON CONFLICT (container_id, timestamp, md5(message)) DO NOTHING
+     RETURNING timestamp, level, message, fields`,
+    [containerId, timestamps, levels, messages, fieldValues, redactionValues]
   );
+  await recordErrorFingerprints(db, containerId, version, insertResult.rows, MAX_LOG_MESSAGE_LENGTH);
   return insertResult.rowCount || 0;
 }
 
+async function collectEvents(db, token, ca) {
+  const eventsRaw = await k8sGet(`/api/v1/namespaces/${TARGET_NAMESPACE}/events`, token, ca);
+  const eventList = JSON.parse(eventsRaw);
+  let upserted = 0;
+
+  for (const event of eventList.items || []) {
+    const eventId = event.metadata?.uid;
+    if (!eventId) continue;
+    const lastSeen =
+      event.lastTimestamp || event.eventTime || event.metadata?.creationTimestamp || new Date().toISOString();
+
+    await db.query(
+      `INSERT INTO events (
+         id, cluster, namespace, involved_kind, involved_name, involved_uid, type, reason, message,
+         count, source_component, first_timestamp, last_timestamp, updated_at
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, now())
+       ON CONFLICT (id) DO UPDATE SET
+         type = EXCLUDED.type,
+         reason = EXCLUDED.reason,
+         message = EXCLUDED.message,
+         count = EXCLUDED.count,
+         last_timestamp = EXCLUDED.last_timestamp,
+         updated_at = now()`,
+      [
+        eventId,
+        CLUSTER_NAME,
+        event.metadata?.namespace || TARGET_NAMESPACE,
+        event.involvedObject?.kind || 'Unknown',
+        event.involvedObject?.name || '',
+        event.involvedObject?.uid || null,
+        event.type || 'Normal',
+        event.reason || '',
+        (event.message || '').slice(0, MAX_LOG_MESSAGE_LENGTH),
+        event.count ?? event.series?.count ?? 1,
+        event.source?.component || event.reportingComponent || null,
+        event.firstTimestamp || lastSeen,
+        lastSeen,
+      ]
+    );
+    upserted += 1;
+  }
+
+  return upserted;
+}
+
+function workloadReplicaCounts(kind, workload) {
+  const status = workload.status || {};
+  if (kind === 'DaemonSet') {
+    return {
+      desired: status.desiredNumberScheduled ?? 0,
+      ready: status.numberReady ?? 0,
+      available: status.numberAvailable ?? 0,
+      updated: status.updatedNumberScheduled ?? 0,
+    };
+  }
+  return {
+    desired: workload.spec?.replicas ?? 1,
+    ready: status.readyReplicas ?? 0,
+    available: status.availableReplicas ?? 0,
+    updated: status.updatedReplicas ?? 0,
+  };
+}
+
+// Same checks as `kubectl rollout status`. A rollout that stays 'progressing' for ROLLOUT_STUCK_AFTER_MINUTES
+// is turned into 'stuck' by collectWorkloads, which knows when it started.
+function workloadRolloutState(kind, workload, counts) {
+  const status = workload.status || {};
+  const conditions = status.conditions || [];
+
+  if (kind === 'Deployment') {
+    if (workload.spec?.paused) return { status: 'paused', message: 'Rollout is paused' };
+    const progressing = conditions.find((condition) => condition.type === 'Progressing');
+    if (progressing?.reason === 'ProgressDeadlineExceeded') {
+      return { status: 'stuck', message: progressing.message || 'Progress deadline exceeded' };
+    }
+    const replicaFailure = conditions.find(
+      (condition) => condition.type === 'ReplicaFailure' && condition.status === 'True'
+    );
+    if (replicaFailure) {
+      return { status: 'stuck', message: replicaFailure.message || replicaFailure.reason || 'Replica failure' };
+    }
+  }
+
+  if ((status.observedGeneration ?? 0) < (workload.metadata?.generation ?? 0)) {
+    return { status: 'progressing', message: 'Waiting for the controller to observe the new spec' };
+  }
+  // StatefulSets with a partition only update the ordinals at or above it
+  const partition = kind === 'StatefulSet' ? workload.spec?.updateStrategy?.rollingUpdate?.partition ?? 0 : 0;
+  if (counts.updated < counts.desired - partition) {
+    return { status: 'progressing', message: `${counts.updated} of ${counts.desired} replicas updated` };
+  }
+  if (kind === 'Deployment' && (status.replicas ?? 0) > counts.updated) {
+    return { status: 'progressing', message: `${status.replicas - counts.updated} old replicas pending termination` };
+  }
+  if (counts.available < counts.desired) {
+    return { status: 'progressing', message: `${counts.available} of ${counts.desired} replicas available` };
+  }
+  if (kind === 'StatefulSet' && partition === 0 && status.updateRevision && status.currentRevision !== status.updateRevision) {
+    return { status: 'progressing', message: 'Waiting for the rolling update to finish' };
+  }
+  return { status: 'complete', message: null };
+}
+
+// Upserts one kind of workload (desired/ready/updated replicas, conditions, rollout state) and drops the ones that are gone.
+async function collectWorkloads(db, token, ca, kind) {
+  const workloadList = JSON.parse(await k8sGet(WORKLOAD_LIST_PATHS[kind], token, ca));
+  const workloadIds = [];
+
+  for (const workload of workloadList.items || []) {
+    const workloadId = workload.metadata?.uid;
+    if (!workloadId) continue;
+    const counts = workloadReplicaCounts(kind, workload);
+    const rollout = workloadRolloutState(kind, workload, counts);
+    const conditions = (workload.status?.conditions || []).map((condition) => ({
+      type: condition.type,
+      status: condition.status,
+      reason: condition.reason || null,
+      message: condition.message || null,
+      lastTransitionTime: condition.lastTransitionTime || null,
+    }));
+
+    // rollout_started_at is kept across syncs while the rollout runs, so its age can mark it stuck
+    await db.query(
+      `INSERT INTO workloads (
+         id, cluster, namespace, kind, name, desired_replicas, ready_replicas, available_replicas, updated_replicas,
+         conditions, rollout_status, rollout_message, rollout_started_at, updated_at
+       )
+       VALUES (
+         $1, $2, $3, $4, $5, $6, $7, $8, $9, $10::jsonb, $11, $12,
+         CASE WHEN $11 IN ('progressing', 'stuck') THEN now() END, now()
+       )
+       ON CONFLICT (id) DO UPDATE SET
+         name = EXCLUDED.name,
+         desired_replicas = EXCLUDED.desired_replicas,
+         ready_replicas = EXCLUDED.ready_replicas,
+         available_replicas = EXCLUDED.available_replicas,
+         updated_replicas = EXCLUDED.updated_replicas,
+         conditions = EXCLUDED.conditions,
+         rollout_started_at = CASE
+           WHEN EXCLUDED.rollout_status IN ('progressing', 'stuck') THEN COALESCE(workloads.rollout_started_at, now())
+         END,
+         rollout_status = CASE
+           WHEN EXCLUDED.rollout_status = 'progressing'
+             AND workloads.rollout_started_at < now() - make_interval(mins => $13::int) THEN 'stuck'
+           ELSE EXCLUDED.rollout_status
+         END,
+         rollout_message = CASE
+           WHEN EXCLUDED.rollout_status = 'progressing'
+             AND workloads.rollout_started_at < now() - make_interval(mins => $13::int)
+             THEN EXCLUDED.rollout_message || ' after more than ' || $13::int || ' minutes'
+           ELSE EXCLUDED.rollout_message
+         END,
+         updated_at = now()`,
+      [
+        workloadId,
+        CLUSTER_NAME,
+        workload.metadata?.namespace || TARGET_NAMESPACE,
+        kind,
+        workload.metadata?.name || 'unknown',
+        counts.desired,
+        counts.ready,
+        counts.available,
+        counts.updated,
+        JSON.stringify(conditions),
+        rollout.status,
+        rollout.message,
+        ROLLOUT_STUCK_AFTER_MINUTES,
+      ]
+    );
+    workloadIds.push(workloadId);
+  }
+
+  await db.query(
+    `DELETE FROM workloads
+     WHERE cluster = $1
+       AND namespace = $2
+       AND kind = $3
+       AND NOT (id = ANY($4::uuid[]))`,
+    [CLUSTER_NAME, TARGET_NAMESPACE, kind, workloadIds]
+  );
+
+  return workloadIds.length;
+}
+
 function mapPodStatus(phase, containerStatuses = []) {
   for (const cs of containerStatuses) {
     if (cs?.state?.waiting?.reason === 'CrashLoopBackOff') return 'CrashLoopBackOff';
@@ -278,6 +502,7 @@ function k8sGet(pathname, token, ca) {
 async function ensureSchema(pool) {
   await pool.query(`
     CREATE EXTENSION IF NOT EXISTS pgcrypto;
+    CREATE EXTENSION IF NOT EXISTS pg_trgm;
 
     DO $$
     BEGIN
@@ -288,11 +513,14 @@ async function ensureSchema(pool) {
         CREATE TYPE container_status AS ENUM ('Running', 'Waiting', 'Terminated');
       END IF;
       IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'log_level') THEN
-        CREATE TYPE log_level AS ENUM ('info', 'warn', 'error');
+        CREATE TYPE log_level AS ENUM ('debug', 'info', 'warn', 'error', 'fatal');
       END IF;
     END
     $$;
 
+    ALTER TYPE log_level ADD VALUE IF NOT EXISTS 'debug' BEFORE 'info';
+    ALTER TYPE log_level ADD VALUE IF NOT EXISTS 'fatal' AFTER 'error';
+
     CREATE TABLE IF NOT EXISTS pods (
       id UUID PRIMARY KEY,
       name TEXT NOT NULL,
@@ -302,10 +530,18 @@ async function ensureSchema(pool) {
       pod_ip TEXT,
       labels JSONB DEFAULT '{}',
       restarts INTEGER DEFAULT 0,
+      cluster TEXT NOT NULL DEFAULT 'default',
       created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
       updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
     );
 
+    ALTER TABLE pods
+      ADD COLUMN IF NOT EXISTS cluster TEXT NOT NULL DEFAULT 'default',
+      ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ,
+      ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+      ADD COLUMN IF NOT EXISTS workload_kind TEXT,
+      ADD COLUMN IF NOT EXISTS workload_name TEXT;
+
     CREATE TABLE IF NOT EXISTS containers (
       id UUID PRIMARY KEY,
       pod_id UUID NOT NULL REFERENCES pods(id) ON DELETE CASCADE,
@@ -341,9 +577,175 @@ async function ensureSchema(pool) {
       created_at TIMESTAMPTZ NOT NULL DEFAULT now()
     );
 
+    ALTER TABLE logs
+      ADD COLUMN IF NOT EXISTS fields JSONB,
+      ADD COLUMN IF NOT EXISTS redactions TEXT[];
+
+    CREATE TABLE IF NOT EXISTS container_status_history (
+      id BIGSERIAL PRIMARY KEY,
+      container_id UUID NOT NULL REFERENCES containers(id) ON DELETE CASCADE,
+      pod_id UUID NOT NULL,
+      status container_status NOT NULL,
+      ready BOOLEAN,
+      restart_count INTEGER,
+      reason TEXT,
+      exit_code INTEGER,
+      message TEXT,
+      started_at TIMESTAMPTZ,
+      recorded_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+
+    CREATE TABLE IF NOT EXISTS error_fingerprints (
+      container_id UUID NOT NULL REFERENCES containers(id) ON DELETE CASCADE,
+      fingerprint TEXT NOT NULL,
+      version TEXT NOT NULL DEFAULT 'unknown',
+      pattern TEXT NOT NULL,
+      sample_message TEXT NOT NULL,
+      level log_level NOT NULL,
+      occurrences BIGINT NOT NULL DEFAULT 0,
+      first_seen TIMESTAMPTZ NOT NULL,
+      last_seen TIMESTAMPTZ NOT NULL,
+      PRIMARY KEY (container_id, fingerprint)
+    );
+
+    CREATE TABLE IF NOT EXISTS alerts (
+      id BIGSERIAL PRIMARY KEY,
+      dedup_key TEXT NOT NULL,
+      rule_id TEXT NOT NULL,
+      rule_type TEXT NOT NULL,
+      severity TEXT NOT NULL DEFAULT 'warning',
+      status TEXT NOT NULL DEFAULT 'firing' CHECK (status IN ('firing', 'resolved')),
+      cluster TEXT NOT NULL DEFAULT 'default',
+      namespace TEXT NOT NULL,
+      deployment_name TEXT,
+      pod_id UUID,
+      pod_name TEXT,
+      container_name TEXT,
+      title TEXT NOT NULL,
+      message TEXT,
+      value DOUBLE PRECISION,
+      threshold DOUBLE PRECISION,
+      started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      last_seen_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      resolved_at TIMESTAMPTZ,
+      acknowledged_at TIMESTAMPTZ,
+      silenced_until TIMESTAMPTZ
+    );
+
+    CREATE TABLE IF NOT EXISTS alert_deliveries (
+      id BIGSERIAL PRIMARY KEY,
+      alert_id BIGINT NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+      notifier_id TEXT NOT NULL,
+      notifier_type TEXT NOT NULL,
+      event TEXT NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 1,
+      response_status INTEGER,
+      error TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      delivered_at TIMESTAMPTZ
+    );
+
+    CREATE TABLE IF NOT EXISTS collector_runs (
+      id BIGSERIAL PRIMARY KEY,
+      collector TEXT NOT NULL,
+      cluster TEXT NOT NULL DEFAULT 'default',
+      namespace TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+      started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      finished_at TIMESTAMPTZ,
+      pods_seen INTEGER,
+      logs_inserted INTEGER,
+      samples_inserted INTEGER,
+      error_count INTEGER NOT NULL DEFAULT 0,
+      error TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS workloads (
+      id UUID PRIMARY KEY,
+      cluster TEXT NOT NULL DEFAULT 'default',
+      namespace TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      name TEXT NOT NULL,
+      desired_replicas INTEGER NOT NULL DEFAULT 0,
+      ready_replicas INTEGER NOT NULL DEFAULT 0,
+      available_replicas INTEGER NOT NULL DEFAULT 0,
+      updated_replicas INTEGER NOT NULL DEFAULT 0,
+      conditions JSONB NOT NULL DEFAULT '[]'::jsonb,
+      rollout_status TEXT NOT NULL DEFAULT 'complete' CHECK (rollout_status IN ('complete', 'progressing', 'stuck', 'paused')),
+      rollout_message TEXT,
+      rollout_started_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+
+    CREATE OR REPLACE FUNCTION record_container_status_change()
+    RETURNS TRIGGER AS $fn$
+    BEGIN
+      IF TG_OP = 'INSERT'
+         OR NEW.status IS DISTINCT FROM OLD.status
+         OR NEW.ready IS DISTINCT FROM OLD.ready
+         OR NEW.restart_count IS DISTINCT FROM OLD.restart_count
+         OR NEW.last_state_reason IS DISTINCT FROM OLD.last_state_reason THEN
+        INSERT INTO container_status_history (
+          container_id, pod_id, status, ready, restart_count, reason, exit_code, message, started_at
+        )
+        VALUES (
+          NEW.id, NEW.pod_id, NEW.status, NEW.ready, NEW.restart_count,
+          NEW.last_state_reason, NEW.last_state_exit_code, NEW.last_state_message, NEW.started_at
+        );
+      END IF;
+      RETURN NEW;
+    END;
+    $fn$ LANGUAGE plpgsql;
+
+    DO $$
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'record_containers_status_history') THEN
+        CREATE TRIGGER record_containers_status_history
+        AFTER INSERT OR UPDATE ON containers FOR EACH ROW EXECUTE FUNCTION record_container_status_change();
+      END IF;
+    END
+    $$;
+
+    CREATE TABLE IF NOT EXISTS events (
+      id TEXT PRIMARY KEY,
+      cluster TEXT NOT NULL DEFAULT 'default',
+      namespace TEXT NOT NULL,
+      involved_kind TEXT NOT NULL,
+      involved_name TEXT NOT NULL,
+      involved_uid TEXT,
+      type TEXT NOT NULL DEFAULT 'Normal',
+      reason TEXT NOT NULL DEFAULT '',
+      message TEXT NOT NULL DEFAULT '',
+      count INTEGER NOT NULL DEFAULT 1,
+      source_component TEXT,
+      first_timestamp TIMESTAMPTZ NOT NULL DEFAULT now(),
+      last_timestamp TIMESTAMPTZ NOT NULL DEFAULT now(),
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+
     CREATE INDEX IF NOT EXISTS idx_pods_namespace ON pods(namespace);
+    CREATE INDEX IF NOT EXISTS idx_pods_cluster_namespace ON pods(cluster, namespace);
     CREATE INDEX IF NOT EXISTS idx_pods_status ON pods(status);
+    CREATE INDEX IF NOT EXISTS idx_pods_deleted_at ON pods(deleted_at) WHERE deleted_at IS NOT NULL;
     CREATE INDEX IF NOT EXISTS idx_containers_pod_id ON containers(pod_id);
+    CREATE INDEX IF NOT EXISTS idx_container_status_history_container_recorded
+      ON container_status_history(container_id, recorded_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_error_fingerprints_last_seen
+      ON error_fingerprints(last_seen);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_alerts_firing_dedup_key
+      ON alerts(dedup_key) WHERE status = 'firing';
+    CREATE INDEX IF NOT EXISTS idx_alerts_cluster_namespace_started
+      ON alerts(cluster, namespace, started_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_alert_deliveries_alert_created
+      ON alert_deliveries(alert_id, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_collector_runs_collector_scope_started
+      ON collector_runs(collector, cluster, namespace, started_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_workloads_cluster_namespace_kind_name ON workloads(cluster, namespace, kind, name);
+    CREATE INDEX IF NOT EXISTS idx_events_involved_uid_last ON events(involved_uid, last_timestamp DESC);
+    CREATE INDEX IF NOT EXISTS idx_events_last_timestamp ON events(last_timestamp DESC);
     DROP INDEX IF EXISTS idx_logs_container_id;
     DROP INDEX IF EXISTS idx_logs_timestamp;
     DROP INDEX IF EXISTS idx_logs_container_timestamp_message;
@@ -357,6 +759,12 @@ async function ensureSchema(pool) {
 
     CREATE UNIQUE INDEX IF NOT EXISTS idx_logs_container_timestamp_message_hash
       ON logs(container_id, timestamp, md5(message));
+    CREATE INDEX IF NOT EXISTS idx_logs_container_timestamp_id
+      ON logs(container_id, timestamp DESC, id DESC);
+    CREATE INDEX IF NOT EXISTS idx_logs_message_trgm
+      ON logs USING gin (message gin_trgm_ops);
+    CREATE INDEX IF NOT EXISTS idx_logs_fields
+      ON logs USING gin (fields jsonb_path_ops);
   `);
 }
 
@@ -364,17 +772,45 @@ async function main() {
   const token = readFileSync(SA_TOKEN_PATH, 'utf8').trim();
   const ca = readFileSync(SA_CA_PATH, 'utf8');
   const pool = new Pool(buildDbConfig());
+  const run = { id: null, podsSeen: 0, logsInserted: 0, errorCount: 0, lastError: null };
+  // Per-container and per-step failures skip that part of the sync and are counted on the run
+  const noteSkipped = (message, error) => {
+    console.warn(message, error.message);
+    run.errorCount += 1;
+    run.lastError = `${message} ${error.message}`;
+  };
 
   try {
     await ensureSchema(pool);
+    run.id = await startCollectorRun(pool, {
+      collector: 'collector',
+      cluster: CLUSTER_NAME,
+      namespace: TARGET_NAMESPACE,
+    });
 
     const podsRaw = await k8sGet(`/api/v1/namespaces/${TARGET_NAMESPACE}/pods`, token, ca);
     const podList = JSON.parse(podsRaw);
     const pods = (podList.items || []).filter((pod) => shouldCollectPod(pod.metadata?.name || ''));
+    // Every pod the API still lists, including ones skipped by the name patterns, so those are not marked deleted
+    const listedPodIds = (podList.items || []).map((pod) => pod.metadata?.uid).filter(Boolean);
+
+    // ReplicaSets and Jobs link pods to their Deployment / CronJob; if a list fails, those pods keep their direct owner
+    const ownerLists = {};
+    for (const [kind, listPath] of Object.entries(OWNER_LIST_PATHS)) {
+      try {
+        ownerLists[kind] = JSON.parse(await k8sGet(listPath(TARGET_NAMESPACE), token, ca)).items || [];
+      } catch (error) {
+        noteSkipped(`Skipping ${kind} owner lookup:`, error);
+      }
+    }
+    const lookupOwnerReferences = createOwnerLookup(ownerLists);
 
     const db = await pool.connect();
+    let syncStartedAt;
     try {
       await db.query('BEGIN');
+      // now() is fixed for the transaction, so every pod written by this sync has updated_at = syncStartedAt.
+      syncStartedAt = (await db.query('SELECT now() AS now')).rows[0].now;
 
       const oldLogsCleanupResult = await db.query(
         `DELETE FROM logs
@@ -384,35 +820,90 @@ async function main() {
 
       const infoCleanupResult = await db.query(
         `DELETE FROM logs
-         WHERE level = 'info'
+         WHERE level IN ('debug', 'info')
            AND timestamp < now() - make_interval(days => $1)`,
         [Math.max(0, INFO_LOG_RETENTION_DAYS)]
       );
 
+      const oldEventsCleanupResult = await db.query(
+        `DELETE FROM events
+         WHERE last_timestamp < now() - make_interval(days => $1)`,
+        [LOG_RETENTION_DAYS]
+      );
+
+      const oldHistoryCleanupResult = await db.query(
+        `DELETE FROM container_status_history
+         WHERE recorded_at < now() - make_interval(days => $1)`,
+        [LOG_RETENTION_DAYS]
+      );
+
+      const oldFingerprintsCleanupResult = await db.query(
+        `DELETE FROM error_fingerprints
+         WHERE last_seen < now() - make_interval(days => $1)`,
+        [LOG_RETENTION_DAYS]
+      );
+
+      // Deleted pods stay visible as history until their logs would have expired; containers, logs and samples cascade
+      const deletedPodsCleanupResult = await db.query(
+        `DELETE FROM pods
+         WHERE deleted_at < now() - make_interval(days => $1)`,
+        [LOG_RETENTION_DAYS]
+      );
+
+      const oldCollectorRunsCleanupResult = await db.query(
+        `DELETE FROM collector_runs
+         WHERE started_at < now() - make_interval(days => $1)`,
+        [LOG_RETENTION_DAYS]
+      );
+
+      const resolvedAlertsCleanupResult = await db.query(
+        `DELETE FROM alerts
+         WHERE status = 'resolved'
+           AND resolved_at < now() - make_interval(days => $1)`,
+        [LOG_RETENTION_DAYS]
+      );
+
       let podCount = 0;
       let containerCount = 0;
       let logCount = 0;
+      let eventCount = 0;
+      let workloadCount = 0;
       let cleanedOldLogCount = oldLogsCleanupResult.rowCount || 0;
       let cleanedInfoLogCount = infoCleanupResult.rowCount || 0;
+      const cleanedEventCount = oldEventsCleanupResult.rowCount || 0;
+      const cleanedHistoryCount = oldHistoryCleanupResult.rowCount || 0;
+      const cleanedFingerprintCount = oldFingerprintsCleanupResult.rowCount || 0;
+      const cleanedAlertCount = resolvedAlertsCleanupResult.rowCount || 0;
+      const cleanedDeletedPodCount = deletedPodsCleanupResult.rowCount || 0;
+      const cleanedCollectorRunCount = oldCollectorRunsCleanupResult.rowCount || 0;
 
       for (const pod of pods) {
         const podId = pod.metadata?.uid;
         if (!podId) continue;
         const containerStatuses = pod.status?.containerStatuses || [];
         const restarts = containerStatuses.reduce((sum, cs) => sum + (cs.restartCount || 0), 0);
+        const workload = await resolvePodWorkload(pod, lookupOwnerReferences);
 
         await db.query(
-          `INSERT INTO pods (id, name, namespace, status, node_name, pod_ip, labels, restarts, created_at, updated_at)
-           VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, $8, $9, now())
+          `INSERT INTO pods (
+             id, name, namespace, status, node_name, pod_ip, labels, restarts, created_at, cluster,
+             workload_kind, workload_name, updated_at, last_seen_at
+           )
+           VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, $8, $9, $10, $11, $12, now(), now())
            ON CONFLICT (id) DO UPDATE SET
              name = EXCLUDED.name,
              namespace = EXCLUDED.namespace,
+             cluster = EXCLUDED.cluster,
              status = EXCLUDED.status,
              node_name = EXCLUDED.node_name,
              pod_ip = EXCLUDED.pod_ip,
              labels = EXCLUDED.labels,
              restarts = EXCLUDED.restarts,
-             updated_at = now()`,
+             workload_kind = EXCLUDED.workload_kind,
+             workload_name = EXCLUDED.workload_name,
+             updated_at = now(),
+             last_seen_at = now(),
+             deleted_at = NULL`,
           [
             podId,
             pod.metadata?.name || 'unknown',
@@ -423,6 +914,9 @@ async function main() {
             JSON.stringify(pod.metadata?.labels || {}),
             restarts,
             pod.metadata?.creationTimestamp || new Date().toISOString(),
+            CLUSTER_NAME,
+            workload.kind,
+            workload.name,
           ]
         );
         podCount += 1;
@@ -483,28 +977,60 @@ async function main() {
 
           try {
             const podName = pod.metadata?.name || '';
-            logCount += await collectContainerLogs(db, token, ca, podName, cs.name, containerId);
+            const logOptions = {
+              levelRules: levelRulesForDeployment(LOG_LEVEL_RULES, podDeploymentName(pod, workload)),
+              version: podVersion(pod),
+            };
+            logCount += await collectContainerLogs(db, token, ca, podName, cs.name, containerId, logOptions);
 
             const shouldCollectPreviousLogs =
               (cs.restartCount || 0) > 0 || Boolean(cs.lastState?.terminated);
             if (shouldCollectPreviousLogs) {
               try {
                 logCount += await collectContainerLogs(db, token, ca, podName, cs.name, containerId, {
+                  ...logOptions,
                   previous: true,
                 });
               } catch (error) {
-                console.warn(`Skipping previous logs for ${podName}/${cs.name}:`, error.message);
+                noteSkipped(`Skipping previous logs for ${podName}/${cs.name}:`, error);
               }
             }
           } catch (error) {
-            console.warn(`Skipping logs for ${pod.metadata?.name}/${cs.name}:`, error.message);
+            noteSkipped(`Skipping logs for ${pod.metadata?.name}/${cs.name}:`, error);
           }
         }
       }
 
+      const deletedPodsResult = await db.query(
+        `UPDATE pods
+         SET deleted_at = now()
+         WHERE cluster = $1
+           AND namespace = $2
+           AND deleted_at IS NULL
+           AND NOT (id = ANY($3::uuid[]))`,
+        [CLUSTER_NAME, TARGET_NAMESPACE, listedPodIds]
+      );
+      const deletedPodCount = deletedPodsResult.rowCount || 0;
+
+      try {
+        eventCount = await collectEvents(db, token, ca);
+      } catch (error) {
+        noteSkipped('Skipping events:', error);
+      }
+
+      for (const kind of Object.keys(WORKLOAD_LIST_PATHS)) {
+        try {
+          workloadCount += await collectWorkloads(db, token, ca, kind);
+        } catch (error) {
+          noteSkipped(`Skipping ${kind} workloads:`, error);
+        }
+      }
+
       await db.query('COMMIT');
+      run.podsSeen = podCount;
+      run.logsInserted = logCount;
       console.log(
-        `Sync complete namespace=${TARGET_NAMESPACE} includePatterns=${POD_NAME_INCLUDE_PATTERNS.join('|') || 'all'} excludePatterns=${POD_NAME_EXCLUDE_PATTERNS.join('|') || 'none'} logRetentionDays=${LOG_RETENTION_DAYS} infoLogRetentionDays=${INFO_LOG_RETENTION_DAYS} cleanedOldLogs=${cleanedOldLogCount} cleanedInfoLogs=${cleanedInfoLogCount} pods=${podCount} containers=${containerCount} logs=${logCount}`
+        `Sync complete cluster=${CLUSTER_NAME} namespace=${TARGET_NAMESPACE} includePatterns=${POD_NAME_INCLUDE_PATTERNS.join('|') || 'all'} excludePatterns=${POD_NAME_EXCLUDE_PATTERNS.join('|') || 'none'} logRetentionDays=${LOG_RETENTION_DAYS} infoLogRetentionDays=${INFO_LOG_RETENTION_DAYS} cleanedOldLogs=${cleanedOldLogCount} cleanedInfoLogs=${cleanedInfoLogCount} cleanedEvents=${cleanedEventCount} cleanedStatusHistory=${cleanedHistoryCount} cleanedErrorFingerprints=${cleanedFingerprintCount} cleanedAlerts=${cleanedAlertCount} cleanedDeletedPods=${cleanedDeletedPodCount} cleanedCollectorRuns=${cleanedCollectorRunCount} pods=${podCount} deletedPods=${deletedPodCount} containers=${containerCount} logs=${logCount} events=${eventCount} workloads=${workloadCount}`
       );
     } catch (error) {
       await db.query('ROLLBACK');
@@ -512,6 +1038,46 @@ async function main() {
     } finally {
       db.release();
     }
+
+    if (ALERT_RULES.length > 0) {
+      try {
+        const { fired, resolved } = await evaluateAlerts(pool, ALERT_RULES, {
+          cluster: CLUSTER_NAME,
+          namespace: TARGET_NAMESPACE,
+          syncStartedAt,
+        });
+        console.log(`Alerts evaluated rules=${ALERT_RULES.length} fired=${fired.length} resolved=${resolved.length}`);
+
+        if (ALERT_NOTIFIERS.length > 0 && fired.length + resolved.length > 0) {
+          const { sent, failed } = await notifyAlerts(
+            pool,
+            ALERT_NOTIFIERS,
+            { fired, resolved },
+            { linkBaseUrl: ALERT_LINK_BASE_URL, logLineCount: ALERT_NOTIFY_LOG_LINES }
+          );
+          console.log(`Alert notifications sent=${sent} failed=${failed}`);
+        }
+      } catch (error) {
+        noteSkipped('Skipping alerts:', error);
+      }
+    }
+
+    await finishCollectorRun(pool, run.id, {
+      status: 'succeeded',
+      podsSeen: run.podsSeen,
+      logsInserted: run.logsInserted,
+      errorCount: run.errorCount,
+      error: run.lastError,
+    });
+  } catch (error) {
+    await finishCollectorRun(pool, run.id, {
+      status: 'failed',
+      podsSeen: run.podsSeen,
+      logsInserted: run.logsInserted,
+      errorCount: run.errorCount + 1,
+      error: error.message || String(error),
+    });
+    throw error;
   } finally {
     await pool.end();
   }
@@ -3,15 +3,26 @@ import { readFileSync } from 'node:fs';
 import https from 'node:https';
 import crypto from 'node:crypto';
 import pg from 'pg';
+import { finishCollectorRun, startCollectorRun } from './collector-runs.mjs';
 
 const { Pool } = pg;
 
 const K8S_HOST = process.env.K8S_HOST || process.env.KUBERNETES_SERVICE_HOST || 'kubernetes.default.svc';
 const K8S_PORT = process.env.K8S_PORT || process.env.KUBERNETES_SERVICE_PORT || '443';
 const TARGET_NAMESPACE = process.env.TARGET_NAMESPACE || process.env.POD_NAMESPACE || 'default';
+const CLUSTER_NAME = process.env.CLUSTER_NAME || 'default';
 const SAMPLE_INTERVAL_SECONDS = parseInt(process.env.SAMPLE_INTERVAL_SECONDS || '30', 10);
 const POD_NAME_INCLUDE_PATTERNS = parsePatternList(process.env.POD_NAME_INCLUDE_PATTERNS);
 const POD_NAME_EXCLUDE_PATTERNS = parsePatternList(process.env.POD_NAME_EXCLUDE_PATTERNS);
+const SAMPLE_RETENTION_DAYS = parseRetentionDays('SAMPLE_RETENTION_DAYS', 7);
+// Downsampled tiers of container_resource_samples, each kept for its own retention
+const ROLLUP_TIERS = [
+  { resolution: '1m', seconds: 60, retentionDays: parseRetentionDays('SAMPLE_ROLLUP_1M_RETENTION_DAYS', 14) },
+  { resolution: '5m', seconds: 300, retentionDays: parseRetentionDays('SAMPLE_ROLLUP_5M_RETENTION_DAYS', 60) },
+  { resolution: '1h', seconds: 3600, retentionDays: parseRetentionDays('SAMPLE_ROLLUP_1H_RETENTION_DAYS', 365) },
+];
+const ROLLUP_INTERVAL_SECONDS = 60;
+const CLEANUP_INTERVAL_SECONDS = 60 * 60;
 
 const SA_TOKEN_PATH = '/var/run/secrets/kubernetes.io/serviceaccount/token';
 const SA_CA_PATH = '/var/run/secrets/kubernetes.io/serviceaccount/ca.crt';
@@ -99,6 +110,11 @@ function parseMemoryToBytes(quantity) {
   return Math.round(num);
 }
 
+function parseRetentionDays(name, fallback) {
+  const parsed = parseInt(process.env[name] || String(fallback), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
 function parsePatternList(value) {
   return String(value || '')
     .split(',')
@@ -166,6 +182,7 @@ async function ensureSchema(pool) {
     CREATE TABLE IF NOT EXISTS container_resource_samples (
       id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
       sampled_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      cluster TEXT NOT NULL DEFAULT 'default',
       namespace TEXT NOT NULL,
       pod_uid TEXT NOT NULL,
       pod_name TEXT NOT NULL,
@@ -178,6 +195,9 @@ async function ensureSchema(pool) {
       created_at TIMESTAMPTZ NOT NULL DEFAULT now()
     );
 
+    ALTER TABLE container_resource_samples
+      ADD COLUMN IF NOT EXISTS cluster TEXT NOT NULL DEFAULT 'default';
+
     CREATE INDEX IF NOT EXISTS idx_container_resource_samples_pod_uid
       ON container_resource_samples(pod_uid);
 
@@ -186,6 +206,72 @@ async function ensureSchema(pool) {
 
     CREATE INDEX IF NOT EXISTS idx_container_resource_samples_sampled_at
       ON container_resource_samples(sampled_at DESC);
+
+    CREATE INDEX IF NOT EXISTS idx_container_resource_samples_container_sampled
+      ON container_resource_samples(container_id, sampled_at DESC);
+
+    -- One row per container, resolution and bucket, rolled up from container_resource_samples
+    CREATE TABLE IF NOT EXISTS container_resource_rollups (
+      container_id UUID NOT NULL,
+      resolution TEXT NOT NULL CHECK (resolution IN ('1m', '5m', '1h')),
+      bucket_start TIMESTAMPTZ NOT NULL,
+      cluster TEXT NOT NULL DEFAULT 'default',
+      namespace TEXT NOT NULL,
+      pod_uid TEXT NOT NULL,
+      pod_name TEXT NOT NULL,
+      container_name TEXT NOT NULL,
+      sample_count INTEGER NOT NULL,
+      cpu_min_millicores INTEGER NOT NULL,
+      cpu_avg_millicores DOUBLE PRECISION NOT NULL,
+      cpu_p95_millicores DOUBLE PRECISION NOT NULL,
+      cpu_max_millicores INTEGER NOT NULL,
+      memory_min_bytes BIGINT NOT NULL,
+      memory_avg_bytes DOUBLE PRECISION NOT NULL,
+      memory_p95_bytes DOUBLE PRECISION NOT NULL,
+      memory_max_bytes BIGINT NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      PRIMARY KEY (container_id, resolution, bucket_start)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_container_resource_rollups_cluster_namespace_resolution_bucket
+      ON container_resource_rollups(cluster, namespace, resolution, bucket_start DESC);
+
+    CREATE TABLE IF NOT EXISTS collector_runs (
+      id BIGSERIAL PRIMARY KEY,
+      collector TEXT NOT NULL,
+      cluster TEXT NOT NULL DEFAULT 'default',
+      namespace TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+      started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      finished_at TIMESTAMPTZ,
+      pods_seen INTEGER,
+      logs_inserted INTEGER,
+      samples_inserted INTEGER,
+      error_count INTEGER NOT NULL DEFAULT 0,
+      error TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_collector_runs_collector_scope_started
+      ON collector_runs(collector, cluster, namespace, started_at DESC);
+
+    -- Filled by the API's getVersionImpact from these samples
+    CREATE TABLE IF NOT EXISTS version_impacts (
+      id BIGSERIAL PRIMARY KEY,
+      cluster TEXT NOT NULL DEFAULT 'default',
+      namespace TEXT NOT NULL,
+      deployment TEXT NOT NULL,
+      version TEXT NOT NULL,
+      baseline_version TEXT NOT NULL,
+      window_minutes INTEGER NOT NULL,
+      score DOUBLE PRECISION,
+      status TEXT NOT NULL CHECK (status IN ('degraded', 'improved', 'stable', 'unknown')),
+      result JSONB NOT NULL,
+      computed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      UNIQUE (cluster, namespace, deployment, version, baseline_version, window_minutes)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_version_impacts_cluster_namespace_deployment
+      ON version_impacts(cluster, namespace, deployment, computed_at DESC);
   `);
 }
 
@@ -427,6 +513,7 @@ async function fetchUsageRows(token, ca) {
   }
 }
 
+// Returns the number of samples written and of pods they belong to.
 async function collectOnce(pool, token, ca) {
   const rows = await fetchUsageRows(token, ca);
 
@@ -440,10 +527,11 @@ async function collectOnce(pool, token, ca) {
 
       await db.query(
         `INSERT INTO container_resource_samples (
-             sampled_at, namespace, pod_uid, pod_name, container_name, container_id,
+             sampled_at, cluster, namespace, pod_uid, pod_name, container_name, container_id,
              cpu_raw, memory_raw, cpu_millicores, memory_bytes
-           ) VALUES (now(), $1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+           ) VALUES (now(), $1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
         [
+          CLUSTER_NAME,
           TARGET_NAMESPACE,
           row.podUid,
           row.podName,
@@ -466,9 +554,80 @@ async function collectOnce(pool, token, ca) {
     db.release();
   }
 
-  return sampleCount;
+  return { sampleCount, podCount: new Set(rows.map((row) => row.podUid)).size };
+}
+
+// Recomputes every tier's buckets from the newest one already stored (the one still filling) onwards, or from
+// the oldest raw sample kept on the first run. Buckets are rebuilt from raw samples, so p95s are exact. The
+// watermark is this collector's own cluster and namespace: other clusters may use the same namespace name.
+async function rollupSamples(pool) {
+  const counts = {};
+  for (const tier of ROLLUP_TIERS) {
+    const result = await pool.query(
+      `INSERT INTO container_resource_rollups (
+           container_id, resolution, bucket_start, cluster, namespace, pod_uid, pod_name, container_name, sample_count,
+           cpu_min_millicores, cpu_avg_millicores, cpu_p95_millicores, cpu_max_millicores,
+           memory_min_bytes, memory_avg_bytes, memory_p95_bytes, memory_max_bytes, updated_at
+         )
+         SELECT container_id, $1, to_timestamp(floor(EXTRACT(EPOCH FROM sampled_at) / $2) * $2) AS bucket_start,
+                $5::text, MIN(namespace), MIN(pod_uid), MIN(pod_name), MIN(container_name), COUNT(*)::int,
+                MIN(cpu_millicores), AVG(cpu_millicores)::float8,
+                percentile_cont(0.95) WITHIN GROUP (ORDER BY cpu_millicores)::float8, MAX(cpu_millicores),
+                MIN(memory_bytes), AVG(memory_bytes)::float8,
+                percentile_cont(0.95) WITHIN GROUP (ORDER BY memory_bytes)::float8, MAX(memory_bytes),
+                now()
+         FROM container_resource_samples
+         WHERE cluster = $5 AND namespace = $3
+           AND sampled_at >= COALESCE(
+             (
+               SELECT MAX(bucket_start)
+               FROM container_resource_rollups
+               WHERE cluster = $5 AND namespace = $3 AND resolution = $1
+             ),
+             now() - make_interval(days => $4)
+           )
+         GROUP BY container_id, bucket_start
+         ON CONFLICT (container_id, resolution, bucket_start) DO UPDATE SET
+           sample_count = EXCLUDED.sample_count,
+           cpu_min_millicores = EXCLUDED.cpu_min_millicores,
+           cpu_avg_millicores = EXCLUDED.cpu_avg_millicores,
+           cpu_p95_millicores = EXCLUDED.cpu_p95_millicores,
+           cpu_max_millicores = EXCLUDED.cpu_max_millicores,
+           memory_min_bytes = EXCLUDED.memory_min_bytes,
+           memory_avg_bytes = EXCLUDED.memory_avg_bytes,
+           memory_p95_bytes = EXCLUDED.memory_p95_bytes,
+           memory_max_bytes = EXCLUDED.memory_max_bytes,
+           updated_at = EXCLUDED.updated_at`,
+      [tier.resolution, tier.seconds, TARGET_NAMESPACE, SAMPLE_RETENTION_DAYS, CLUSTER_NAME]
+    );
+    counts[tier.resolution] = result.rowCount;
+  }
+  return counts;
+}
+
+async function cleanupSamples(pool) {
+  const samplesResult = await pool.query(
+    `DELETE FROM container_resource_samples
+     WHERE cluster = $1 AND namespace = $2 AND sampled_at < now() - make_interval(days => $3)`,
+    [CLUSTER_NAME, TARGET_NAMESPACE, SAMPLE_RETENTION_DAYS]
+  );
+  const counts = { raw: samplesResult.rowCount };
+  for (const tier of ROLLUP_TIERS) {
+    const result = await pool.query(
+      `DELETE FROM container_resource_rollups
+       WHERE cluster = $1 AND namespace = $2 AND resolution = $3 AND bucket_start < now() - make_interval(days => $4)`,
+      [CLUSTER_NAME, TARGET_NAMESPACE, tier.resolution, tier.retentionDays]
+    );
+    counts[tier.resolution] = result.rowCount;
+  }
+  return counts;
 }
 
+const formatCounts = (counts) =>
+  Object.entries(counts)
+    .map(([resolution, count]) => `${resolution}=${count}`)
+    .join(' ');
+
 async function main() {
   const token = readFileSync(SA_TOKEN_PATH, 'utf8').trim();
   const ca = readFileSync(SA_CA_PATH, 'utf8');
@@ -476,16 +635,43 @@ async function main() {
 
   await ensureSchema(pool);
   console.log(
-    `Resource collector started namespace=${TARGET_NAMESPACE} interval=${SAMPLE_INTERVAL_SECONDS}s includePatterns=${POD_NAME_INCLUDE_PATTERNS.join('|') || 'all'} excludePatterns=${POD_NAME_EXCLUDE_PATTERNS.join('|') || 'none'}`
+    `Resource collector started cluster=${CLUSTER_NAME} namespace=${TARGET_NAMESPACE} interval=${SAMPLE_INTERVAL_SECONDS}s includePatterns=${POD_NAME_INCLUDE_PATTERNS.join('|') || 'all'} excludePatterns=${POD_NAME_EXCLUDE_PATTERNS.join('|') || 'none'} sampleRetentionDays=${SAMPLE_RETENTION_DAYS} rollupRetentionDays=${ROLLUP_TIERS.map((tier) => `${tier.resolution}:${tier.retentionDays}`).join(',')}`
   );
 
+  let lastRollupAt = 0;
+  let lastCleanupAt = 0;
   while (true) {
     const startedAt = Date.now();
+    const runId = await startCollectorRun(pool, {
+      collector: 'resource-collector',
+      cluster: CLUSTER_NAME,
+      namespace: TARGET_NAMESPACE,
+    });
     try {
-      const sampleCount = await collectOnce(pool, token, ca);
+      const { sampleCount, podCount } = await collectOnce(pool, token, ca);
       console.log(`Collected ${sampleCount} container samples at ${new Date().toISOString()}`);
+      await finishCollectorRun(pool, runId, { status: 'succeeded', podsSeen: podCount, samplesInserted: sampleCount });
     } catch (error) {
       console.error('Resource collection failed:', error.message || error);
+      await finishCollectorRun(pool, runId, { status: 'failed', errorCount: 1, error: error.message || String(error) });
+    }
+
+    // Rollups and cleanup failing must not stop sampling; they catch up on the next pass
+    if (Date.now() - lastRollupAt >= ROLLUP_INTERVAL_SECONDS * 1000) {
+      lastRollupAt = Date.now();
+      try {
+        console.log(`Rolled up container samples ${formatCounts(await rollupSamples(pool))}`);
+      } catch (error) {
+        console.error('Resource sample rollup failed:', error.message || error);
+      }
+    }
+    if (Date.now() - lastCleanupAt >= CLEANUP_INTERVAL_SECONDS * 1000) {
+      lastCleanupAt = Date.now();
+      try {
+        console.log(`Cleaned up container samples ${formatCounts(await cleanupSamples(pool))}`);
+      } catch (error) {
+        console.error('Resource sample cleanup failed:', error.message || error);
+      }
     }
 
     const elapsedMs = Date.now() - startedAt;
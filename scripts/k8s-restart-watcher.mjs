@@ -3,12 +3,17 @@ import { readFileSync } from 'node:fs';
 import https from 'node:https';
 import crypto from 'node:crypto';
 import pg from 'pg';
+import { compileRedactionRules, redactLogMessage } from './log-redaction.mjs';
+import { classifyLogLevel, compileLogLevelRules, levelRulesForDeployment, parseStructuredLog } from './log-levels.mjs';
+import { recordErrorFingerprints } from './error-fingerprints.mjs';
+import { OWNER_LIST_PATHS, podDeploymentName, podVersion, resolvePodWorkload } from './workload-owners.mjs';
 
 const { Pool } = pg;
 
 const K8S_HOST = process.env.K8S_HOST || process.env.KUBERNETES_SERVICE_HOST || 'kubernetes.default.svc';
 const K8S_PORT = process.env.K8S_PORT || process.env.KUBERNETES_SERVICE_PORT || '443';
 const TARGET_NAMESPACE = process.env.TARGET_NAMESPACE || process.env.POD_NAMESPACE || 'default';
+const CLUSTER_NAME = process.env.CLUSTER_NAME || 'default';
 const LOG_TAIL_LINES = parseInt(process.env.LOG_TAIL_LINES || '100', 10);
 const MAX_LOG_MESSAGE_LENGTH = parseInt(process.env.MAX_LOG_MESSAGE_LENGTH || '8192', 10);
 const WATCH_TIMEOUT_SECONDS = parseInt(process.env.RESTART_WATCH_TIMEOUT_SECONDS || '300', 10);
@@ -89,12 +94,8 @@ function makeUuidFromString(value) {
   return `${md5.slice(0, 8)}-${md5.slice(8, 12)}-${md5.slice(12, 16)}-${md5.slice(16, 20)}-${md5.slice(20, 32)}`;
 }
 
-function inferLogLevel(message) {
-  const m = message.toLowerCase();
-  if (m.includes('error') || m.includes('exception') || m.includes('fatal')) return 'error';
-  if (m.includes('warn')) return 'warn';
-  return 'info';
-}
+const LOG_LEVEL_RULES = compileLogLevelRules(process.env.LOG_LEVEL_RULES);
+const LOG_REDACTION_RULES = compileRedactionRules(process.env.LOG_REDACTION);
 
 function parseCpuToMillicores(quantity) {
   if (!quantity) return null;
@@ -222,6 +223,7 @@ function k8sGet(pathname, token, ca, accept = 'application/json') {
 async function ensureSchema(pool) {
   await pool.query(`
     CREATE EXTENSION IF NOT EXISTS pgcrypto;
+    CREATE EXTENSION IF NOT EXISTS pg_trgm;
 
     DO $$
     BEGIN
@@ -232,11 +234,14 @@ async function ensureSchema(pool) {
         CREATE TYPE container_status AS ENUM ('Running', 'Waiting', 'Terminated');
       END IF;
       IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'log_level') THEN
-        CREATE TYPE log_level AS ENUM ('info', 'warn', 'error');
+        CREATE TYPE log_level AS ENUM ('debug', 'info', 'warn', 'error', 'fatal');
       END IF;
     END
     $$;
 
+    ALTER TYPE log_level ADD VALUE IF NOT EXISTS 'debug' BEFORE 'info';
+    ALTER TYPE log_level ADD VALUE IF NOT EXISTS 'fatal' AFTER 'error';
+
     CREATE TABLE IF NOT EXISTS pods (
       id UUID PRIMARY KEY,
       name TEXT NOT NULL,
@@ -246,10 +251,18 @@ async function ensureSchema(pool) {
       pod_ip TEXT,
       labels JSONB DEFAULT '{}',
       restarts INTEGER DEFAULT 0,
+      cluster TEXT NOT NULL DEFAULT 'default',
       created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
       updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
     );
 
+    ALTER TABLE pods
+      ADD COLUMN IF NOT EXISTS cluster TEXT NOT NULL DEFAULT 'default',
+      ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ,
+      ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+      ADD COLUMN IF NOT EXISTS workload_kind TEXT,
+      ADD COLUMN IF NOT EXISTS workload_name TEXT;
+
     CREATE TABLE IF NOT EXISTS containers (
       id UUID PRIMARY KEY,
       pod_id UUID NOT NULL REFERENCES pods(id) ON DELETE CASCADE,
@@ -285,9 +298,75 @@ async function ensureSchema(pool) {
       created_at TIMESTAMPTZ NOT NULL DEFAULT now()
     );
 
+    ALTER TABLE logs
+      ADD COLUMN IF NOT EXISTS fields JSONB,
+      ADD COLUMN IF NOT EXISTS redactions TEXT[];
+
+    CREATE TABLE IF NOT EXISTS container_status_history (
+      id BIGSERIAL PRIMARY KEY,
+      container_id UUID NOT NULL REFERENCES containers(id) ON DELETE CASCADE,
+      pod_id UUID NOT NULL,
+      status container_status NOT NULL,
+      ready BOOLEAN,
+      restart_count INTEGER,
+      reason TEXT,
+      exit_code INTEGER,
+      message TEXT,
+      started_at TIMESTAMPTZ,
+      recorded_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+
+    CREATE TABLE IF NOT EXISTS error_fingerprints (
+      container_id UUID NOT NULL REFERENCES containers(id) ON DELETE CASCADE,
+      fingerprint TEXT NOT NULL,
+      version TEXT NOT NULL DEFAULT 'unknown',
+      pattern TEXT NOT NULL,
+      sample_message TEXT NOT NULL,
+      level log_level NOT NULL,
+      occurrences BIGINT NOT NULL DEFAULT 0,
+      first_seen TIMESTAMPTZ NOT NULL,
+      last_seen TIMESTAMPTZ NOT NULL,
+      PRIMARY KEY (container_id, fingerprint)
+    );
+
+    CREATE OR REPLACE FUNCTION record_container_status_change()
+    RETURNS TRIGGER AS $fn$
+    BEGIN
+      IF TG_OP = 'INSERT'
+         OR NEW.status IS DISTINCT FROM OLD.status
+         OR NEW.ready IS DISTINCT FROM OLD.ready
+         OR NEW.restart_count IS DISTINCT FROM OLD.restart_count
+         OR NEW.last_state_reason IS DISTINCT FROM OLD.last_state_reason THEN
+        INSERT INTO container_status_history (
+          container_id, pod_id, status, ready, restart_count, reason, exit_code, message, started_at
+        )
+        VALUES (
+          NEW.id, NEW.pod_id, NEW.status, NEW.ready, NEW.restart_count,
+          NEW.last_state_reason, NEW.last_state_exit_code, NEW.last_state_message, NEW.started_at
+        );
+      END IF;
+      RETURN NEW;
+    END;
+    $fn$ LANGUAGE plpgsql;
+
+    DO $$
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'record_containers_status_history') THEN
+        CREATE TRIGGER record_containers_status_history
+        AFTER INSERT OR UPDATE ON containers FOR EACH ROW EXECUTE FUNCTION record_container_status_change();
+      END IF;
+    END
+    $$;
+
     CREATE INDEX IF NOT EXISTS idx_pods_namespace ON pods(namespace);
+    CREATE INDEX IF NOT EXISTS idx_pods_cluster_namespace ON pods(cluster, namespace);
     CREATE INDEX IF NOT EXISTS idx_pods_status ON pods(status);
+    CREATE INDEX IF NOT EXISTS idx_pods_deleted_at ON pods(deleted_at) WHERE deleted_at IS NOT NULL;
     CREATE INDEX IF NOT EXISTS idx_containers_pod_id ON containers(pod_id);
+    CREATE INDEX IF NOT EXISTS idx_container_status_history_container_recorded
+      ON container_status_history(container_id, recorded_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_error_fingerprints_last_seen
+      ON error_fingerprints(last_seen);
     DROP INDEX IF EXISTS idx_logs_container_id;
     DROP INDEX IF EXISTS idx_logs_timestamp;
     DROP INDEX IF EXISTS idx_logs_container_timestamp_message;
@@ -301,6 +380,12 @@ async function ensureSchema(pool) {
 
     CREATE UNIQUE INDEX IF NOT EXISTS idx_logs_container_timestamp_message_hash
       ON logs(container_id, timestamp, md5(message));
+    CREATE INDEX IF NOT EXISTS idx_logs_container_timestamp_id
+      ON logs(container_id, timestamp DESC, id DESC);
+    CREATE INDEX IF NOT EXISTS idx_logs_message_trgm
+      ON logs USING gin (message gin_trgm_ops);
+    CREATE INDEX IF NOT EXISTS idx_logs_fields
+      ON logs USING gin (fields jsonb_path_ops);
   `);
 }
 
@@ -308,7 +393,27 @@ function getContainerStatuses(pod) {
   return pod.status?.containerStatuses || [];
 }
 
-async function upsertPodAndContainers(db, pod) {
+// The collector also marks vanished pods on its next sync; the watch event records the deletion right away.
+async function markPodDeleted(pool, podId) {
+  try {
+    await pool.query('UPDATE pods SET deleted_at = now() WHERE id = $1 AND deleted_at IS NULL', [podId]);
+  } catch (error) {
+    console.warn(`Failed to mark pod ${podId} as deleted:`, error.message);
+  }
+}
+
+// One ReplicaSet / Job read per restart; restarts are rare enough that the lists are not cached here.
+async function fetchOwnerReferences(token, ca, kind, namespace, name) {
+  try {
+    const raw = await k8sGet(`${OWNER_LIST_PATHS[kind](namespace)}/${encodeURIComponent(name)}`, token, ca);
+    return JSON.parse(raw).metadata?.ownerReferences || [];
+  } catch (error) {
+    if (error.message.startsWith('Kubernetes API 404')) return null;
+    throw error;
+  }
+}
+
+async function upsertPodAndContainers(db, pod, workload) {
   const podId = pod.metadata?.uid;
   if (!podId) return new Map();
 
@@ -316,17 +421,25 @@ async function upsertPodAndContainers(db, pod) {
   const restarts = containerStatuses.reduce((sum, cs) => sum + (cs.restartCount || 0), 0);
 
   await db.query(
-    `INSERT INTO pods (id, name, namespace, status, node_name, pod_ip, labels, restarts, created_at, updated_at)
-     VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, $8, $9, now())
+    `INSERT INTO pods (
+       id, name, namespace, status, node_name, pod_ip, labels, restarts, created_at, cluster,
+       workload_kind, workload_name, updated_at, last_seen_at
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, $8, $9, $10, $11, $12, now(), now())
      ON CONFLICT (id) DO UPDATE SET
        name = EXCLUDED.name,
        namespace = EXCLUDED.namespace,
+       cluster = EXCLUDED.cluster,
        status = EXCLUDED.status,
        node_name = EXCLUDED.node_name,
        pod_ip = EXCLUDED.pod_ip,
        labels = EXCLUDED.labels,
        restarts = EXCLUDED.restarts,
-       updated_at = now()`,
+       workload_kind = EXCLUDED.workload_kind,
+       workload_name = EXCLUDED.workload_name,
+       updated_at = now(),
+       last_seen_at = now(),
+       deleted_at = NULL`,
     [
       podId,
       pod.metadata?.name || 'unknown',
@@ -337,6 +450,9 @@ async function upsertPodAndContainers(db, pod) {
       JSON.stringify(pod.metadata?.labels || {}),
       restarts,
       pod.metadata?.creationTimestamp || new Date().toISOString(),
+      CLUSTER_NAME,
+      workload.kind,
+      workload.name,
     ]
   );
 
@@ -396,7 +512,15 @@ async function upsertPodAndContainers(db, pod) {
   return containerIdByName;
 }
 
-async function collectContainerLogs(db, token, ca, podName, containerName, containerId, { previous = false } = {}) {
+async function collectContainerLogs(
+  db,
+  token,
+  ca,
+  podName,
+  containerName,
+  containerId,
+  { previous = false, levelRules = LOG_LEVEL_RULES.global, version = 'unknown' } = {}
+) {
   const query = new URLSearchParams({
     container: containerName,
     tailLines: String(LOG_TAIL_LINES),
@@ -421,13 +545,21 @@ async function collectContainerLogs(db, token, ca, podName, containerName, conta
   const timestamps = [];
   const levels = [];
   const messages = [];
+  const fieldValues = [];
+  const redactionValues = [];
 
   for (const rawLine of lines) {
     const parsed = parseK8sLogLine(rawLine);
     if (!parsed.message) continue;
+    // Redact before parsing so secrets never reach the stored message or structured fields
+    const { message, redactions } = redactLogMessage(parsed.message, LOG_REDACTION_RULES);
     timestamps.push(parsed.timestamp);
-    levels.push(inferLogLevel(parsed.message));
-    messages.push(parsed.message.slice(0, MAX_LOG_MESSAGE_LENGTH));
+    const fields = parseStructuredLog(message);
+    levels.push(classifyLogLevel(message, fields, levelRules));
+    messages.push(message.slice(0, MAX_LOG_MESSAGE_LENGTH));
+    fieldValues.push(fields ? JSON.stringify(fields) : null);
+    // Detector ids are restricted to [A-Za-z0-9_-], so a comma-joined string round-trips through unnest
+    redactionValues.push(redactions.length > 0 ? redactions.join(',') : null);
   }
 
   if (messages.length === 0) {
@@ -435,12 +567,14 @@ async function collectContainerLogs(db, token, ca, podName, containerName, conta
   }
 
   const insertResult = await db.query(
-    `INSERT INTO logs (container_id, timestamp, level, message)
-     SELECT $1, t.ts::timestamptz, t.lvl::log_level, t.msg
-     FROM unnest($2::text[], $3::text[], $4::text[]) AS t(ts, lvl, msg)
-     ON CONFLICT (container_id, timestamp, md5(message)) DO NOTHING`,
-    [containerId, timestamps, levels, messages]
+    `INSERT INTO logs (container_id, timestamp, level, message, fields, redactions)
+     SELECT $1, t.ts::timestamptz, t.lvl::log_level, t.msg, t.fields::jsonb, string_to_array(t.redactions, ',')
+     FROM unnest($2::text[], $3::text[], $4::text[], $5::text[], $6::text[]) AS t(ts, lvl, msg, fields, redactions)
+     ON CONFLICT (container_id, timestamp, md5(message)) DO NOTHING
+     RETURNING timestamp, level, message, fields`,
+    [containerId, timestamps, levels, messages, fieldValues, redactionValues]
   );
+  await recordErrorFingerprints(db, containerId, version, insertResult.rows, MAX_LOG_MESSAGE_LENGTH);
   return insertResult.rowCount || 0;
 }
 
@@ -451,20 +585,28 @@ async function processRestartedContainer(pool, token, ca, pod, containerStatus)
     return false;
   }
 
+  const workload = await resolvePodWorkload(pod, (kind, namespace, name) =>
+    fetchOwnerReferences(token, ca, kind, namespace, name)
+  );
   const db = await pool.connect();
   try {
     await db.query('BEGIN');
-    const containerIdByName = await upsertPodAndContainers(db, pod);
+    const containerIdByName = await upsertPodAndContainers(db, pod, workload);
     const containerId = containerIdByName.get(containerStatus.name);
     if (!containerId) {
       throw new Error(`Container metadata missing for ${podName}/${containerStatus.name}`);
     }
 
+    const logOptions = {
+      levelRules: levelRulesForDeployment(LOG_LEVEL_RULES, podDeploymentName(pod, workload)),
+      version: podVersion(pod),
+    };
     let inserted = 0;
     inserted += await collectContainerLogs(db, token, ca, podName, containerStatus.name, containerId, {
+      ...logOptions,
       previous: true,
     });
-    inserted += await collectContainerLogs(db, token, ca, podName, containerStatus.name, containerId);
+    inserted += await collectContainerLogs(db, token, ca, podName, containerStatus.name, containerId, logOptions);
 
     await db.query('COMMIT');
     console.log(
@@ -658,7 +800,7 @@ async function main() {
 
   await ensureSchema(pool);
   console.log(
-    `Restart watcher started namespace=${TARGET_NAMESPACE} includePatterns=${POD_NAME_INCLUDE_PATTERNS.join('|') || 'all'} excludePatterns=${POD_NAME_EXCLUDE_PATTERNS.join('|') || 'none'} timeoutSeconds=${WATCH_TIMEOUT_SECONDS}`
+    `Restart watcher started cluster=${CLUSTER_NAME} namespace=${TARGET_NAMESPACE} includePatterns=${POD_NAME_INCLUDE_PATTERNS.join('|') || 'all'} excludePatterns=${POD_NAME_EXCLUDE_PATTERNS.join('|') || 'none'} timeoutSeconds=${WATCH_TIMEOUT_SECONDS}`
   );
 
   let resourceVersion = await refreshStateFromList(pool, token, ca, podState, {
@@ -675,6 +817,9 @@ async function main() {
 
         if (event.type === 'DELETED' || !shouldCollectPod(podName)) {
           podState.delete(podId);
+          if (event.type === 'DELETED' && shouldCollectPod(podName)) {
+            await markPodDeleted(pool, podId);
+          }
           return;
         }
 
@@ -7,11 +7,16 @@
  *   DATABASE_URL - PostgreSQL connection string (required)
  *   API_PORT - Server port (default: 54321)
  *   STATIC_DIR - Optional directory to serve static dashboard files from
+ *   API_AUTH_REQUIRED - 'true' to reject requests without a valid API token (default: false)
  */
+import { createHash } from 'node:crypto';
 import { readFileSync, existsSync, createReadStream, statSync } from 'node:fs';
 import { createServer } from 'node:http';
 import path from 'node:path';
 import pg from 'pg';
+import { EXCEPTION_PATTERN, STACK_CONTINUATION_PATTERN } from './error-fingerprints.mjs';
+import { deploymentVersions, resolveVersionImpact } from './version-impact.mjs';
+import { deploymentNameFor } from './workload-owners.mjs';
 
 // Load .env if DATABASE_URL not set
 if (!process.env.DATABASE_URL && existsSync('.env')) {
@@ -36,8 +41,69 @@ const PORT = parseInt(process.env.API_PORT || process.env.PORT || '54321', 10);
 const HOST = process.env.API_HOST || process.env.HOST || '0.0.0.0';
 const STATIC_DIR = process.env.STATIC_DIR;
 const CORS_ALLOW_ORIGIN = process.env.CORS_ALLOW_ORIGIN || '';
+const API_AUTH_REQUIRED = process.env.API_AUTH_REQUIRED === 'true';
 const LOG_QUERY_LIMIT_DEFAULT = parseInt(process.env.LOG_QUERY_LIMIT_DEFAULT || '2000', 10);
 const LOG_QUERY_LIMIT_MAX = parseInt(process.env.LOG_QUERY_LIMIT_MAX || '5000', 10);
+const EVENT_QUERY_LIMIT_MAX = 1000;
+const EVENT_WARNING_WINDOW_MINUTES = parseInt(process.env.EVENT_WARNING_WINDOW_MINUTES || '60', 10);
+// The health action reports pods / resource samples older than this as stale
+const PODS_STALE_AFTER_MINUTES = parseInt(process.env.PODS_STALE_AFTER_MINUTES || '15', 10);
+const SAMPLES_STALE_AFTER_MINUTES = parseInt(process.env.SAMPLES_STALE_AFTER_MINUTES || '5', 10);
+const CONTAINER_HISTORY_HOURS_DEFAULT = 6;
+const CONTAINER_HISTORY_HOURS_MAX = 168;
+const CONTAINER_HISTORY_ROW_LIMIT = 500;
+// Rows returned by getPodStatusHistory, oldest first (rollout surge windows sit at the start of a pod's life)
+const POD_STATUS_HISTORY_ROW_LIMIT = 5000;
+// (fingerprint, version) rows returned by getTopErrors, most recently seen first
+const TOP_ERRORS_ROW_LIMIT = 1000;
+const ALERTS_ROW_LIMIT = 500;
+const ALERT_STATUSES = ['firing', 'resolved'];
+const ALERT_SILENCE_MINUTES_MAX = 7 * 24 * 60;
+const ALERT_DELIVERIES_ROW_LIMIT = 100;
+// Bucket size of each getResourceSamples resolution; raw samples are assumed at the default 30s interval
+const RESOURCE_SAMPLE_RESOLUTIONS = { raw: 30, '1m': 60, '5m': 300, '1h': 3600 };
+// Without an explicit resolution, the finest one that keeps the range under this many points
+const RESOURCE_SAMPLES_TARGET_POINTS = 500;
+const RESOURCE_SAMPLES_ROW_LIMIT = 2000;
+const VERSION_IMPACT_WINDOW_MINUTES_DEFAULT = 30;
+const VERSION_IMPACT_WINDOW_MINUTES_MAX = 24 * 60;
+// Days of raw samples right-sizing recommendations are computed from; longer than SAMPLE_RETENTION_DAYS only
+// helps when the raw retention was raised
+const RECOMMENDATION_DAYS_DEFAULT = 7;
+const RECOMMENDATION_DAYS_MAX = 30;
+// Samples of a container name needed before anything is suggested for it (an hour at the 30s interval)
+const RECOMMENDATION_MIN_SAMPLES = parseInt(process.env.RECOMMENDATION_MIN_SAMPLES || '120', 10);
+// Headroom on top of observed usage: requests are sized from p95, limits from p99
+const RECOMMENDATION_HEADROOM = { cpu_request: 0.2, cpu_limit: 0.5, memory_request: 0.2, memory_limit: 0.3 };
+// Limits more than this many times the p99 usage are flagged as oversized
+const RECOMMENDATION_LIMIT_OVERSIZE_FACTOR = 4;
+const RECOMMENDATION_CPU_STEP_MILLICORES = 5;
+const RECOMMENDATION_MIN_CPU_MILLICORES = 10;
+const RECOMMENDATION_MEMORY_STEP_BYTES = 1024 * 1024;
+const RECOMMENDATION_MIN_MEMORY_BYTES = 16 * 1024 * 1024;
+// BIGSERIAL ids are returned as text so both API servers serialize them the same way
+const ALERT_COLUMNS = `id::text AS id, dedup_key, rule_id, rule_type, severity, status, cluster, namespace,
+  deployment_name, pod_id, pod_name, container_name, title, message, value, threshold,
+  started_at, last_seen_at, resolved_at, acknowledged_at, silenced_until`;
+const ROLE_RANK = { viewer: 1, operator: 2, admin: 3 };
+// Minimum role per action; anything not listed needs viewer. `health` is open so probes work without a token.
+const ACTION_ROLES = { acknowledgeAlert: 'operator', silenceAlert: 'operator', getAuditLog: 'admin' };
+const PUBLIC_ACTIONS = ['health'];
+// Without API_AUTH_REQUIRED, requests without a token get read-only access; changes always need a token.
+const ANONYMOUS_PRINCIPAL = { id: null, name: 'anonymous', role: 'viewer', namespaces: null };
+// last_used_at is only rewritten when older than this, so reads don't turn into a write per request
+const TOKEN_TOUCH_INTERVAL_MINUTES = 5;
+const AUDIT_LOG_ROW_LIMIT = 500;
+const LOG_SEARCH_PAGE_SIZE_DEFAULT = 200;
+const LOG_SEARCH_FACET_SCAN_LIMIT = 10000;
+const ID_LIST_PARAM_MAX = 500;
+const LOG_TAIL_POLL_INTERVAL_MS = parseInt(process.env.LOG_TAIL_POLL_INTERVAL_MS || '2000', 10);
+const LOG_TAIL_HEARTBEAT_MS = 15000;
+const LOG_TAIL_MAX_SECONDS = 300;
+// Rows are matched on created_at; collector transactions can commit rows stamped slightly in the past.
+const LOG_TAIL_LOOKBACK_SECONDS = 120;
+const LOG_TAIL_BATCH_SIZE = 500;
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'fatal'];
 
 if (!DB_URL && !(DB_HOST && DB_NAME && DB_USER)) {
   console.error('Error: set DATABASE_URL or DB_HOST/DB_NAME/DB_USER');
@@ -73,7 +139,8 @@ function buildCorsHeaders(originHeader) {
   return {
     ...securityHeaders,
     'Access-Control-Allow-Origin': resolveAllowedOrigin(originHeader),
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, last-event-id, x-api-token',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
     'Content-Type': 'application/json',
   };
 }
@@ -132,6 +199,765 @@ function parseLogLimit(url) {
   return Math.min(parsed, LOG_QUERY_LIMIT_MAX);
 }
 
+// Builds a WHERE clause restricting pods (aliased as `alias`) to the requested cluster/namespace
+// and to the namespaces the caller's token is granted.
+function buildPodScopeFilter(url, alias = 'p', principal = ANONYMOUS_PRINCIPAL, { activeOnly = false } = {}) {
+  const conditions = [];
+  const params = [];
+  const grantCondition = buildGrantCondition(principal, alias, params);
+  if (grantCondition) conditions.push(grantCondition);
+  // Pods that disappeared from the Kubernetes API are kept as history; activeOnly hides them
+  if (activeOnly) conditions.push(`${alias}.deleted_at IS NULL`);
+  const cluster = url.searchParams.get('cluster');
+  const namespace = url.searchParams.get('namespace');
+
+  if (cluster) {
+    params.push(cluster);
+    conditions.push(`${alias}.cluster = $${params.length}`);
+  }
+  if (namespace) {
+    params.push(namespace);
+    conditions.push(`${alias}.namespace = $${params.length}`);
+  }
+
+  return {
+    clause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    conditions,
+    params,
+  };
+}
+
+// Newest pod update and resource sample in scope, plus the latest run of each collector, for the health action.
+async function fetchHealthDetails(url, principal) {
+  const podScope = buildPodScopeFilter(url, 'p', principal, { activeOnly: true });
+  const podsRes = await pool.query(
+    `SELECT MAX(p.updated_at) AS pods_updated_at FROM pods p ${podScope.clause}`,
+    podScope.params
+  );
+
+  let samplesRes;
+  try {
+    // Newest sample per container via the (container_id, sampled_at) index instead of scanning all samples
+    samplesRes = await pool.query(
+      `SELECT MAX(latest.sampled_at) AS resource_sampled_at
+       FROM pods p
+       JOIN containers c ON c.pod_id = p.id
+       CROSS JOIN LATERAL (
+         SELECT s.sampled_at
+         FROM container_resource_samples s
+         WHERE s.container_id = c.id
+         ORDER BY s.sampled_at DESC
+         LIMIT 1
+       ) latest
+       ${podScope.clause}`,
+      podScope.params
+    );
+  } catch (error) {
+    if (String(error?.message || '').includes('container_resource_samples')) {
+      samplesRes = { rows: [] };
+    } else {
+      throw error;
+    }
+  }
+
+  const runScope = buildPodScopeFilter(url, 'r', principal);
+  let runsRes;
+  try {
+    runsRes = await pool.query(
+      `SELECT DISTINCT ON (r.collector, r.cluster, r.namespace)
+              r.collector, r.cluster, r.namespace, r.status, r.started_at, r.finished_at,
+              r.pods_seen, r.logs_inserted, r.samples_inserted, r.error_count, r.error,
+              (
+                SELECT MAX(s.finished_at)
+                FROM collector_runs s
+                WHERE s.collector = r.collector
+                  AND s.cluster = r.cluster
+                  AND s.namespace = r.namespace
+                  AND s.status = 'succeeded'
+              ) AS last_success_at
+       FROM collector_runs r
+       ${runScope.clause}
+       ORDER BY r.collector, r.cluster, r.namespace, r.started_at DESC`,
+      runScope.params
+    );
+  } catch (error) {
+    if (String(error?.message || '').includes('collector_runs')) {
+      runsRes = { rows: [] };
+    } else {
+      throw error;
+    }
+  }
+
+  return {
+    freshness: {
+      pods_updated_at: podsRes.rows[0]?.pods_updated_at ?? null,
+      resource_sampled_at: samplesRes.rows[0]?.resource_sampled_at ?? null,
+      pods_stale_after_minutes: PODS_STALE_AFTER_MINUTES,
+      samples_stale_after_minutes: SAMPLES_STALE_AFTER_MINUTES,
+    },
+    collector_runs: runsRes.rows,
+  };
+}
+
+function parseImpactWindow(url) {
+  const raw = url.searchParams.get('windowMinutes');
+  const parsed = raw ? parseInt(raw, 10) : VERSION_IMPACT_WINDOW_MINUTES_DEFAULT;
+  if (!Number.isFinite(parsed) || parsed <= 0) return VERSION_IMPACT_WINDOW_MINUTES_DEFAULT;
+  return Math.min(parsed, VERSION_IMPACT_WINDOW_MINUTES_MAX);
+}
+
+// Impact of a deployment's version against a baseline version (default: the newest version and the one before
+// it) over the requested window; see version-impact.mjs. Returns null when the deployment has no pods.
+async function fetchVersionImpact(url, principal) {
+  const cluster = url.searchParams.get('cluster');
+  const namespace = url.searchParams.get('namespace');
+  const deployment = url.searchParams.get('deployment');
+  if (!cluster || !namespace || !deployment) throw new Error('cluster, namespace and deployment are required');
+  assertNamespaceGranted(principal, { cluster, namespace });
+  const windowMinutes = parseImpactWindow(url);
+
+  const podsRes = await pool.query(
+    `SELECT p.id, p.name, p.labels, p.workload_name, p.created_at
+     FROM pods p
+     WHERE p.cluster = $1 AND p.namespace = $2`,
+    [cluster, namespace]
+  );
+  const allVersions = deploymentVersions(podsRes.rows, deployment);
+  if (allVersions.length === 0) return null;
+
+  const version = url.searchParams.get('version') || allVersions[0].version;
+  const currentIndex = allVersions.findIndex((entry) => entry.version === version);
+  if (currentIndex === -1) throw new HttpError(404, `No pods of version ${version} in ${deployment}`);
+  const baselineVersion = url.searchParams.get('baselineVersion') || allVersions[currentIndex + 1]?.version || null;
+  if (baselineVersion && !allVersions.some((entry) => entry.version === baselineVersion)) {
+    throw new HttpError(404, `No pods of version ${baselineVersion} in ${deployment}`);
+  }
+  return resolveVersionImpact(
+    pool,
+    { cluster, namespace, deployment, windowMinutes },
+    allVersions,
+    version,
+    baselineVersion
+  );
+}
+
+// Raw samples or rollup buckets of one container between `from` (default: an hour before `to`) and `to`
+// (default: now), oldest first. Without any of from/to/resolution it returns the latest 120 raw samples,
+// however old, which the log viewer matches log lines against. Rollup rows carry the bucket average as
+// cpu_millicores/memory_bytes plus min/p95/max; without the rollup table (resource collector not upgraded
+// yet) raw samples are returned instead.
+async function fetchResourceSamples(url, containerId) {
+  const fromParam = parseTimestampParam(url, 'from');
+  const toParam = parseTimestampParam(url, 'to');
+  const requestedResolution = url.searchParams.get('resolution');
+  if (requestedResolution && !(requestedResolution in RESOURCE_SAMPLE_RESOLUTIONS)) {
+    throw new Error(`resolution must be one of ${Object.keys(RESOURCE_SAMPLE_RESOLUTIONS).join(', ')}`);
+  }
+
+  if (!fromParam && !toParam && (!requestedResolution || requestedResolution === 'raw')) {
+    try {
+      const samplesRes = await pool.query(
+        `SELECT sampled_at, cpu_millicores, memory_bytes
+         FROM container_resource_samples
+         WHERE container_id = $1
+         ORDER BY sampled_at DESC
+         LIMIT 120`,
+        [containerId]
+      );
+      return { resolution: 'raw', samples: [...samplesRes.rows].reverse() };
+    } catch (error) {
+      if (!String(error?.message || '').includes('container_resource_samples')) throw error;
+      return { resolution: 'raw', samples: [] };
+    }
+  }
+
+  const to = toParam ? new Date(toParam) : new Date();
+  const from = fromParam ? new Date(fromParam) : new Date(to.getTime() - 60 * 60 * 1000);
+  if (from >= to) throw new Error('from must be before to');
+  const rangeSeconds = (to.getTime() - from.getTime()) / 1000;
+  const resolution =
+    requestedResolution ||
+    Object.keys(RESOURCE_SAMPLE_RESOLUTIONS).find(
+      (key) => rangeSeconds / RESOURCE_SAMPLE_RESOLUTIONS[key] <= RESOURCE_SAMPLES_TARGET_POINTS
+    ) ||
+    '1h';
+
+  if (resolution !== 'raw') {
+    try {
+      const rollupsRes = await pool.query(
+        `SELECT bucket_start AS sampled_at, cpu_avg_millicores AS cpu_millicores, memory_avg_bytes AS memory_bytes,
+                cpu_min_millicores, cpu_p95_millicores, cpu_max_millicores,
+                memory_min_bytes, memory_p95_bytes, memory_max_bytes, sample_count
+         FROM container_resource_rollups
+         WHERE container_id = $1 AND resolution = $2 AND bucket_start >= $3 AND bucket_start <= $4
+         ORDER BY bucket_start DESC
+         LIMIT $5`,
+        [containerId, resolution, from.toISOString(), to.toISOString(), RESOURCE_SAMPLES_ROW_LIMIT]
+      );
+      return { resolution, samples: [...rollupsRes.rows].reverse() };
+    } catch (error) {
+      if (!String(error?.message || '').includes('container_resource_rollups')) throw error;
+    }
+  }
+
+  try {
+    const samplesRes = await pool.query(
+      `SELECT sampled_at, cpu_millicores, memory_bytes
+       FROM container_resource_samples
+       WHERE container_id = $1 AND sampled_at >= $2 AND sampled_at <= $3
+       ORDER BY sampled_at DESC
+       LIMIT $4`,
+      [containerId, from.toISOString(), to.toISOString(), RESOURCE_SAMPLES_ROW_LIMIT]
+    );
+    return { resolution: 'raw', samples: [...samplesRes.rows].reverse() };
+  } catch (error) {
+    if (!String(error?.message || '').includes('container_resource_samples')) throw error;
+    return { resolution: 'raw', samples: [] };
+  }
+}
+
+function parseRecommendationDays(url) {
+  const raw = url.searchParams.get('days');
+  const parsed = raw ? parseInt(raw, 10) : RECOMMENDATION_DAYS_DEFAULT;
+  if (!Number.isFinite(parsed) || parsed <= 0) return RECOMMENDATION_DAYS_DEFAULT;
+  return Math.min(parsed, RECOMMENDATION_DAYS_MAX);
+}
+
+function roundUpTo(value, step, minimum) {
+  return Math.max(minimum, Math.ceil(value / step) * step);
+}
+
+// Requests from p95 and limits from p99 usage plus headroom; a memory limit never goes below the highest
+// usage seen, since going over it means an OOM kill rather than throttling
+function suggestResources(usage) {
+  return {
+    cpu_request_millicores: roundUpTo(
+      usage.cpu_p95_millicores * (1 + RECOMMENDATION_HEADROOM.cpu_request),
+      RECOMMENDATION_CPU_STEP_MILLICORES,
+      RECOMMENDATION_MIN_CPU_MILLICORES
+    ),
+    cpu_limit_millicores: roundUpTo(
+      usage.cpu_p99_millicores * (1 + RECOMMENDATION_HEADROOM.cpu_limit),
+      RECOMMENDATION_CPU_STEP_MILLICORES,
+      RECOMMENDATION_MIN_CPU_MILLICORES
+    ),
+    memory_request_bytes: roundUpTo(
+      usage.memory_p95_bytes * (1 + RECOMMENDATION_HEADROOM.memory_request),
+      RECOMMENDATION_MEMORY_STEP_BYTES,
+      RECOMMENDATION_MIN_MEMORY_BYTES
+    ),
+    memory_limit_bytes: roundUpTo(
+      Math.max(usage.memory_p99_bytes * (1 + RECOMMENDATION_HEADROOM.memory_limit), usage.memory_max_bytes),
+      RECOMMENDATION_MEMORY_STEP_BYTES,
+      RECOMMENDATION_MIN_MEMORY_BYTES
+    ),
+  };
+}
+
+function recommendationFlags(current, usage) {
+  const flags = [];
+  if (current.cpu_limit_millicores === null) flags.push('no_cpu_limit');
+  if (current.memory_limit_bytes === null) flags.push('no_memory_limit');
+  if (!usage) return flags;
+  const cpuFloor = Math.max(usage.cpu_p99_millicores, RECOMMENDATION_MIN_CPU_MILLICORES);
+  const memoryFloor = Math.max(usage.memory_p99_bytes, RECOMMENDATION_MIN_MEMORY_BYTES);
+  const cpuLimit = current.cpu_limit_millicores;
+  const memoryLimit = current.memory_limit_bytes;
+  if (cpuLimit !== null && cpuLimit > cpuFloor * RECOMMENDATION_LIMIT_OVERSIZE_FACTOR) flags.push('cpu_limit_oversized');
+  if (memoryLimit !== null && memoryLimit > memoryFloor * RECOMMENDATION_LIMIT_OVERSIZE_FACTOR) {
+    flags.push('memory_limit_oversized');
+  }
+  if (current.cpu_request_millicores !== null && usage.cpu_p95_millicores > current.cpu_request_millicores) {
+    flags.push('cpu_request_low');
+  }
+  if (current.memory_request_bytes !== null && usage.memory_p95_bytes > current.memory_request_bytes) {
+    flags.push('memory_request_low');
+  }
+  return flags;
+}
+
+// Reserved by the requests of all replicas beyond the suggestion; 0 when nothing is requested or the
+// suggestion is higher
+function reclaimable(currentRequest, suggestedRequest, replicas) {
+  if (currentRequest === null || suggestedRequest === null) return 0;
+  return Math.max(0, currentRequest - suggestedRequest) * replicas;
+}
+
+// Right-sizing of each container name of a deployment's running pods: current requests/limits (from the newest
+// pod), p95/p99/max usage over the last `days` days of raw samples of all the deployment's pods, suggested
+// requests/limits, flags and the requests that could be given back. With containerId, only that container's
+// name within its deployment is returned. Null when the deployment has no running pods.
+async function fetchResourceRecommendations(url, principal) {
+  const containerId = url.searchParams.get('containerId');
+  let cluster = url.searchParams.get('cluster');
+  let namespace = url.searchParams.get('namespace');
+  let deployment = url.searchParams.get('deployment');
+  let containerName = null;
+  if (containerId) {
+    const containerRes = await pool.query(
+      `SELECT c.name, p.cluster, p.namespace, p.name AS pod_name, p.labels, p.workload_name
+       FROM containers c
+       JOIN pods p ON p.id = c.pod_id
+       WHERE c.id = $1`,
+      [containerId]
+    );
+    const container = containerRes.rows[0];
+    if (!container) throw new HttpError(404, 'Container not found');
+    ({ cluster, namespace } = container);
+    deployment = deploymentNameFor(container.pod_name, container.labels, container.workload_name);
+    containerName = container.name;
+  }
+  if (!cluster || !namespace || !deployment) {
+    throw new Error('containerId, or cluster, namespace and deployment are required');
+  }
+  assertNamespaceGranted(principal, { cluster, namespace });
+  const days = parseRecommendationDays(url);
+
+  const podsRes = await pool.query(
+    `SELECT p.id, p.name, p.labels, p.workload_name, p.deleted_at
+     FROM pods p
+     WHERE p.cluster = $1 AND p.namespace = $2`,
+    [cluster, namespace]
+  );
+  const deploymentPods = podsRes.rows.filter(
+    (pod) => deploymentNameFor(pod.name, pod.labels, pod.workload_name) === deployment
+  );
+  const livePodIds = deploymentPods.filter((pod) => pod.deleted_at === null).map((pod) => pod.id);
+  if (livePodIds.length === 0) return null;
+
+  const containersRes = await pool.query(
+    `SELECT c.name,
+            c.cpu_request_millicores::float8 AS cpu_request_millicores,
+            c.cpu_limit_millicores::float8 AS cpu_limit_millicores,
+            c.memory_request_bytes::float8 AS memory_request_bytes,
+            c.memory_limit_bytes::float8 AS memory_limit_bytes
+     FROM containers c
+     JOIN pods p ON p.id = c.pod_id
+     WHERE c.pod_id = ANY($1::uuid[]) AND ($2::text IS NULL OR c.name = $2)
+     ORDER BY p.created_at DESC`,
+    [livePodIds, containerName]
+  );
+  const currentByName = new Map();
+  for (const row of containersRes.rows) {
+    const entry = currentByName.get(row.name);
+    if (entry) {
+      entry.replicas += 1;
+      continue;
+    }
+    currentByName.set(row.name, {
+      replicas: 1,
+      current: {
+        cpu_request_millicores: row.cpu_request_millicores,
+        cpu_limit_millicores: row.cpu_limit_millicores,
+        memory_request_bytes: row.memory_request_bytes,
+        memory_limit_bytes: row.memory_limit_bytes,
+      },
+    });
+  }
+
+  let usageRows = [];
+  try {
+    usageRows = (
+      await pool.query(
+        `SELECT c.name AS container_name,
+                COUNT(*)::int AS sample_count,
+                COUNT(DISTINCT c.pod_id)::int AS pod_count,
+                percentile_cont(0.95) WITHIN GROUP (ORDER BY s.cpu_millicores)::float8 AS cpu_p95_millicores,
+                percentile_cont(0.99) WITHIN GROUP (ORDER BY s.cpu_millicores)::float8 AS cpu_p99_millicores,
+                MAX(s.cpu_millicores)::float8 AS cpu_max_millicores,
+                percentile_cont(0.95) WITHIN GROUP (ORDER BY s.memory_bytes)::float8 AS memory_p95_bytes,
+                percentile_cont(0.99) WITHIN GROUP (ORDER BY s.memory_bytes)::float8 AS memory_p99_bytes,
+                MAX(s.memory_bytes)::float8 AS memory_max_bytes,
+                MIN(s.sampled_at) AS first_sampled_at,
+                MAX(s.sampled_at) AS last_sampled_at
+         FROM containers c
+         JOIN container_resource_samples s ON s.container_id = c.id
+         WHERE c.pod_id = ANY($1::uuid[]) AND ($2::text IS NULL OR c.name = $2)
+           AND s.sampled_at >= now() - make_interval(days => $3)
+         GROUP BY c.name`,
+        [deploymentPods.map((pod) => pod.id), containerName, days]
+      )
+    ).rows;
+  } catch (error) {
+    if (!String(error?.message || '').includes('container_resource_samples')) throw error;
+  }
+  const usageByName = new Map(usageRows.map((row) => [row.container_name, row]));
+
+  const containers = [...currentByName.keys()].sort().map((name) => {
+    const { replicas, current } = currentByName.get(name);
+    const row = usageByName.get(name);
+    const usage = row
+      ? {
+          cpu_p95_millicores: row.cpu_p95_millicores,
+          cpu_p99_millicores: row.cpu_p99_millicores,
+          cpu_max_millicores: row.cpu_max_millicores,
+          memory_p95_bytes: row.memory_p95_bytes,
+          memory_p99_bytes: row.memory_p99_bytes,
+          memory_max_bytes: row.memory_max_bytes,
+        }
+      : null;
+    const sampleCount = row?.sample_count ?? 0;
+    const suggested = usage && sampleCount >= RECOMMENDATION_MIN_SAMPLES ? suggestResources(usage) : null;
+    return {
+      name,
+      replicas,
+      sample_count: sampleCount,
+      pod_count: row?.pod_count ?? 0,
+      first_sampled_at: row?.first_sampled_at ?? null,
+      last_sampled_at: row?.last_sampled_at ?? null,
+      current,
+      usage,
+      suggested,
+      flags: recommendationFlags(current, suggested ? usage : null),
+      reclaimable_cpu_millicores: reclaimable(
+        current.cpu_request_millicores,
+        suggested?.cpu_request_millicores ?? null,
+        replicas
+      ),
+      reclaimable_memory_bytes: reclaimable(
+        current.memory_request_bytes,
+        suggested?.memory_request_bytes ?? null,
+        replicas
+      ),
+    };
+  });
+
+  return {
+    cluster,
+    namespace,
+    deployment,
+    days,
+    min_samples: RECOMMENDATION_MIN_SAMPLES,
+    computed_at: new Date().toISOString(),
+    containers,
+    reclaimable_cpu_millicores: containers.reduce((sum, item) => sum + item.reclaimable_cpu_millicores, 0),
+    reclaimable_memory_bytes: containers.reduce((sum, item) => sum + item.reclaimable_memory_bytes, 0),
+  };
+}
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Token grants are "cluster/namespace", "cluster/*" or a bare "namespace" (any cluster); null means all namespaces.
+function normalizeGrants(namespaces) {
+  if (!namespaces) return null;
+  return namespaces.map((grant) => (grant.includes('/') ? grant : `*/${grant}`));
+}
+
+function isNamespaceGranted(principal, cluster, namespace) {
+  if (!principal.namespaces) return true;
+  return principal.namespaces.some((grant) => {
+    const [grantCluster, grantNamespace] = grant.split('/');
+    return (grantCluster === '*' || grantCluster === cluster) && (grantNamespace === '*' || grantNamespace === namespace);
+  });
+}
+
+// SQL counterpart of isNamespaceGranted for rows aliased as `alias`; null when the caller is unrestricted.
+function buildGrantCondition(principal, alias, params) {
+  if (!principal.namespaces) return null;
+  params.push(principal.namespaces);
+  return `EXISTS (
+    SELECT 1 FROM unnest($${params.length}::text[]) g
+    WHERE split_part(g, '/', 1) IN ('*', ${alias}.cluster) AND split_part(g, '/', 2) IN ('*', ${alias}.namespace)
+  )`;
+}
+
+// Resolves the X-Api-Token header to { id, name, role, namespaces }; tokens are stored as SHA-256 hashes.
+async function authenticate(req) {
+  const token = req.headers['x-api-token'];
+  if (!token) {
+    if (API_AUTH_REQUIRED) throw new HttpError(401, 'API token required');
+    return ANONYMOUS_PRINCIPAL;
+  }
+  const tokenHash = createHash('sha256').update(String(token)).digest('hex');
+  const tokenRes = await pool.query(
+    `SELECT id::text AS id, name, role, namespaces,
+            (last_used_at IS NULL OR last_used_at < now() - make_interval(mins => $2)) AS stale
+     FROM api_tokens
+     WHERE token_hash = $1 AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > now())`,
+    [tokenHash, TOKEN_TOUCH_INTERVAL_MINUTES]
+  );
+  const row = tokenRes.rows[0];
+  if (!row) throw new HttpError(401, 'Invalid or expired API token');
+  if (row.stale) {
+    pool.query('UPDATE api_tokens SET last_used_at = now() WHERE id = $1', [row.id]).catch((error) => {
+      console.warn('Failed to update token last_used_at:', error.message);
+    });
+  }
+  return { id: row.id, name: row.name, role: row.role, namespaces: normalizeGrants(row.namespaces) };
+}
+
+function authorizeAction(principal, action) {
+  const required = ACTION_ROLES[action] || 'viewer';
+  if ((ROLE_RANK[principal.role] || 0) < ROLE_RANK[required]) {
+    throw new HttpError(403, `${action} requires the ${required} role`);
+  }
+}
+
+function assertNamespaceGranted(principal, target) {
+  if (!isNamespaceGranted(principal, target.cluster, target.namespace)) {
+    throw new HttpError(403, `No access to namespace ${target.cluster}/${target.namespace}`);
+  }
+}
+
+// Looks up the pod a container belongs to and checks the caller may read it.
+async function authorizeContainer(principal, containerId) {
+  const targetRes = await pool.query(
+    `SELECT c.id AS container_id, c.pod_id, p.cluster, p.namespace
+     FROM containers c
+     JOIN pods p ON p.id = c.pod_id
+     WHERE c.id = $1`,
+    [containerId]
+  );
+  const target = targetRes.rows[0];
+  if (!target) {
+    if (principal.namespaces) throw new HttpError(404, 'Container not found');
+    return { container_id: containerId, pod_id: null, cluster: null, namespace: null };
+  }
+  assertNamespaceGranted(principal, target);
+  return target;
+}
+
+async function authorizePod(principal, podId) {
+  if (!principal.namespaces) return;
+  const targetRes = await pool.query('SELECT cluster, namespace FROM pods WHERE id::text = $1', [podId]);
+  if (!targetRes.rows[0]) throw new HttpError(404, 'Pod not found');
+  assertNamespaceGranted(principal, targetRes.rows[0]);
+}
+
+async function authorizeAlert(principal, alertId) {
+  const targetRes = await pool.query('SELECT cluster, namespace FROM alerts WHERE id = $1', [alertId]);
+  if (!targetRes.rows[0]) throw new HttpError(404, 'Alert not found');
+  assertNamespaceGranted(principal, targetRes.rows[0]);
+  return targetRes.rows[0];
+}
+
+// Who read which logs and who changed alerts. A failed write is logged but does not fail the request.
+async function recordAudit(principal, action, target = {}, details = {}) {
+  try {
+    await pool.query(
+      `INSERT INTO audit_log (token_id, actor, role, action, cluster, namespace, pod_id, container_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        principal.id,
+        principal.name,
+        principal.role,
+        action,
+        target.cluster ?? null,
+        target.namespace ?? null,
+        target.pod_id ?? null,
+        target.container_id ?? null,
+        JSON.stringify(details),
+      ]
+    );
+  } catch (error) {
+    console.warn('Failed to write audit log:', error.message);
+  }
+}
+
+// Query parameters worth keeping in the audit trail for log reads
+function auditLogQueryDetails(url) {
+  const details = {};
+  for (const key of ['q', 'level', 'exceptions', 'fields', 'from', 'to', 'cluster', 'namespace', 'containerIds', 'podIds']) {
+    const value = url.searchParams.get(key);
+    if (value) details[key] = value;
+  }
+  return details;
+}
+
+// Keyset cursor over (timestamp, id); the timestamp is kept as Postgres text to preserve microseconds.
+function encodeLogCursor(timestampKey, id) {
+  return Buffer.from(`${timestampKey}|${id}`, 'utf8').toString('base64');
+}
+
+function decodeLogCursor(raw) {
+  const decoded = Buffer.from(raw, 'base64').toString('utf8');
+  const separator = decoded.lastIndexOf('|');
+  if (separator <= 0) throw new Error('Invalid cursor');
+  return { timestamp: decoded.slice(0, separator), id: decoded.slice(separator + 1) };
+}
+
+function parseTimestampParam(url, name) {
+  const raw = url.searchParams.get(name);
+  if (!raw) return null;
+  if (Number.isNaN(Date.parse(raw))) throw new Error(`Invalid ${name} timestamp`);
+  return raw;
+}
+
+// `fields` is a JSON object of structured field values a log line must contain, e.g. {"trace_id":"abc"}.
+function parseFieldsParam(url) {
+  const raw = url.searchParams.get('fields');
+  if (!raw) return null;
+  let parsed;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('Invalid fields filter');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Invalid fields filter');
+  }
+  return Object.keys(parsed).length > 0 ? parsed : null;
+}
+
+function parseIdListParam(url, name) {
+  return (url.searchParams.get(name) || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean)
+    .slice(0, ID_LIST_PARAM_MAX);
+}
+
+// Mutating actions (acknowledgeAlert, silenceAlert) must be sent as POST.
+function requirePost(req, action) {
+  if (req.method !== 'POST') throw new Error(`${action} requires POST`);
+}
+
+function parseAlertId(url) {
+  const alertId = url.searchParams.get('alertId') || '';
+  if (!/^\d+$/.test(alertId)) throw new Error('alertId is required');
+  return alertId;
+}
+
+// Builds WHERE conditions for searchLogs (logs aliased as `l`): text query, levels, time range and cursor.
+function buildLogSearchFilter(url, params) {
+  const conditions = [];
+
+  const query = url.searchParams.get('q')?.trim();
+  if (query) {
+    params.push(`%${query.replace(/[\\%_]/g, (ch) => `\\${ch}`)}%`);
+    conditions.push(`l.message ILIKE $${params.length}`);
+  }
+
+  const levels = (url.searchParams.get('level') || '')
+    .split(',')
+    .map((level) => level.trim())
+    .filter((level) => LOG_LEVELS.includes(level));
+  if (levels.length > 0) {
+    params.push(levels);
+    conditions.push(`l.level = ANY($${params.length}::log_level[])`);
+  }
+
+  if (url.searchParams.get('exceptions') === 'true') {
+    conditions.push(`l.message ~* '${EXCEPTION_PATTERN}'`);
+  }
+
+  const fields = parseFieldsParam(url);
+  if (fields) {
+    params.push(JSON.stringify(fields));
+    conditions.push(`l.fields @> $${params.length}::jsonb`);
+  }
+
+  const from = parseTimestampParam(url, 'from');
+  if (from) {
+    params.push(from);
+    conditions.push(`l.timestamp >= $${params.length}::timestamptz`);
+  }
+  const to = parseTimestampParam(url, 'to');
+  if (to) {
+    params.push(to);
+    conditions.push(`l.timestamp <= $${params.length}::timestamptz`);
+  }
+
+  const rawCursor = url.searchParams.get('cursor');
+  if (rawCursor) {
+    const cursor = decodeLogCursor(rawCursor);
+    params.push(cursor.timestamp, cursor.id);
+    conditions.push(`(l.timestamp, l.id) < ($${params.length - 1}::timestamptz, $${params.length}::uuid)`);
+  }
+
+  return { conditions };
+}
+
+// Server-sent events stream of new log rows for one container (action=tailLogs).
+// Each `logs` event carries a JSON array of rows; the event id is the created_at watermark,
+// so a reconnecting client resumes via Last-Event-ID.
+async function streamLogTail(req, res, url, corsHeaders, principal) {
+  const containerId = url.searchParams.get('containerId');
+  if (!containerId) throw new Error('containerId is required');
+  const target = await authorizeContainer(principal, containerId);
+  // Reconnects carry Last-Event-ID; only the first connection is audited
+  if (!req.headers['last-event-id']) await recordAudit(principal, 'tailLogs', target, auditLogQueryDetails(url));
+
+  const resumeFrom = req.headers['last-event-id'] || parseTimestampParam(url, 'since');
+  const floorRes = resumeFrom
+    ? { rows: [{ floor: resumeFrom }] }
+    : await pool.query('SELECT now()::text AS floor');
+  const floor = floorRes.rows[0].floor;
+
+  res.writeHead(200, {
+    ...corsHeaders,
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write('retry: 2000\n\n');
+
+  let closed = false;
+  let watermark = floor;
+  let watermarkMs = 0;
+  let lastWriteAt = Date.now();
+  const sentIds = new Map();
+  const startedAt = Date.now();
+  req.on('close', () => {
+    closed = true;
+  });
+
+  while (!closed) {
+    try {
+      const params = [containerId];
+      const filterConditions = buildLogSearchFilter(url, params).conditions;
+      params.push(floor, watermark, LOG_TAIL_LOOKBACK_SECONDS, [...sentIds.keys()]);
+      const n = params.length;
+      const batchRes = await pool.query(
+        `SELECT l.id, l.container_id, l.timestamp, l.level, l.message, l.fields, l.redactions, l.created_at,
+                l.created_at::text AS created_key
+         FROM logs l
+         WHERE l.container_id = $1
+           AND l.created_at > GREATEST($${n - 3}::timestamptz, $${n - 2}::timestamptz - make_interval(secs => $${n - 1}))
+           AND NOT (l.id = ANY($${n}::uuid[]))
+           ${filterConditions.map((condition) => `AND ${condition}`).join(' ')}
+         ORDER BY l.created_at, l.id
+         LIMIT ${LOG_TAIL_BATCH_SIZE}`,
+        params
+      );
+
+      if (batchRes.rows.length > 0) {
+        for (const row of batchRes.rows) {
+          const createdMs = new Date(row.created_at).getTime();
+          sentIds.set(row.id, createdMs);
+          if (createdMs > watermarkMs) {
+            watermarkMs = createdMs;
+            watermark = row.created_key;
+          }
+        }
+        for (const [id, createdMs] of sentIds) {
+          if (createdMs < watermarkMs - LOG_TAIL_LOOKBACK_SECONDS * 1000) sentIds.delete(id);
+        }
+        const rows = batchRes.rows.map(({ created_key: _createdKey, ...row }) => row);
+        res.write(`id: ${watermark}\nevent: logs\ndata: ${JSON.stringify(rows)}\n\n`);
+        lastWriteAt = Date.now();
+      } else if (Date.now() - lastWriteAt >= LOG_TAIL_HEARTBEAT_MS) {
+        res.write(': heartbeat\n\n');
+        lastWriteAt = Date.now();
+      }
+    } catch (err) {
+      console.error('Log tail error:', err);
+      res.write(`event: error\ndata: ${JSON.stringify({ error: err.message || 'Unknown error' })}\n\n`);
+      break;
+    }
+
+    if (Date.now() - startedAt >= LOG_TAIL_MAX_SECONDS * 1000) break;
+    await new Promise((resolve) => setTimeout(resolve, LOG_TAIL_POLL_INTERVAL_MS));
+  }
+
+  res.end();
+}
+
 const server = createServer(async (req, res) => {
   const corsHeaders = buildCorsHeaders(req.headers.origin);
   if (req.method === 'OPTIONS') {
@@ -151,56 +977,124 @@ const server = createServer(async (req, res) => {
   const action = url.searchParams.get('action');
 
   try {
+    const principal = PUBLIC_ACTIONS.includes(action) ? ANONYMOUS_PRINCIPAL : await authenticate(req);
+    authorizeAction(principal, action);
+
+    if (action === 'tailLogs') {
+      await streamLogTail(req, res, url, corsHeaders, principal);
+      return;
+    }
+
     let result;
 
     switch (action) {
       case 'getPods': {
-        const podsRes = await pool.query(`
-          SELECT id, name, namespace, status, node_name, pod_ip, labels, restarts, created_at, updated_at
-          FROM pods ORDER BY created_at DESC
-        `);
-        const containersRes = await pool.query(`
-          SELECT id, pod_id, name, image, status, ready, restart_count, started_at,
-                 last_state_reason, last_state_exit_code, last_state_message,
-                 cpu_request_millicores, cpu_limit_millicores, memory_request_bytes, memory_limit_bytes,
-                 created_at, updated_at
-          FROM containers
-        `);
-        const podLogSummariesRes = await pool.query(`
-          SELECT
-            c.pod_id,
-            COUNT(*) FILTER (WHERE l.level = 'error')::int AS error_count,
-            COUNT(*) FILTER (WHERE l.level = 'warn')::int AS warning_count,
-            COUNT(*) FILTER (
-              WHERE l.message ~* '(exception|stacktrace|traceback|(^|\\s)at\\s+\\S+)'
-            )::int AS exception_count
-          FROM logs l
-          JOIN containers c ON c.id = l.container_id
-          GROUP BY c.pod_id
-        `);
+        const scope = buildPodScopeFilter(url, 'p', principal, {
+          activeOnly: url.searchParams.get('includeDeleted') !== 'true',
+        });
+        const podsRes = await pool.query(
+          `SELECT p.id, p.name, p.namespace, p.cluster, p.status, p.node_name, p.pod_ip, p.labels, p.restarts,
+                  p.created_at, p.updated_at, p.last_seen_at, p.deleted_at, p.workload_kind, p.workload_name
+           FROM pods p ${scope.clause} ORDER BY p.created_at DESC`,
+          scope.params
+        );
+        const containersRes = await pool.query(
+          `SELECT c.id, c.pod_id, c.name, c.image, c.status, c.ready, c.restart_count, c.started_at,
+                  c.last_state_reason, c.last_state_exit_code, c.last_state_message,
+                  c.cpu_request_millicores, c.cpu_limit_millicores, c.memory_request_bytes, c.memory_limit_bytes,
+                  c.created_at, c.updated_at
+           FROM containers c
+           JOIN pods p ON p.id = c.pod_id
+           ${scope.clause}`,
+          scope.params
+        );
+        const podLogSummariesRes = await pool.query(
+          `SELECT
+             c.pod_id,
+             COUNT(*) FILTER (WHERE l.level IN ('error', 'fatal'))::int AS error_count,
+             COUNT(*) FILTER (WHERE l.level = 'warn')::int AS warning_count,
+             COUNT(*) FILTER (
+               WHERE l.message ~* '${EXCEPTION_PATTERN}'
+                 AND l.message !~ '${STACK_CONTINUATION_PATTERN}'
+             )::int AS exception_count
+           FROM logs l
+           JOIN containers c ON c.id = l.container_id
+           JOIN pods p ON p.id = c.pod_id
+           ${scope.clause}
+           GROUP BY c.pod_id`,
+          scope.params
+        );
+        const eventConditions = [
+          ...scope.conditions,
+          "e.type = 'Warning'",
+          "e.involved_kind = 'Pod'",
+          `e.last_timestamp >= now() - make_interval(mins => $${scope.params.length + 1})`,
+        ];
+        let podEventSummariesRes;
+        try {
+          podEventSummariesRes = await pool.query(
+            `SELECT
+               e.involved_uid AS pod_id,
+               SUM(e.count)::int AS warning_count,
+               (ARRAY_AGG(e.reason ORDER BY e.last_timestamp DESC))[1] AS last_warning_reason,
+               (ARRAY_AGG(e.message ORDER BY e.last_timestamp DESC))[1] AS last_warning_message,
+               MAX(e.last_timestamp) AS last_warning_at
+             FROM events e
+             JOIN pods p ON p.id::text = e.involved_uid
+             WHERE ${eventConditions.join(' AND ')}
+             GROUP BY e.involved_uid`,
+            [...scope.params, EVENT_WARNING_WINDOW_MINUTES]
+          );
+        } catch (error) {
+          if (String(error?.message || '').includes('relation "events"')) {
+            podEventSummariesRes = { rows: [] };
+          } else {
+            throw error;
+          }
+        }
         result = {
           pods: podsRes.rows,
           containers: containersRes.rows,
           podLogSummaries: podLogSummariesRes.rows,
+          podEventSummaries: podEventSummariesRes.rows,
         };
         break;
       }
+      case 'getNamespaces': {
+        const params = [];
+        const grantCondition = buildGrantCondition(principal, 'p', params);
+        const namespacesRes = await pool.query(
+          `SELECT p.cluster, p.namespace, COUNT(*) FILTER (WHERE p.deleted_at IS NULL)::int AS pod_count
+           FROM pods p
+           ${grantCondition ? `WHERE ${grantCondition}` : ''}
+           GROUP BY p.cluster, p.namespace
+           ORDER BY p.cluster, p.namespace`,
+          params
+        );
+        result = { namespaces: namespacesRes.rows };
+        break;
+      }
       case 'getLogs': {
         const containerId = url.searchParams.get('containerId');
         if (!containerId) throw new Error('containerId is required');
+        const target = await authorizeContainer(principal, containerId);
+        await recordAudit(principal, action, target, auditLogQueryDetails(url));
         const limit = parseLogLimit(url);
         const [logsRes, summaryRes] = await Promise.all([
           pool.query(
-            `SELECT id, container_id, timestamp, level, message, created_at
+            `SELECT id, container_id, timestamp, level, message, fields, redactions, created_at
              FROM logs WHERE container_id = $1 ORDER BY timestamp DESC LIMIT $2`,
             [containerId, limit]
           ),
           pool.query(
             `SELECT
-               COUNT(*) FILTER (WHERE level = 'error')::int AS error_count,
+               COUNT(*) FILTER (WHERE level IN ('error', 'fatal'))::int AS error_count,
+               COUNT(*) FILTER (WHERE level = 'fatal')::int AS fatal_count,
                COUNT(*) FILTER (WHERE level = 'warn')::int AS warning_count,
+               COUNT(*) FILTER (WHERE level = 'debug')::int AS debug_count,
                COUNT(*) FILTER (
-                 WHERE message ~* '(exception|stacktrace|traceback|(^|\\s)at\\s+\\S+)'
+                 WHERE message ~* '${EXCEPTION_PATTERN}'
+                   AND message !~ '${STACK_CONTINUATION_PATTERN}'
                )::int AS exception_count
              FROM logs
              WHERE container_id = $1`,
@@ -209,36 +1103,410 @@ const server = createServer(async (req, res) => {
         ]);
         result = {
           logs: [...logsRes.rows].reverse(),
-          summary: summaryRes.rows[0] || { error_count: 0, warning_count: 0, exception_count: 0 },
+          summary: summaryRes.rows[0] || { error_count: 0, fatal_count: 0, warning_count: 0, debug_count: 0, exception_count: 0 },
         };
         break;
       }
-      case 'getResourceSamples': {
+      case 'searchLogs': {
+        // Scoped to one container (LogViewer) or across pods/containers/namespaces (log search page).
+        const containerId = url.searchParams.get('containerId');
+        const containerIds = parseIdListParam(url, 'containerIds');
+        const podIds = parseIdListParam(url, 'podIds');
+        const rawLimit = parseInt(url.searchParams.get('limit') || '', 10);
+        const limit = Number.isFinite(rawLimit) && rawLimit > 0
+          ? Math.min(rawLimit, LOG_QUERY_LIMIT_MAX)
+          : LOG_SEARCH_PAGE_SIZE_DEFAULT;
+
+        const scope = buildPodScopeFilter(url, 'p', principal);
+        const params = [...scope.params];
+        const conditions = [...scope.conditions];
+        const isFirstPage = !url.searchParams.get('cursor');
+        // The container summary below reads logs directly, so the container itself has to be granted
+        const target = containerId ? await authorizeContainer(principal, containerId) : {};
+        // Paging through older results is part of the same search, so only the first page is audited
+        if (isFirstPage) {
+          await recordAudit(principal, action, target, auditLogQueryDetails(url));
+        }
+        if (containerId) {
+          params.push(containerId);
+          conditions.push(`l.container_id = $${params.length}`);
+        }
+        if (containerIds.length > 0) {
+          params.push(containerIds);
+          conditions.push(`l.container_id = ANY($${params.length}::uuid[])`);
+        }
+        if (podIds.length > 0) {
+          params.push(podIds);
+          conditions.push(`c.pod_id = ANY($${params.length}::uuid[])`);
+        }
+        conditions.push(...buildLogSearchFilter(url, params).conditions);
+        const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        const fromClause = `
+          FROM logs l
+          JOIN containers c ON c.id = l.container_id
+          JOIN pods p ON p.id = c.pod_id`;
+
+        // Newest first so each page continues backwards from the previous cursor.
+        const logsRes = await pool.query(
+          `SELECT l.id, l.container_id, l.timestamp, l.level, l.message, l.fields, l.redactions, l.created_at,
+                  c.pod_id, p.name AS pod_name, c.name AS container_name,
+                  l.timestamp::text AS timestamp_key
+           ${fromClause}
+           ${whereClause}
+           ORDER BY l.timestamp DESC, l.id DESC
+           LIMIT $${params.length + 1}`,
+          [...params, limit + 1]
+        );
+        const hasMore = logsRes.rows.length > limit;
+        const pageRows = logsRes.rows.slice(0, limit);
+        const oldest = pageRows[pageRows.length - 1];
+
+        let summary = null;
+        if (containerId && isFirstPage) {
+          const summaryRes = await pool.query(
+            `SELECT
+               COUNT(*) FILTER (WHERE level IN ('error', 'fatal'))::int AS error_count,
+               COUNT(*) FILTER (WHERE level = 'fatal')::int AS fatal_count,
+               COUNT(*) FILTER (WHERE level = 'warn')::int AS warning_count,
+               COUNT(*) FILTER (WHERE level = 'debug')::int AS debug_count,
+               COUNT(*) FILTER (
+                 WHERE message ~* '${EXCEPTION_PATTERN}'
+                   AND message !~ '${STACK_CONTINUATION_PATTERN}'
+               )::int AS exception_count
+             FROM logs
+             WHERE container_id = $1`,
+            [containerId]
+          );
+          summary = summaryRes.rows[0] || { error_count: 0, fatal_count: 0, warning_count: 0, debug_count: 0, exception_count: 0 };
+        }
+
+        // Hit counts per container for the facet lists, bounded so broad queries stay cheap.
+        let facets = null;
+        if (url.searchParams.get('facets') === 'true' && isFirstPage) {
+          const facetsRes = await pool.query(
+            `SELECT hits.container_id, COUNT(*)::int AS hit_count
+             FROM (
+               SELECT l.container_id
+               ${fromClause}
+               ${whereClause}
+               LIMIT $${params.length + 1}
+             ) hits
+             GROUP BY hits.container_id`,
+            [...params, LOG_SEARCH_FACET_SCAN_LIMIT]
+          );
+          const scanned = facetsRes.rows.reduce((sum, row) => sum + Number(row.hit_count), 0);
+          facets = { containers: facetsRes.rows, truncated: scanned >= LOG_SEARCH_FACET_SCAN_LIMIT };
+        }
+
+        result = {
+          logs: pageRows.map(({ timestamp_key: _timestampKey, ...row }) => row).reverse(),
+          nextCursor: hasMore && oldest ? encodeLogCursor(oldest.timestamp_key, oldest.id) : null,
+          summary,
+          facets,
+        };
+        break;
+      }
+      case 'getEvents': {
+        const podId = url.searchParams.get('podId');
+        if (!podId) throw new Error('podId is required');
+        await authorizePod(principal, podId);
+        const type = url.searchParams.get('type');
+        const rawLimit = parseInt(url.searchParams.get('limit') || '200', 10);
+        const limit = Number.isFinite(rawLimit) && rawLimit > 0 ? Math.min(rawLimit, EVENT_QUERY_LIMIT_MAX) : 200;
+        const eventsRes = await pool.query(
+          `SELECT id, cluster, namespace, involved_kind, involved_name, involved_uid, type, reason, message,
+                  count, source_component, first_timestamp, last_timestamp
+           FROM events
+           WHERE involved_uid = $1
+             AND ($2::text IS NULL OR type = $2)
+           ORDER BY last_timestamp DESC
+           LIMIT $3`,
+          [podId, type, limit]
+        );
+        result = { events: eventsRes.rows };
+        break;
+      }
+      case 'getContainerHistory': {
         const containerId = url.searchParams.get('containerId');
         if (!containerId) throw new Error('containerId is required');
-        let samplesRes;
+        await authorizeContainer(principal, containerId);
+        const rawHours = parseInt(url.searchParams.get('hours') || '', 10);
+        const hours = Number.isFinite(rawHours) && rawHours > 0
+          ? Math.min(rawHours, CONTAINER_HISTORY_HOURS_MAX)
+          : CONTAINER_HISTORY_HOURS_DEFAULT;
+        let historyRes;
         try {
-          samplesRes = await pool.query(
-            `SELECT sampled_at, cpu_millicores, memory_bytes
-             FROM container_resource_samples
-             WHERE container_id = $1
-             ORDER BY sampled_at DESC
-             LIMIT 120`,
-            [containerId]
+          // Include the last change before the window so the timeline starts in a known state.
+          historyRes = await pool.query(
+            `SELECT h.*
+             FROM (
+               (
+                 SELECT container_id, status, ready, restart_count, reason, exit_code, message, started_at, recorded_at
+                 FROM container_status_history
+                 WHERE container_id = $1
+                   AND recorded_at < now() - make_interval(hours => $2)
+                 ORDER BY recorded_at DESC
+                 LIMIT 1
+               )
+               UNION ALL
+               (
+                 SELECT container_id, status, ready, restart_count, reason, exit_code, message, started_at, recorded_at
+                 FROM container_status_history
+                 WHERE container_id = $1
+                   AND recorded_at >= now() - make_interval(hours => $2)
+                 ORDER BY recorded_at DESC
+                 LIMIT $3
+               )
+             ) h
+             ORDER BY h.recorded_at ASC`,
+            [containerId, hours, CONTAINER_HISTORY_ROW_LIMIT]
+          );
+        } catch (error) {
+          if (String(error?.message || '').includes('container_status_history')) {
+            historyRes = { rows: [] };
+          } else {
+            throw error;
+          }
+        }
+        result = { history: historyRes.rows, hours };
+        break;
+      }
+      case 'getPodStatusHistory': {
+        const podIds = parseIdListParam(url, 'podIds');
+        if (podIds.length === 0) throw new Error('podIds is required');
+        const params = [podIds, POD_STATUS_HISTORY_ROW_LIMIT];
+        const grantCondition = buildGrantCondition(principal, 'p', params);
+        let historyRes;
+        try {
+          historyRes = await pool.query(
+            `SELECT c.pod_id, c.name AS container_name,
+                    h.container_id, h.status, h.ready, h.restart_count, h.reason, h.exit_code, h.message,
+                    h.started_at, h.recorded_at
+             FROM container_status_history h
+             JOIN containers c ON c.id = h.container_id
+             JOIN pods p ON p.id = c.pod_id
+             WHERE c.pod_id = ANY($1::uuid[])
+               ${grantCondition ? `AND ${grantCondition}` : ''}
+             ORDER BY h.recorded_at ASC
+             LIMIT $2`,
+            params
+          );
+        } catch (error) {
+          if (String(error?.message || '').includes('container_status_history')) {
+            historyRes = { rows: [] };
+          } else {
+            throw error;
+          }
+        }
+        result = { history: historyRes.rows };
+        break;
+      }
+      case 'getTopErrors': {
+        const podIds = parseIdListParam(url, 'podIds');
+        if (podIds.length === 0) throw new Error('podIds is required');
+        const params = [podIds, TOP_ERRORS_ROW_LIMIT];
+        const grantCondition = buildGrantCondition(principal, 'p', params);
+        let fingerprintsRes;
+        try {
+          // One row per fingerprint and version; the dashboard compares versions to spot new errors.
+          fingerprintsRes = await pool.query(
+            `SELECT f.fingerprint, f.version,
+                    MIN(f.pattern) AS pattern,
+                    (array_agg(f.sample_message ORDER BY f.last_seen DESC))[1] AS sample_message,
+                    MAX(f.level)::text AS level,
+                    SUM(f.occurrences)::int AS occurrences,
+                    COUNT(*)::int AS container_count,
+                    MIN(f.first_seen) AS first_seen,
+                    MAX(f.last_seen) AS last_seen
+             FROM error_fingerprints f
+             JOIN containers c ON c.id = f.container_id
+             JOIN pods p ON p.id = c.pod_id
+             WHERE c.pod_id = ANY($1::uuid[])
+               ${grantCondition ? `AND ${grantCondition}` : ''}
+             GROUP BY f.fingerprint, f.version
+             ORDER BY MAX(f.last_seen) DESC
+             LIMIT $2`,
+            params
+          );
+        } catch (error) {
+          if (String(error?.message || '').includes('error_fingerprints')) {
+            fingerprintsRes = { rows: [] };
+          } else {
+            throw error;
+          }
+        }
+        result = { fingerprints: fingerprintsRes.rows };
+        break;
+      }
+      case 'getWorkloads': {
+        const scope = buildPodScopeFilter(url, 'w', principal);
+        let workloadsRes;
+        try {
+          workloadsRes = await pool.query(
+            `SELECT w.id, w.cluster, w.namespace, w.kind, w.name, w.desired_replicas, w.ready_replicas,
+                    w.available_replicas, w.updated_replicas, w.conditions, w.rollout_status, w.rollout_message,
+                    w.rollout_started_at, w.updated_at
+             FROM workloads w
+             ${scope.clause}
+             ORDER BY w.cluster, w.namespace, w.name`,
+            scope.params
           );
         } catch (error) {
-          if (String(error?.message || '').includes('container_resource_samples')) {
-            samplesRes = { rows: [] };
+          if (String(error?.message || '').includes('workloads')) {
+            workloadsRes = { rows: [] };
           } else {
             throw error;
           }
         }
-        result = { samples: [...samplesRes.rows].reverse() };
+        result = { workloads: workloadsRes.rows };
+        break;
+      }
+      case 'getAlerts': {
+        const scope = buildPodScopeFilter(url, 'a', principal);
+        const params = [...scope.params];
+        const conditions = [...scope.conditions];
+        const status = url.searchParams.get('status');
+        if (status && ALERT_STATUSES.includes(status)) {
+          params.push(status);
+          conditions.push(`a.status = $${params.length}`);
+        }
+        params.push(ALERTS_ROW_LIMIT);
+        let alertsRes;
+        try {
+          alertsRes = await pool.query(
+            `SELECT ${ALERT_COLUMNS}
+             FROM alerts a
+             ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+             ORDER BY (a.status = 'firing') DESC, a.started_at DESC
+             LIMIT $${params.length}`,
+            params
+          );
+        } catch (error) {
+          if (String(error?.message || '').includes('alerts')) {
+            alertsRes = { rows: [] };
+          } else {
+            throw error;
+          }
+        }
+        result = { alerts: alertsRes.rows };
+        break;
+      }
+      case 'getAlertDeliveries': {
+        const alertId = parseAlertId(url);
+        await authorizeAlert(principal, alertId);
+        let deliveriesRes;
+        try {
+          deliveriesRes = await pool.query(
+            `SELECT id::text AS id, alert_id::text AS alert_id, notifier_id, notifier_type, event, status,
+                    attempts, response_status, error, created_at, delivered_at
+             FROM alert_deliveries
+             WHERE alert_id = $1
+             ORDER BY created_at DESC
+             LIMIT $2`,
+            [alertId, ALERT_DELIVERIES_ROW_LIMIT]
+          );
+        } catch (error) {
+          if (String(error?.message || '').includes('alert_deliveries')) {
+            deliveriesRes = { rows: [] };
+          } else {
+            throw error;
+          }
+        }
+        result = { deliveries: deliveriesRes.rows };
+        break;
+      }
+      case 'acknowledgeAlert': {
+        requirePost(req, action);
+        const alertId = parseAlertId(url);
+        const target = await authorizeAlert(principal, alertId);
+        const alertRes = await pool.query(
+          `UPDATE alerts
+           SET acknowledged_at = COALESCE(acknowledged_at, now())
+           WHERE id = $1
+           RETURNING ${ALERT_COLUMNS}`,
+          [alertId]
+        );
+        if (alertRes.rows.length === 0) throw new Error('Alert not found');
+        await recordAudit(principal, action, target, { alertId });
+        result = { alert: alertRes.rows[0] };
+        break;
+      }
+      case 'silenceAlert': {
+        requirePost(req, action);
+        const alertId = parseAlertId(url);
+        const target = await authorizeAlert(principal, alertId);
+        // minutes=0 lifts the silence
+        const rawMinutes = parseInt(url.searchParams.get('minutes') || '', 10);
+        if (!Number.isFinite(rawMinutes) || rawMinutes < 0) throw new Error('minutes is required');
+        const minutes = Math.min(rawMinutes, ALERT_SILENCE_MINUTES_MAX);
+        const alertRes = await pool.query(
+          `UPDATE alerts
+           SET silenced_until = CASE WHEN $2::int > 0 THEN now() + make_interval(mins => $2::int) END
+           WHERE id = $1
+           RETURNING ${ALERT_COLUMNS}`,
+          [alertId, minutes]
+        );
+        if (alertRes.rows.length === 0) throw new Error('Alert not found');
+        await recordAudit(principal, action, target, { alertId, minutes });
+        result = { alert: alertRes.rows[0] };
+        break;
+      }
+      case 'getVersionImpact': {
+        result = { impact: await fetchVersionImpact(url, principal) };
+        break;
+      }
+      case 'getResourceSamples': {
+        const containerId = url.searchParams.get('containerId');
+        if (!containerId) throw new Error('containerId is required');
+        await authorizeContainer(principal, containerId);
+        result = await fetchResourceSamples(url, containerId);
+        break;
+      }
+      case 'getResourceRecommendations': {
+        result = { recommendations: await fetchResourceRecommendations(url, principal) };
+        break;
+      }
+      case 'whoami': {
+        result = {
+          authRequired: API_AUTH_REQUIRED,
+          principal: { name: principal.name, role: principal.role, namespaces: principal.namespaces },
+        };
+        break;
+      }
+      case 'getAuditLog': {
+        const scope = buildPodScopeFilter(url, 'a', principal);
+        const params = [...scope.params];
+        const conditions = [...scope.conditions];
+        const actor = url.searchParams.get('actor');
+        if (actor) {
+          params.push(actor);
+          conditions.push(`a.actor = $${params.length}`);
+        }
+        const auditAction = url.searchParams.get('auditAction');
+        if (auditAction) {
+          params.push(auditAction);
+          conditions.push(`a.action = $${params.length}`);
+        }
+        params.push(AUDIT_LOG_ROW_LIMIT);
+        const auditRes = await pool.query(
+          `SELECT a.id::text AS id, a.token_id::text AS token_id, a.actor, a.role, a.action, a.cluster, a.namespace,
+                  a.pod_id, a.container_id, a.details, a.created_at
+           FROM audit_log a
+           ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+           ORDER BY a.created_at DESC
+           LIMIT $${params.length}`,
+          params
+        );
+        result = { entries: auditRes.rows };
         break;
       }
       case 'health': {
         await pool.query('SELECT 1');
         result = { status: 'healthy', timestamp: new Date().toISOString() };
+        // Probes call health without a token; freshness and collector runs need the same access as getPods
+        if (req.headers['x-api-token'] || !API_AUTH_REQUIRED) {
+          Object.assign(result, await fetchHealthDetails(url, await authenticate(req)));
+        }
         break;
       }
       default:
@@ -248,14 +1516,17 @@ const server = createServer(async (req, res) => {
     res.writeHead(200, corsHeaders);
     res.end(JSON.stringify(result));
   } catch (err) {
-    console.error('Database error:', err);
-    res.writeHead(500, corsHeaders);
+    if (!err.status) console.error('Database error:', err);
+    res.writeHead(err.status || 500, corsHeaders);
     res.end(JSON.stringify({ error: err.message || 'Unknown error' }));
   }
 });
 
 server.listen(PORT, HOST, () => {
   console.log(`Local DB API: http://${HOST}:${PORT}/functions/v1/database`);
+  if (!API_AUTH_REQUIRED) {
+    console.warn('API_AUTH_REQUIRED is not set: requests without an API token have read-only access');
+  }
   if (staticRoot) {
     console.log(`Serving static files from: ${staticRoot}`);
   }
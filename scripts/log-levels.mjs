@@ -0,0 +1,171 @@
+/**
+ * Log level classification shared by the collectors: JSON log lines are parsed into scalar fields, and each
+ * line gets a level from its structured level field, a logfmt `level=...` or the first matching pattern.
+ * Rules come from LOG_LEVEL_RULES and can be overridden per deployment.
+ */
+
+const STRUCTURED_FIELD_LIMIT = 50;
+const STRUCTURED_VALUE_MAX_LENGTH = 1024;
+
+// Flattens one level of nesting ({"log": {"level": "warn"}} -> "log.level") and keeps only
+// scalar values so the stored JSONB stays small and every field can be filtered on.
+export function parseStructuredLog(message) {
+  const trimmed = message.trim();
+  if (!trimmed.startsWith('{') || !trimmed.endsWith('}')) return null;
+
+  let parsed;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+
+  const fields = {};
+  let count = 0;
+  const addField = (key, value) => {
+    if (count >= STRUCTURED_FIELD_LIMIT || value === undefined) return;
+    if (value === null || typeof value === 'number' || typeof value === 'boolean') {
+      fields[key] = value;
+    } else if (typeof value === 'string') {
+      fields[key] = value.slice(0, STRUCTURED_VALUE_MAX_LENGTH);
+    } else {
+      return;
+    }
+    count += 1;
+  };
+
+  for (const [key, value] of Object.entries(parsed)) {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      for (const [nestedKey, nestedValue] of Object.entries(value)) {
+        addField(`${key}.${nestedKey}`, nestedValue);
+      }
+    } else {
+      addField(key, value);
+    }
+  }
+
+  return count > 0 ? fields : null;
+}
+
+const LEVEL_NAME_ALIASES = {
+  trace: 'debug',
+  debug: 'debug',
+  verbose: 'debug',
+  info: 'info',
+  information: 'info',
+  notice: 'info',
+  warn: 'warn',
+  warning: 'warn',
+  error: 'error',
+  err: 'error',
+  fatal: 'fatal',
+  critical: 'fatal',
+  crit: 'fatal',
+  panic: 'fatal',
+  alert: 'fatal',
+  emerg: 'fatal',
+  emergency: 'fatal',
+};
+const LOG_LEVEL_VALUES = ['debug', 'info', 'warn', 'error', 'fatal'];
+const DEFAULT_JSON_LEVEL_FIELDS = ['level', 'lvl', 'severity', 'log.level', 'levelname', 'loglevel'];
+// Whole words only, so "0 errors found" or "errorHandler registered" stay info.
+const DEFAULT_LEVEL_PATTERNS = [
+  { level: 'fatal', regex: '\\b(fatal|panic)\\b', flags: 'i' },
+  { level: 'error', regex: '\\b(error|traceback)\\b|exception\\b', flags: 'i' },
+  { level: 'warn', regex: '\\bwarn(ing)?\\b', flags: 'i' },
+  { level: 'debug', regex: '\\b(DEBUG|TRACE)\\b', flags: '' },
+];
+
+function normalizeLevelName(value) {
+  if (typeof value === 'number') {
+    // pino/bunyan numeric levels: 20 = debug, 30 = info, 40 = warn, 50 = error, 60 = fatal
+    if (value >= 60) return 'fatal';
+    if (value >= 50) return 'error';
+    if (value >= 40) return 'warn';
+    if (value >= 30) return 'info';
+    return 'debug';
+  }
+  if (typeof value !== 'string') return null;
+  return LEVEL_NAME_ALIASES[value.trim().toLowerCase()] || null;
+}
+
+function compileLevelRuleSet(config, base, source) {
+  const ruleSet = { ...base };
+  if (config.jsonLevelFields !== undefined) {
+    if (!Array.isArray(config.jsonLevelFields)) {
+      throw new Error(`${source}.jsonLevelFields must be an array of field names`);
+    }
+    ruleSet.jsonLevelFields = config.jsonLevelFields.map(String);
+  }
+  if (config.logfmt !== undefined) {
+    ruleSet.logfmt = Boolean(config.logfmt);
+  }
+  if (config.patterns !== undefined) {
+    if (!Array.isArray(config.patterns)) {
+      throw new Error(`${source}.patterns must be an array of { level, regex, flags? }`);
+    }
+    ruleSet.patterns = config.patterns.map((rule, index) => {
+      if (!LOG_LEVEL_VALUES.includes(rule?.level)) {
+        throw new Error(`${source}.patterns[${index}].level must be one of ${LOG_LEVEL_VALUES.join(', ')}`);
+      }
+      try {
+        return { level: rule.level, regex: new RegExp(rule.regex, rule.flags ?? 'i') };
+      } catch (error) {
+        throw new Error(`${source}.patterns[${index}].regex is invalid: ${error.message}`);
+      }
+    });
+  }
+  return ruleSet;
+}
+
+// LOG_LEVEL_RULES is JSON: { jsonLevelFields, logfmt, patterns: [{ level, regex, flags }], deployments: { <name>: {...} } }.
+// Deployment entries override the top-level settings they define; everything else falls back to the defaults.
+export function compileLogLevelRules(raw) {
+  const defaults = compileLevelRuleSet(
+    { jsonLevelFields: DEFAULT_JSON_LEVEL_FIELDS, logfmt: true, patterns: DEFAULT_LEVEL_PATTERNS },
+    {},
+    'defaults'
+  );
+  if (!raw || !raw.trim()) {
+    return { global: defaults, deployments: new Map() };
+  }
+
+  let config;
+  try {
+    config = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`LOG_LEVEL_RULES is not valid JSON: ${error.message}`);
+  }
+  const global = compileLevelRuleSet(config, defaults, 'LOG_LEVEL_RULES');
+  const deployments = new Map(
+    Object.entries(config.deployments || {}).map(([name, overrides]) => [
+      name,
+      compileLevelRuleSet(overrides || {}, global, `LOG_LEVEL_RULES.deployments.${name}`),
+    ])
+  );
+  return { global, deployments };
+}
+
+export function levelRulesForDeployment(rules, deploymentName) {
+  return rules.deployments.get(deploymentName) || rules.global;
+}
+
+// Structured level field first, then logfmt `level=...`, then the first matching pattern.
+export function classifyLogLevel(message, fields, rules) {
+  if (fields) {
+    for (const key of rules.jsonLevelFields) {
+      const level = normalizeLevelName(fields[key]);
+      if (level) return level;
+    }
+  }
+  if (rules.logfmt) {
+    const logfmtMatch = message.match(/(?:^|\s)(?:level|lvl)=("?)([A-Za-z]+)\1(?=\s|$)/);
+    const level = normalizeLevelName(logfmtMatch?.[2]);
+    if (level) return level;
+  }
+  for (const pattern of rules.patterns) {
+    if (pattern.regex.test(message)) return pattern.level;
+  }
+  return 'info';
+}
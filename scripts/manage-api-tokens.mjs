@@ -0,0 +1,207 @@
+#!/usr/bin/env node
+/**
+ * Manages API tokens for the database API and prints its audit log.
+ * A token is shown once when it is created; only its SHA-256 hash is stored.
+ *
+ * Usage:
+ *   node scripts/manage-api-tokens.mjs create <name> --role viewer|operator|admin [--namespaces a,b] [--expires-days N]
+ *   node scripts/manage-api-tokens.mjs list
+ *   node scripts/manage-api-tokens.mjs revoke <name>
+ *   node scripts/manage-api-tokens.mjs audit [--actor name] [--limit N]
+ *
+ * --namespaces takes "cluster/namespace", "cluster/*" or bare namespace entries; omit it to grant every namespace.
+ *
+ * Environment variables:
+ *   DATABASE_URL - PostgreSQL connection string, or DB_HOST/DB_PORT/DB_NAME/DB_USER/DB_PASSWORD/DB_SSL
+ */
+import { createHash, randomBytes } from 'node:crypto';
+import pg from 'pg';
+
+const { Pool } = pg;
+
+const ROLES = ['viewer', 'operator', 'admin'];
+const AUDIT_DEFAULT_LIMIT = 50;
+
+function buildDbConfig() {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (databaseUrl) {
+    return { connectionString: databaseUrl };
+  }
+
+  const host = process.env.DB_HOST;
+  const user = process.env.DB_USER;
+  const database = process.env.DB_NAME;
+  const port = parseInt(process.env.DB_PORT || '5432', 10);
+  const password = process.env.DB_PASSWORD || '';
+  const ssl = process.env.DB_SSL !== 'false';
+
+  if (!host || !user || !database) {
+    throw new Error('Missing database config. Set DATABASE_URL or DB_HOST/DB_USER/DB_NAME.');
+  }
+
+  return {
+    host,
+    user,
+    database,
+    port,
+    password,
+    ssl: ssl ? { rejectUnauthorized: false } : false,
+  };
+}
+
+// Same tables as supabase/migrations/ext_local_schema.sql, so tokens can be created before the API has run
+async function ensureSchema(pool) {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS api_tokens (
+      id BIGSERIAL PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE,
+      token_hash TEXT NOT NULL UNIQUE,
+      role TEXT NOT NULL CHECK (role IN ('viewer', 'operator', 'admin')),
+      namespaces TEXT[],
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      expires_at TIMESTAMPTZ,
+      last_used_at TIMESTAMPTZ,
+      revoked_at TIMESTAMPTZ
+    );
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id BIGSERIAL PRIMARY KEY,
+      token_id BIGINT REFERENCES api_tokens(id) ON DELETE SET NULL,
+      actor TEXT NOT NULL,
+      role TEXT NOT NULL,
+      action TEXT NOT NULL,
+      cluster TEXT,
+      namespace TEXT,
+      pod_id UUID,
+      container_id UUID,
+      details JSONB NOT NULL DEFAULT '{}'::jsonb,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+    CREATE INDEX IF NOT EXISTS idx_audit_log_created ON audit_log(created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_audit_log_actor_created ON audit_log(actor, created_at DESC);
+  `);
+}
+
+function parseArgs(argv) {
+  const positional = [];
+  const options = {};
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg.startsWith('--')) {
+      options[arg.slice(2)] = argv[i + 1];
+      i += 1;
+    } else {
+      positional.push(arg);
+    }
+  }
+  return { positional, options };
+}
+
+function formatDate(value) {
+  return value ? new Date(value).toISOString() : '-';
+}
+
+async function createToken(pool, name, options) {
+  if (!name) throw new Error('Usage: create <name> --role viewer|operator|admin');
+  const role = options.role;
+  if (!ROLES.includes(role)) throw new Error(`--role must be one of ${ROLES.join(', ')}`);
+  const namespaces = options.namespaces
+    ? options.namespaces.split(',').map((entry) => entry.trim()).filter(Boolean)
+    : null;
+  const expiresDays = options['expires-days'] ? parseInt(options['expires-days'], 10) : null;
+  if (expiresDays !== null && !(expiresDays > 0)) throw new Error('--expires-days must be a positive number');
+
+  const token = randomBytes(32).toString('base64url');
+  const tokenHash = createHash('sha256').update(token).digest('hex');
+  await pool.query(
+    `INSERT INTO api_tokens (name, token_hash, role, namespaces, expires_at)
+     VALUES ($1, $2, $3, $4, CASE WHEN $5::int IS NULL THEN NULL ELSE now() + make_interval(days => $5::int) END)`,
+    [name, tokenHash, role, namespaces, expiresDays]
+  );
+  console.log(`Created ${role} token "${name}"${namespaces ? ` for ${namespaces.join(', ')}` : ''}.`);
+  console.log('Store it now, it cannot be shown again:');
+  console.log(token);
+}
+
+async function listTokens(pool) {
+  const tokensRes = await pool.query(
+    `SELECT name, role, namespaces, created_at, expires_at, last_used_at, revoked_at
+     FROM api_tokens
+     ORDER BY created_at`
+  );
+  if (tokensRes.rows.length === 0) {
+    console.log('No API tokens.');
+    return;
+  }
+  for (const row of tokensRes.rows) {
+    const state = row.revoked_at
+      ? `revoked ${formatDate(row.revoked_at)}`
+      : row.expires_at && new Date(row.expires_at) < new Date()
+        ? `expired ${formatDate(row.expires_at)}`
+        : 'active';
+    console.log(
+      `${row.name}\t${row.role}\t${row.namespaces ? row.namespaces.join(',') : '*'}\t${state}\t` +
+        `created=${formatDate(row.created_at)} expires=${formatDate(row.expires_at)} last_used=${formatDate(row.last_used_at)}`
+    );
+  }
+}
+
+async function revokeToken(pool, name) {
+  if (!name) throw new Error('Usage: revoke <name>');
+  const revokeRes = await pool.query(
+    'UPDATE api_tokens SET revoked_at = now() WHERE name = $1 AND revoked_at IS NULL RETURNING name',
+    [name]
+  );
+  if (revokeRes.rows.length === 0) throw new Error(`No active token named "${name}"`);
+  console.log(`Revoked token "${name}".`);
+}
+
+async function printAuditLog(pool, options) {
+  const limit = options.limit ? parseInt(options.limit, 10) : AUDIT_DEFAULT_LIMIT;
+  const auditRes = await pool.query(
+    `SELECT created_at, actor, role, action, cluster, namespace, container_id, details
+     FROM audit_log
+     WHERE ($1::text IS NULL OR actor = $1)
+     ORDER BY created_at DESC
+     LIMIT $2`,
+    [options.actor || null, Number.isFinite(limit) && limit > 0 ? limit : AUDIT_DEFAULT_LIMIT]
+  );
+  for (const row of auditRes.rows) {
+    const where = row.cluster ? `${row.cluster}/${row.namespace}` : '-';
+    console.log(
+      `${formatDate(row.created_at)}\t${row.actor} (${row.role})\t${row.action}\t${where}\t` +
+        `${row.container_id || '-'}\t${JSON.stringify(row.details)}`
+    );
+  }
+}
+
+async function main() {
+  const [command, ...rest] = process.argv.slice(2);
+  const { positional, options } = parseArgs(rest);
+  const pool = new Pool(buildDbConfig());
+  try {
+    await ensureSchema(pool);
+    switch (command) {
+      case 'create':
+        await createToken(pool, positional[0], options);
+        break;
+      case 'list':
+        await listTokens(pool);
+        break;
+      case 'revoke':
+        await revokeToken(pool, positional[0]);
+        break;
+      case 'audit':
+        await printAuditLog(pool, options);
+        break;
+      default:
+        throw new Error('Usage: manage-api-tokens.mjs create|list|revoke|audit (see the header of this file)');
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  console.error(`Error: ${error.message}`);
+  process.exit(1);
+});
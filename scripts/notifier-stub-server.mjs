@@ -0,0 +1,111 @@
+#!/usr/bin/env node
+/**
+ * Local stub endpoints for trying out alert notifiers without real Slack/SMTP accounts.
+ * Prints every webhook request and email it receives.
+ *
+ * Environment variables:
+ *   STUB_HTTP_PORT - webhook/Slack stub port (default: 8089)
+ *   STUB_SMTP_PORT - SMTP stub port (default: 2525)
+ *   STUB_FAIL_FIRST - answer the first N webhook requests with HTTP 500 to exercise retries (default: 0)
+ */
+import { createServer as createHttpServer } from 'node:http';
+import { createServer as createTcpServer } from 'node:net';
+
+const HTTP_PORT = parseInt(process.env.STUB_HTTP_PORT || '8089', 10);
+const SMTP_PORT = parseInt(process.env.STUB_SMTP_PORT || '2525', 10);
+let failuresLeft = parseInt(process.env.STUB_FAIL_FIRST || '0', 10);
+
+const httpServer = createHttpServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => {
+    body += chunk;
+  });
+  req.on('end', () => {
+    let printable = body;
+    try {
+      printable = JSON.stringify(JSON.parse(body), null, 2);
+    } catch {
+      // not JSON, print as-is
+    }
+    if (failuresLeft > 0) {
+      failuresLeft -= 1;
+      console.log(`[http] ${req.method} ${req.url} -> 500 (simulated failure, ${failuresLeft} left)`);
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      res.end('simulated failure');
+      return;
+    }
+    console.log(`[http] ${req.method} ${req.url}\n${printable}\n`);
+    res.writeHead(200, { 'Content-Type': 'text/plain' });
+    res.end('ok');
+  });
+});
+
+// Accepts any sender, recipient and credentials; no STARTTLS, so configure the notifier with "starttls": false.
+const smtpServer = createTcpServer((socket) => {
+  let buffer = '';
+  let inData = false;
+  let envelope = { from: '', to: [] };
+  const reply = (line) => socket.write(`${line}\r\n`);
+
+  reply('220 pod-watch notifier stub');
+  socket.on('data', (chunk) => {
+    buffer += chunk.toString('utf8');
+    while (buffer.length > 0) {
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end < 0) return;
+        const message = buffer.slice(0, end).replace(/^\.\./gm, '.');
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        console.log(`[smtp] from=${envelope.from} to=${envelope.to.join(',')}\n${decodeMessage(message)}\n`);
+        envelope = { from: '', to: [] };
+        reply('250 queued');
+        continue;
+      }
+      const newline = buffer.indexOf('\r\n');
+      if (newline < 0) return;
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+      const verb = line.split(' ')[0].toUpperCase();
+      if (verb === 'EHLO' || verb === 'HELO') {
+        reply('250-pod-watch notifier stub');
+        reply('250 AUTH PLAIN LOGIN');
+      } else if (verb === 'AUTH') {
+        reply('235 authenticated');
+      } else if (verb === 'MAIL') {
+        envelope.from = line.slice(line.indexOf(':') + 1).trim();
+        reply('250 ok');
+      } else if (verb === 'RCPT') {
+        envelope.to.push(line.slice(line.indexOf(':') + 1).trim());
+        reply('250 ok');
+      } else if (verb === 'DATA') {
+        inData = true;
+        reply('354 end data with <CR><LF>.<CR><LF>');
+      } else if (verb === 'QUIT') {
+        reply('221 bye');
+        socket.end();
+        return;
+      } else {
+        reply('250 ok');
+      }
+    }
+  });
+  socket.on('error', () => {});
+});
+
+// Shows base64 text bodies decoded so the rendered template is readable.
+function decodeMessage(message) {
+  const separator = message.indexOf('\r\n\r\n');
+  if (separator < 0) return message;
+  const headers = message.slice(0, separator);
+  const body = message.slice(separator + 4);
+  if (!/Content-Transfer-Encoding:\s*base64/i.test(headers)) return message;
+  return `${headers}\r\n\r\n${Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf8')}`;
+}
+
+httpServer.listen(HTTP_PORT, () => {
+  console.log(`Webhook stub: http://localhost:${HTTP_PORT}/`);
+});
+smtpServer.listen(SMTP_PORT, () => {
+  console.log(`SMTP stub: localhost:${SMTP_PORT}`);
+});
@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+/**
+ * Sends a sample alert through every channel in ALERT_NOTIFIERS and prints the outcome.
+ * Nothing is written to the database.
+ *
+ * Environment variables:
+ *   ALERT_NOTIFIERS - notifier configuration, same format the collector uses (required)
+ *   ALERT_LINK_BASE_URL - UI base URL used for the deep link (optional)
+ */
+import { buildNotification, compileNotifiers, deliverNotification } from './alert-notifiers.mjs';
+
+const notifiers = compileNotifiers(process.env.ALERT_NOTIFIERS);
+if (notifiers.length === 0) {
+  console.error('Error: set ALERT_NOTIFIERS to at least one notifier');
+  process.exit(1);
+}
+
+const now = Date.now();
+const sampleAlert = {
+  id: '0',
+  rule_id: 'pod-health',
+  rule_type: 'pod_health',
+  severity: 'critical',
+  status: 'firing',
+  cluster: process.env.CLUSTER_NAME || 'default',
+  namespace: process.env.TARGET_NAMESPACE || 'default',
+  deployment_name: 'checkout',
+  pod_id: null,
+  pod_name: 'checkout-7d9f8b6c5d-x2k4q',
+  container_name: 'app',
+  title: 'Pod checkout-7d9f8b6c5d-x2k4q is unhealthy',
+  message: 'CrashLoopBackOff: back-off 5m0s restarting failed container',
+  value: 6,
+  threshold: null,
+  started_at: new Date(now - 5 * 60 * 1000).toISOString(),
+  resolved_at: null,
+  silenced_until: null,
+};
+const sampleLogLines = [
+  { timestamp: new Date(now - 62 * 1000).toISOString(), level: 'info', message: 'Connecting to payments-db:5432' },
+  { timestamp: new Date(now - 61 * 1000).toISOString(), level: 'error', message: 'Connection refused (payments-db:5432)' },
+  { timestamp: new Date(now - 60 * 1000).toISOString(), level: 'fatal', message: 'Exiting: database unavailable' },
+];
+
+let failed = 0;
+for (const notifier of notifiers) {
+  const notification = buildNotification(
+    notifier,
+    sampleAlert,
+    'test',
+    sampleLogLines,
+    process.env.ALERT_LINK_BASE_URL || ''
+  );
+  const outcome = await deliverNotification(notifier, notification);
+  if (outcome.status !== 'sent') failed += 1;
+  console.log(
+    `${notifier.id} (${notifier.type}): ${outcome.status} after ${outcome.attempts} attempt(s)` +
+      (outcome.error ? ` - ${outcome.error}` : '')
+  );
+}
+
+process.exit(failed > 0 ? 1 : 0);
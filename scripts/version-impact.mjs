@@ -0,0 +1,589 @@
+/**
+ * Version impact shared by the database API and the alert engine: a deployment's version is compared with a
+ * baseline version on CPU/RAM p95, error/exception/restart rates and time-to-ready, per container name and per
+ * container of the version's pods. Results are persisted per version pair and window in version_impacts and
+ * reused for VERSION_IMPACT_MAX_AGE_SECONDS, so the dashboard, /version-impact and alerts agree.
+ */
+import { EXCEPTION_PATTERN, STACK_CONTINUATION_PATTERN } from './error-fingerprints.mjs';
+import { deploymentNameFor, versionFor } from './workload-owners.mjs';
+
+// Persisted impacts younger than this are returned as they are instead of being recomputed
+const VERSION_IMPACT_MAX_AGE_SECONDS = parseInt(process.env.VERSION_IMPACT_MAX_AGE_SECONDS || '60', 10);
+const VERSION_IMPACT_VERSION_LIMIT = 10;
+// Change (%) of a dimension from which a significant change counts as degraded or improved
+const VERSION_IMPACT_THRESHOLD_PERCENT = 10;
+// Samples needed on each side before a comparison gets a verdict
+const VERSION_IMPACT_MIN_SAMPLES = parseInt(process.env.VERSION_IMPACT_MIN_SAMPLES || '30', 10);
+// Corrected p-value below which a change counts as real rather than noise
+const VERSION_IMPACT_SIGNIFICANCE = 0.05;
+// Weight of each dimension in a comparison's score. A dimension with weight 0 is still shown but never sets
+// the verdict.
+const VERSION_IMPACT_WEIGHTS = {
+  cpu: 1,
+  memory: 1,
+  error_rate: 2,
+  exception_rate: 2,
+  restart_rate: 3,
+  time_to_ready: 1,
+};
+// Started containers needed on each side before time-to-ready gets a verdict
+const VERSION_IMPACT_MIN_READY_SAMPLES = 5;
+// A container's time-to-ready only counts when its status history starts this close to pod creation
+const VERSION_IMPACT_READY_HISTORY_SLACK_MINUTES = 5;
+
+// Samples of the pods in $1 (with their versions in $2), limited per version to the $3 minutes before that
+// version's newest sample, so a version whose pods are gone is still compared on its last stretch of samples.
+const VERSION_WINDOW_SAMPLES_CTE = `
+  version_pods AS (
+    SELECT * FROM unnest($1::uuid[], $2::text[]) AS v(pod_id, version)
+  ),
+  version_latest AS (
+    SELECT v.version, MAX(latest.sampled_at) AS sampled_at
+    FROM version_pods v
+    JOIN containers c ON c.pod_id = v.pod_id
+    CROSS JOIN LATERAL (
+      SELECT s.sampled_at
+      FROM container_resource_samples s
+      WHERE s.container_id = c.id
+      ORDER BY s.sampled_at DESC
+      LIMIT 1
+    ) latest
+    GROUP BY v.version
+  ),
+  windowed AS (
+    SELECT v.version, c.pod_id, c.id AS container_id, c.name AS container_name,
+           s.sampled_at, l.sampled_at AS version_sampled_at, s.cpu_millicores, s.memory_bytes
+    FROM version_pods v
+    JOIN version_latest l ON l.version = v.version
+    JOIN containers c ON c.pod_id = v.pod_id
+    JOIN container_resource_samples s
+      ON s.container_id = c.id AND s.sampled_at >= l.sampled_at - make_interval(mins => $3)
+  )`;
+
+// Error logs, exception lines and restarts of each container of the pods in $1 (versions in $2) over the last
+// $3 minutes of its pod's life, and its time-to-ready from pod creation to the first ready history row.
+// Restarts before the window are taken from the last history row before it.
+const VERSION_CONTAINER_EVENTS_SQL = `
+  WITH pod_windows AS (
+    SELECT v.pod_id, v.version, p.created_at,
+           GREATEST(p.created_at, COALESCE(p.deleted_at, now()) - make_interval(mins => $3)) AS window_start,
+           COALESCE(p.deleted_at, now()) AS window_end
+    FROM unnest($1::uuid[], $2::text[]) AS v(pod_id, version)
+    JOIN pods p ON p.id = v.pod_id
+  )
+  SELECT w.version, w.pod_id, c.id AS container_id, c.name AS container_name,
+         (EXTRACT(EPOCH FROM w.window_end - w.window_start) / 3600)::float8 AS observed_hours,
+         log_counts.error_count, log_counts.exception_count,
+         GREATEST(
+           0,
+           COALESCE(c.restart_count, 0) - CASE
+             WHEN w.window_start <= w.created_at THEN 0
+             ELSE COALESCE(before.restart_count, c.restart_count, 0)
+           END
+         )::int AS restarts,
+         CASE
+           WHEN history.first_recorded_at <= w.created_at + make_interval(mins => $4)
+           THEN GREATEST(0, EXTRACT(EPOCH FROM history.first_ready_at - w.created_at))::float8
+         END AS ready_seconds
+  FROM pod_windows w
+  JOIN containers c ON c.pod_id = w.pod_id
+  CROSS JOIN LATERAL (
+    SELECT COUNT(*) FILTER (WHERE l.level IN ('error', 'fatal'))::int AS error_count,
+           COUNT(*) FILTER (
+             WHERE l.message ~* '${EXCEPTION_PATTERN}'
+               AND l.message !~ '${STACK_CONTINUATION_PATTERN}'
+           )::int AS exception_count
+    FROM logs l
+    WHERE l.container_id = c.id AND l.timestamp >= w.window_start AND l.timestamp <= w.window_end
+  ) log_counts
+  LEFT JOIN LATERAL (
+    SELECT h.restart_count
+    FROM container_status_history h
+    WHERE h.container_id = c.id AND h.recorded_at <= w.window_start
+    ORDER BY h.recorded_at DESC
+    LIMIT 1
+  ) before ON true
+  LEFT JOIN LATERAL (
+    SELECT MIN(h.recorded_at) AS first_recorded_at, MIN(h.recorded_at) FILTER (WHERE h.ready) AS first_ready_at
+    FROM container_status_history h
+    WHERE h.container_id = c.id
+  ) history ON true`;
+
+function deltaPercent(current, baseline) {
+  if (current === null || baseline === null) return null;
+  if (baseline === 0) return current === 0 ? 0 : null;
+  return ((current - baseline) / baseline) * 100;
+}
+
+function meanScore(values) {
+  const known = values.filter((value) => value !== null);
+  return known.length > 0 ? known.reduce((sum, value) => sum + value, 0) / known.length : null;
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, absolute error below 1.5e-7)
+function normalCdf(z) {
+  const t = 1 / (1 + (0.3275911 * Math.abs(z)) / Math.SQRT2);
+  const polynomial = ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t;
+  const erf = 1 - polynomial * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Two-sided Mann-Whitney U test, normal approximation with tie and continuity correction: the probability of
+// a difference at least this large if both samples came from the same distribution. Consecutive samples of a
+// container are correlated, so the p-value is optimistic; the minimum sample count and threshold guard against that.
+function mannWhitneyPValue(current, baseline) {
+  const n1 = current.length;
+  const n2 = baseline.length;
+  if (n1 === 0 || n2 === 0) return null;
+  const n = n1 + n2;
+  const combined = [
+    ...current.map((value) => ({ value, current: true })),
+    ...baseline.map((value) => ({ value, current: false })),
+  ].sort((a, b) => a.value - b.value);
+
+  let currentRankSum = 0;
+  let tieTerm = 0;
+  for (let start = 0; start < n; ) {
+    let end = start;
+    while (end + 1 < n && combined[end + 1].value === combined[start].value) end += 1;
+    const ties = end - start + 1;
+    const averageRank = (start + end + 2) / 2;
+    for (let index = start; index <= end; index += 1) {
+      if (combined[index].current) currentRankSum += averageRank;
+    }
+    tieTerm += ties ** 3 - ties;
+    start = end + 1;
+  }
+
+  const u = currentRankSum - (n1 * (n1 + 1)) / 2;
+  const variance = ((n1 * n2) / 12) * (n + 1 - tieTerm / (n * (n - 1)));
+  // Every sample has the same value: nothing changed
+  if (variance <= 0) return 1;
+  const z = Math.max(0, Math.abs(u - (n1 * n2) / 2) - 0.5) / Math.sqrt(variance);
+  return Math.min(1, 2 * (1 - normalCdf(z)));
+}
+
+// Two-sided test of two Poisson rates (events over observed hours): given the total count, the current side's
+// share is binomial with its share of the observed time. Normal approximation with continuity correction.
+function poissonRatePValue(count, hours, baselineCount, baselineHours) {
+  if (hours <= 0 || baselineHours <= 0) return null;
+  const total = count + baselineCount;
+  if (total === 0) return 1;
+  const share = hours / (hours + baselineHours);
+  const z = Math.max(0, Math.abs(count - total * share) - 0.5) / Math.sqrt(total * share * (1 - share));
+  return Math.min(1, 2 * (1 - normalCdf(z)));
+}
+
+function median(values) {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Resource samples and container events grouped by `key` (container_name or container_id) into one side of a
+// comparison; the CPU/RAM p95s are filled in by the caller.
+function groupSides(sampleRows, eventRows, key) {
+  const sides = new Map();
+  const sideFor = (id) => {
+    if (!sides.has(id)) {
+      sides.set(id, {
+        cpu: [],
+        memory: [],
+        cpu_p95: null,
+        memory_p95: null,
+        observed_hours: 0,
+        error_count: 0,
+        exception_count: 0,
+        restarts: 0,
+        ready_seconds: [],
+      });
+    }
+    return sides.get(id);
+  };
+  for (const row of sampleRows) {
+    const side = sideFor(row[key]);
+    side.cpu.push(row.cpu_millicores);
+    side.memory.push(row.memory_bytes);
+  }
+  for (const row of eventRows) {
+    const side = sideFor(row[key]);
+    side.observed_hours += row.observed_hours;
+    side.error_count += row.error_count;
+    side.exception_count += row.exception_count;
+    side.restarts += row.restarts;
+    if (row.ready_seconds !== null) side.ready_seconds.push(row.ready_seconds);
+  }
+  return sides;
+}
+
+function dimensionImpact(dimension, current, baseline, pValue) {
+  const delta = deltaPercent(current, baseline);
+  let status = pValue === null ? 'unknown' : 'stable';
+  if (pValue !== null && pValue < VERSION_IMPACT_SIGNIFICANCE && current !== null && baseline !== null) {
+    // A rate that was zero on the baseline has no percent change; any significant rise counts
+    if (current > baseline && (delta === null || delta >= VERSION_IMPACT_THRESHOLD_PERCENT)) status = 'degraded';
+    if (current < baseline && delta !== null && delta <= -VERSION_IMPACT_THRESHOLD_PERCENT) status = 'improved';
+  }
+  return {
+    current,
+    baseline,
+    delta_percent: delta,
+    status,
+    p_value: pValue,
+    weight: VERSION_IMPACT_WEIGHTS[dimension],
+  };
+}
+
+// Worst verdict wins: degraded over improved over stable over unknown
+function worstStatus(statuses) {
+  for (const status of ['degraded', 'improved', 'stable']) {
+    if (statuses.includes(status)) return status;
+  }
+  return 'unknown';
+}
+
+// Verdict per dimension of one comparison: CPU/RAM p95 and time-to-ready by Mann-Whitney test, error, exception
+// and restart rates per hour by Poisson rate test. P-values are Bonferroni-corrected over the dimensions tested.
+// Too few samples on either side gives `unknown`; a change that is small or not significant is `stable`.
+// The comparison's score is the weighted mean change and its status the worst weighted dimension verdict.
+function compareSides(current, baseline) {
+  const sampleCount = current?.cpu.length ?? 0;
+  const baselineSampleCount = baseline?.cpu.length ?? 0;
+  const dimensions = {};
+  if (current && baseline) {
+    const enoughSamples = Math.min(sampleCount, baselineSampleCount) >= VERSION_IMPACT_MIN_SAMPLES;
+    const enoughReady =
+      Math.min(current.ready_seconds.length, baseline.ready_seconds.length) >= VERSION_IMPACT_MIN_READY_SAMPLES;
+    const perHour = (side, count) => (side.observed_hours > 0 ? side[count] / side.observed_hours : null);
+    const tests = {
+      cpu: [current.cpu_p95, baseline.cpu_p95, enoughSamples ? mannWhitneyPValue(current.cpu, baseline.cpu) : null],
+      memory: [
+        current.memory_p95,
+        baseline.memory_p95,
+        enoughSamples ? mannWhitneyPValue(current.memory, baseline.memory) : null,
+      ],
+      time_to_ready: [
+        median(current.ready_seconds),
+        median(baseline.ready_seconds),
+        enoughReady ? mannWhitneyPValue(current.ready_seconds, baseline.ready_seconds) : null,
+      ],
+    };
+    for (const [dimension, count] of [
+      ['error_rate', 'error_count'],
+      ['exception_rate', 'exception_count'],
+      ['restart_rate', 'restarts'],
+    ]) {
+      tests[dimension] = [
+        perHour(current, count),
+        perHour(baseline, count),
+        poissonRatePValue(current[count], current.observed_hours, baseline[count], baseline.observed_hours),
+      ];
+    }
+    const testedCount = Object.values(tests).filter(([, , pValue]) => pValue !== null).length;
+    for (const dimension of Object.keys(VERSION_IMPACT_WEIGHTS)) {
+      const [currentValue, baselineValue, pValue] = tests[dimension];
+      dimensions[dimension] = dimensionImpact(
+        dimension,
+        currentValue,
+        baselineValue,
+        pValue === null ? null : Math.min(1, pValue * testedCount)
+      );
+    }
+  }
+
+  const weighted = Object.values(dimensions).filter((item) => item.weight > 0);
+  const scored = weighted.filter((item) => item.delta_percent !== null);
+  const totalWeight = scored.reduce((sum, item) => sum + item.weight, 0);
+  const score =
+    totalWeight > 0 ? scored.reduce((sum, item) => sum + item.delta_percent * item.weight, 0) / totalWeight : null;
+  const status = worstStatus(weighted.map((item) => item.status));
+  // The strongest evidence behind the verdict: the smallest p-value of the dimensions that set it
+  const deciding = weighted.filter(
+    (item) => item.p_value !== null && (status === 'stable' || item.status === status)
+  );
+  const pValue = deciding.length > 0 ? Math.min(...deciding.map((item) => item.p_value)) : null;
+  return {
+    score,
+    status,
+    p_value: pValue,
+    confidence: pValue === null ? null : 1 - pValue,
+    sample_count: sampleCount,
+    baseline_sample_count: baselineSampleCount,
+    dimensions,
+  };
+}
+
+// Versions of `deployment` among the pod rows (id, name, labels, workload_name, created_at) as
+// { version, created_at, pod_ids }, newest first by each version's first pod like the dashboard's version timeline.
+export function deploymentVersions(podRows, deployment) {
+  const versionsByName = new Map();
+  for (const pod of podRows) {
+    if (deploymentNameFor(pod.name, pod.labels, pod.workload_name) !== deployment) continue;
+    const name = versionFor(pod.labels);
+    const entry = versionsByName.get(name) ?? { version: name, created_at: pod.created_at, pod_ids: [] };
+    if (new Date(pod.created_at) < new Date(entry.created_at)) entry.created_at = pod.created_at;
+    entry.pod_ids.push(pod.id);
+    versionsByName.set(name, entry);
+  }
+  return [...versionsByName.values()].sort((a, b) => new Date(b.created_at) - new Date(a.created_at));
+}
+
+// Impact of `version` against `baselineVersion` (null: nothing to compare with, so nothing is persisted) over
+// the last `windowMinutes` of each version's samples. `allVersions` comes from deploymentVersions and must
+// contain both versions. A persisted result younger than VERSION_IMPACT_MAX_AGE_SECONDS is returned as is.
+export async function resolveVersionImpact(db, target, allVersions, version, baselineVersion) {
+  const { cluster, namespace, deployment, windowMinutes } = target;
+  const versionsByName = new Map(allVersions.map((entry) => [entry.version, entry]));
+  const impactKey = [cluster, namespace, deployment, version, baselineVersion, windowMinutes];
+
+  if (baselineVersion) {
+    try {
+      const cachedRes = await db.query(
+        `SELECT result
+         FROM version_impacts
+         WHERE cluster = $1 AND namespace = $2 AND deployment = $3 AND version = $4
+           AND baseline_version = $5 AND window_minutes = $6
+           AND computed_at >= now() - make_interval(secs => $7)`,
+        [...impactKey, VERSION_IMPACT_MAX_AGE_SECONDS]
+      );
+      if (cachedRes.rows[0]) return cachedRes.rows[0].result;
+    } catch (error) {
+      if (!String(error?.message || '').includes('version_impacts')) throw error;
+    }
+  }
+
+  const versions = allVersions.slice(0, VERSION_IMPACT_VERSION_LIMIT);
+  for (const name of [version, baselineVersion]) {
+    if (name && !versions.some((entry) => entry.version === name)) versions.push(versionsByName.get(name));
+  }
+  const sampleParams = [
+    versions.flatMap((entry) => entry.pod_ids),
+    versions.flatMap((entry) => entry.pod_ids.map(() => entry.version)),
+    windowMinutes,
+  ];
+
+  let statsRows = [];
+  let currentContainerRows = [];
+  let seriesRows = [];
+  let pairSampleRows = [];
+  try {
+    statsRows = (
+      await db.query(
+        `WITH ${VERSION_WINDOW_SAMPLES_CTE}
+         SELECT version, container_name,
+                percentile_cont(0.95) WITHIN GROUP (ORDER BY cpu_millicores)::float8 AS cpu_p95,
+                percentile_cont(0.95) WITHIN GROUP (ORDER BY memory_bytes)::float8 AS memory_p95,
+                COUNT(*)::int AS sample_count
+         FROM windowed
+         GROUP BY version, container_name`,
+        sampleParams
+      )
+    ).rows;
+    currentContainerRows = (
+      await db.query(
+        `WITH ${VERSION_WINDOW_SAMPLES_CTE}
+         SELECT c.pod_id, c.id AS container_id, c.name AS container_name,
+                percentile_cont(0.95) WITHIN GROUP (ORDER BY w.cpu_millicores)::float8 AS cpu_p95,
+                percentile_cont(0.95) WITHIN GROUP (ORDER BY w.memory_bytes)::float8 AS memory_p95,
+                COUNT(w.sampled_at)::int AS sample_count
+         FROM containers c
+         LEFT JOIN windowed w ON w.container_id = c.id
+         WHERE c.pod_id = ANY($4::uuid[])
+         GROUP BY c.pod_id, c.id, c.name`,
+        [...sampleParams, versionsByName.get(version).pod_ids]
+      )
+    ).rows;
+    // Average pod usage per minute, relative to each version's newest sample
+    seriesRows = (
+      await db.query(
+        `WITH ${VERSION_WINDOW_SAMPLES_CTE},
+         per_container AS (
+           SELECT version, container_name,
+                  ROUND(EXTRACT(EPOCH FROM sampled_at - version_sampled_at) / 60)::int AS rel_min,
+                  AVG(cpu_millicores) AS cpu_millicores, AVG(memory_bytes) AS memory_bytes
+           FROM windowed
+           WHERE version = ANY($4::text[])
+           GROUP BY 1, 2, 3
+         )
+         SELECT version, rel_min, SUM(cpu_millicores)::float8 AS cpu_millicores,
+                SUM(memory_bytes)::float8 AS memory_bytes
+         FROM per_container
+         GROUP BY version, rel_min
+         ORDER BY version, rel_min`,
+        [...sampleParams, [version, baselineVersion].filter(Boolean)]
+      )
+    ).rows;
+    // Raw samples of the two compared versions for the Mann-Whitney tests
+    pairSampleRows = (
+      await db.query(
+        `WITH ${VERSION_WINDOW_SAMPLES_CTE}
+         SELECT version, container_id, container_name, cpu_millicores::float8 AS cpu_millicores,
+                memory_bytes::float8 AS memory_bytes
+         FROM windowed
+         WHERE version = ANY($4::text[])`,
+        [...sampleParams, [version, baselineVersion].filter(Boolean)]
+      )
+    ).rows;
+  } catch (error) {
+    if (!String(error?.message || '').includes('container_resource_samples')) throw error;
+  }
+  const pairVersions = [version, baselineVersion].filter(Boolean);
+  const pairPodIds = pairVersions.flatMap((name) => versionsByName.get(name).pod_ids);
+  let eventRows = [];
+  try {
+    eventRows = (
+      await db.query(VERSION_CONTAINER_EVENTS_SQL, [
+        pairPodIds,
+        pairVersions.flatMap((name) => versionsByName.get(name).pod_ids.map(() => name)),
+        windowMinutes,
+        VERSION_IMPACT_READY_HISTORY_SLACK_MINUTES,
+      ])
+    ).rows;
+  } catch (error) {
+    if (!String(error?.message || '').includes('container_status_history')) throw error;
+  }
+
+  const statsByVersion = new Map();
+  for (const row of statsRows) {
+    const byName = statsByVersion.get(row.version) ?? new Map();
+    byName.set(row.container_name, {
+      cpu_p95: row.cpu_p95,
+      memory_p95: row.memory_p95,
+      sample_count: row.sample_count,
+    });
+    statsByVersion.set(row.version, byName);
+  }
+  const currentStats = statsByVersion.get(version) ?? new Map();
+  const baselineStats = statsByVersion.get(baselineVersion) ?? new Map();
+  const currentSamples = pairSampleRows.filter((row) => row.version === version);
+  const currentEvents = eventRows.filter((row) => row.version === version);
+  const currentSidesByName = groupSides(currentSamples, currentEvents, 'container_name');
+  const currentSidesByContainer = groupSides(currentSamples, currentEvents, 'container_id');
+  const baselineSidesByName = groupSides(
+    pairSampleRows.filter((row) => row.version === baselineVersion),
+    eventRows.filter((row) => row.version === baselineVersion),
+    'container_name'
+  );
+  for (const [sides, stats] of [
+    [currentSidesByName, currentStats],
+    [baselineSidesByName, baselineStats],
+  ]) {
+    for (const [name, side] of sides) {
+      side.cpu_p95 = stats.get(name)?.cpu_p95 ?? null;
+      side.memory_p95 = stats.get(name)?.memory_p95 ?? null;
+    }
+  }
+
+  const containerNames = new Set([...currentSidesByName.keys(), ...baselineSidesByName.keys()]);
+  const containers = [...containerNames].sort().map((name) => {
+    const current = currentStats.get(name) ?? null;
+    const baseline = baselineStats.get(name) ?? null;
+    const verdict = compareSides(currentSidesByName.get(name), baselineSidesByName.get(name));
+    return {
+      name,
+      current,
+      baseline,
+      cpu_delta_percent: deltaPercent(current?.cpu_p95 ?? null, baseline?.cpu_p95 ?? null),
+      memory_delta_percent: deltaPercent(current?.memory_p95 ?? null, baseline?.memory_p95 ?? null),
+      score: verdict.score,
+      status: verdict.status,
+      p_value: verdict.p_value,
+      confidence: verdict.confidence,
+      dimensions: verdict.dimensions,
+    };
+  });
+
+  // Each container of the version's pods against the baseline version's containers of the same name
+  const containerImpacts = {};
+  const podVerdicts = new Map();
+  for (const row of currentContainerRows) {
+    const baseline = baselineSidesByName.get(row.container_name);
+    if (!baseline) continue;
+    const current = currentSidesByContainer.get(row.container_id);
+    if (current) {
+      current.cpu_p95 = row.sample_count > 0 ? row.cpu_p95 : null;
+      current.memory_p95 = row.sample_count > 0 ? row.memory_p95 : null;
+    }
+    const verdict = compareSides(current, baseline);
+    containerImpacts[row.container_id] = {
+      status: verdict.status,
+      score: verdict.score,
+      cpu_delta_percent: verdict.dimensions.cpu?.delta_percent ?? null,
+      memory_delta_percent: verdict.dimensions.memory?.delta_percent ?? null,
+      p_value: verdict.p_value,
+      confidence: verdict.confidence,
+      sample_count: verdict.sample_count,
+      baseline_sample_count: verdict.baseline_sample_count,
+      dimensions: verdict.dimensions,
+    };
+    const pod = podVerdicts.get(row.pod_id) ?? [];
+    pod.push(verdict);
+    podVerdicts.set(row.pod_id, pod);
+  }
+  const podImpacts = {};
+  for (const podId of versionsByName.get(version).pod_ids) {
+    const verdicts = podVerdicts.get(podId) ?? [];
+    const dimensions = {};
+    for (const dimension of Object.keys(VERSION_IMPACT_WEIGHTS)) {
+      const statuses = verdicts.map((verdict) => verdict.dimensions[dimension]?.status ?? 'unknown');
+      if (statuses.length > 0) dimensions[dimension] = worstStatus(statuses);
+    }
+    podImpacts[podId] = {
+      status: worstStatus(verdicts.map((verdict) => verdict.status)),
+      score: meanScore(verdicts.map((verdict) => verdict.score)),
+      degraded_count: verdicts.filter((verdict) => verdict.status === 'degraded').length,
+      improved_count: verdicts.filter((verdict) => verdict.status === 'improved').length,
+      dimensions,
+    };
+  }
+
+  // Deployment totals per version: sum of the container p95s
+  const versionTotals = allVersions.slice(0, VERSION_IMPACT_VERSION_LIMIT).map((entry) => {
+    const stats = [...(statsByVersion.get(entry.version)?.values() ?? [])];
+    return {
+      version: entry.version,
+      created_at: entry.created_at,
+      pod_count: entry.pod_ids.length,
+      cpu_p95_total: stats.reduce((sum, item) => sum + item.cpu_p95, 0),
+      memory_p95_total: stats.reduce((sum, item) => sum + item.memory_p95, 0),
+      sample_count: stats.reduce((sum, item) => sum + item.sample_count, 0),
+    };
+  });
+
+  const score = meanScore(containers.map((container) => container.score));
+  const impact = {
+    cluster,
+    namespace,
+    deployment,
+    version,
+    baseline_version: baselineVersion,
+    window_minutes: windowMinutes,
+    computed_at: new Date().toISOString(),
+    score,
+    status: worstStatus(containers.map((container) => container.status)),
+    containers,
+    container_impacts: containerImpacts,
+    pod_impacts: podImpacts,
+    versions: versionTotals,
+    series: seriesRows,
+  };
+
+  if (baselineVersion) {
+    try {
+      await db.query(
+        `INSERT INTO version_impacts
+           (cluster, namespace, deployment, version, baseline_version, window_minutes, score, status, result, computed_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         ON CONFLICT (cluster, namespace, deployment, version, baseline_version, window_minutes)
+         DO UPDATE SET score = EXCLUDED.score, status = EXCLUDED.status, result = EXCLUDED.result,
+                       computed_at = EXCLUDED.computed_at`,
+        [...impactKey, score, impact.status, JSON.stringify(impact), impact.computed_at]
+      );
+    } catch (error) {
+      if (!String(error?.message || '').includes('version_impacts')) throw error;
+    }
+  }
+
+  return impact;
+}
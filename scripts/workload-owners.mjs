@@ -0,0 +1,107 @@
+/**
+ * Resolves the workload a pod belongs to from metadata.ownerReferences, following
+ * ReplicaSet -> Deployment and Job -> CronJob. The result is stored on pods (workload_kind / workload_name)
+ * and used to group pods; pods without an owner keep the label/name heuristics (podDeploymentName).
+ */
+
+// Owner kinds that are usually managed by another workload, and the kind that manages them
+const PARENT_KINDS = {
+  ReplicaSet: 'Deployment',
+  Job: 'CronJob',
+};
+
+// Kubernetes API list paths for the intermediate owners, relative to a namespace
+export const OWNER_LIST_PATHS = {
+  ReplicaSet: (namespace) => `/apis/apps/v1/namespaces/${namespace}/replicasets`,
+  Job: (namespace) => `/apis/batch/v1/namespaces/${namespace}/jobs`,
+};
+
+function controllerOf(ownerReferences) {
+  if (!Array.isArray(ownerReferences) || ownerReferences.length === 0) return null;
+  return ownerReferences.find((ref) => ref.controller) || ownerReferences[0];
+}
+
+// Owner lookup for resolvePodWorkload backed by already fetched lists, e.g. { ReplicaSet: [...], Job: [...] }
+export function createOwnerLookup(lists) {
+  const index = new Map();
+  for (const [kind, items] of Object.entries(lists)) {
+    for (const item of items || []) {
+      const { namespace, name, ownerReferences } = item.metadata || {};
+      if (name) index.set(`${kind}/${namespace}/${name}`, ownerReferences || []);
+    }
+  }
+  return async (kind, namespace, name) => index.get(`${kind}/${namespace}/${name}`) ?? null;
+}
+
+/**
+ * Returns { kind, name } of the pod's top-level workload, or { kind: null, name: null } for bare pods.
+ * `lookupOwnerReferences(kind, namespace, name)` returns the ownerReferences of a ReplicaSet or Job,
+ * or null when it does not exist (anymore) or cannot be read.
+ */
+export async function resolvePodWorkload(pod, lookupOwnerReferences) {
+  const owner = controllerOf(pod.metadata?.ownerReferences);
+  if (!owner?.kind || !owner?.name) return { kind: null, name: null };
+
+  const parentKind = PARENT_KINDS[owner.kind];
+  if (!parentKind) return { kind: owner.kind, name: owner.name };
+
+  let ownerReferences = null;
+  try {
+    ownerReferences = await lookupOwnerReferences(owner.kind, pod.metadata?.namespace, owner.name);
+  } catch (error) {
+    console.warn(`Failed to read ${owner.kind} ${owner.name}:`, error.message);
+  }
+
+  const parent = controllerOf(ownerReferences);
+  if (parent?.kind === parentKind && parent.name) return { kind: parent.kind, name: parent.name };
+
+  // A ReplicaSet that is already gone (or unreadable) is named "<deployment>-<pod-template-hash>"
+  const templateHash = pod.metadata?.labels?.['pod-template-hash'];
+  if (ownerReferences === null && owner.kind === 'ReplicaSet' && templateHash && owner.name.endsWith(`-${templateHash}`)) {
+    return { kind: 'Deployment', name: owner.name.slice(0, -(templateHash.length + 1)) };
+  }
+
+  return { kind: owner.kind, name: owner.name };
+}
+
+// Same label keys the UI groups deployments and versions by
+const DEPLOYMENT_LABEL_KEYS = ['app.kubernetes.io/name', 'app.kubernetes.io/instance', 'app', 'k8s-app'];
+const VERSION_LABEL_KEYS = [
+  'version',
+  'app.kubernetes.io/version',
+  'helm.sh/chart',
+  'app.kubernetes.io/instance',
+  'deployment-version',
+  'release',
+];
+
+// The owner-reference workload when known, otherwise the same label/name heuristics the UI falls back to.
+// Takes stored pod columns (name, labels, workload_name); podDeploymentName is the Kubernetes pod variant.
+export function deploymentNameFor(podName, labels, workloadName) {
+  if (workloadName) return workloadName;
+  for (const key of DEPLOYMENT_LABEL_KEYS) {
+    const value = labels?.[key]?.trim();
+    if (value) return value;
+  }
+  const deploymentStyleMatch = podName.match(/^(.*)-[a-f0-9]{8,10}-[a-z0-9]{5}$/);
+  if (deploymentStyleMatch?.[1]) return deploymentStyleMatch[1];
+  const statefulSetStyleMatch = podName.match(/^(.*)-\d+$/);
+  if (statefulSetStyleMatch?.[1]) return statefulSetStyleMatch[1];
+  return podName;
+}
+
+// Pods without a version label are grouped as 'unknown'.
+export function versionFor(labels) {
+  for (const key of VERSION_LABEL_KEYS) {
+    if (labels?.[key]) return labels[key];
+  }
+  return 'unknown';
+}
+
+export function podDeploymentName(pod, workload) {
+  return deploymentNameFor(pod.metadata?.name || '', pod.metadata?.labels, workload?.name);
+}
+
+export function podVersion(pod) {
+  return versionFor(pod.metadata?.labels);
+}
@@ -5,7 +5,11 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import VersionImpact from "./pages/VersionImpact";
+import RightSizing from "./pages/RightSizing";
+import LogSearch from "./pages/LogSearch";
+import Alerts from "./pages/Alerts";
 import NotFound from "./pages/NotFound";
+import { AuthGate } from "./components/AuthGate";
 
 const queryClient = new QueryClient();
 
@@ -15,12 +19,20 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/version-impact" element={<VersionImpact />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
+        <AuthGate>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/deployments/:cluster/:namespace/:deployment" element={<Index />} />
+            <Route path="/deployments/:cluster/:namespace/:deployment/pods/:pod" element={<Index />} />
+            <Route path="/deployments/:cluster/:namespace/:deployment/pods/:pod/containers/:container" element={<Index />} />
+            <Route path="/version-impact" element={<VersionImpact />} />
+            <Route path="/right-sizing" element={<RightSizing />} />
+            <Route path="/logs" element={<LogSearch />} />
+            <Route path="/alerts" element={<Alerts />} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </AuthGate>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
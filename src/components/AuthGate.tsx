@@ -0,0 +1,22 @@
+import { ReactNode } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useSession } from '@/hooks/useKubernetesData';
+import Login from '@/pages/Login';
+
+// Shows the token sign-in until the API accepts the stored token (or does not require one).
+export const AuthGate = ({ children }: { children: ReactNode }) => {
+  const { data: session, isLoading } = useSession();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  // A failed check (API down) falls through, so pages show their own connection errors
+  if (session === null) return <Login />;
+
+  return <>{children}</>;
+};
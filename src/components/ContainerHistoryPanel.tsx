@@ -1,7 +1,16 @@
-import { Container, ContainerImpact, PodImpact, PodWithHealth } from '@/types/kubernetes';
+import { useState } from 'react';
+import {
+  Container,
+  ContainerImpact,
+  ContainerStatusEvent,
+  PodImpact,
+  PodWithHealth,
+} from '@/types/kubernetes';
 import { cn } from '@/lib/utils';
-import { formatDistanceToNow } from 'date-fns';
+import { format, formatDistanceToNow } from 'date-fns';
 import { classifyContainerSeverity, isSidecarContainer } from '@/lib/podHealth';
+import { dimensionsWithStatus } from '@/lib/impact';
+import { useContainerHistory } from '@/hooks/useKubernetesData';
 import {
   Container as ContainerIcon,
   CheckCircle,
@@ -10,8 +19,136 @@ import {
   Clock,
   AlertTriangle,
   Image,
+  History,
+  Loader2,
 } from 'lucide-react';
 
+const HISTORY_WINDOWS = [1, 6, 24] as const;
+
+type TimelineTone = 'ready' | 'warning' | 'pending' | 'error';
+
+const TONE_CLASSES: Record<TimelineTone, { bar: string; text: string }> = {
+  ready: { bar: 'bg-[hsl(var(--status-ready))]', text: 'text-[hsl(var(--status-ready))]' },
+  warning: { bar: 'bg-[hsl(var(--status-warning))]', text: 'text-[hsl(var(--status-warning))]' },
+  pending: { bar: 'bg-[hsl(var(--status-pending))]', text: 'text-[hsl(var(--status-pending))]' },
+  error: { bar: 'bg-[hsl(var(--status-error))]', text: 'text-[hsl(var(--status-error))]' },
+};
+
+const describeStatusEvent = (event: ContainerStatusEvent): { label: string; tone: TimelineTone } => {
+  if (event.status === 'Terminated') {
+    return { label: event.reason || 'Terminated', tone: 'error' };
+  }
+  if (event.status === 'Waiting') {
+    const isCrashing = event.reason === 'CrashLoopBackOff' || event.reason?.includes('ImagePull');
+    return { label: event.reason || 'Waiting', tone: isCrashing ? 'error' : 'pending' };
+  }
+  return event.ready
+    ? { label: 'Running', tone: 'ready' }
+    : { label: 'Running (not ready)', tone: 'warning' };
+};
+
+interface ContainerStateTimelineProps {
+  container: Container;
+}
+
+// Recorded state transitions for one container, drawn as a proportional bar plus a change list.
+const ContainerStateTimeline = ({ container }: ContainerStateTimelineProps) => {
+  const [hours, setHours] = useState<number>(6);
+  const { data: history = [], isLoading, error } = useContainerHistory(container, hours);
+
+  const now = Date.now();
+  const windowStart = now - hours * 60 * 60 * 1000;
+  const segments = history.map((event, index) => {
+    const start = Math.max(new Date(event.timestamp).getTime(), windowStart);
+    const next = history[index + 1];
+    const end = next ? new Date(next.timestamp).getTime() : now;
+    return {
+      event,
+      ...describeStatusEvent(event),
+      widthPercent: Math.max(0, ((end - start) / (now - windowStart)) * 100),
+    };
+  });
+  const leadingGapPercent = history.length > 0
+    ? Math.max(0, ((new Date(history[0].timestamp).getTime() - windowStart) / (now - windowStart)) * 100)
+    : 0;
+
+  return (
+    <div className="border-t border-border p-3">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-xs font-semibold flex items-center gap-1.5">
+          <History className="w-3.5 h-3.5 text-primary" />
+          State history: {container.name}
+        </h4>
+        <div className="flex items-center gap-1">
+          {HISTORY_WINDOWS.map((option) => (
+            <button
+              key={option}
+              onClick={() => setHours(option)}
+              className={cn(
+                'text-[11px] px-1.5 py-0.5 rounded',
+                hours === option ? 'bg-primary/15 text-primary' : 'text-muted-foreground hover:bg-secondary'
+              )}
+            >
+              {option}h
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-3 text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+        </div>
+      ) : error ? (
+        <div className="text-xs text-destructive">Failed to load container history: {error.message}</div>
+      ) : history.length === 0 ? (
+        <div className="text-xs text-muted-foreground">No state changes recorded in the last {hours}h.</div>
+      ) : (
+        <>
+          <div className="flex h-2.5 w-full rounded-full overflow-hidden bg-secondary">
+            {leadingGapPercent > 0 && <div style={{ width: `${leadingGapPercent}%` }} />}
+            {segments.map(({ event, label, tone, widthPercent }) => (
+              <div
+                key={`${event.timestamp}-${event.status}`}
+                className={TONE_CLASSES[tone].bar}
+                style={{ width: `${widthPercent}%` }}
+                title={`${label} since ${format(new Date(event.timestamp), 'PPpp')}`}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between text-[10px] text-muted-foreground mt-1">
+            <span>{hours}h ago</span>
+            <span>now</span>
+          </div>
+
+          <ol className="mt-2 space-y-1 max-h-32 overflow-y-auto scrollbar-thin">
+            {[...segments].reverse().map(({ event, label, tone }) => (
+              <li key={`${event.timestamp}-${event.status}-row`} className="flex items-start gap-2 text-[11px]">
+                <span
+                  className="text-muted-foreground shrink-0 w-28"
+                  title={format(new Date(event.timestamp), 'PPpp')}
+                >
+                  {formatDistanceToNow(new Date(event.timestamp), { addSuffix: true })}
+                </span>
+                <span className={cn('font-medium', TONE_CLASSES[tone].text)}>{label}</span>
+                {event.status === 'Running' && event.reason && event.restartCount > 0 && (
+                  <span className="text-muted-foreground">after {event.reason}</span>
+                )}
+                {event.exitCode !== undefined && (
+                  <span className="font-mono text-muted-foreground">exit {event.exitCode}</span>
+                )}
+                {event.restartCount > 0 && (
+                  <span className="text-muted-foreground ml-auto">restarts {event.restartCount}</span>
+                )}
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+};
+
 interface ContainerHistoryPanelProps {
   pod: PodWithHealth;
   selectedContainerId: string | null;
@@ -48,6 +185,7 @@ export const ContainerHistoryPanel = ({
     sidecar: isSidecarContainer(container),
   }));
   const sidecarCount = sidecarContainers.length;
+  const selectedContainer = pod.containers.find((container) => container.id === selectedContainerId) ?? null;
 
   const getStatusConfig = (container: Container) => {
     const classification = classifyContainerSeverity(container);
@@ -103,6 +241,11 @@ export const ContainerHistoryPanel = ({
                   podImpact.status === 'improved' && 'bg-[hsl(var(--status-ready)/0.15)] text-[hsl(var(--status-ready))]',
                   podImpact.status === 'stable' && 'bg-secondary text-muted-foreground'
                 )}
+                title={
+                  podImpact.status !== 'stable'
+                    ? dimensionsWithStatus(podImpact.dimensions, podImpact.status).join(', ')
+                    : undefined
+                }
               >
                 Impact {podImpact.score > 0 ? '+' : ''}{podImpact.score.toFixed(1)}%
               </span>
@@ -185,6 +328,13 @@ export const ContainerHistoryPanel = ({
                         impact.status === 'improved' && 'bg-[hsl(var(--status-ready)/0.15)] text-[hsl(var(--status-ready))]',
                         impact.status === 'stable' && 'bg-secondary text-muted-foreground'
                       )}
+                      title={[
+                        impact.status !== 'stable' && dimensionsWithStatus(impact.dimensions, impact.status).join(', '),
+                        impact.pValue !== null &&
+                          `p = ${impact.pValue.toPrecision(2)} (${impact.sampleCount} vs ${impact.baselineSampleCount} samples)`,
+                      ]
+                        .filter(Boolean)
+                        .join('\n') || undefined}
                     >
                       Impact {impact.score > 0 ? '+' : ''}{impact.score.toFixed(1)}%
                     </span>
@@ -272,6 +422,10 @@ export const ContainerHistoryPanel = ({
           );
         })}
       </div>
+
+      {selectedContainer && (
+        <ContainerStateTimeline key={selectedContainer.id} container={selectedContainer} />
+      )}
     </div>
   );
 };
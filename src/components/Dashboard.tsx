@@ -1,29 +1,55 @@
-import { useEffect, useMemo, useState } from 'react';
-import { DeploymentGroup, HealthStatus, PodWithHealth } from '@/types/kubernetes';
-import { usePods } from '@/hooks/useKubernetesData';
+import { useMemo } from 'react';
+import { DeploymentGroup, PodWithHealth } from '@/types/kubernetes';
+import { useAlerts, usePods, useWorkloads } from '@/hooks/useKubernetesData';
 import { useImpactScores } from '@/hooks/useImpactScores';
+import { usePodScope } from '@/hooks/usePodScope';
+import { useDashboardRoute } from '@/hooks/useDashboardRoute';
+import { DataFreshnessIndicator } from './DataFreshnessIndicator';
 import { HealthSummaryCards } from './HealthSummaryCards';
 import { PodDetailPanel } from './PodDetailPanel';
+import { ScopeSelector } from './ScopeSelector';
+import { SessionMenu } from './SessionMenu';
+import { TopErrorsPanel } from './TopErrorsPanel';
+import { VersionTimeline } from './VersionTimeline';
+import { WorkloadKindBadge } from './WorkloadKindBadge';
+import { WorkloadReplicas } from './WorkloadReplicas';
 import {
   enrichPodWithHealth,
   groupPodsByDeployment,
   groupPodsByVersion,
+  isPodDeleted,
 } from '@/lib/podHealth';
-import { Layers, Loader2, RefreshCw, AlertCircle } from 'lucide-react';
+import { isAlertActionable } from '@/lib/alerts';
+import { Bell, Layers, Loader2, RefreshCw, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { StatusBadge } from './StatusBadge';
-import { formatDistanceToNow } from 'date-fns';
+import { formatDistanceStrict, formatDistanceToNow } from 'date-fns';
 import { CheckCircle2 } from 'lucide-react';
 import { Link } from 'react-router-dom';
 
 export const Dashboard = () => {
-  const [selectedDeploymentId, setSelectedDeploymentId] = useState<string | null>(null);
-  const [selectedPod, setSelectedPod] = useState<PodWithHealth | null>(null);
-  const [healthFilter, setHealthFilter] = useState<'all' | HealthStatus>('all');
-  const [latestIssuesOnly, setLatestIssuesOnly] = useState(false);
+  const {
+    selection,
+    healthFilter,
+    latestIssuesOnly,
+    detailTab,
+    logQuickFilter,
+    logSearch,
+    select,
+    setHealthFilter,
+    setLatestIssuesOnly,
+    setDetailTab,
+    setLogQuickFilter,
+    setLogSearch,
+  } = useDashboardRoute();
 
-  const { data: rawPods = [], isLoading, error, refetch, isFetching } = usePods();
+  const { scope, setScope, scopeSearch } = usePodScope();
+  // Deleted pods come along so rollout history survives them; they are listed greyed out and never count toward health
+  const { data: rawPods = [], isLoading, error, refetch, isFetching } = usePods(scope, { includeDeleted: true });
+  const { data: firingAlerts = [] } = useAlerts(scope, 'firing');
+  const { data: workloads = [] } = useWorkloads(scope);
+  const actionableAlertCount = firingAlerts.filter((alert) => isAlertActionable(alert)).length;
 
   // Build container logs map (placeholder: detailed aggregation can be added later)
   const containerLogsMap = useMemo(() => new Map<string, []>(), []);
@@ -33,9 +59,11 @@ export const Dashboard = () => {
     [rawPods, containerLogsMap]
   );
 
+  const activePods = useMemo(() => podsWithHealth.filter((pod) => !isPodDeleted(pod)), [podsWithHealth]);
+
   const versionGroups = useMemo(
-    () => groupPodsByVersion(podsWithHealth),
-    [podsWithHealth]
+    () => groupPodsByVersion(activePods),
+    [activePods]
   );
 
   const hasLogIssues = (pod: PodWithHealth | null | undefined) => {
@@ -57,12 +85,8 @@ export const Dashboard = () => {
   };
 
   const allDeployments = useMemo(
-    () => groupPodsByDeployment(podsWithHealth),
-    [podsWithHealth]
-  );
-  const { podImpactsByPodId, containerImpactsByContainerId } = useImpactScores(
-    allDeployments,
-    selectedDeploymentId
+    () => groupPodsByDeployment(podsWithHealth, workloads),
+    [podsWithHealth, workloads]
   );
 
   const latestPods = useMemo(
@@ -81,35 +105,41 @@ export const Dashboard = () => {
     return filtered;
   }, [allDeployments, healthFilter, latestIssuesOnly]);
 
-  useEffect(() => {
-    if (deployments.length === 0) {
-      setSelectedDeploymentId(null);
-      setSelectedPod(null);
-      return;
-    }
+  // Without a deployment in the URL (or one the filters hide), fall back to the first listed deployment and its newest pod.
+  const routedDeployment = selection.deploymentId
+    ? deployments.find((deployment) => deployment.id === selection.deploymentId) ?? null
+    : null;
+  const selectedDeployment: DeploymentGroup | null = routedDeployment ?? deployments[0] ?? null;
+  const selectedDeploymentId = selectedDeployment?.id ?? null;
 
-    const exists = deployments.some((deployment) => deployment.id === selectedDeploymentId);
-    if (!exists) {
-      setSelectedDeploymentId(deployments[0].id);
-    }
-  }, [deployments, selectedDeploymentId]);
+  const selectedPod: PodWithHealth | null = useMemo(() => {
+    if (!selectedDeployment) return null;
+    // An explicit /deployments/:cluster/:namespace/:name link without a pod means the pod panel was closed
+    if (routedDeployment && !selection.podName) return null;
+    return (
+      selectedDeployment.pods.find((pod) => pod.name === selection.podName) ??
+      selectedDeployment.historicalPods.find((pod) => pod.name === selection.podName) ??
+      selectedDeployment.pods[0] ??
+      null
+    );
+  }, [selectedDeployment, routedDeployment, selection.podName]);
 
-  const selectedDeployment: DeploymentGroup | null = useMemo(() => {
-    if (!selectedDeploymentId) return null;
-    return deployments.find((deployment) => deployment.id === selectedDeploymentId) ?? null;
-  }, [deployments, selectedDeploymentId]);
+  const selectedDeploymentVersions = useMemo(
+    () =>
+      selectedDeployment
+        ? groupPodsByVersion([...selectedDeployment.pods, ...selectedDeployment.historicalPods])
+        : [],
+    [selectedDeployment]
+  );
 
-  useEffect(() => {
-    if (!selectedDeployment) {
-      setSelectedPod(null);
-      return;
-    }
+  const selectPod = (podName: string | null, containerName?: string) => {
+    if (selectedDeployment) select(selectedDeployment, podName, containerName);
+  };
 
-    setSelectedPod((prev) => {
-      if (!prev) return selectedDeployment.pods[0] ?? null;
-      return selectedDeployment.pods.find((pod) => pod.id === prev.id) ?? selectedDeployment.pods[0] ?? null;
-    });
-  }, [selectedDeployment]);
+  const { podImpactsByPodId, containerImpactsByContainerId } = useImpactScores(
+    allDeployments,
+    selectedDeploymentId
+  );
 
   const errorCount = latestPods.filter((pod) => pod.health === 'error').length;
   const warningCount = latestPods.filter((pod) => pod.health === 'warning').length;
@@ -155,7 +185,7 @@ export const Dashboard = () => {
                 <h1 className="text-lg font-bold">Kubernetes Monitor</h1>
                 <div className="flex items-center gap-2 text-xs text-muted-foreground">
                   <span>{allDeployments.length} deployments</span>
-                  <span>• {podsWithHealth.length} pods</span>
+                  <span>• {activePods.length} pods</span>
                   {errorCount > 0 && (
                     <span className="flex items-center gap-1 text-[hsl(var(--status-error))]">
                       • {errorCount} error{errorCount !== 1 ? 's' : ''}
@@ -166,18 +196,48 @@ export const Dashboard = () => {
                       • {warningCount} warning{warningCount !== 1 ? 's' : ''}
                     </span>
                   )}
+                  <DataFreshnessIndicator scope={scope} />
                 </div>
               </div>
             </div>
 
             <div className="flex items-center gap-2">
+              <ScopeSelector scope={scope} onChange={setScope} />
               <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
                 <RefreshCw className={cn('w-4 h-4 mr-2', isFetching && 'animate-spin')} />
                 Refresh
               </Button>
               <Button asChild variant="outline" size="sm">
-                <Link to="/version-impact">Version Impact</Link>
+                <Link
+                  to={`/alerts${scopeSearch}`}
+                  title={`${firingAlerts.length} firing, ${actionableAlertCount} not acknowledged or silenced`}
+                >
+                  <Bell className="w-4 h-4 mr-2" />
+                  Alerts
+                  {firingAlerts.length > 0 && (
+                    <span
+                      className={cn(
+                        'ml-2 min-w-5 px-1.5 rounded-full text-[11px] leading-5 text-center',
+                        actionableAlertCount > 0
+                          ? 'bg-[hsl(var(--status-error))] text-white'
+                          : 'bg-secondary text-muted-foreground'
+                      )}
+                    >
+                      {actionableAlertCount > 0 ? actionableAlertCount : firingAlerts.length}
+                    </span>
+                  )}
+                </Link>
               </Button>
+              <Button asChild variant="outline" size="sm">
+                <Link to={`/logs${scopeSearch}`}>Log Search</Link>
+              </Button>
+              <Button asChild variant="outline" size="sm">
+                <Link to={`/version-impact${scopeSearch}`}>Version Impact</Link>
+              </Button>
+              <Button asChild variant="outline" size="sm">
+                <Link to={`/right-sizing${scopeSearch}`}>Right-Sizing</Link>
+              </Button>
+              <SessionMenu />
             </div>
           </div>
         </div>
@@ -198,7 +258,7 @@ export const Dashboard = () => {
           <section className="col-span-3 bg-card rounded-xl border border-border p-3">
             <h2 className="text-sm font-semibold mb-3">Deployments</h2>
             <button
-              onClick={() => setLatestIssuesOnly((prev) => !prev)}
+              onClick={() => setLatestIssuesOnly(!latestIssuesOnly)}
               className={cn(
                 'mb-3 w-full text-left text-xs px-2 py-1.5 rounded-md border transition-colors',
                 latestIssuesOnly
@@ -212,12 +272,13 @@ export const Dashboard = () => {
               {deployments.map((deployment) => {
                 const latestPod = deployment.pods[0];
                 const latestHasLogIssues = hasLogIssues(latestPod);
-                const latestNeedsAttention = needsAttention(latestPod);
+                const rolloutStuck = deployment.workload?.rolloutStatus === 'stuck';
+                const latestNeedsAttention = needsAttention(latestPod) || rolloutStuck;
                 const latestImpact = latestPod ? podImpactsByPodId[latestPod.id] : undefined;
                 return (
                   <button
                     key={deployment.id}
-                    onClick={() => setSelectedDeploymentId(deployment.id)}
+                    onClick={() => select(deployment, deployment.pods[0]?.name)}
                     className={cn(
                       'w-full text-left p-3 rounded-lg border transition-colors',
                       selectedDeploymentId === deployment.id
@@ -227,7 +288,16 @@ export const Dashboard = () => {
                           : 'border-[hsl(var(--status-ready)/0.35)] bg-[hsl(var(--status-ready)/0.06)] hover:bg-[hsl(var(--status-ready)/0.1)]'
                     )}
                   >
-                    <div className="font-medium text-sm truncate">{deployment.name}</div>
+                    <div className="flex items-center gap-1.5">
+                      <span className="font-medium text-sm truncate">{deployment.name}</span>
+                      <WorkloadKindBadge kind={deployment.kind} />
+                    </div>
+                    {!scope.namespace && (
+                      <div className="text-[10px] text-muted-foreground truncate">
+                        {scope.cluster ? deployment.namespace : `${deployment.cluster}/${deployment.namespace}`}
+                      </div>
+                    )}
+                    {deployment.workload && <WorkloadReplicas workload={deployment.workload} />}
                     {latestPod && (
                       <div className="text-[10px] text-muted-foreground mt-1">
                         {formatDistanceToNow(new Date(latestPod.createdAt), { addSuffix: true })}
@@ -267,6 +337,10 @@ export const Dashboard = () => {
                       <div className="mt-2 flex items-center gap-1.5 text-[11px] text-[hsl(var(--status-warning))]">
                         Needs attention: {latestPod?.status}
                       </div>
+                    ) : rolloutStuck ? (
+                      <div className="mt-2 text-[11px] text-[hsl(var(--status-error))] truncate">
+                        Rollout stuck{deployment.workload?.rolloutMessage ? `: ${deployment.workload.rolloutMessage}` : ''}
+                      </div>
                     ) : (
                       <div className="mt-2 flex items-center gap-1.5 text-[11px] text-[hsl(var(--status-ready))]">
                         <CheckCircle2 className="w-3.5 h-3.5" />
@@ -282,87 +356,144 @@ export const Dashboard = () => {
             </div>
           </section>
 
-          <section className="col-span-4 bg-card rounded-xl border border-border p-3">
-            <h2 className="text-sm font-semibold mb-3">Pods</h2>
-            <div className="space-y-2">
-              {selectedDeployment?.pods.map((pod) => {
-                const podHasLogIssues = hasLogIssues(pod);
-                const podNeedsAttention = needsAttention(pod);
-                const podImpact = podImpactsByPodId[pod.id];
-                return (
-                  <button
-                    key={pod.id}
-                    onClick={() => setSelectedPod(pod)}
-                    className={cn(
-                      'w-full text-left p-3 rounded-lg border transition-colors',
-                      selectedPod?.id === pod.id
-                        ? 'border-primary bg-primary/10'
-                        : podNeedsAttention
-                          ? 'border-[hsl(var(--status-warning)/0.35)] bg-[hsl(var(--status-warning)/0.06)] hover:bg-[hsl(var(--status-warning)/0.12)]'
-                          : 'border-[hsl(var(--status-ready)/0.35)] bg-[hsl(var(--status-ready)/0.06)] hover:bg-[hsl(var(--status-ready)/0.1)]'
-                    )}
-                  >
-                    <div className="flex items-center justify-between gap-2">
-                      <span className="font-medium text-sm truncate">{pod.name}</span>
-                      <StatusBadge status={pod.status} className="text-[10px]" />
-                    </div>
-                    <div className="mt-1 text-[11px] text-muted-foreground">
-                      {formatDistanceToNow(new Date(pod.createdAt), { addSuffix: true })}
-                    </div>
-                    {podImpact && podImpact.status !== 'unknown' && podImpact.score !== null && (
-                      <div
+          <div className="col-span-4 space-y-4">
+            <section className="bg-card rounded-xl border border-border p-3">
+              <h2 className="text-sm font-semibold mb-3">Pods</h2>
+              <div className="space-y-2">
+                {selectedDeployment?.pods.map((pod) => {
+                  const podHasLogIssues = hasLogIssues(pod);
+                  const podNeedsAttention = needsAttention(pod);
+                  const podImpact = podImpactsByPodId[pod.id];
+                  return (
+                    <button
+                      key={pod.id}
+                      onClick={() => selectPod(pod.name)}
+                      className={cn(
+                        'w-full text-left p-3 rounded-lg border transition-colors',
+                        selectedPod?.id === pod.id
+                          ? 'border-primary bg-primary/10'
+                          : podNeedsAttention
+                            ? 'border-[hsl(var(--status-warning)/0.35)] bg-[hsl(var(--status-warning)/0.06)] hover:bg-[hsl(var(--status-warning)/0.12)]'
+                            : 'border-[hsl(var(--status-ready)/0.35)] bg-[hsl(var(--status-ready)/0.06)] hover:bg-[hsl(var(--status-ready)/0.1)]'
+                      )}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-sm truncate">{pod.name}</span>
+                        <StatusBadge status={pod.status} className="text-[10px]" />
+                      </div>
+                      <div className="mt-1 text-[11px] text-muted-foreground">
+                        {formatDistanceToNow(new Date(pod.createdAt), { addSuffix: true })}
+                      </div>
+                      {podImpact && podImpact.status !== 'unknown' && podImpact.score !== null && (
+                        <div
+                          className={cn(
+                            'mt-2 text-[11px] inline-flex items-center gap-1 px-1.5 py-0.5 rounded',
+                            podImpact.status === 'degraded' && 'bg-[hsl(var(--status-error)/0.15)] text-[hsl(var(--status-error))]',
+                            podImpact.status === 'improved' && 'bg-[hsl(var(--status-ready)/0.15)] text-[hsl(var(--status-ready))]',
+                            podImpact.status === 'stable' && 'bg-secondary text-muted-foreground'
+                          )}
+                        >
+                          Impact {podImpact.score > 0 ? '+' : ''}{podImpact.score.toFixed(1)}%
+                        </div>
+                      )}
+                      {podHasLogIssues ? (
+                        <div className="mt-2 flex items-center gap-2.5 text-[11px]">
+                          {pod.logSummary.errors > 0 && (
+                            <span className="text-[hsl(var(--status-error))]">
+                              {pod.logSummary.errors} errors
+                            </span>
+                          )}
+                          {pod.logSummary.exceptions > 0 && (
+                            <span className="text-[hsl(var(--status-error))]">
+                              {pod.logSummary.exceptions} exceptions
+                            </span>
+                          )}
+                          {pod.logSummary.warnings > 0 && (
+                            <span className="text-[hsl(var(--status-warning))]">
+                              {pod.logSummary.warnings} warnings
+                            </span>
+                          )}
+                        </div>
+                      ) : hasStatusIssues(pod) ? (
+                        <div className="mt-2 flex items-center gap-1.5 text-[11px] text-[hsl(var(--status-warning))]">
+                          Needs attention: {pod.status}
+                        </div>
+                      ) : (
+                        <div className="mt-2 flex items-center gap-1.5 text-[11px] text-[hsl(var(--status-ready))]">
+                          <CheckCircle2 className="w-3.5 h-3.5" />
+                          Healthy
+                        </div>
+                      )}
+                    </button>
+                  );
+                })}
+                {!selectedDeployment && (
+                  <div className="text-sm text-muted-foreground">Select a deployment to view pods.</div>
+                )}
+              </div>
+              {selectedDeployment && selectedDeployment.historicalPods.length > 0 && (
+                <>
+                  <h3 className="mt-4 mb-2 text-xs font-medium text-muted-foreground">
+                    Deleted pods ({selectedDeployment.historicalPods.length})
+                  </h3>
+                  <div className="space-y-1.5">
+                    {selectedDeployment.historicalPods.map((pod) => (
+                      <button
+                        key={pod.id}
+                        onClick={() => selectPod(pod.name)}
                         className={cn(
-                          'mt-2 text-[11px] inline-flex items-center gap-1 px-1.5 py-0.5 rounded',
-                          podImpact.status === 'degraded' && 'bg-[hsl(var(--status-error)/0.15)] text-[hsl(var(--status-error))]',
-                          podImpact.status === 'improved' && 'bg-[hsl(var(--status-ready)/0.15)] text-[hsl(var(--status-ready))]',
-                          podImpact.status === 'stable' && 'bg-secondary text-muted-foreground'
+                          'w-full text-left px-3 py-2 rounded-lg border transition-colors opacity-60 hover:opacity-100',
+                          selectedPod?.id === pod.id ? 'border-primary bg-primary/10 opacity-100' : 'border-border bg-secondary/30'
                         )}
                       >
-                        Impact {podImpact.score > 0 ? '+' : ''}{podImpact.score.toFixed(1)}%
-                      </div>
-                    )}
-                    {podHasLogIssues ? (
-                      <div className="mt-2 flex items-center gap-2.5 text-[11px]">
-                        {pod.logSummary.errors > 0 && (
-                          <span className="text-[hsl(var(--status-error))]">
-                            {pod.logSummary.errors} errors
-                          </span>
-                        )}
-                        {pod.logSummary.exceptions > 0 && (
-                          <span className="text-[hsl(var(--status-error))]">
-                            {pod.logSummary.exceptions} exceptions
-                          </span>
-                        )}
-                        {pod.logSummary.warnings > 0 && (
-                          <span className="text-[hsl(var(--status-warning))]">
-                            {pod.logSummary.warnings} warnings
-                          </span>
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium text-sm truncate">{pod.name}</span>
+                          <span className="text-[10px] px-1.5 py-0.5 rounded bg-secondary text-muted-foreground">Deleted</span>
+                        </div>
+                        {pod.deletedAt && (
+                          <div className="mt-1 text-[11px] text-muted-foreground">
+                            lived {formatDistanceStrict(new Date(pod.createdAt), new Date(pod.deletedAt))} • deleted{' '}
+                            {formatDistanceToNow(new Date(pod.deletedAt), { addSuffix: true })}
+                          </div>
                         )}
-                      </div>
-                    ) : hasStatusIssues(pod) ? (
-                      <div className="mt-2 flex items-center gap-1.5 text-[11px] text-[hsl(var(--status-warning))]">
-                        Needs attention: {pod.status}
-                      </div>
-                    ) : (
-                      <div className="mt-2 flex items-center gap-1.5 text-[11px] text-[hsl(var(--status-ready))]">
-                        <CheckCircle2 className="w-3.5 h-3.5" />
-                        Healthy
-                      </div>
-                    )}
-                  </button>
-                );
-              })}
-              {!selectedDeployment && (
-                <div className="text-sm text-muted-foreground">Select a deployment to view pods.</div>
+                      </button>
+                    ))}
+                  </div>
+                </>
               )}
-            </div>
-          </section>
+            </section>
+
+            {selectedDeployment && selectedDeploymentVersions.length > 0 && (
+              <section className="bg-card rounded-xl border border-border p-3">
+                <h2 className="text-sm font-semibold mb-3">Versions</h2>
+                <VersionTimeline
+                  key={selectedDeployment.id}
+                  versionGroups={selectedDeploymentVersions}
+                  onSelectPod={(pod) => selectPod(pod.name)}
+                  selectedPodId={selectedPod?.id ?? null}
+                  desiredReplicas={selectedDeployment.workload?.desiredReplicas ?? null}
+                />
+              </section>
+            )}
+
+            {selectedDeployment && <TopErrorsPanel deployment={selectedDeployment} />}
+          </div>
 
           <section className="col-span-5">
             {selectedPod ? (
               <PodDetailPanel
                 pod={selectedPod}
-                onClose={() => setSelectedPod(null)}
+                onClose={() => selectPod(null)}
+                selectedContainerName={
+                  selection.podName === selectedPod.name ? selection.containerName : null
+                }
+                onSelectContainer={(container) => selectPod(selectedPod.name, container.name)}
+                detailTab={detailTab}
+                onDetailTabChange={setDetailTab}
+                logQuickFilter={logQuickFilter}
+                onLogQuickFilterChange={setLogQuickFilter}
+                logSearch={logSearch}
+                onLogSearchChange={setLogSearch}
                 podImpactsByPodId={podImpactsByPodId}
                 containerImpactsByContainerId={containerImpactsByContainerId}
               />
@@ -0,0 +1,128 @@
+import { format, formatDistanceToNow } from 'date-fns';
+import { Clock } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useDataFreshness } from '@/hooks/useKubernetesData';
+import { cn } from '@/lib/utils';
+import { CollectorRun, PodScope } from '@/types/kubernetes';
+
+const ageMinutes = (timestamp: string) => (Date.now() - new Date(timestamp).getTime()) / 60000;
+
+const formatAge = (minutes: number) => {
+  if (minutes < 1) return '<1m';
+  if (minutes < 60) return `${Math.floor(minutes)}m`;
+  if (minutes < 48 * 60) return `${Math.floor(minutes / 60)}h`;
+  return `${Math.floor(minutes / (24 * 60))}d`;
+};
+
+const RUN_STATUS_STYLES: Record<CollectorRun['status'], string> = {
+  succeeded: 'text-[hsl(var(--status-ready))]',
+  failed: 'text-[hsl(var(--status-error))]',
+  running: 'text-muted-foreground',
+};
+
+/**
+ * "data 4m old" next to the dashboard title: age of the newest pod update in scope.
+ * Turns red when pods or resource samples are older than the API's stale thresholds, which usually
+ * means a collector stopped; the popover lists the latest run of each collector.
+ */
+export const DataFreshnessIndicator = ({ scope }: { scope: PodScope }) => {
+  const { data: freshness } = useDataFreshness(scope);
+
+  // Older APIs, or a caller without a token while one is required, get no freshness details
+  if (!freshness) return null;
+
+  const podsAge = freshness.podsUpdatedAt ? ageMinutes(freshness.podsUpdatedAt) : null;
+  const samplesAge = freshness.resourceSampledAt ? ageMinutes(freshness.resourceSampledAt) : null;
+  const podsStale = podsAge !== null && podsAge > freshness.podsStaleAfterMinutes;
+  // No samples at all means the resource collector is not deployed, which is not staleness
+  const samplesStale = samplesAge !== null && samplesAge > freshness.samplesStaleAfterMinutes;
+  const stale = podsStale || samplesStale;
+  const failedRuns = freshness.collectorRuns.filter((run) => run.status === 'failed').length;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            'flex items-center gap-1 hover:underline',
+            stale
+              ? 'text-[hsl(var(--status-error))]'
+              : failedRuns > 0
+                ? 'text-[hsl(var(--status-warning))]'
+                : 'text-muted-foreground'
+          )}
+        >
+          • <Clock className="w-3 h-3" />
+          {podsAge === null ? 'no data yet' : `data ${formatAge(podsAge)} old`}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-96 text-xs space-y-3">
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+          <dt className="text-muted-foreground">Pods updated</dt>
+          <dd className={cn(podsStale && 'text-[hsl(var(--status-error))]')}>
+            {freshness.podsUpdatedAt
+              ? `${formatDistanceToNow(new Date(freshness.podsUpdatedAt), { addSuffix: true })} (stale after ${freshness.podsStaleAfterMinutes}m)`
+              : 'never'}
+          </dd>
+          <dt className="text-muted-foreground">Newest resource sample</dt>
+          <dd className={cn(samplesStale && 'text-[hsl(var(--status-error))]')}>
+            {freshness.resourceSampledAt
+              ? `${formatDistanceToNow(new Date(freshness.resourceSampledAt), { addSuffix: true })} (stale after ${freshness.samplesStaleAfterMinutes}m)`
+              : 'none collected'}
+          </dd>
+        </dl>
+
+        <div className="border-t border-border pt-2">
+          <p className="mb-1.5 font-medium">Collector runs</p>
+          {freshness.collectorRuns.length === 0 ? (
+            <p className="text-muted-foreground">No collector runs recorded.</p>
+          ) : (
+            <ul className="space-y-1.5">
+              {freshness.collectorRuns.map((run) => (
+                <li key={`${run.collector}/${run.cluster}/${run.namespace}`}>
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono">{run.collector}</span>
+                    <span className="text-muted-foreground truncate">
+                      {run.cluster}/{run.namespace}
+                    </span>
+                    <span className={cn('ml-auto shrink-0 font-medium', RUN_STATUS_STYLES[run.status])}>
+                      {run.status}
+                    </span>
+                  </div>
+                  <div className="text-[11px] text-muted-foreground">
+                    <span title={format(new Date(run.startedAt), 'PPpp')}>
+                      started {formatDistanceToNow(new Date(run.startedAt), { addSuffix: true })}
+                    </span>
+                    {run.podsSeen !== null && <span> · {run.podsSeen} pods</span>}
+                    {run.logsInserted !== null && <span> · {run.logsInserted} logs</span>}
+                    {run.samplesInserted !== null && <span> · {run.samplesInserted} samples</span>}
+                    {run.errorCount > 0 && (
+                      <span>
+                        {' '}
+                        · {run.errorCount} error{run.errorCount !== 1 ? 's' : ''}
+                      </span>
+                    )}
+                    {run.status !== 'succeeded' && (
+                      <span>
+                        {' '}
+                        · last success{' '}
+                        {run.lastSuccessAt
+                          ? formatDistanceToNow(new Date(run.lastSuccessAt), { addSuffix: true })
+                          : 'never'}
+                      </span>
+                    )}
+                  </div>
+                  {run.error && (
+                    <p className="text-[11px] text-[hsl(var(--status-error))] truncate" title={run.error}>
+                      {run.error}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
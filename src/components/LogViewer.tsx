@@ -1,32 +1,188 @@
-import { useEffect, useMemo, useRef, useState } from 'react';
-import { Container, LogEntry } from '@/types/kubernetes';
-import { useContainerLogs, useContainerResourceSamples } from '@/hooks/useKubernetesData';
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Container, LogEntry, LogFieldValue, LogFocus, LogQuickFilter } from '@/types/kubernetes';
+import { LogSearchFilters, useContainerResourceSamples, useLogSearch, useLogTail } from '@/hooks/useKubernetesData';
+import { groupStackTraces, isExceptionHead, LogGroup } from '@/lib/stackTraces';
 import { cn } from '@/lib/utils';
 import { format } from 'date-fns';
-import { Terminal, Download, Search, ArrowDown, Loader2, Maximize2, Minimize2, ArrowUpToLine, ArrowDownToLine } from 'lucide-react';
+import { Terminal, Download, Search, ArrowDown, ArrowUp, Loader2, Maximize2, Minimize2, ArrowUpToLine, ArrowDownToLine, X, ChevronRight, ChevronDown, EyeOff } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 
 interface LogViewerProps {
   container: Container;
+  // Open on this line instead of the live tail; remount (via `key`) to focus a different line
+  focusLog?: LogFocus | null;
+  // Controlled filter and search (kept in the URL by the dashboard); local state otherwise
+  quickFilter?: LogQuickFilter;
+  onQuickFilterChange?: (filter: LogQuickFilter) => void;
+  searchTerm?: string;
+  onSearchTermChange?: (search: string) => void;
 }
 
-export const LogViewer = ({ container }: LogViewerProps) => {
+const SEARCH_DEBOUNCE_MS = 300;
+// Start loading the next (older) page when the viewport is this close to the top
+const LOAD_OLDER_THRESHOLD_PX = 80;
+// When focusing a line, also load this much of what came after it
+const FOCUS_CONTEXT_AFTER_MS = 5 * 60 * 1000;
+// Streamed lines kept in memory on top of the paged history
+const LIVE_LOG_BUFFER_MAX = 5000;
+// Structured fields shown as the line's message rather than as chips
+const MESSAGE_FIELD_KEYS = ['msg', 'message'];
+// Structured fields already rendered elsewhere on the line (timestamp, level badge)
+const HIDDEN_FIELD_KEYS = ['level', 'lvl', 'severity', 'log.level', 'levelname', 'time', 'timestamp', 'ts', '@timestamp'];
+
+type FieldFilters = Record<string, LogFieldValue>;
+
+// "Errors" includes fatal lines, matching the summary's error_count
+const QUICK_FILTER_LEVELS: Partial<Record<LogQuickFilter, LogSearchFilters['levels']>> = {
+  fatal: ['fatal'],
+  error: ['error', 'fatal'],
+  warning: ['warn'],
+  debug: ['debug'],
+};
+
+const toSearchFilters = (
+  containerId: string,
+  quickFilter: LogQuickFilter,
+  query: string,
+  fieldFilters: FieldFilters,
+  focus: LogFocus | null
+): LogSearchFilters => ({
+  containerId,
+  to: focus ? new Date(new Date(focus.timestamp).getTime() + FOCUS_CONTEXT_AFTER_MS).toISOString() : undefined,
+  query: query || undefined,
+  levels: QUICK_FILTER_LEVELS[quickFilter],
+  exceptionsOnly: quickFilter === 'exception',
+  fields: Object.keys(fieldFilters).length > 0 ? fieldFilters : undefined,
+});
+
+const formatFieldValue = (value: LogFieldValue) => (value === null ? 'null' : String(value));
+
+export const LogViewer = ({
+  container,
+  focusLog = null,
+  quickFilter: controlledQuickFilter,
+  onQuickFilterChange,
+  searchTerm: controlledSearchTerm,
+  onSearchTermChange,
+}: LogViewerProps) => {
+  const [focus, setFocus] = useState<LogFocus | null>(focusLog);
+  const [localSearchTerm, setLocalSearchTerm] = useState('');
+  const searchTerm = controlledSearchTerm ?? localSearchTerm;
+  const setSearchTerm = onSearchTermChange ?? setLocalSearchTerm;
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState(searchTerm);
+  const [localQuickFilter, setLocalQuickFilter] = useState<LogQuickFilter>('all');
+  const quickFilter = controlledQuickFilter ?? localQuickFilter;
+  const setQuickFilter = onQuickFilterChange ?? setLocalQuickFilter;
+  const [fieldFilters, setFieldFilters] = useState<FieldFilters>({});
+  const filters = useMemo(
+    () => toSearchFilters(container.id, quickFilter, debouncedSearchTerm.trim(), fieldFilters, focus),
+    [container.id, quickFilter, debouncedSearchTerm, fieldFilters, focus]
+  );
   const {
-    data: logData = {
-      logs: [],
-      summary: { error_count: 0, warning_count: 0, exception_count: 0 },
-    },
+    logs: historyLogs,
+    newestCreatedAt,
+    summary,
     isLoading,
     error,
-  } = useContainerLogs(container.id);
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useLogSearch(filters);
   const { data: resourceSamples = [] } = useContainerResourceSamples(container.id);
-  const logs = logData.logs;
-  const [searchTerm, setSearchTerm] = useState('');
-  const [quickFilter, setQuickFilter] = useState<'all' | 'error' | 'warning' | 'exception'>('all');
-  const [autoScroll, setAutoScroll] = useState(true);
+  const [autoScroll, setAutoScroll] = useState(!focusLog);
+  const autoScrollRef = useRef(autoScroll);
+  autoScrollRef.current = autoScroll;
+  const [liveLogs, setLiveLogs] = useState<LogEntry[]>([]);
+  const [newWhilePaused, setNewWhilePaused] = useState(0);
+
+  // Live tail only makes sense when the view ends at "now", i.e. not when focused on a past line.
+  // It waits for the history page so it can start right after the newest row shown.
+  const tailFilters = useMemo(
+    () => (filters.to || isLoading ? null : { ...filters, containerId: container.id }),
+    [filters, container.id, isLoading]
+  );
+
+  useEffect(() => {
+    setLiveLogs([]);
+    setNewWhilePaused(0);
+  }, [tailFilters]);
+
+  const appendLiveLogs = useCallback((incoming: LogEntry[]) => {
+    setLiveLogs((prev) => {
+      const seen = new Set(prev.map((log) => log.id));
+      const next = [...prev, ...incoming.filter((log) => !seen.has(log.id))];
+      return next.length > LIVE_LOG_BUFFER_MAX ? next.slice(next.length - LIVE_LOG_BUFFER_MAX) : next;
+    });
+    if (!autoScrollRef.current) {
+      setNewWhilePaused((count) => count + incoming.length);
+    }
+  }, []);
+
+  const { status: tailStatus } = useLogTail(tailFilters, appendLiveLogs, newestCreatedAt);
+
+  const logs = useMemo(() => {
+    if (liveLogs.length === 0) return historyLogs;
+    const historyIds = new Set(historyLogs.map((log) => log.id));
+    return [...historyLogs, ...liveLogs.filter((log) => !historyIds.has(log.id))];
+  }, [historyLogs, liveLogs]);
+  const logGroups = useMemo(() => groupStackTraces(logs), [logs]);
+  // Head ids of stack traces the user expanded
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(() => new Set());
+
+  const toggleGroup = (headId: string) => {
+    setExpandedGroups((prev) => {
+      const next = new Set(prev);
+      if (next.has(headId)) next.delete(headId);
+      else next.add(headId);
+      return next;
+    });
+  };
   const [isFullscreen, setIsFullscreen] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
+  const focusScrolledRef = useRef<string | null>(null);
+  // scrollHeight/scrollTop captured before an older page is prepended, so the view does not jump
+  const scrollAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!focus || !el || focusScrolledRef.current === focus.logId) return;
+    const target = el.querySelector<HTMLElement>(`[data-log-id="${focus.logId}"]`);
+    if (!target) return;
+    el.scrollTop += target.getBoundingClientRect().top - el.getBoundingClientRect().top - el.clientHeight / 2;
+    focusScrolledRef.current = focus.logId;
+  }, [logs, focus]);
+
+  const showLatest = () => {
+    setFocus(null);
+    focusScrolledRef.current = null;
+    setAutoScroll(true);
+  };
+
+  const addFieldFilter = (key: string, value: LogFieldValue) => {
+    setFieldFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const removeFieldFilter = (key: string) => {
+    setFieldFilters((prev) => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearchTerm(searchTerm), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  useLayoutEffect(() => {
+    const anchor = scrollAnchorRef.current;
+    const el = containerRef.current;
+    if (!anchor || !el || isFetchingNextPage) return;
+    el.scrollTop = anchor.scrollTop + (el.scrollHeight - anchor.scrollHeight);
+    scrollAnchorRef.current = null;
+  }, [logs, isFetchingNextPage]);
 
   useEffect(() => {
     if (autoScroll && containerRef.current) {
@@ -49,43 +205,31 @@ export const LogViewer = ({ container }: LogViewerProps) => {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [isFullscreen]);
 
-  const hasStackTracePattern = (message: string): boolean => {
-    const lower = message.toLowerCase();
-    return (
-      lower.includes('exception') ||
-      lower.includes('stacktrace') ||
-      lower.includes('traceback') ||
-      /^\s*file\s+".+",\s*line\s+\d+,\s*in\s+/i.test(message) ||
-      /^\s*caused by:/i.test(message) ||
-      /\bat\s+\S+\s+\(.+\)/.test(message) ||
-      /\bat\s+\S+\.\S+/.test(message)
-    );
-  };
+  // Full-history counts from the first page, plus whatever streamed in since
+  const exceptionCount = summary.exception_count + liveLogs.filter((log) => isExceptionHead(log.message)).length;
+  const fatalCount = summary.fatal_count + liveLogs.filter((log) => log.level === 'fatal').length;
+  const errorCount = summary.error_count + liveLogs.filter((log) => log.level === 'error' || log.level === 'fatal').length;
+  const warningCount = summary.warning_count + liveLogs.filter((log) => log.level === 'warn').length;
+  const debugCount = summary.debug_count + liveLogs.filter((log) => log.level === 'debug').length;
 
-  const exceptionCount = logData.summary.exception_count;
-  const errorCount = logData.summary.error_count;
-  const warningCount = logData.summary.warning_count;
-
-  const filteredLogs = useMemo(
-    () =>
-      logs.filter((log) => {
-        const matchesSearch = log.message.toLowerCase().includes(searchTerm.toLowerCase());
-        const matchesQuickFilter =
-          quickFilter === 'all' ||
-          (quickFilter === 'error' && log.level === 'error') ||
-          (quickFilter === 'warning' && log.level === 'warn') ||
-          (quickFilter === 'exception' && hasStackTracePattern(log.message));
-
-        return matchesSearch && matchesQuickFilter;
-      }),
-    [logs, quickFilter, searchTerm]
-  );
+  const loadOlderLogs = () => {
+    if (!hasNextPage || isFetchingNextPage) return;
+    const el = containerRef.current;
+    if (el) {
+      scrollAnchorRef.current = { scrollHeight: el.scrollHeight, scrollTop: el.scrollTop };
+    }
+    fetchNextPage();
+  };
 
   const handleScroll = () => {
     if (containerRef.current) {
       const { scrollTop, scrollHeight, clientHeight } = containerRef.current;
       const isAtBottom = scrollHeight - scrollTop - clientHeight < 50;
       setAutoScroll(isAtBottom);
+      if (isAtBottom) setNewWhilePaused(0);
+      if (scrollTop < LOAD_OLDER_THRESHOLD_PX) {
+        loadOlderLogs();
+      }
     }
   };
 
@@ -95,6 +239,7 @@ export const LogViewer = ({ container }: LogViewerProps) => {
       el.scrollTo({ top: el.scrollHeight, behavior: 'smooth' });
     }
     setAutoScroll(true);
+    setNewWhilePaused(0);
   };
 
   const scrollToTop = () => {
@@ -153,7 +298,7 @@ export const LogViewer = ({ container }: LogViewerProps) => {
   const hasResourceLimits =
     (container.cpuLimitMillicores ?? 0) > 0 || (container.memoryLimitBytes ?? 0) > 0;
 
-  const renderLogLine = (log: LogEntry) => {
+  const renderLogLine = (log: LogEntry, stackTrace?: { lineCount: number; expanded: boolean }) => {
     const nearestSample = findNearestResourceSample(log.timestamp);
     const cpuLimit = container.cpuLimitMillicores ?? 0;
     const memoryLimit = container.memoryLimitBytes ?? 0;
@@ -165,16 +310,28 @@ export const LogViewer = ({ container }: LogViewerProps) => {
       ? (nearestSample.memoryBytes / memoryLimit) * 100
       : null;
 
+    const fields = log.fields ?? {};
+    const messageKey = MESSAGE_FIELD_KEYS.find((key) => typeof fields[key] === 'string');
+    const fieldEntries = Object.entries(fields).filter(
+      ([key]) => key !== messageKey && !HIDDEN_FIELD_KEYS.includes(key)
+    );
+
     return (
-      <div key={log.id} className="log-line">
+      <div
+        key={log.id}
+        data-log-id={log.id}
+        className={cn('log-line', focus?.logId === log.id && 'bg-primary/15 ring-1 ring-primary/40')}
+      >
         <span className="log-timestamp">
           {format(new Date(log.timestamp), 'HH:mm:ss.SSS')}
         </span>
         <span
           className={cn(
+            log.level === 'debug' && 'log-debug',
             log.level === 'info' && 'log-info',
             log.level === 'warn' && 'log-warn',
-            log.level === 'error' && 'log-error'
+            log.level === 'error' && 'log-error',
+            log.level === 'fatal' && 'log-fatal'
           )}
         >
           [{log.level.toUpperCase().padEnd(5)}]
@@ -193,7 +350,64 @@ export const LogViewer = ({ container }: LogViewerProps) => {
             )}
           </span>
         )}
-        <span className="ml-2">{log.message}</span>
+        <span className="ml-2">{messageKey ? String(fields[messageKey]) : log.message}</span>
+        {log.redactions && log.redactions.length > 0 && (
+          <span
+            className="ml-1.5 inline-flex items-center gap-0.5 rounded bg-[hsl(var(--status-warning)/0.15)] px-1 text-[11px] text-[hsl(var(--status-warning))]"
+            title={`Redacted at ingest: ${log.redactions.join(', ')}`}
+          >
+            <EyeOff className="w-3 h-3" />
+            redacted
+          </span>
+        )}
+        {fieldEntries.map(([key, value]) => (
+          <button
+            key={key}
+            onClick={() => addFieldFilter(key, value)}
+            className="ml-1.5 inline-flex max-w-[24rem] items-baseline rounded bg-secondary/70 px-1 text-[11px] text-muted-foreground hover:bg-primary/20 hover:text-foreground"
+            title={`Filter by ${key}=${formatFieldValue(value)}`}
+          >
+            <span className="text-primary/80">{key}</span>=<span className="truncate">{formatFieldValue(value)}</span>
+          </button>
+        ))}
+        {stackTrace && (
+          <button
+            onClick={() => toggleGroup(log.id)}
+            className="ml-2 inline-flex items-center gap-0.5 rounded bg-secondary/70 px-1 text-[11px] text-muted-foreground hover:text-foreground"
+            title={stackTrace.expanded ? 'Collapse stack trace' : 'Expand stack trace'}
+          >
+            {stackTrace.expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+            {stackTrace.lineCount} more lines
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const renderLogGroup = ({ head, continuation }: LogGroup) => {
+    if (continuation.length === 0) return renderLogLine(head);
+
+    const expanded =
+      expandedGroups.has(head.id) || continuation.some((log) => log.id === focus?.logId);
+    return (
+      <div key={head.id}>
+        {renderLogLine(head, { lineCount: continuation.length, expanded })}
+        {expanded && (
+          <div className="ml-[7.5rem] border-l border-[hsl(var(--terminal-border))]">
+            {continuation.map((log) => (
+              <div
+                key={log.id}
+                data-log-id={log.id}
+                className={cn(
+                  'px-3 font-mono text-xs whitespace-pre-wrap text-muted-foreground hover:bg-muted/30',
+                  focus?.logId === log.id && 'bg-primary/15 ring-1 ring-primary/40'
+                )}
+              >
+                {log.message}
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     );
   };
@@ -211,6 +425,34 @@ export const LogViewer = ({ container }: LogViewerProps) => {
               <Terminal className="w-4 h-4 text-muted-foreground shrink-0" />
               <span className="font-mono text-sm truncate">{container.name}</span>
             </div>
+            {tailFilters && (
+              <button
+                onClick={autoScroll ? undefined : scrollToBottom}
+                className={cn(
+                  'ml-2 flex items-center gap-1.5 px-1.5 py-0.5 rounded text-[11px] shrink-0',
+                  autoScroll && tailStatus === 'live'
+                    ? 'text-[hsl(var(--status-ready))] bg-[hsl(var(--status-ready)/0.12)]'
+                    : 'text-muted-foreground bg-secondary'
+                )}
+                title={autoScroll ? 'New lines stream in as they are collected' : 'Resume following new lines'}
+              >
+                <span
+                  className={cn(
+                    'w-1.5 h-1.5 rounded-full',
+                    autoScroll && tailStatus === 'live'
+                      ? 'bg-[hsl(var(--status-ready))] animate-pulse'
+                      : tailStatus === 'live'
+                        ? 'bg-[hsl(var(--status-warning))]'
+                        : 'bg-muted-foreground'
+                  )}
+                />
+                {tailStatus !== 'live'
+                  ? tailStatus === 'connecting' ? 'Connecting' : 'Reconnecting'
+                  : autoScroll
+                    ? 'Live'
+                    : `Paused${newWhilePaused > 0 ? ` · ${newWhilePaused} new` : ''}`}
+              </button>
+            )}
           </div>
           <div className="flex items-center gap-1 shrink-0">
             <Button
@@ -263,8 +505,21 @@ export const LogViewer = ({ container }: LogViewerProps) => {
                   : 'border-border text-muted-foreground hover:text-foreground'
               )}
             >
-              All ({logs.length})
+              All{quickFilter === 'all' ? ` (${logs.length}${hasNextPage ? '+' : ''})` : ''}
             </button>
+            {fatalCount > 0 && (
+              <button
+                onClick={() => setQuickFilter('fatal')}
+                className={cn(
+                  'px-2 py-1 rounded text-xs border transition-colors',
+                  quickFilter === 'fatal'
+                    ? 'border-[hsl(var(--status-error))] bg-[hsl(var(--status-error)/0.3)] text-[hsl(var(--status-error))]'
+                    : 'border-border text-muted-foreground hover:text-foreground'
+                )}
+              >
+                Fatal ({fatalCount})
+              </button>
+            )}
             <button
               onClick={() => setQuickFilter('error')}
               className={cn(
@@ -298,19 +553,55 @@ export const LogViewer = ({ container }: LogViewerProps) => {
             >
               Warnings ({warningCount})
             </button>
+            <button
+              onClick={() => setQuickFilter('debug')}
+              className={cn(
+                'px-2 py-1 rounded text-xs border transition-colors',
+                quickFilter === 'debug'
+                  ? 'border-primary bg-primary/20 text-primary'
+                  : 'border-border text-muted-foreground hover:text-foreground'
+              )}
+            >
+              Debug ({debugCount})
+            </button>
           </div>
           <div className="relative ml-auto min-w-[180px] flex-1 md:flex-none md:min-w-0">
             <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
             <Input
-              placeholder="Filter logs..."
+              placeholder="Search logs..."
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="h-7 w-full md:w-48 pl-8 text-xs bg-background/50 border-border"
             />
           </div>
         </div>
+
+        {Object.keys(fieldFilters).length > 0 && (
+          <div className="flex flex-wrap items-center gap-1">
+            {Object.entries(fieldFilters).map(([key, value]) => (
+              <span
+                key={key}
+                className="flex items-center gap-1 px-2 py-0.5 rounded border border-primary bg-primary/20 text-primary text-[11px] font-mono"
+              >
+                {key}={formatFieldValue(value)}
+                <button onClick={() => removeFieldFilter(key)} title={`Remove ${key} filter`}>
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
       </div>
 
+      {focus && (
+        <div className="px-4 py-1 text-[11px] text-muted-foreground border-b border-[hsl(var(--terminal-border))] flex items-center justify-between">
+          <span>Showing logs around {format(new Date(focus.timestamp), 'yyyy-MM-dd HH:mm:ss')}</span>
+          <button onClick={showLatest} className="text-primary hover:underline">
+            Show latest
+          </button>
+        </div>
+      )}
+
       {!hasResourceLimits && (
         <div className="px-4 py-1 text-[11px] text-muted-foreground border-b border-[hsl(var(--terminal-border))]">
           CPU/RAM percent near logs is hidden because this container has no resource limits set.
@@ -334,16 +625,32 @@ export const LogViewer = ({ container }: LogViewerProps) => {
               <p className="text-sm">{error.message}</p>
             </div>
           </div>
-        ) : filteredLogs.length === 0 ? (
+        ) : logs.length === 0 ? (
           <div className="flex items-center justify-center h-full text-muted-foreground">
             <div className="text-center">
               <Terminal className="w-12 h-12 mx-auto mb-2 opacity-50" />
-              <p>{searchTerm ? 'No matching logs found' : 'No logs available'}</p>
+              <p>{debouncedSearchTerm || quickFilter !== 'all' || Object.keys(fieldFilters).length > 0 ? 'No matching logs found' : 'No logs available'}</p>
             </div>
           </div>
         ) : (
           <div className="py-2">
-            {filteredLogs.map(renderLogLine)}
+            {hasNextPage ? (
+              <button
+                onClick={loadOlderLogs}
+                disabled={isFetchingNextPage}
+                className="w-full flex items-center justify-center gap-1.5 py-1 text-[11px] text-muted-foreground hover:text-foreground"
+              >
+                {isFetchingNextPage ? (
+                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                ) : (
+                  <ArrowUp className="w-3.5 h-3.5" />
+                )}
+                {isFetchingNextPage ? 'Loading older logs...' : 'Load older logs'}
+              </button>
+            ) : (
+              <div className="py-1 text-center text-[11px] text-muted-foreground">Beginning of logs</div>
+            )}
+            {logGroups.map(renderLogGroup)}
           </div>
         )}
       </div>
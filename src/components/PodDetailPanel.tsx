@@ -1,4 +1,12 @@
-import { PodWithHealth, Container, ContainerImpact, PodImpact } from '@/types/kubernetes';
+import {
+  PodWithHealth,
+  Container,
+  ContainerImpact,
+  PodImpact,
+  LogFocus,
+  LogQuickFilter,
+  PodDetailTab,
+} from '@/types/kubernetes';
 import { cn } from '@/lib/utils';
 import { formatDistanceToNow, format } from 'date-fns';
 import {
@@ -9,11 +17,12 @@ import {
   AlertTriangle,
   XCircle,
 } from 'lucide-react';
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { ContainerHistoryPanel } from './ContainerHistoryPanel';
 import { LogViewer } from './LogViewer';
 import { ResourceUsagePanel } from './ResourceUsagePanel';
+import { PodEventsPanel } from './PodEventsPanel';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { classifyContainerSeverity, isSidecarContainer } from '@/lib/podHealth';
 
@@ -22,6 +31,18 @@ interface PodDetailPanelProps {
   onClose: () => void;
   containerImpactsByContainerId?: Record<string, ContainerImpact>;
   podImpactsByPodId?: Record<string, PodImpact>;
+  // Select this log line's container and open its logs scrolled to the line
+  focusLog?: LogFocus | null;
+  // Route-controlled selection (Dashboard); without these the panel keeps its own state.
+  // A null container name selects the preferred container.
+  selectedContainerName?: string | null;
+  onSelectContainer?: (container: Container) => void;
+  detailTab?: PodDetailTab;
+  onDetailTabChange?: (tab: PodDetailTab) => void;
+  logQuickFilter?: LogQuickFilter;
+  onLogQuickFilterChange?: (filter: LogQuickFilter) => void;
+  logSearch?: string;
+  onLogSearchChange?: (search: string) => void;
 }
 
 export const PodDetailPanel = ({
@@ -29,9 +50,19 @@ export const PodDetailPanel = ({
   onClose,
   containerImpactsByContainerId = {},
   podImpactsByPodId = {},
+  focusLog = null,
+  selectedContainerName,
+  onSelectContainer,
+  detailTab: controlledDetailTab,
+  onDetailTabChange,
+  logQuickFilter,
+  onLogQuickFilterChange,
+  logSearch,
+  onLogSearchChange,
 }: PodDetailPanelProps) => {
-  const [selectedContainer, setSelectedContainer] = useState<Container | null>(null);
-  const [detailTab, setDetailTab] = useState<'logs' | 'resources'>('logs');
+  const [localContainer, setSelectedContainer] = useState<Container | null>(null);
+  const [localDetailTab, setDetailTab] = useState<PodDetailTab>('logs');
+  const appliedFocusIdRef = useRef<string | null>(null);
 
   const getPreferredContainer = (containers: Container[]): Container | null => {
     if (containers.length === 0) return null;
@@ -64,6 +95,17 @@ export const PodDetailPanel = ({
     });
   }, [pod.id, pod.containers]);
 
+  // Apply each focus request once (to the panel's own selection), so later pod refreshes don't override the user's own selection.
+  useEffect(() => {
+    if (!focusLog || appliedFocusIdRef.current === focusLog.logId) return;
+    const focusedContainer = pod.containers.find((c) => c.id === focusLog.containerId);
+    if (focusedContainer) {
+      setSelectedContainer(focusedContainer);
+      setDetailTab('logs');
+      appliedFocusIdRef.current = focusLog.logId;
+    }
+  }, [focusLog, pod.containers]);
+
   const healthConfig = {
     healthy: {
       icon: CheckCircle,
@@ -82,6 +124,14 @@ export const PodDetailPanel = ({
     },
   };
 
+  const selectedContainer =
+    selectedContainerName === undefined
+      ? localContainer
+      : pod.containers.find((c) => c.name === selectedContainerName) ?? getPreferredContainer(pod.containers);
+  const detailTab = controlledDetailTab ?? localDetailTab;
+
+  const activeFocus = focusLog && focusLog.containerId === selectedContainer?.id ? focusLog : null;
+
   const config = healthConfig[pod.health];
   const HealthIcon = config.icon;
 
@@ -142,7 +192,7 @@ export const PodDetailPanel = ({
           <ContainerHistoryPanel
             pod={pod}
             selectedContainerId={selectedContainer?.id ?? null}
-            onSelectContainer={setSelectedContainer}
+            onSelectContainer={onSelectContainer ?? setSelectedContainer}
             containerImpactsByContainerId={containerImpactsByContainerId}
             podImpact={podImpactsByPodId[pod.id]}
           />
@@ -151,14 +201,28 @@ export const PodDetailPanel = ({
         {/* Logs section */}
         {selectedContainer && (
           <div className="h-80 border-t border-border p-3">
-            <Tabs value={detailTab} onValueChange={(v) => setDetailTab(v as 'logs' | 'resources')} className="h-full flex flex-col">
-              <TabsList className="grid w-full grid-cols-2">
+            <Tabs value={detailTab} onValueChange={(v) => (onDetailTabChange ?? setDetailTab)(v as PodDetailTab)} className="h-full flex flex-col">
+              <TabsList className="grid w-full grid-cols-3">
                 <TabsTrigger value="logs">Logs</TabsTrigger>
                 <TabsTrigger value="resources">Resources</TabsTrigger>
+                <TabsTrigger value="events">
+                  Events
+                  {pod.eventSummary.warnings > 0 && (
+                    <span className="ml-1.5 text-[hsl(var(--status-warning))]">{pod.eventSummary.warnings}</span>
+                  )}
+                </TabsTrigger>
               </TabsList>
               <TabsContent value="logs" className="flex-1 min-h-0">
                 <div className="h-full rounded-lg border border-border/70 overflow-hidden">
-                  <LogViewer key={`logs-${selectedContainer.id}`} container={selectedContainer} />
+                  <LogViewer
+                    key={`logs-${selectedContainer.id}-${activeFocus?.logId ?? 'tail'}`}
+                    container={selectedContainer}
+                    focusLog={activeFocus}
+                    quickFilter={logQuickFilter}
+                    onQuickFilterChange={onLogQuickFilterChange}
+                    searchTerm={logSearch}
+                    onSearchTermChange={onLogSearchChange}
+                  />
                 </div>
               </TabsContent>
               <TabsContent value="resources" className="flex-1 min-h-0">
@@ -166,6 +230,11 @@ export const PodDetailPanel = ({
                   <ResourceUsagePanel key={`resources-${selectedContainer.id}`} container={selectedContainer} />
                 </div>
               </TabsContent>
+              <TabsContent value="events" className="flex-1 min-h-0">
+                <div className="h-full rounded-lg border border-border/70 overflow-hidden">
+                  <PodEventsPanel key={`events-${pod.id}`} pod={pod} />
+                </div>
+              </TabsContent>
             </Tabs>
           </div>
         )}
@@ -0,0 +1,88 @@
+import { PodWithHealth } from '@/types/kubernetes';
+import { usePodEvents } from '@/hooks/useKubernetesData';
+import { cn } from '@/lib/utils';
+import { format, formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, Info, ListTree, Loader2 } from 'lucide-react';
+
+interface PodEventsPanelProps {
+  pod: PodWithHealth;
+}
+
+export const PodEventsPanel = ({ pod }: PodEventsPanelProps) => {
+  const { data: events = [], isLoading, error } = usePodEvents(pod.id);
+  const warningCount = events.filter((event) => event.type === 'Warning').length;
+
+  return (
+    <div className="h-full flex flex-col bg-card">
+      <div className="px-4 py-3 border-b border-border flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ListTree className="w-4 h-4 text-primary" />
+          <span className="font-medium text-sm">Events: {pod.name}</span>
+        </div>
+        {warningCount > 0 && (
+          <span className="text-xs text-[hsl(var(--status-warning))]">{warningCount} warnings</span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex-1 flex items-center justify-center text-muted-foreground">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </div>
+      ) : error ? (
+        <div className="flex-1 flex items-center justify-center text-destructive text-sm p-4 text-center">
+          Failed to load events: {error.message}
+        </div>
+      ) : events.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-muted-foreground text-sm p-4 text-center">
+          No Kubernetes events recorded for this pod.
+        </div>
+      ) : (
+        <div className="flex-1 min-h-0 overflow-y-auto p-3">
+          <ol className="relative border-l border-border ml-2 space-y-3">
+            {events.map((event) => {
+              const isWarning = event.type === 'Warning';
+              const EventIcon = isWarning ? AlertTriangle : Info;
+              return (
+                <li key={event.id} className="ml-4">
+                  <span
+                    className={cn(
+                      'absolute -left-2 flex items-center justify-center w-4 h-4 rounded-full bg-card',
+                      isWarning ? 'text-[hsl(var(--status-warning))]' : 'text-muted-foreground'
+                    )}
+                  >
+                    <EventIcon className="w-3.5 h-3.5" />
+                  </span>
+                  <div className="flex items-center gap-2 text-xs">
+                    <span
+                      className={cn(
+                        'font-medium',
+                        isWarning && 'text-[hsl(var(--status-warning))]'
+                      )}
+                    >
+                      {event.reason || event.type}
+                    </span>
+                    {event.count > 1 && (
+                      <span className="text-muted-foreground">×{event.count}</span>
+                    )}
+                    <span
+                      className="text-muted-foreground ml-auto"
+                      title={format(new Date(event.lastTimestamp), 'PPpp')}
+                    >
+                      {formatDistanceToNow(new Date(event.lastTimestamp), { addSuffix: true })}
+                    </span>
+                  </div>
+                  {event.message && (
+                    <p className="text-xs text-muted-foreground mt-0.5 break-words">{event.message}</p>
+                  )}
+                  {event.source && (
+                    <p className="text-[10px] text-muted-foreground/70 mt-0.5">from {event.source}</p>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
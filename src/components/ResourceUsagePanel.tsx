@@ -1,7 +1,10 @@
-import { Container } from '@/types/kubernetes';
-import { useContainerResourceSamples } from '@/hooks/useKubernetesData';
+import { useState } from 'react';
+import { Container, ResourceResolution } from '@/types/kubernetes';
+import { useContainerResourceRange, useResourceRecommendations } from '@/hooks/useKubernetesData';
+import { cn } from '@/lib/utils';
+import { formatCpuQuantity, formatMemoryQuantity, RECOMMENDATION_FLAG_LABELS } from '@/lib/rightsizing';
 import { format } from 'date-fns';
-import { Activity, Cpu, HardDrive, Loader2 } from 'lucide-react';
+import { Activity, AlertTriangle, Cpu, HardDrive, Loader2, Scale } from 'lucide-react';
 import { Line, LineChart, CartesianGrid, XAxis, YAxis } from 'recharts';
 import {
   ChartContainer,
@@ -10,21 +13,52 @@ import {
   ChartTooltip,
   ChartTooltipContent,
 } from '@/components/ui/chart';
+import { ResourcesSnippet } from './ResourcesSnippet';
 
 interface ResourceUsagePanelProps {
   container: Container;
 }
 
+type RangePreset = '1h' | '6h' | '24h' | '7d';
+
+// Each range is read at the resolution that keeps it to a few hundred points
+const RANGES: Record<RangePreset, { hours: number; resolution: ResourceResolution; timeFormat: string }> = {
+  '1h': { hours: 1, resolution: 'raw', timeFormat: 'HH:mm:ss' },
+  '6h': { hours: 6, resolution: '1m', timeFormat: 'HH:mm' },
+  '24h': { hours: 24, resolution: '5m', timeFormat: 'HH:mm' },
+  '7d': { hours: 7 * 24, resolution: '1h', timeFormat: 'MMM d HH:mm' },
+};
+
+const RESOLUTION_LABELS: Record<ResourceResolution, string> = {
+  raw: '30s samples',
+  '1m': '1m averages',
+  '5m': '5m averages',
+  '1h': '1h averages',
+};
+
 const bytesToMiB = (value: number) => Math.round((value / (1024 * 1024)) * 100) / 100;
 
+const formatSetting = (value: number | null, format: (value: number) => string) =>
+  value === null ? 'none' : format(value);
+
 export const ResourceUsagePanel = ({ container }: ResourceUsagePanelProps) => {
-  const { data: samples = [], isLoading, error } = useContainerResourceSamples(container.id);
+  const [rangePreset, setRangePreset] = useState<RangePreset>('1h');
+  const range = RANGES[rangePreset];
+  const { data, isLoading, error } = useContainerResourceRange(container.id, range.hours, range.resolution);
+  // Sized from the usage of every pod of the deployment with a container of this name
+  const { data: recommendations } = useResourceRecommendations({ containerId: container.id });
+  const recommendation = recommendations?.containers.find((item) => item.name === container.name) ?? null;
+  const samples = data?.samples ?? [];
+  // Rollup buckets also carry the p95 within each bucket
+  const isRollup = !!data && data.resolution !== 'raw';
 
   const chartData = samples.map((sample) => ({
-    time: format(new Date(sample.sampledAt), 'HH:mm:ss'),
+    time: format(new Date(sample.sampledAt), range.timeFormat),
     sampledAt: sample.sampledAt,
     cpu: sample.cpuMillicores,
+    cpuP95: sample.cpuP95Millicores,
     memoryMiB: bytesToMiB(sample.memoryBytes),
+    memoryP95MiB: sample.memoryP95Bytes !== null ? bytesToMiB(sample.memoryP95Bytes) : null,
   }));
 
   const latest = samples[samples.length - 1];
@@ -44,7 +78,23 @@ export const ResourceUsagePanel = ({ container }: ResourceUsagePanelProps) => {
           <Activity className="w-4 h-4 text-primary" />
           <span className="font-medium text-sm">Resource Usage: {container.name}</span>
         </div>
-        <span className="text-xs text-muted-foreground">30s samples</span>
+        <div className="flex items-center gap-1.5 text-[11px]">
+          <span className="text-muted-foreground mr-1">{RESOLUTION_LABELS[data?.resolution ?? range.resolution]}</span>
+          {(Object.keys(RANGES) as RangePreset[]).map((preset) => (
+            <button
+              key={preset}
+              onClick={() => setRangePreset(preset)}
+              className={cn(
+                'px-1.5 py-0.5 rounded border',
+                rangePreset === preset
+                  ? 'border-primary bg-primary/15 text-primary'
+                  : 'border-border text-muted-foreground'
+              )}
+            >
+              {preset}
+            </button>
+          ))}
+        </div>
       </div>
 
       {isLoading ? (
@@ -57,7 +107,7 @@ export const ResourceUsagePanel = ({ container }: ResourceUsagePanelProps) => {
         </div>
       ) : samples.length === 0 ? (
         <div className="flex-1 flex items-center justify-center text-muted-foreground text-sm p-4 text-center">
-          No resource samples yet. Wait for the 30s collector to record data.
+          No resource samples in the last {rangePreset}. Wait for the 30s collector to record data.
         </div>
       ) : (
         <div className="flex-1 min-h-0 p-3 space-y-3 overflow-y-auto">
@@ -84,7 +134,8 @@ export const ResourceUsagePanel = ({ container }: ResourceUsagePanelProps) => {
             <div className="text-xs text-muted-foreground px-2 pb-1">CPU (millicores)</div>
             <ChartContainer
               config={{
-                cpu: { label: 'CPU', color: 'hsl(var(--status-warning))' },
+                cpu: { label: isRollup ? 'CPU avg' : 'CPU', color: 'hsl(var(--status-warning))' },
+                cpuP95: { label: 'CPU p95', color: 'hsl(var(--status-error))' },
               }}
               className="h-44 w-full"
             >
@@ -101,6 +152,16 @@ export const ResourceUsagePanel = ({ container }: ResourceUsagePanelProps) => {
                   strokeWidth={2}
                   dot={false}
                 />
+                {isRollup && (
+                  <Line
+                    type="monotone"
+                    dataKey="cpuP95"
+                    stroke="var(--color-cpuP95)"
+                    strokeWidth={1.5}
+                    strokeDasharray="4 4"
+                    dot={false}
+                  />
+                )}
               </LineChart>
             </ChartContainer>
           </div>
@@ -109,7 +170,8 @@ export const ResourceUsagePanel = ({ container }: ResourceUsagePanelProps) => {
             <div className="text-xs text-muted-foreground px-2 pb-1">Memory (MiB)</div>
             <ChartContainer
               config={{
-                memoryMiB: { label: 'Memory', color: 'hsl(var(--status-ready))' },
+                memoryMiB: { label: isRollup ? 'Memory avg' : 'Memory', color: 'hsl(var(--status-ready))' },
+                memoryP95MiB: { label: 'Memory p95', color: 'hsl(var(--status-pending))' },
               }}
               className="h-44 w-full"
             >
@@ -126,9 +188,70 @@ export const ResourceUsagePanel = ({ container }: ResourceUsagePanelProps) => {
                   strokeWidth={2}
                   dot={false}
                 />
+                {isRollup && (
+                  <Line
+                    type="monotone"
+                    dataKey="memoryP95MiB"
+                    stroke="var(--color-memoryP95MiB)"
+                    strokeWidth={1.5}
+                    strokeDasharray="4 4"
+                    dot={false}
+                  />
+                )}
               </LineChart>
             </ChartContainer>
           </div>
+
+          {recommendation && (
+            <div className="rounded-xl border border-border p-3 space-y-2 text-xs">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-1.5 font-medium">
+                  <Scale className="w-3.5 h-3.5 text-primary" />
+                  Requests & limits
+                </div>
+                <span className="text-[11px] text-muted-foreground">
+                  from p95/p99 over {recommendations?.days}d of {recommendations?.deployment}
+                </span>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {(
+                  [
+                    ['CPU request', 'cpuRequestMillicores', formatCpuQuantity],
+                    ['CPU limit', 'cpuLimitMillicores', formatCpuQuantity],
+                    ['Memory request', 'memoryRequestBytes', formatMemoryQuantity],
+                    ['Memory limit', 'memoryLimitBytes', formatMemoryQuantity],
+                  ] as const
+                ).map(([label, key, formatter]) => (
+                  <div key={key} className="rounded-lg border border-border p-2">
+                    <div className="text-muted-foreground">{label}</div>
+                    <div className="font-semibold">
+                      {formatSetting(recommendation.current[key], formatter)}
+                      {recommendation.suggested && (
+                        <span className="text-primary"> → {formatSetting(recommendation.suggested[key], formatter)}</span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {recommendation.flags.length > 0 && (
+                <div className="flex flex-wrap gap-x-3 gap-y-1 text-[hsl(var(--status-warning))]">
+                  {recommendation.flags.map((flag) => (
+                    <span key={flag} className="flex items-center gap-1">
+                      <AlertTriangle className="w-3 h-3" />
+                      {RECOMMENDATION_FLAG_LABELS[flag]}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {recommendation.suggested ? (
+                <ResourcesSnippet settings={recommendation.suggested} />
+              ) : (
+                <div className="text-muted-foreground">
+                  Suggestions need {recommendations?.minSamples} samples; {recommendation.sampleCount} collected so far.
+                </div>
+              )}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,41 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Check, Copy } from 'lucide-react';
+import { ResourceSettings } from '@/types/kubernetes';
+import { resourcesYaml } from '@/lib/rightsizing';
+import { cn } from '@/lib/utils';
+
+interface ResourcesSnippetProps {
+  settings: ResourceSettings;
+  className?: string;
+}
+
+// Copyable `resources:` YAML for a container spec
+export const ResourcesSnippet = ({ settings, className }: ResourcesSnippetProps) => {
+  const [copied, setCopied] = useState(false);
+  const yaml = resourcesYaml(settings);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(yaml);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast.error('Could not copy to the clipboard');
+    }
+  };
+
+  return (
+    <div className={cn('relative rounded-lg border border-border bg-secondary/30', className)}>
+      <pre className="px-3 py-2 text-[12px] font-mono leading-relaxed overflow-x-auto">{yaml}</pre>
+      <button
+        onClick={copy}
+        className="absolute top-1.5 right-1.5 flex items-center gap-1 text-[11px] px-1.5 py-0.5 rounded border border-border bg-card text-muted-foreground hover:text-foreground"
+        title="Copy resources YAML"
+      >
+        {copied ? <Check className="w-3 h-3 text-[hsl(var(--status-ready))]" /> : <Copy className="w-3 h-3" />}
+        {copied ? 'Copied' : 'Copy'}
+      </button>
+    </div>
+  );
+};
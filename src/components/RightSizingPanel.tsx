@@ -0,0 +1,225 @@
+import { useState } from 'react';
+import { ContainerRecommendation, DeploymentGroup, ResourceRecommendations } from '@/types/kubernetes';
+import { useResourceRecommendations } from '@/hooks/useKubernetesData';
+import { formatDistanceStrict, formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, ArrowRight, Scale } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatCpuQuantity, formatMemoryQuantity, RECOMMENDATION_FLAG_LABELS } from '@/lib/rightsizing';
+import { ResourcesSnippet } from './ResourcesSnippet';
+import { WorkloadKindBadge } from './WorkloadKindBadge';
+
+interface RightSizingPanelProps {
+  deployment: DeploymentGroup | null;
+}
+
+const SETTINGS: {
+  key: 'cpuRequestMillicores' | 'cpuLimitMillicores' | 'memoryRequestBytes' | 'memoryLimitBytes';
+  label: string;
+  format: (value: number) => string;
+}[] = [
+  { key: 'cpuRequestMillicores', label: 'CPU request', format: formatCpuQuantity },
+  { key: 'cpuLimitMillicores', label: 'CPU limit', format: formatCpuQuantity },
+  { key: 'memoryRequestBytes', label: 'Memory request', format: formatMemoryQuantity },
+  { key: 'memoryLimitBytes', label: 'Memory limit', format: formatMemoryQuantity },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const formatCores = (millicores: number) =>
+  millicores >= 1000 ? `${(millicores / 1000).toFixed(2)} cores` : formatCpuQuantity(millicores);
+
+// Raw samples are only kept for SAMPLE_RETENTION_DAYS, so the requested days may not all be covered
+const coveredWindow = (recommendations: ResourceRecommendations) => {
+  const requested = `the last ${recommendations.days}d`;
+  const firstSampled = recommendations.containers.flatMap((container) =>
+    container.firstSampledAt ? [new Date(container.firstSampledAt).getTime()] : []
+  );
+  if (firstSampled.length === 0) return requested;
+  const computedAt = new Date(recommendations.computedAt).getTime();
+  const since = Math.min(...firstSampled);
+  // The oldest sample is rarely exactly `days` old
+  if (computedAt - since >= recommendations.days * DAY_MS - HOUR_MS) return requested;
+  return `the last ${formatDistanceStrict(since, computedAt)} of samples (${recommendations.days}d requested)`;
+};
+
+const SettingCell = ({
+  container,
+  setting,
+}: {
+  container: ContainerRecommendation;
+  setting: (typeof SETTINGS)[number];
+}) => {
+  const current = container.current[setting.key];
+  const suggested = container.suggested?.[setting.key] ?? null;
+  return (
+    <td className="px-3 py-2 whitespace-nowrap">
+      <span className={cn(current === null && 'text-[hsl(var(--status-warning))]')}>
+        {current === null ? 'none' : setting.format(current)}
+      </span>
+      {suggested !== null && suggested !== current && (
+        <>
+          <ArrowRight className="inline w-3 h-3 mx-1 text-muted-foreground" />
+          <span className="font-semibold">{setting.format(suggested)}</span>
+        </>
+      )}
+    </td>
+  );
+};
+
+export const RightSizingPanel = ({ deployment }: RightSizingPanelProps) => {
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const {
+    data: recommendations,
+    isLoading,
+    isError,
+  } = useResourceRecommendations(
+    deployment ? { cluster: deployment.cluster, namespace: deployment.namespace, deployment: deployment.name } : null
+  );
+
+  if (!deployment) {
+    return (
+      <div className="rounded-xl border border-border bg-card p-4 text-sm text-muted-foreground">
+        Select a deployment to view right-sizing recommendations.
+      </div>
+    );
+  }
+
+  const containers = recommendations?.containers ?? [];
+  const selected =
+    containers.find((container) => container.name === selectedName) ??
+    containers.find((container) => container.suggested !== null) ??
+    null;
+  const flaggedCount = containers.filter((container) => container.flags.length > 0).length;
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold flex items-center gap-1.5">
+          <Scale className="w-4 h-4 text-primary" />
+          {deployment.name}
+          <WorkloadKindBadge kind={deployment.kind} />
+        </h2>
+        {recommendations && (
+          <span className="text-[11px] text-muted-foreground">
+            p95/p99 over {coveredWindow(recommendations)} · computed{' '}
+            {formatDistanceToNow(new Date(recommendations.computedAt), { addSuffix: true })}
+          </span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="text-xs text-muted-foreground">Loading recommendations...</div>
+      ) : isError ? (
+        <div className="text-xs text-[hsl(var(--status-error))] flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4" />
+          Failed to load recommendations.
+        </div>
+      ) : !recommendations ? (
+        <div className="text-xs text-muted-foreground">The deployment has no running pods.</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-2 text-xs">
+            <div className="rounded-lg border border-border p-2">
+              <div className="text-muted-foreground">Reclaimable CPU requests</div>
+              <div className="font-semibold">{formatCores(recommendations.reclaimableCpuMillicores)}</div>
+            </div>
+            <div className="rounded-lg border border-border p-2">
+              <div className="text-muted-foreground">Reclaimable memory requests</div>
+              <div className="font-semibold">{formatMemoryQuantity(recommendations.reclaimableMemoryBytes)}</div>
+            </div>
+            <div className="rounded-lg border border-border p-2">
+              <div className="text-muted-foreground">Flagged containers</div>
+              <div className={cn('font-semibold', flaggedCount > 0 && 'text-[hsl(var(--status-warning))]')}>
+                {flaggedCount} of {containers.length}
+              </div>
+            </div>
+          </div>
+
+          <div className="rounded-lg border border-border overflow-auto">
+            <table className="w-full text-[13px]">
+              <thead className="bg-secondary/40">
+                <tr className="text-left text-[11px] text-muted-foreground">
+                  <th className="px-3 py-2">Container</th>
+                  <th className="px-3 py-2">CPU p95 / p99</th>
+                  <th className="px-3 py-2">RAM p95 / p99</th>
+                  {SETTINGS.map((setting) => (
+                    <th key={setting.key} className="px-3 py-2">
+                      {setting.label}
+                    </th>
+                  ))}
+                  <th className="px-3 py-2">Reclaimable</th>
+                  <th className="px-3 py-2">Flags</th>
+                </tr>
+              </thead>
+              <tbody>
+                {containers.map((container) => (
+                  <tr
+                    key={container.name}
+                    onClick={() => setSelectedName(container.name)}
+                    className={cn(
+                      'border-t border-border/70 cursor-pointer hover:bg-accent/30',
+                      container === selected && 'bg-accent/50'
+                    )}
+                  >
+                    <td className="px-3 py-2 align-top">
+                      <div className="font-medium">{container.name}</div>
+                      <div className="text-[11px] text-muted-foreground">
+                        {container.replicas} replica{container.replicas !== 1 ? 's' : ''} ·{' '}
+                        {container.sampleCount.toLocaleString()} samples
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-muted-foreground">
+                      {container.usage
+                        ? `${formatCpuQuantity(container.usage.cpuP95Millicores)} / ${formatCpuQuantity(container.usage.cpuP99Millicores)}`
+                        : 'n/a'}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-muted-foreground">
+                      {container.usage
+                        ? `${formatMemoryQuantity(container.usage.memoryP95Bytes)} / ${formatMemoryQuantity(container.usage.memoryP99Bytes)}`
+                        : 'n/a'}
+                    </td>
+                    {SETTINGS.map((setting) => (
+                      <SettingCell key={setting.key} container={container} setting={setting} />
+                    ))}
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      {container.reclaimableCpuMillicores > 0 || container.reclaimableMemoryBytes > 0 ? (
+                        <span className="text-[hsl(var(--status-ready))]">
+                          {formatCpuQuantity(container.reclaimableCpuMillicores)} ·{' '}
+                          {formatMemoryQuantity(container.reclaimableMemoryBytes)}
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      {container.suggested === null && (
+                        <div className="text-[11px] text-muted-foreground">
+                          Needs {recommendations.minSamples} samples
+                        </div>
+                      )}
+                      {container.flags.map((flag) => (
+                        <div key={flag} className="text-[11px] text-[hsl(var(--status-warning))] whitespace-nowrap">
+                          {RECOMMENDATION_FLAG_LABELS[flag]}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {selected?.suggested && (
+            <div>
+              <div className="text-[11px] text-muted-foreground mb-1">
+                Suggested resources for <span className="font-mono text-foreground">{selected.name}</span>
+              </div>
+              <ResourcesSnippet settings={selected.suggested} className="md:w-[340px]" />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import { useMemo, useState } from 'react';
+import { VersionGroup } from '@/types/kubernetes';
+import { cn } from '@/lib/utils';
+import { buildRolloutSeries, detectRollouts, Rollout, rolloutPodIds } from '@/lib/rollouts';
+import { usePodStatusHistory } from '@/hooks/useKubernetesData';
+import { format, formatDistanceStrict } from 'date-fns';
+import { AlertTriangle, ArrowRight, CheckCircle, Loader2 } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+
+// Newest version first
+const VERSION_COLORS = [
+  'hsl(var(--primary))',
+  'hsl(var(--status-unknown))',
+  'hsl(var(--status-terminated))',
+  'hsl(var(--status-pending))',
+  'hsl(var(--status-oom))',
+];
+
+// Context shown around the rollout on the chart
+const MIN_PADDING_MS = 5 * 60 * 1000;
+
+const formatDuration = (from: number, to: number) => formatDistanceStrict(new Date(from), new Date(to));
+
+const rolloutSummary = (rollout: Rollout, now: number) => {
+  if (rollout.state === 'complete' && rollout.completedAt !== null) {
+    return `took ${formatDuration(rollout.startedAt, rollout.completedAt)}`;
+  }
+  if (rollout.state === 'superseded') return 'superseded before it completed';
+  return `in progress for ${formatDuration(rollout.startedAt, now)}`;
+};
+
+const surgeIssues = (rollout: Rollout) =>
+  [
+    rollout.restarts > 0 && `${rollout.restarts} restart${rollout.restarts !== 1 ? 's' : ''}`,
+    rollout.failedPods.length > 0 &&
+      `${rollout.failedPods.length} failed pod${rollout.failedPods.length !== 1 ? 's' : ''}`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+interface RolloutProgressProps {
+  versionGroups: VersionGroup[];
+  // Desired replicas of the workload, when the collector synced it; otherwise inferred per rollout
+  desiredReplicas?: number | null;
+}
+
+/**
+ * Live pods per version around a rollout, from pod created/deleted timestamps. The new version's
+ * full availability is marked on the chart, and rollouts whose new pods restarted or failed during the
+ * surge window (per their recorded status history) are flagged.
+ */
+export const RolloutProgress = ({ versionGroups, desiredReplicas = null }: RolloutProgressProps) => {
+  // "Now" moves with each refetch, so in-progress rollouts and the chart's right edge stay current
+  const podIds = useMemo(() => rolloutPodIds(versionGroups), [versionGroups]);
+  const { data: statusHistory } = usePodStatusHistory(podIds);
+  const { rollouts, now } = useMemo(() => {
+    const refreshedAt = Date.now();
+    return {
+      rollouts: detectRollouts(versionGroups, desiredReplicas, refreshedAt, statusHistory).reverse(),
+      now: refreshedAt,
+    };
+  }, [versionGroups, desiredReplicas, statusHistory]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const rollout = rollouts[Math.min(selectedIndex, rollouts.length - 1)];
+
+  const series = useMemo(() => {
+    if (!rollout) return null;
+    const end = rollout.completedAt ?? rollout.windowEnd;
+    const padding = Math.max(MIN_PADDING_MS, (end - rollout.startedAt) * 0.2);
+    return buildRolloutSeries(versionGroups, rollout.startedAt - padding, Math.min(now, end + padding));
+  }, [versionGroups, rollout, now]);
+
+  if (!rollout || !series) return null;
+
+  const versionKeys = Object.keys(series.versionKeys);
+  const chartConfig = Object.fromEntries(
+    versionKeys.map((key, index) => [
+      key,
+      {
+        label: series.versionKeys[key],
+        color: VERSION_COLORS[Math.min(versionKeys.length - 1 - index, VERSION_COLORS.length - 1)],
+      },
+    ])
+  );
+  const issues = surgeIssues(rollout);
+
+  return (
+    <div className="rounded-lg border border-border p-3 mb-3 space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="font-mono truncate">{rollout.fromVersion}</span>
+        <ArrowRight className="w-4 h-4 shrink-0 text-muted-foreground" />
+        <span className="font-mono font-semibold truncate">{rollout.toVersion}</span>
+        <span
+          className={cn(
+            'ml-auto flex items-center gap-1 text-xs shrink-0',
+            rollout.state === 'complete' ? 'text-[hsl(var(--status-ready))]' : 'text-muted-foreground'
+          )}
+        >
+          {rollout.state === 'complete' ? (
+            <CheckCircle className="w-3.5 h-3.5" />
+          ) : rollout.state === 'in_progress' ? (
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          ) : null}
+          {rolloutSummary(rollout, now)}
+        </span>
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        Started {format(new Date(rollout.startedAt), 'MMM d, HH:mm:ss')} · target {rollout.targetReplicas} pod
+        {rollout.targetReplicas !== 1 ? 's' : ''}
+        {rollout.availableAt !== null && (
+          <> · fully available after {formatDuration(rollout.startedAt, rollout.availableAt)}</>
+        )}
+        {rollout.drainedAt !== null && rollout.drainedAt > rollout.startedAt && (
+          <> · old pods gone after {formatDuration(rollout.startedAt, rollout.drainedAt)}</>
+        )}
+      </div>
+
+      {rollout.flagged && (
+        <div
+          className="flex items-center gap-1.5 text-xs text-[hsl(var(--status-error))]"
+          title={rollout.failedPods.map((pod) => pod.name).join('\n')}
+        >
+          <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+          New pods had {issues} during the rollout
+        </div>
+      )}
+
+      <ChartContainer config={chartConfig} className="h-44 w-full">
+        <LineChart data={series.points} margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={(time: number) => format(new Date(time), 'HH:mm')}
+            tickLine={false}
+            axisLine={false}
+            minTickGap={24}
+          />
+          <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={28} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) =>
+                  payload?.[0] ? format(new Date(payload[0].payload.time), 'MMM d, HH:mm:ss') : ''
+                }
+              />
+            }
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          {rollout.availableAt !== null && (
+            <ReferenceLine
+              x={rollout.availableAt}
+              stroke="hsl(var(--status-ready))"
+              strokeDasharray="4 4"
+              label={{ value: 'available', position: 'insideTopRight', fontSize: 10 }}
+            />
+          )}
+          {versionKeys.map((key) => (
+            <Line
+              key={key}
+              type="stepAfter"
+              dataKey={key}
+              stroke={`var(--color-${key})`}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ChartContainer>
+
+      {rollouts.length > 1 && (
+        <div className="flex flex-wrap gap-1.5">
+          {rollouts.map((item, index) => (
+            <button
+              key={`${item.fromVersion}->${item.toVersion}`}
+              onClick={() => setSelectedIndex(index)}
+              className={cn(
+                'flex items-center gap-1 text-[11px] px-2 py-0.5 rounded-full border border-border hover:bg-accent/50',
+                item === rollout && 'bg-accent border-primary/30',
+                item.flagged && 'text-[hsl(var(--status-error))]'
+              )}
+              title={rolloutSummary(item, now)}
+            >
+              {item.flagged && <AlertTriangle className="w-3 h-3" />}
+              <span className="font-mono">{item.toVersion}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
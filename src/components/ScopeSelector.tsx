@@ -0,0 +1,78 @@
+import { useMemo } from 'react';
+import { PodScope } from '@/types/kubernetes';
+import { useNamespaces } from '@/hooks/useKubernetesData';
+import { Server, FolderTree } from 'lucide-react';
+
+interface ScopeSelectorProps {
+  scope: PodScope;
+  onChange: (scope: PodScope) => void;
+}
+
+const ALL = '__all__';
+
+export const ScopeSelector = ({ scope, onChange }: ScopeSelectorProps) => {
+  const { data: namespaces = [] } = useNamespaces();
+
+  const clusters = useMemo(
+    () => [...new Set(namespaces.map((item) => item.cluster))].sort(),
+    [namespaces]
+  );
+
+  const namespaceOptions = useMemo(() => {
+    const scoped = scope.cluster
+      ? namespaces.filter((item) => item.cluster === scope.cluster)
+      : namespaces;
+    const counts = new Map<string, number>();
+    for (const item of scoped) {
+      counts.set(item.namespace, (counts.get(item.namespace) ?? 0) + item.podCount);
+    }
+    return [...counts.entries()].sort((a, b) => a[0].localeCompare(b[0]));
+  }, [namespaces, scope.cluster]);
+
+  const handleClusterChange = (value: string) => {
+    const cluster = value === ALL ? null : value;
+    const namespaceStillValid =
+      !scope.namespace ||
+      namespaces.some(
+        (item) => item.namespace === scope.namespace && (!cluster || item.cluster === cluster)
+      );
+    onChange({ cluster, namespace: namespaceStillValid ? scope.namespace : null });
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <label className="flex items-center gap-1.5 text-muted-foreground">
+        <Server className="w-3.5 h-3.5" />
+        <select
+          value={scope.cluster ?? ALL}
+          onChange={(e) => handleClusterChange(e.target.value)}
+          className="bg-background border border-border rounded px-2 py-1 text-[12px] text-foreground"
+        >
+          <option value={ALL}>All clusters</option>
+          {clusters.map((cluster) => (
+            <option key={cluster} value={cluster}>
+              {cluster}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-1.5 text-muted-foreground">
+        <FolderTree className="w-3.5 h-3.5" />
+        <select
+          value={scope.namespace ?? ALL}
+          onChange={(e) =>
+            onChange({ cluster: scope.cluster, namespace: e.target.value === ALL ? null : e.target.value })
+          }
+          className="bg-background border border-border rounded px-2 py-1 text-[12px] text-foreground"
+        >
+          <option value={ALL}>All namespaces</option>
+          {namespaceOptions.map(([namespace, podCount]) => (
+            <option key={namespace} value={namespace}>
+              {namespace} ({podCount})
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { LogOut, UserRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useSession } from '@/hooks/useKubernetesData';
+import { clearApiToken, getApiToken } from '@/lib/auth';
+
+// Signed-in token name and role; hidden when the API runs without tokens and none is stored.
+export const SessionMenu = () => {
+  const queryClient = useQueryClient();
+  const { data: session } = useSession();
+
+  if (!session || !getApiToken()) return null;
+
+  const signOut = async () => {
+    clearApiToken();
+    await queryClient.resetQueries();
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <UserRound className="w-4 h-4 mr-2" />
+          {session.name}
+          <span className="ml-1.5 text-[11px] text-muted-foreground">{session.role}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+          {session.namespaces ? `Namespaces: ${session.namespaces.join(', ')}` : 'All namespaces'}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={signOut}>
+          <LogOut className="w-4 h-4 mr-2" />
+          Sign out
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
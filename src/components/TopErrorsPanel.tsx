@@ -0,0 +1,164 @@
+import { useMemo } from 'react';
+import { DeploymentGroup, ErrorFingerprint } from '@/types/kubernetes';
+import { useTopErrors } from '@/hooks/useKubernetesData';
+import { groupPodsByVersion } from '@/lib/podHealth';
+import { cn } from '@/lib/utils';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Bug, Loader2, Sparkles } from 'lucide-react';
+
+interface TopErrorsPanelProps {
+  deployment: DeploymentGroup;
+}
+
+const TOP_ERRORS_SHOWN = 10;
+const LEVEL_RANK: Record<ErrorFingerprint['level'], number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  fatal: 4,
+};
+
+interface FingerprintSummary {
+  fingerprint: string;
+  pattern: string;
+  sampleMessage: string;
+  level: ErrorFingerprint['level'];
+  latestOccurrences: number;
+  totalOccurrences: number;
+  lastSeen: string;
+  // Oldest version (by rollout order) this error was seen in
+  sinceVersion: string;
+  isNew: boolean;
+}
+
+// Folds per-version rows into one entry per fingerprint. `versions` is newest-first.
+const summarizeFingerprints = (
+  fingerprints: ErrorFingerprint[],
+  versions: string[]
+): FingerprintSummary[] => {
+  const latestVersion = versions[0];
+  const versionOrder = new Map(versions.map((version, index) => [version, index]));
+  const byFingerprint = new Map<string, ErrorFingerprint[]>();
+  for (const row of fingerprints) {
+    const rows = byFingerprint.get(row.fingerprint) ?? [];
+    rows.push(row);
+    byFingerprint.set(row.fingerprint, rows);
+  }
+
+  const summaries: FingerprintSummary[] = [];
+  byFingerprint.forEach((rows, fingerprint) => {
+    const newest = rows.reduce((a, b) => (new Date(b.lastSeen) > new Date(a.lastSeen) ? b : a));
+    const seenVersions = rows.map((row) => row.version);
+    const sinceVersion = seenVersions.reduce((oldest, version) =>
+      (versionOrder.get(version) ?? -1) > (versionOrder.get(oldest) ?? -1) ? version : oldest
+    );
+    summaries.push({
+      fingerprint,
+      pattern: newest.pattern,
+      sampleMessage: newest.sampleMessage,
+      level: rows.reduce((max, row) => (LEVEL_RANK[row.level] > LEVEL_RANK[max] ? row.level : max), rows[0].level),
+      latestOccurrences: rows
+        .filter((row) => row.version === latestVersion)
+        .reduce((sum, row) => sum + row.occurrences, 0),
+      totalOccurrences: rows.reduce((sum, row) => sum + row.occurrences, 0),
+      lastSeen: newest.lastSeen,
+      sinceVersion,
+      // Only meaningful when there is an older version to compare against
+      isNew: versions.length > 1 && seenVersions.every((version) => version === latestVersion),
+    });
+  });
+
+  return summaries.sort(
+    (a, b) =>
+      Number(b.isNew) - Number(a.isNew) ||
+      b.latestOccurrences - a.latestOccurrences ||
+      b.totalOccurrences - a.totalOccurrences
+  );
+};
+
+export const TopErrorsPanel = ({ deployment }: TopErrorsPanelProps) => {
+  // Deleted pods are included so errors of earlier versions still count as "seen before"
+  const allPods = useMemo(
+    () => [...deployment.pods, ...deployment.historicalPods],
+    [deployment.pods, deployment.historicalPods]
+  );
+  const podIds = useMemo(() => allPods.map((pod) => pod.id), [allPods]);
+  const { data: fingerprints = [], isLoading, error } = useTopErrors(podIds);
+  const versions = useMemo(() => groupPodsByVersion(allPods).map((group) => group.version), [allPods]);
+  const summaries = useMemo(() => summarizeFingerprints(fingerprints, versions), [fingerprints, versions]);
+  const latestVersion = versions[0] ?? 'unknown';
+  const newCount = summaries.filter((summary) => summary.isNew).length;
+
+  return (
+    <section className="bg-card rounded-xl border border-border p-3">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-semibold flex items-center gap-2">
+          <Bug className="w-4 h-4 text-primary" />
+          Top errors
+        </h2>
+        {newCount > 0 && (
+          <span className="text-[11px] text-[hsl(var(--status-error))]">
+            {newCount} new in {latestVersion}
+          </span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6 text-muted-foreground">
+          <Loader2 className="w-5 h-5 animate-spin" />
+        </div>
+      ) : error ? (
+        <div className="text-sm text-destructive">Failed to load errors: {error.message}</div>
+      ) : summaries.length === 0 ? (
+        <div className="text-sm text-muted-foreground">No errors recorded for this deployment.</div>
+      ) : (
+        <ul className="space-y-2">
+          {summaries.slice(0, TOP_ERRORS_SHOWN).map((summary) => (
+            <li
+              key={summary.fingerprint}
+              className={cn(
+                'p-2 rounded-lg border text-xs',
+                summary.isNew
+                  ? 'border-[hsl(var(--status-error)/0.45)] bg-[hsl(var(--status-error)/0.08)]'
+                  : 'border-border'
+              )}
+            >
+              <div className="flex items-center gap-2">
+                {summary.isNew ? (
+                  <span className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-[hsl(var(--status-error)/0.15)] text-[hsl(var(--status-error))] text-[10px] font-medium">
+                    <Sparkles className="w-3 h-3" />
+                    New in {latestVersion}
+                  </span>
+                ) : (
+                  <span className="px-1.5 py-0.5 rounded bg-secondary text-muted-foreground text-[10px]">
+                    since {summary.sinceVersion}
+                  </span>
+                )}
+                <span
+                  className={cn(
+                    'text-[10px] uppercase',
+                    LEVEL_RANK[summary.level] >= LEVEL_RANK.error
+                      ? 'text-[hsl(var(--status-error))]'
+                      : 'text-muted-foreground'
+                  )}
+                >
+                  {summary.level}
+                </span>
+                <span className="ml-auto font-medium" title={`${summary.totalOccurrences} across all versions`}>
+                  ×{summary.latestOccurrences || summary.totalOccurrences}
+                </span>
+              </div>
+              <p className="mt-1 font-mono break-words line-clamp-2" title={summary.sampleMessage}>
+                {summary.pattern}
+              </p>
+              <p className="mt-0.5 text-[10px] text-muted-foreground" title={format(new Date(summary.lastSeen), 'PPpp')}>
+                last seen {formatDistanceToNow(new Date(summary.lastSeen), { addSuffix: true })}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
@@ -1,10 +1,10 @@
-import { useMemo, useState } from 'react';
-import { DeploymentGroup, ResourceSample } from '@/types/kubernetes';
-import { fetchContainerResourceSamples } from '@/lib/database';
-import { useQueries } from '@tanstack/react-query';
+import { Fragment, useMemo, useState } from 'react';
+import { DeploymentGroup, ImpactStatus } from '@/types/kubernetes';
+import { useVersionImpact } from '@/hooks/useKubernetesData';
 import { formatDistanceToNow } from 'date-fns';
 import { AlertTriangle, ArrowDown, ArrowUp, Gauge, Minus } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { formatDimensionDelta, IMPACT_DIMENSIONS } from '@/lib/impact';
 import { Line, LineChart, CartesianGrid, XAxis, YAxis } from 'recharts';
 import {
   ChartContainer,
@@ -13,6 +13,7 @@ import {
   ChartTooltip,
   ChartTooltipContent,
 } from '@/components/ui/chart';
+import { WorkloadKindBadge } from './WorkloadKindBadge';
 
 interface VersionImpactPanelProps {
   deployment: DeploymentGroup | null;
@@ -20,42 +21,14 @@ interface VersionImpactPanelProps {
 
 type WindowPreset = '5m' | '30m' | '24h';
 
-interface VersionSnapshot {
-  version: string;
-  createdAt: string;
-  containers: DeploymentGroup['pods'][number]['containers'];
-}
-
-interface SeriesPoint {
-  relMin: number;
-  cpu: number;
-  memoryBytes: number;
-}
-
-interface ResourceStats {
-  cpuP95: number;
-  memoryP95: number;
-}
-
-const WINDOW_MS: Record<WindowPreset, number> = {
-  '5m': 5 * 60 * 1000,
-  '30m': 30 * 60 * 1000,
-  '24h': 24 * 60 * 60 * 1000,
+const WINDOW_MINUTES: Record<WindowPreset, number> = {
+  '5m': 5,
+  '30m': 30,
+  '24h': 24 * 60,
 };
 
 const bytesToMiB = (value: number) => Math.round((value / (1024 * 1024)) * 100) / 100;
 
-const percentile = (values: number[], p: number): number => {
-  if (values.length === 0) return 0;
-  const sorted = [...values].sort((a, b) => a - b);
-  const rank = (p / 100) * (sorted.length - 1);
-  const low = Math.floor(rank);
-  const high = Math.ceil(rank);
-  if (low === high) return sorted[low];
-  const weight = rank - low;
-  return sorted[low] * (1 - weight) + sorted[high] * weight;
-};
-
 const deltaPercent = (current: number, baseline: number): number | null => {
   if (!Number.isFinite(current) || !Number.isFinite(baseline)) return null;
   if (baseline === 0) return current === 0 ? 0 : null;
@@ -70,6 +43,16 @@ const deltaClassName = (delta: number | null) => {
   return 'text-muted-foreground';
 };
 
+const formatValue = (value: number | null | undefined, format: (value: number) => string) =>
+  value === null || value === undefined ? 'n/a' : format(value);
+
+const VERDICT_STYLES: Record<ImpactStatus, string> = {
+  degraded: 'text-[hsl(var(--status-error))]',
+  improved: 'text-[hsl(var(--status-ready))]',
+  stable: 'text-muted-foreground',
+  unknown: 'text-muted-foreground',
+};
+
 const VerdictIcon = ({ delta }: { delta: number | null }) => {
   if (delta === null) return <Minus className="w-3.5 h-3.5 text-muted-foreground" />;
   if (delta <= -10) return <ArrowDown className="w-3.5 h-3.5 text-[hsl(var(--status-ready))]" />;
@@ -82,114 +65,31 @@ export const VersionImpactPanel = ({ deployment }: VersionImpactPanelProps) => {
   const [currentVersion, setCurrentVersion] = useState<string>('');
   const [baselineVersion, setBaselineVersion] = useState<string>('');
 
-  const versionSnapshots = useMemo<VersionSnapshot[]>(() => {
-    if (!deployment) return [];
-    const byVersion = new Map<string, VersionSnapshot>();
-    for (const pod of deployment.pods) {
-      const version = pod.version ?? 'unknown';
-      if (!byVersion.has(version)) {
-        byVersion.set(version, {
-          version,
-          createdAt: pod.createdAt,
-          containers: pod.containers,
-        });
-      }
-    }
-    return [...byVersion.values()]
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-      .slice(0, 10);
-  }, [deployment]);
-
-  const allContainerIds = useMemo(
-    () => [...new Set(versionSnapshots.flatMap((snapshot) => snapshot.containers.map((c) => c.id)))],
-    [versionSnapshots]
+  // p95s, deltas and trends are computed and persisted by the API, so the dashboard reads the same numbers
+  const {
+    data: impact,
+    isLoading: isLoadingImpact,
+    isError: hasImpactError,
+  } = useVersionImpact(
+    deployment
+      ? {
+          cluster: deployment.cluster,
+          namespace: deployment.namespace,
+          deployment: deployment.name,
+          version: currentVersion || null,
+          baselineVersion: baselineVersion || null,
+          windowMinutes: WINDOW_MINUTES[windowPreset],
+        }
+      : null
   );
 
-  const sampleQueries = useQueries({
-    queries: allContainerIds.map((containerId) => ({
-      queryKey: ['resource-samples', 'version-impact', containerId],
-      queryFn: async (): Promise<ResourceSample[]> => {
-        const samples = await fetchContainerResourceSamples(containerId);
-        return samples.map((sample) => ({
-          sampledAt: sample.sampled_at,
-          cpuMillicores: Number(sample.cpu_millicores ?? 0),
-          memoryBytes: Number(sample.memory_bytes ?? 0),
-        }));
-      },
-      staleTime: 15_000,
-      refetchInterval: 30_000,
-    })),
-  });
-
-  const samplesByContainerId = useMemo(() => {
-    const map = new Map<string, ResourceSample[]>();
-    allContainerIds.forEach((id, index) => {
-      map.set(id, sampleQueries[index]?.data ?? []);
-    });
-    return map;
-  }, [allContainerIds, sampleQueries]);
-
-  const isLoadingSamples = sampleQueries.some((q) => q.isLoading);
-  const hasSamplesError = sampleQueries.some((q) => q.isError);
-
-  const latestVersions = versionSnapshots.map((snapshot) => snapshot.version);
+  const versionImpactRows = impact?.versions ?? [];
+  const latestVersions = versionImpactRows.map((row) => row.version);
 
-  const selectedCurrent = currentVersion || latestVersions[0] || '';
-  const selectedBaseline = baselineVersion || latestVersions[1] || latestVersions[0] || '';
+  const selectedCurrent = impact?.version ?? currentVersion;
+  const selectedBaseline = impact?.baselineVersion ?? baselineVersion;
 
-  const currentSnapshot = versionSnapshots.find((v) => v.version === selectedCurrent) ?? null;
-  const baselineSnapshot = versionSnapshots.find((v) => v.version === selectedBaseline) ?? null;
-
-  const windowStartMs = Date.now() - WINDOW_MS[windowPreset];
-
-  const getContainerStats = (containerId: string): ResourceStats | null => {
-    const raw = samplesByContainerId.get(containerId) ?? [];
-    const samples = raw.filter((s) => new Date(s.sampledAt).getTime() >= windowStartMs);
-    if (samples.length === 0) return null;
-    return {
-      cpuP95: percentile(samples.map((s) => s.cpuMillicores), 95),
-      memoryP95: percentile(samples.map((s) => s.memoryBytes), 95),
-    };
-  };
-
-  const rows = useMemo(() => {
-    if (!currentSnapshot || !baselineSnapshot) return [];
-    const currentByName = new Map(currentSnapshot.containers.map((c) => [c.name, c]));
-    const baselineByName = new Map(baselineSnapshot.containers.map((c) => [c.name, c]));
-    const names = [...new Set([...currentByName.keys(), ...baselineByName.keys()])].sort();
-
-    return names.map((name) => {
-      const currentContainer = currentByName.get(name);
-      const baselineContainer = baselineByName.get(name);
-      const currentStats = currentContainer ? getContainerStats(currentContainer.id) : null;
-      const baselineStats = baselineContainer ? getContainerStats(baselineContainer.id) : null;
-      const cpuDelta = deltaPercent(currentStats?.cpuP95 ?? 0, baselineStats?.cpuP95 ?? 0);
-      const memoryDelta = deltaPercent(currentStats?.memoryP95 ?? 0, baselineStats?.memoryP95 ?? 0);
-      return {
-        name,
-        currentStats,
-        baselineStats,
-        cpuDelta,
-        memoryDelta,
-      };
-    });
-  }, [baselineSnapshot, currentSnapshot, windowPreset, samplesByContainerId]);
-
-  const versionImpactRows = useMemo(() => {
-    return versionSnapshots.map((snapshot) => {
-      const stats = snapshot.containers
-        .map((container) => getContainerStats(container.id))
-        .filter((item): item is ResourceStats => Boolean(item));
-      const cpuP95Total = stats.reduce((sum, item) => sum + item.cpuP95, 0);
-      const memoryP95Total = stats.reduce((sum, item) => sum + item.memoryP95, 0);
-      return {
-        version: snapshot.version,
-        createdAt: snapshot.createdAt,
-        cpuP95Total,
-        memoryP95Total,
-      };
-    });
-  }, [versionSnapshots, windowPreset, samplesByContainerId]);
+  const rows = impact?.containers ?? [];
 
   const latestImpact = versionImpactRows[0];
   const previousImpact = versionImpactRows[1];
@@ -200,72 +100,28 @@ export const VersionImpactPanel = ({ deployment }: VersionImpactPanelProps) => {
     ? deltaPercent(latestImpact.memoryP95Total, previousImpact.memoryP95Total)
     : null;
 
-  const buildRelativeSeries = (snapshot: VersionSnapshot | null): SeriesPoint[] => {
-    if (!snapshot) return [];
-    const points = new Map<number, { cpu: number; memory: number; count: number }>();
-
-    for (const container of snapshot.containers) {
-      const samples = (samplesByContainerId.get(container.id) ?? []).filter(
-        (sample) => new Date(sample.sampledAt).getTime() >= windowStartMs
-      );
-      for (const sample of samples) {
-        const ts = new Date(sample.sampledAt).getTime();
-        const bucketSec = Math.floor(ts / 30_000) * 30_000;
-        const item = points.get(bucketSec) ?? { cpu: 0, memory: 0, count: 0 };
-        item.cpu += sample.cpuMillicores;
-        item.memory += sample.memoryBytes;
-        item.count += 1;
-        points.set(bucketSec, item);
-      }
-    }
-
-    const sorted = [...points.entries()].sort((a, b) => a[0] - b[0]);
-    if (sorted.length === 0) return [];
-    const latestTs = sorted[sorted.length - 1][0];
-    const minuteBuckets = new Map<number, { cpu: number; memory: number; count: number }>();
-
-    for (const [ts, point] of sorted) {
-      const relMin = Math.round((ts - latestTs) / 60_000);
-      const item = minuteBuckets.get(relMin) ?? { cpu: 0, memory: 0, count: 0 };
-      item.cpu += point.cpu;
-      item.memory += point.memory;
-      item.count += 1;
-      minuteBuckets.set(relMin, item);
-    }
-
-    return [...minuteBuckets.entries()]
-      .sort((a, b) => a[0] - b[0])
-      .map(([relMin, point]) => ({
-        relMin,
-        cpu: point.cpu / Math.max(point.count, 1),
-        memoryBytes: point.memory / Math.max(point.count, 1),
-      }));
-  };
-
-  const currentSeries = buildRelativeSeries(currentSnapshot);
-  const baselineSeries = buildRelativeSeries(baselineSnapshot);
-
   const chartData = useMemo(() => {
-    const keys = [...new Set([
-      ...currentSeries.map((item) => item.relMin),
-      ...baselineSeries.map((item) => item.relMin),
-    ])].sort((a, b) => a - b);
-
-    const currentMap = new Map(currentSeries.map((item) => [item.relMin, item]));
-    const baselineMap = new Map(baselineSeries.map((item) => [item.relMin, item]));
+    const series = impact?.series ?? [];
+    const currentMap = new Map(
+      series.filter((point) => point.version === selectedCurrent).map((point) => [point.relMin, point])
+    );
+    const baselineMap = new Map(
+      series.filter((point) => point.version === selectedBaseline).map((point) => [point.relMin, point])
+    );
+    const keys = [...new Set([...currentMap.keys(), ...baselineMap.keys()])].sort((a, b) => a - b);
 
     return keys.map((relMin) => {
       const current = currentMap.get(relMin);
       const baseline = baselineMap.get(relMin);
       return {
         relMinLabel: `T${relMin}`,
-        currentCpu: current?.cpu ?? null,
-        baselineCpu: baseline?.cpu ?? null,
+        currentCpu: current?.cpuMillicores ?? null,
+        baselineCpu: baseline?.cpuMillicores ?? null,
         currentMemoryMiB: current ? bytesToMiB(current.memoryBytes) : null,
         baselineMemoryMiB: baseline ? bytesToMiB(baseline.memoryBytes) : null,
       };
     });
-  }, [baselineSeries, currentSeries]);
+  }, [impact, selectedBaseline, selectedCurrent]);
 
   if (!deployment) {
     return (
@@ -282,6 +138,7 @@ export const VersionImpactPanel = ({ deployment }: VersionImpactPanelProps) => {
           <h2 className="text-sm font-semibold flex items-center gap-1.5">
             <Gauge className="w-4 h-4 text-primary" />
             {deployment.name}
+            <WorkloadKindBadge kind={deployment.kind} />
           </h2>
         </div>
         <div className="flex items-center gap-1.5 text-[11px]">
@@ -350,12 +207,12 @@ export const VersionImpactPanel = ({ deployment }: VersionImpactPanelProps) => {
         </div>
       )}
 
-      {isLoadingSamples ? (
-        <div className="text-xs text-muted-foreground">Loading version samples...</div>
-      ) : hasSamplesError ? (
+      {isLoadingImpact ? (
+        <div className="text-xs text-muted-foreground">Loading version impact...</div>
+      ) : hasImpactError ? (
         <div className="text-xs text-[hsl(var(--status-error))] flex items-center gap-2">
           <AlertTriangle className="w-4 h-4" />
-          Failed to load one or more container sample streams.
+          Failed to load version impact.
         </div>
       ) : (
         <>
@@ -364,39 +221,59 @@ export const VersionImpactPanel = ({ deployment }: VersionImpactPanelProps) => {
               <thead className="bg-secondary/40">
                 <tr className="text-left text-[11px] text-muted-foreground">
                   <th className="px-3 py-2">Container</th>
-                  <th className="px-3 py-2">CPU p95 ({selectedBaseline} → {selectedCurrent})</th>
-                  <th className="px-3 py-2">RAM p95 ({selectedBaseline} → {selectedCurrent})</th>
-                  <th className="px-3 py-2">CPU delta</th>
-                  <th className="px-3 py-2">RAM delta</th>
+                  <th className="px-3 py-2">Dimension</th>
+                  <th className="px-3 py-2">{selectedBaseline} → {selectedCurrent}</th>
+                  <th className="px-3 py-2">Delta</th>
+                  <th className="px-3 py-2">Weight</th>
+                  <th className="px-3 py-2">Verdict</th>
                 </tr>
               </thead>
               <tbody>
                 {rows.map((row) => (
-                  <tr key={row.name} className="border-t border-border/70">
-                    <td className="px-3 py-2 font-medium">{row.name}</td>
-                    <td className="px-3 py-2">
-                      {(row.baselineStats?.cpuP95 ?? 0).toFixed(0)}m → {(row.currentStats?.cpuP95 ?? 0).toFixed(0)}m
-                    </td>
-                    <td className="px-3 py-2">
-                      {bytesToMiB(row.baselineStats?.memoryP95 ?? 0).toFixed(1)}Mi → {bytesToMiB(row.currentStats?.memoryP95 ?? 0).toFixed(1)}Mi
-                    </td>
-                    <td className={cn('px-3 py-2', deltaClassName(row.cpuDelta))}>
-                      <span className="inline-flex items-center gap-1">
-                        <VerdictIcon delta={row.cpuDelta} />
-                        {row.cpuDelta === null ? 'n/a' : `${row.cpuDelta.toFixed(1)}%`}
-                      </span>
-                    </td>
-                    <td className={cn('px-3 py-2', deltaClassName(row.memoryDelta))}>
-                      <span className="inline-flex items-center gap-1">
-                        <VerdictIcon delta={row.memoryDelta} />
-                        {row.memoryDelta === null ? 'n/a' : `${row.memoryDelta.toFixed(1)}%`}
-                      </span>
-                    </td>
-                  </tr>
+                  <Fragment key={row.name}>
+                    {IMPACT_DIMENSIONS.map(({ key, label, format }, index) => {
+                      const dimension = row.dimensions[key];
+                      return (
+                        <tr key={key} className={cn(index === 0 ? 'border-t border-border/70' : 'border-t border-border/30')}>
+                          {index === 0 && (
+                            <td className="px-3 py-2 align-top" rowSpan={IMPACT_DIMENSIONS.length}>
+                              <span className="font-medium block">{row.name}</span>
+                              <span className={cn('text-[11px] font-medium', VERDICT_STYLES[row.status])}>{row.status}</span>
+                              <span className="block text-[11px] text-muted-foreground">
+                                {row.score === null ? 'no score' : `score ${row.score > 0 ? '+' : ''}${row.score.toFixed(1)}%`}
+                                {row.confidence !== null && ` · ${(row.confidence * 100).toFixed(1)}% confidence`}
+                              </span>
+                            </td>
+                          )}
+                          <td className="px-3 py-1.5 text-muted-foreground">{label}</td>
+                          <td className="px-3 py-1.5">
+                            {formatValue(dimension?.baseline, format)} → {formatValue(dimension?.current, format)}
+                          </td>
+                          <td className={cn('px-3 py-1.5', deltaClassName(dimension?.deltaPercent ?? null))}>
+                            <span className="inline-flex items-center gap-1">
+                              <VerdictIcon delta={dimension?.deltaPercent ?? null} />
+                              {dimension ? formatDimensionDelta(dimension) : 'n/a'}
+                            </span>
+                          </td>
+                          <td className={cn('px-3 py-1.5', dimension?.weight === 0 && 'text-muted-foreground')}>
+                            {dimension ? `×${dimension.weight}` : ''}
+                          </td>
+                          <td className="px-3 py-1.5">
+                            <span className={cn('font-medium', VERDICT_STYLES[dimension?.status ?? 'unknown'])}>
+                              {dimension?.status ?? 'unknown'}
+                            </span>
+                            <span className="ml-1.5 text-[11px] text-muted-foreground">
+                              {!dimension || dimension.pValue === null ? 'too few samples' : `p=${dimension.pValue.toPrecision(2)}`}
+                            </span>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </Fragment>
                 ))}
                 {rows.length === 0 && (
                   <tr>
-                    <td className="px-3 py-4 text-muted-foreground" colSpan={5}>
+                    <td className="px-3 py-4 text-muted-foreground" colSpan={6}>
                       No comparison data available for selected versions and window.
                     </td>
                   </tr>
@@ -1,6 +1,7 @@
 import { VersionGroup, PodWithHealth } from '@/types/kubernetes';
 import { cn } from '@/lib/utils';
-import { formatDistanceToNow, format } from 'date-fns';
+import { isPodDeleted } from '@/lib/podHealth';
+import { formatDistanceStrict, formatDistanceToNow, format } from 'date-fns';
 import {
   GitBranch,
   CheckCircle,
@@ -8,19 +9,23 @@ import {
   XCircle,
   ChevronDown,
   ChevronRight,
+  History,
 } from 'lucide-react';
 import { useState } from 'react';
+import { RolloutProgress } from './RolloutProgress';
 
 interface VersionTimelineProps {
   versionGroups: VersionGroup[];
   onSelectPod: (pod: PodWithHealth) => void;
   selectedPodId: string | null;
+  desiredReplicas?: number | null;
 }
 
 export const VersionTimeline = ({
   versionGroups,
   onSelectPod,
   selectedPodId,
+  desiredReplicas = null,
 }: VersionTimelineProps) => {
   const [expandedVersions, setExpandedVersions] = useState<Set<string>>(
     new Set(versionGroups.slice(0, 2).map((v) => v.version))
@@ -47,10 +52,12 @@ export const VersionTimeline = ({
 
   return (
     <div className="space-y-3">
+      <RolloutProgress versionGroups={versionGroups} desiredReplicas={desiredReplicas} />
       {versionGroups.map((group, index) => {
         const isExpanded = expandedVersions.has(group.version);
         const isLatest = index === 0;
         const hasIssues = group.healthSummary.error > 0 || group.healthSummary.warning > 0;
+        const deletedCount = group.pods.filter(isPodDeleted).length;
 
         return (
           <div key={group.version} className="relative">
@@ -116,6 +123,12 @@ export const VersionTimeline = ({
                     <span className="text-sm font-medium">{group.healthSummary.error}</span>
                   </div>
                 )}
+                {deletedCount > 0 && (
+                  <div className="flex items-center gap-1 text-muted-foreground" title={`${deletedCount} deleted`}>
+                    <History className="w-4 h-4" />
+                    <span className="text-sm font-medium">{deletedCount}</span>
+                  </div>
+                )}
               </div>
 
               {isExpanded ? (
@@ -135,19 +148,31 @@ export const VersionTimeline = ({
                     className={cn(
                       'w-full flex items-center gap-2 p-2 rounded-lg text-left text-sm transition-colors',
                       'hover:bg-accent/50',
-                      selectedPodId === pod.id && 'bg-accent border border-primary/30'
+                      selectedPodId === pod.id && 'bg-accent border border-primary/30',
+                      pod.deletedAt && 'opacity-50'
                     )}
                   >
                     <div
                       className={cn(
                         'w-2 h-2 rounded-full shrink-0',
-                        pod.health === 'healthy' && 'bg-[hsl(var(--status-ready))]',
-                        pod.health === 'warning' && 'bg-[hsl(var(--status-warning))]',
-                        pod.health === 'error' && 'bg-[hsl(var(--status-error))]'
+                        pod.deletedAt && 'bg-muted-foreground',
+                        !pod.deletedAt && pod.health === 'healthy' && 'bg-[hsl(var(--status-ready))]',
+                        !pod.deletedAt && pod.health === 'warning' && 'bg-[hsl(var(--status-warning))]',
+                        !pod.deletedAt && pod.health === 'error' && 'bg-[hsl(var(--status-error))]'
                       )}
                     />
                     <span className="truncate flex-1">{pod.name}</span>
-                    <span className="text-xs text-muted-foreground">{pod.namespace}</span>
+                    {pod.deletedAt ? (
+                      <span
+                        className="text-xs text-muted-foreground"
+                        title={`${format(new Date(pod.createdAt), 'PPpp')} – ${format(new Date(pod.deletedAt), 'PPpp')}`}
+                      >
+                        lived {formatDistanceStrict(new Date(pod.createdAt), new Date(pod.deletedAt))}, deleted{' '}
+                        {formatDistanceToNow(new Date(pod.deletedAt), { addSuffix: true })}
+                      </span>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">{pod.namespace}</span>
+                    )}
                   </button>
                 ))}
               </div>
@@ -0,0 +1,32 @@
+import { cn } from '@/lib/utils';
+
+const KIND_LABELS: Record<string, string> = {
+  Deployment: 'deploy',
+  StatefulSet: 'sts',
+  DaemonSet: 'ds',
+  ReplicaSet: 'rs',
+  CronJob: 'cronjob',
+  Job: 'job',
+};
+
+interface WorkloadKindBadgeProps {
+  kind: string | null;
+  className?: string;
+}
+
+// Short kind of the workload owning a deployment group's pods; nothing for pods grouped by labels
+export const WorkloadKindBadge = ({ kind, className }: WorkloadKindBadgeProps) => {
+  if (!kind) return null;
+
+  return (
+    <span
+      title={kind}
+      className={cn(
+        'shrink-0 px-1 py-px rounded bg-secondary text-muted-foreground text-[9px] font-medium uppercase tracking-wide',
+        className
+      )}
+    >
+      {KIND_LABELS[kind] ?? kind}
+    </span>
+  );
+};
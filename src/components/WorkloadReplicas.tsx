@@ -0,0 +1,40 @@
+import { formatDistanceToNow } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { RolloutStatus, Workload } from '@/types/kubernetes';
+
+const ROLLOUT_LABELS: Record<Exclude<RolloutStatus, 'complete'>, { label: string; className: string }> = {
+  progressing: { label: 'rolling out', className: 'bg-primary/15 text-primary' },
+  stuck: { label: 'rollout stuck', className: 'bg-[hsl(var(--status-error)/0.15)] text-[hsl(var(--status-error))]' },
+  paused: { label: 'paused', className: 'bg-secondary text-muted-foreground' },
+};
+
+// "3/5 ready · 5 updated" plus the rollout state when a rollout is not complete
+export const WorkloadReplicas = ({ workload }: { workload: Workload }) => {
+  const rollout = workload.rolloutStatus === 'complete' ? null : ROLLOUT_LABELS[workload.rolloutStatus];
+  const rolloutTitle = [
+    workload.rolloutMessage,
+    workload.rolloutStartedAt &&
+      `started ${formatDistanceToNow(new Date(workload.rolloutStartedAt), { addSuffix: true })}`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+  return (
+    <div className="mt-1 flex items-center gap-1.5 flex-wrap text-[10px] text-muted-foreground">
+      <span
+        title={`${workload.readyReplicas} ready, ${workload.availableReplicas} available of ${workload.desiredReplicas} desired`}
+        className={cn(
+          workload.readyReplicas < workload.desiredReplicas && 'text-[hsl(var(--status-warning))]'
+        )}
+      >
+        {workload.readyReplicas}/{workload.desiredReplicas} ready
+      </span>
+      <span>· {workload.updatedReplicas} updated</span>
+      {rollout && (
+        <span title={rolloutTitle || undefined} className={cn('px-1 py-px rounded font-medium', rollout.className)}>
+          {rollout.label}
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import { useCallback, useMemo } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { HealthStatus, LogQuickFilter, PodDetailTab } from '@/types/kubernetes';
+import { buildDeploymentKey } from '@/lib/podHealth';
+
+const HEALTH_FILTERS: HealthStatus[] = ['healthy', 'warning', 'error'];
+const DETAIL_TABS: PodDetailTab[] = ['logs', 'resources', 'events'];
+const LOG_QUICK_FILTERS: LogQuickFilter[] = ['fatal', 'error', 'warning', 'exception', 'debug'];
+
+// Params that belong to the open container's log view; dropped when the selection changes
+const LOG_PARAMS = ['level', 'q'];
+
+const oneOf = <T extends string>(value: string | null, allowed: T[]): T | null =>
+  value && (allowed as string[]).includes(value) ? (value as T) : null;
+
+// Deployment names only identify a deployment within its cluster and namespace
+export interface DeploymentRef {
+  cluster: string;
+  namespace: string;
+  name: string;
+}
+
+export const buildDashboardPath = (
+  deployment?: DeploymentRef | null,
+  pod?: string | null,
+  container?: string | null
+) => {
+  if (!deployment) return '/';
+  let path = `/deployments/${[deployment.cluster, deployment.namespace, deployment.name]
+    .map(encodeURIComponent)
+    .join('/')}`;
+  if (!pod) return path;
+  path += `/pods/${encodeURIComponent(pod)}`;
+  if (container) path += `/containers/${encodeURIComponent(container)}`;
+  return path;
+};
+
+/**
+ * Dashboard selection and filters live in the URL so links open the same view and back/forward work:
+ * /deployments/:cluster/:namespace/:deployment/pods/:pod/containers/:container?tab=logs&level=error&q=timeout&health=error&latestIssues=1
+ * Selections and toggles add history entries; typing in the log search replaces the current one.
+ */
+export const useDashboardRoute = () => {
+  const { cluster = null, namespace = null, deployment = null, pod = null, container = null } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  const healthFilter: 'all' | HealthStatus = oneOf(searchParams.get('health'), HEALTH_FILTERS) ?? 'all';
+  const latestIssuesOnly = searchParams.get('latestIssues') === '1';
+  const detailTab: PodDetailTab = oneOf(searchParams.get('tab'), DETAIL_TABS) ?? 'logs';
+  const logQuickFilter: LogQuickFilter = oneOf(searchParams.get('level'), LOG_QUICK_FILTERS) ?? 'all';
+  const logSearch = searchParams.get('q') ?? '';
+
+  const navigateTo = useCallback(
+    (path: string) => {
+      const params = new URLSearchParams(searchParams);
+      for (const key of LOG_PARAMS) params.delete(key);
+      const search = params.toString();
+      navigate({ pathname: path, search: search ? `?${search}` : '' });
+    },
+    [navigate, searchParams]
+  );
+
+  const setParam = useCallback(
+    (key: string, value: string | null, replace = false) => {
+      setSearchParams(
+        (prev) => {
+          const params = new URLSearchParams(prev);
+          if (value) params.set(key, value);
+          else params.delete(key);
+          return params;
+        },
+        { replace }
+      );
+    },
+    [setSearchParams]
+  );
+
+  // Opens the given deployment/pod/container; callers pass the effective selection, since "/" shows defaults
+  const select = useCallback(
+    (deploymentRef: DeploymentRef, podName?: string | null, containerName?: string | null) =>
+      navigateTo(buildDashboardPath(deploymentRef, podName, containerName)),
+    [navigateTo]
+  );
+
+  const setHealthFilter = useCallback(
+    (next: 'all' | HealthStatus) => setParam('health', next === 'all' ? null : next),
+    [setParam]
+  );
+  const setLatestIssuesOnly = useCallback(
+    (next: boolean) => setParam('latestIssues', next ? '1' : null),
+    [setParam]
+  );
+  const setDetailTab = useCallback(
+    (next: PodDetailTab) => setParam('tab', next === 'logs' ? null : next),
+    [setParam]
+  );
+  const setLogQuickFilter = useCallback(
+    (next: LogQuickFilter) => setParam('level', next === 'all' ? null : next),
+    [setParam]
+  );
+  const setLogSearch = useCallback((next: string) => setParam('q', next || null, true), [setParam]);
+
+  // deploymentId matches DeploymentGroup.id
+  const selection = useMemo(
+    () => ({
+      deploymentId: cluster && namespace && deployment ? buildDeploymentKey(cluster, namespace, deployment) : null,
+      podName: pod,
+      containerName: container,
+    }),
+    [cluster, namespace, deployment, pod, container]
+  );
+
+  return {
+    selection,
+    healthFilter,
+    latestIssuesOnly,
+    detailTab,
+    logQuickFilter,
+    logSearch,
+    select,
+    setHealthFilter,
+    setLatestIssuesOnly,
+    setDetailTab,
+    setLogQuickFilter,
+    setLogSearch,
+  };
+};
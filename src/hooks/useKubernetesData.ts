@@ -1,15 +1,79 @@
-import { useQuery } from '@tanstack/react-query';
-import { Pod, Container, LogEntry, ResourceSample } from '@/types/kubernetes';
+import { useEffect, useRef, useState } from 'react';
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Pod,
+  Container,
+  LogEntry,
+  ResourceSample,
+  ResourceResolution,
+  ResourceSeries,
+  PodScope,
+  NamespaceOption,
+  PodEvent,
+  ContainerStatusEvent,
+  PodStatusEvent,
+  LogSearchHit,
+  ErrorFingerprint,
+  Alert,
+  AlertDelivery,
+  Session,
+  UserRole,
+  CollectorRun,
+  DataFreshness,
+  Workload,
+  VersionImpact,
+  ImpactStats,
+  ImpactDimension,
+  DimensionImpact,
+  RecommendationFlag,
+  ResourceSettings,
+  ResourceRecommendations,
+} from '@/types/kubernetes';
 import {
   fetchPodsAndContainers,
-  fetchContainerLogs,
+  fetchNamespaces,
   fetchContainerResourceSamples,
+  searchLogs,
+  streamLogTail,
+  fetchPodEvents,
+  fetchContainerHistory,
+  fetchPodStatusHistory,
+  fetchTopErrors,
+  fetchAlerts,
+  fetchAlertDeliveries,
+  acknowledgeAlert,
+  silenceAlert,
+  fetchSession,
+  fetchWorkloads,
+  fetchVersionImpact,
+  fetchResourceRecommendations,
+  checkDatabaseHealth,
   DbPod,
   DbContainer,
   DbLog,
+  DbLogSearchHit,
   DbContainerLogSummary,
   DbPodLogSummary,
+  DbPodEventSummary,
+  DbEvent,
+  DbContainerStatusHistory,
+  DbPodStatusHistory,
+  DbErrorFingerprint,
+  DbAlert,
+  DbAlertDelivery,
+  DbSession,
+  DbCollectorRun,
+  DbHealth,
+  DbWorkload,
+  DbVersionImpact,
+  DbImpactStats,
+  DbImpactDimension,
+  DbDimensionImpact,
   DbResourceSample,
+  DbRecommendationFlag,
+  DbResourceSettings,
+  DbResourceRecommendations,
+  LogSearchParams,
 } from '@/lib/database';
 
 const toNumberOrNull = (value: unknown): number | null => {
@@ -22,15 +86,21 @@ const toNumberOrNull = (value: unknown): number | null => {
 const transformPod = (
   dbPod: DbPod,
   containers: Container[],
-  summary?: DbPodLogSummary
+  summary?: DbPodLogSummary,
+  eventSummary?: DbPodEventSummary
 ): Pod => ({
   id: dbPod.id,
   name: dbPod.name,
   namespace: dbPod.namespace,
+  cluster: dbPod.cluster ?? 'default',
   status: dbPod.status as Pod['status'],
   nodeName: dbPod.node_name ?? '',
   podIP: dbPod.pod_ip ?? '',
   createdAt: dbPod.created_at,
+  deletedAt: dbPod.deleted_at ?? null,
+  lastSeenAt: dbPod.last_seen_at ?? null,
+  workloadKind: dbPod.workload_kind ?? null,
+  workloadName: dbPod.workload_name ?? null,
   containers,
   labels: (dbPod.labels as Record<string, string>) ?? {},
   restarts: dbPod.restarts ?? 0,
@@ -39,6 +109,12 @@ const transformPod = (
     warnings: summary?.warning_count ?? 0,
     exceptions: summary?.exception_count ?? 0,
   },
+  eventSummary: {
+    warnings: eventSummary?.warning_count ?? 0,
+    lastWarningReason: eventSummary?.last_warning_reason ?? null,
+    lastWarningMessage: eventSummary?.last_warning_message ?? null,
+    lastWarningAt: eventSummary?.last_warning_at ?? null,
+  },
 });
 
 // Transform database container to frontend Container type
@@ -69,19 +145,328 @@ const transformLog = (dbLog: DbLog): LogEntry => ({
   timestamp: dbLog.timestamp,
   level: dbLog.level as LogEntry['level'],
   message: dbLog.message,
+  fields: dbLog.fields ?? undefined,
+  redactions: dbLog.redactions ?? undefined,
+  createdAt: dbLog.created_at,
+});
+
+const transformEvent = (dbEvent: DbEvent): PodEvent => ({
+  id: dbEvent.id,
+  type: dbEvent.type === 'Warning' ? 'Warning' : 'Normal',
+  reason: dbEvent.reason ?? '',
+  message: dbEvent.message ?? '',
+  count: dbEvent.count ?? 1,
+  source: dbEvent.source_component,
+  firstTimestamp: dbEvent.first_timestamp ?? dbEvent.last_timestamp,
+  lastTimestamp: dbEvent.last_timestamp,
+});
+
+const transformErrorFingerprint = (dbFingerprint: DbErrorFingerprint): ErrorFingerprint => ({
+  fingerprint: dbFingerprint.fingerprint,
+  version: dbFingerprint.version,
+  pattern: dbFingerprint.pattern,
+  sampleMessage: dbFingerprint.sample_message,
+  level: dbFingerprint.level as ErrorFingerprint['level'],
+  occurrences: dbFingerprint.occurrences,
+  containerCount: dbFingerprint.container_count,
+  firstSeen: dbFingerprint.first_seen,
+  lastSeen: dbFingerprint.last_seen,
+});
+
+const transformAlert = (dbAlert: DbAlert): Alert => ({
+  id: dbAlert.id,
+  ruleId: dbAlert.rule_id,
+  ruleType: dbAlert.rule_type as Alert['ruleType'],
+  severity: dbAlert.severity as Alert['severity'],
+  status: dbAlert.status as Alert['status'],
+  cluster: dbAlert.cluster,
+  namespace: dbAlert.namespace,
+  deploymentName: dbAlert.deployment_name,
+  podId: dbAlert.pod_id,
+  podName: dbAlert.pod_name,
+  containerName: dbAlert.container_name,
+  title: dbAlert.title,
+  message: dbAlert.message,
+  value: toNumberOrNull(dbAlert.value),
+  threshold: toNumberOrNull(dbAlert.threshold),
+  startedAt: dbAlert.started_at,
+  lastSeenAt: dbAlert.last_seen_at,
+  resolvedAt: dbAlert.resolved_at,
+  acknowledgedAt: dbAlert.acknowledged_at,
+  silencedUntil: dbAlert.silenced_until,
+});
+
+const transformSession = (dbSession: DbSession): Session => ({
+  authRequired: dbSession.authRequired,
+  name: dbSession.principal.name,
+  role: dbSession.principal.role as UserRole,
+  namespaces: dbSession.principal.namespaces,
+});
+
+const transformWorkload = (dbWorkload: DbWorkload): Workload => ({
+  id: dbWorkload.id,
+  cluster: dbWorkload.cluster,
+  namespace: dbWorkload.namespace,
+  kind: dbWorkload.kind,
+  name: dbWorkload.name,
+  desiredReplicas: dbWorkload.desired_replicas,
+  readyReplicas: dbWorkload.ready_replicas,
+  availableReplicas: dbWorkload.available_replicas,
+  updatedReplicas: dbWorkload.updated_replicas,
+  conditions: dbWorkload.conditions ?? [],
+  rolloutStatus: dbWorkload.rollout_status as Workload['rolloutStatus'],
+  rolloutMessage: dbWorkload.rollout_message,
+  rolloutStartedAt: dbWorkload.rollout_started_at,
+  updatedAt: dbWorkload.updated_at,
+});
+
+const transformCollectorRun = (dbRun: DbCollectorRun): CollectorRun => ({
+  collector: dbRun.collector,
+  cluster: dbRun.cluster,
+  namespace: dbRun.namespace,
+  status: dbRun.status as CollectorRun['status'],
+  startedAt: dbRun.started_at,
+  finishedAt: dbRun.finished_at,
+  podsSeen: toNumberOrNull(dbRun.pods_seen),
+  logsInserted: toNumberOrNull(dbRun.logs_inserted),
+  samplesInserted: toNumberOrNull(dbRun.samples_inserted),
+  errorCount: Number(dbRun.error_count) || 0,
+  error: dbRun.error,
+  lastSuccessAt: dbRun.last_success_at,
+});
+
+// null when the API did not include freshness (the caller has no token while one is required)
+const transformHealth = (dbHealth: DbHealth): DataFreshness | null =>
+  dbHealth.freshness
+    ? {
+        podsUpdatedAt: dbHealth.freshness.pods_updated_at,
+        resourceSampledAt: dbHealth.freshness.resource_sampled_at,
+        podsStaleAfterMinutes: dbHealth.freshness.pods_stale_after_minutes,
+        samplesStaleAfterMinutes: dbHealth.freshness.samples_stale_after_minutes,
+        collectorRuns: (dbHealth.collector_runs ?? []).map(transformCollectorRun),
+      }
+    : null;
+
+const transformAlertDelivery = (dbDelivery: DbAlertDelivery): AlertDelivery => ({
+  id: dbDelivery.id,
+  notifierId: dbDelivery.notifier_id,
+  notifierType: dbDelivery.notifier_type as AlertDelivery['notifierType'],
+  event: dbDelivery.event as AlertDelivery['event'],
+  status: dbDelivery.status as AlertDelivery['status'],
+  attempts: dbDelivery.attempts,
+  responseStatus: dbDelivery.response_status,
+  error: dbDelivery.error,
+  createdAt: dbDelivery.created_at,
+});
+
+const transformStatusHistory = (
+  dbHistory: DbContainerStatusHistory,
+  containerName: string
+): ContainerStatusEvent => ({
+  containerId: dbHistory.container_id,
+  containerName,
+  status: dbHistory.status as Container['status'],
+  ready: dbHistory.ready ?? false,
+  restartCount: dbHistory.restart_count ?? 0,
+  timestamp: dbHistory.recorded_at,
+  reason: dbHistory.reason ?? undefined,
+  exitCode: dbHistory.exit_code ?? undefined,
+  message: dbHistory.message ?? undefined,
+});
+
+const transformPodStatusHistory = (dbHistory: DbPodStatusHistory): PodStatusEvent => ({
+  ...transformStatusHistory(dbHistory, dbHistory.container_name),
+  podId: dbHistory.pod_id,
+});
+
+const transformLogSearchHit = (dbHit: DbLogSearchHit): LogSearchHit => ({
+  ...transformLog(dbHit),
+  podId: dbHit.pod_id,
+  podName: dbHit.pod_name,
+  containerId: dbHit.container_id,
+  containerName: dbHit.container_name,
+});
+
+const transformImpactStats = (dbStats: DbImpactStats | null): ImpactStats | null =>
+  dbStats
+    ? {
+        cpuP95: Number(dbStats.cpu_p95),
+        memoryP95: Number(dbStats.memory_p95),
+        sampleCount: Number(dbStats.sample_count),
+      }
+    : null;
+
+const IMPACT_DIMENSIONS: Record<DbImpactDimension, ImpactDimension> = {
+  cpu: 'cpu',
+  memory: 'memory',
+  error_rate: 'errorRate',
+  exception_rate: 'exceptionRate',
+  restart_rate: 'restartRate',
+  time_to_ready: 'timeToReady',
+};
+
+// Impacts stored before per-dimension verdicts have no dimensions; unknown dimension keys are dropped
+const transformDimensions = <T, U>(
+  dbDimensions: Partial<Record<DbImpactDimension, T>> | undefined,
+  transform: (value: T) => U
+): Partial<Record<ImpactDimension, U>> => {
+  const dimensions: Partial<Record<ImpactDimension, U>> = {};
+  for (const [key, value] of Object.entries(dbDimensions ?? {}) as [DbImpactDimension, T][]) {
+    const dimension = IMPACT_DIMENSIONS[key];
+    if (dimension) dimensions[dimension] = transform(value);
+  }
+  return dimensions;
+};
+
+const transformDimensionImpact = (dbDimension: DbDimensionImpact): DimensionImpact => ({
+  current: toNumberOrNull(dbDimension.current),
+  baseline: toNumberOrNull(dbDimension.baseline),
+  deltaPercent: toNumberOrNull(dbDimension.delta_percent),
+  status: dbDimension.status,
+  pValue: toNumberOrNull(dbDimension.p_value),
+  weight: Number(dbDimension.weight),
+});
+
+const transformVersionImpact = (dbImpact: DbVersionImpact): VersionImpact => ({
+  cluster: dbImpact.cluster,
+  namespace: dbImpact.namespace,
+  deployment: dbImpact.deployment,
+  version: dbImpact.version,
+  baselineVersion: dbImpact.baseline_version,
+  windowMinutes: dbImpact.window_minutes,
+  computedAt: dbImpact.computed_at,
+  score: toNumberOrNull(dbImpact.score),
+  status: dbImpact.status,
+  containers: dbImpact.containers.map((container) => ({
+    name: container.name,
+    current: transformImpactStats(container.current),
+    baseline: transformImpactStats(container.baseline),
+    cpuDeltaPercent: toNumberOrNull(container.cpu_delta_percent),
+    memoryDeltaPercent: toNumberOrNull(container.memory_delta_percent),
+    score: toNumberOrNull(container.score),
+    status: container.status,
+    pValue: toNumberOrNull(container.p_value),
+    confidence: toNumberOrNull(container.confidence),
+    dimensions: transformDimensions(container.dimensions, transformDimensionImpact),
+  })),
+  containerImpactsByContainerId: Object.fromEntries(
+    Object.entries(dbImpact.container_impacts).map(([containerId, impact]) => [
+      containerId,
+      {
+        status: impact.status,
+        score: toNumberOrNull(impact.score),
+        cpuDeltaPercent: toNumberOrNull(impact.cpu_delta_percent),
+        memoryDeltaPercent: toNumberOrNull(impact.memory_delta_percent),
+        pValue: toNumberOrNull(impact.p_value),
+        confidence: toNumberOrNull(impact.confidence),
+        sampleCount: Number(impact.sample_count ?? 0),
+        baselineSampleCount: Number(impact.baseline_sample_count ?? 0),
+        dimensions: transformDimensions(impact.dimensions, transformDimensionImpact),
+      },
+    ])
+  ),
+  podImpactsByPodId: Object.fromEntries(
+    Object.entries(dbImpact.pod_impacts).map(([podId, impact]) => [
+      podId,
+      {
+        status: impact.status,
+        score: toNumberOrNull(impact.score),
+        degradedCount: impact.degraded_count,
+        improvedCount: impact.improved_count,
+        dimensions: transformDimensions(impact.dimensions, (status) => status),
+      },
+    ])
+  ),
+  versions: dbImpact.versions.map((version) => ({
+    version: version.version,
+    createdAt: version.created_at,
+    podCount: version.pod_count,
+    cpuP95Total: Number(version.cpu_p95_total),
+    memoryP95Total: Number(version.memory_p95_total),
+    sampleCount: Number(version.sample_count),
+  })),
+  series: dbImpact.series.map((point) => ({
+    version: point.version,
+    relMin: Number(point.rel_min),
+    cpuMillicores: Number(point.cpu_millicores),
+    memoryBytes: Number(point.memory_bytes),
+  })),
 });
 
 const transformResourceSample = (dbSample: DbResourceSample): ResourceSample => ({
   sampledAt: dbSample.sampled_at,
   cpuMillicores: toNumberOrNull(dbSample.cpu_millicores) ?? 0,
   memoryBytes: toNumberOrNull(dbSample.memory_bytes) ?? 0,
+  cpuMinMillicores: toNumberOrNull(dbSample.cpu_min_millicores),
+  cpuP95Millicores: toNumberOrNull(dbSample.cpu_p95_millicores),
+  cpuMaxMillicores: toNumberOrNull(dbSample.cpu_max_millicores),
+  memoryMinBytes: toNumberOrNull(dbSample.memory_min_bytes),
+  memoryP95Bytes: toNumberOrNull(dbSample.memory_p95_bytes),
+  memoryMaxBytes: toNumberOrNull(dbSample.memory_max_bytes),
+});
+
+const RECOMMENDATION_FLAGS: Record<DbRecommendationFlag, RecommendationFlag> = {
+  no_cpu_limit: 'noCpuLimit',
+  no_memory_limit: 'noMemoryLimit',
+  cpu_limit_oversized: 'cpuLimitOversized',
+  memory_limit_oversized: 'memoryLimitOversized',
+  cpu_request_low: 'cpuRequestLow',
+  memory_request_low: 'memoryRequestLow',
+};
+
+const transformResourceSettings = (dbSettings: DbResourceSettings): ResourceSettings => ({
+  cpuRequestMillicores: toNumberOrNull(dbSettings.cpu_request_millicores),
+  cpuLimitMillicores: toNumberOrNull(dbSettings.cpu_limit_millicores),
+  memoryRequestBytes: toNumberOrNull(dbSettings.memory_request_bytes),
+  memoryLimitBytes: toNumberOrNull(dbSettings.memory_limit_bytes),
+});
+
+const transformResourceRecommendations = (
+  dbRecommendations: DbResourceRecommendations
+): ResourceRecommendations => ({
+  cluster: dbRecommendations.cluster,
+  namespace: dbRecommendations.namespace,
+  deployment: dbRecommendations.deployment,
+  days: dbRecommendations.days,
+  minSamples: dbRecommendations.min_samples,
+  computedAt: dbRecommendations.computed_at,
+  containers: dbRecommendations.containers.map((container) => ({
+    name: container.name,
+    replicas: container.replicas,
+    sampleCount: container.sample_count,
+    podCount: container.pod_count,
+    firstSampledAt: container.first_sampled_at,
+    lastSampledAt: container.last_sampled_at,
+    current: transformResourceSettings(container.current),
+    usage: container.usage
+      ? {
+          cpuP95Millicores: Number(container.usage.cpu_p95_millicores),
+          cpuP99Millicores: Number(container.usage.cpu_p99_millicores),
+          cpuMaxMillicores: Number(container.usage.cpu_max_millicores),
+          memoryP95Bytes: Number(container.usage.memory_p95_bytes),
+          memoryP99Bytes: Number(container.usage.memory_p99_bytes),
+          memoryMaxBytes: Number(container.usage.memory_max_bytes),
+        }
+      : null,
+    suggested: container.suggested ? transformResourceSettings(container.suggested) : null,
+    flags: container.flags.map((flag) => RECOMMENDATION_FLAGS[flag]).filter(Boolean),
+    reclaimableCpuMillicores: Number(container.reclaimable_cpu_millicores),
+    reclaimableMemoryBytes: Number(container.reclaimable_memory_bytes),
+  })),
+  reclaimableCpuMillicores: Number(dbRecommendations.reclaimable_cpu_millicores),
+  reclaimableMemoryBytes: Number(dbRecommendations.reclaimable_memory_bytes),
 });
 
-export const usePods = () => {
+export const usePods = (
+  scope: PodScope = { cluster: null, namespace: null },
+  { includeDeleted = false }: { includeDeleted?: boolean } = {}
+) => {
   return useQuery({
-    queryKey: ['pods'],
+    queryKey: ['pods', scope.cluster, scope.namespace, includeDeleted],
     queryFn: async (): Promise<Pod[]> => {
-      const { pods, containers, podLogSummaries } = await fetchPodsAndContainers();
+      const { pods, containers, podLogSummaries, podEventSummaries } = await fetchPodsAndContainers(scope, {
+        includeDeleted,
+      });
 
       const containersByPodId = containers.reduce<Record<string, Container[]>>(
         (acc, container) => {
@@ -101,32 +486,141 @@ export const usePods = () => {
         {}
       );
 
+      const eventSummaryByPodId = podEventSummaries.reduce<Record<string, DbPodEventSummary>>(
+        (acc, summary) => {
+          acc[summary.pod_id] = summary;
+          return acc;
+        },
+        {}
+      );
+
       return pods.map((pod) =>
-        transformPod(pod, containersByPodId[pod.id] ?? [], summaryByPodId[pod.id])
+        transformPod(
+          pod,
+          containersByPodId[pod.id] ?? [],
+          summaryByPodId[pod.id],
+          eventSummaryByPodId[pod.id]
+        )
       );
     },
     refetchInterval: 30000,
   });
 };
 
-export const useContainerLogs = (containerId: string | null) => {
+export const useNamespaces = () => {
   return useQuery({
-    queryKey: ['logs', containerId],
-    queryFn: async (): Promise<{ logs: LogEntry[]; summary: DbContainerLogSummary }> => {
-      if (!containerId) {
-        return {
-          logs: [],
-          summary: { error_count: 0, warning_count: 0, exception_count: 0 },
-        };
+    queryKey: ['namespaces'],
+    queryFn: async (): Promise<NamespaceOption[]> => {
+      const namespaces = await fetchNamespaces();
+      return namespaces.map((item) => ({
+        cluster: item.cluster,
+        namespace: item.namespace,
+        podCount: Number(item.pod_count ?? 0),
+      }));
+    },
+    refetchInterval: 60000,
+  });
+};
+
+export type LogSearchFilters = Omit<LogSearchParams, 'cursor' | 'limit'>;
+
+// Pages backwards through matching logs; each page is older than the previous one.
+// Pass null to disable the query.
+export const useLogSearch = (filters: LogSearchFilters | null) => {
+  const query = useInfiniteQuery({
+    queryKey: ['log-search', filters],
+    queryFn: async ({ pageParam }) => {
+      const page = await searchLogs({ ...(filters as LogSearchFilters), cursor: pageParam });
+      return { ...page, logs: page.logs.map(transformLogSearchHit) };
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!filters,
+  });
+
+  const pages = query.data?.pages ?? [];
+  // Pages arrive newest-first; render oldest-first.
+  const logs: LogSearchHit[] = [...pages].reverse().flatMap((page) => page.logs);
+  const summary: DbContainerLogSummary = pages[0]?.summary ?? {
+    error_count: 0,
+    fatal_count: 0,
+    warning_count: 0,
+    debug_count: 0,
+    exception_count: 0,
+  };
+  const facets = pages[0]?.facets ?? null;
+  // Newest stored row of the first page; a live tail started from here misses nothing written after the search
+  const newestCreatedAt =
+    pages[0]?.logs.reduce<string | null>(
+      (newest, log) => (newest === null || Date.parse(log.createdAt) > Date.parse(newest) ? log.createdAt : newest),
+      null
+    ) ?? null;
+
+  return { ...query, logs, summary, facets, newestCreatedAt };
+};
+
+export type LogTailStatus = 'connecting' | 'live' | 'reconnecting';
+
+const LOG_TAIL_RECONNECT_DELAY_MS = 2000;
+
+// Streams new log lines for a container (server-sent events), reconnecting until unmounted
+// or `filters` becomes null. `onLogs` receives each batch in insertion order. The first connection
+// starts after `since` (the newest row already shown) instead of at the time it opens.
+export const useLogTail = (
+  filters: (LogSearchFilters & { containerId: string }) | null,
+  onLogs: (logs: LogEntry[]) => void,
+  since: string | null = null
+) => {
+  const [status, setStatus] = useState<LogTailStatus>('connecting');
+  const onLogsRef = useRef(onLogs);
+  onLogsRef.current = onLogs;
+  const sinceRef = useRef(since);
+  sinceRef.current = since;
+  const filtersKey = filters ? JSON.stringify(filters) : null;
+
+  useEffect(() => {
+    if (!filtersKey) return;
+    const tailFilters = JSON.parse(filtersKey) as LogSearchFilters & { containerId: string };
+    const controller = new AbortController();
+    let lastEventId: string | null = null;
+
+    const run = async () => {
+      setStatus('connecting');
+      while (!controller.signal.aborted) {
+        try {
+          lastEventId = await streamLogTail(tailFilters, {
+            lastEventId,
+            since: sinceRef.current,
+            signal: controller.signal,
+            onOpen: () => setStatus('live'),
+            onLogs: (rows) => onLogsRef.current(rows.map(transformLog)),
+          });
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          console.warn('Log stream interrupted:', error);
+        }
+        if (controller.signal.aborted) return;
+        setStatus('reconnecting');
+        await new Promise((resolve) => setTimeout(resolve, LOG_TAIL_RECONNECT_DELAY_MS));
       }
-      const { logs, summary } = await fetchContainerLogs(containerId, 2000);
-      return {
-        logs: logs.map(transformLog),
-        summary,
-      };
+    };
+
+    run();
+    return () => controller.abort();
+  }, [filtersKey]);
+
+  return { status };
+};
+
+// Per-container hit counts for the log search facets (ignores pod/container selection in `filters`)
+export const useLogSearchFacets = (filters: LogSearchFilters | null) => {
+  return useQuery({
+    queryKey: ['log-search-facets', filters],
+    queryFn: async () => {
+      const page = await searchLogs({ ...(filters as LogSearchFilters), facets: true, limit: 1 });
+      return page.facets ?? { containers: [], truncated: false };
     },
-    enabled: !!containerId,
-    refetchInterval: 10000,
+    enabled: !!filters,
   });
 };
 
@@ -135,10 +629,212 @@ export const useContainerResourceSamples = (containerId: string | null) => {
     queryKey: ['resource-samples', containerId],
     queryFn: async (): Promise<ResourceSample[]> => {
       if (!containerId) return [];
-      const samples = await fetchContainerResourceSamples(containerId);
+      const { samples } = await fetchContainerResourceSamples(containerId);
       return samples.map(transformResourceSample);
     },
     enabled: !!containerId,
     refetchInterval: 30000,
   });
 };
+
+// Samples over the last `hours`, at `resolution` (raw samples or 1m/5m/1h rollups)
+export const useContainerResourceRange = (
+  containerId: string | null,
+  hours: number,
+  resolution: ResourceResolution
+) => {
+  return useQuery({
+    queryKey: ['resource-samples', containerId, hours, resolution],
+    queryFn: async (): Promise<ResourceSeries> => {
+      if (!containerId) return { resolution, samples: [] };
+      const result = await fetchContainerResourceSamples(containerId, {
+        from: new Date(Date.now() - hours * 60 * 60 * 1000).toISOString(),
+        resolution,
+      });
+      return { resolution: result.resolution, samples: result.samples.map(transformResourceSample) };
+    },
+    enabled: !!containerId,
+    refetchInterval: 30000,
+  });
+};
+
+export const usePodEvents = (podId: string | null) => {
+  return useQuery({
+    queryKey: ['events', podId],
+    queryFn: async (): Promise<PodEvent[]> => {
+      if (!podId) return [];
+      const events = await fetchPodEvents(podId);
+      return events.map(transformEvent);
+    },
+    enabled: !!podId,
+    refetchInterval: 30000,
+  });
+};
+
+export const useContainerHistory = (container: Container | null, hours = 6) => {
+  return useQuery({
+    queryKey: ['container-history', container?.id ?? null, hours],
+    queryFn: async (): Promise<ContainerStatusEvent[]> => {
+      if (!container) return [];
+      const history = await fetchContainerHistory(container.id, hours);
+      return history.map((entry) => transformStatusHistory(entry, container.name));
+    },
+    enabled: !!container,
+    refetchInterval: 30000,
+  });
+};
+
+// Container state changes of the given pods, oldest first (e.g. restarts during a rollout)
+export const usePodStatusHistory = (podIds: string[]) => {
+  return useQuery({
+    queryKey: ['pod-status-history', podIds],
+    queryFn: async (): Promise<PodStatusEvent[]> => {
+      const history = await fetchPodStatusHistory(podIds);
+      return history.map(transformPodStatusHistory);
+    },
+    enabled: podIds.length > 0,
+    refetchInterval: 30000,
+  });
+};
+
+export const useTopErrors = (podIds: string[]) => {
+  return useQuery({
+    queryKey: ['top-errors', podIds],
+    queryFn: async (): Promise<ErrorFingerprint[]> => {
+      const fingerprints = await fetchTopErrors(podIds);
+      return fingerprints.map(transformErrorFingerprint);
+    },
+    enabled: podIds.length > 0,
+    refetchInterval: 30000,
+  });
+};
+
+export const useAlerts = (
+  scope: PodScope = { cluster: null, namespace: null },
+  status?: Alert['status']
+) => {
+  return useQuery({
+    queryKey: ['alerts', scope.cluster, scope.namespace, status ?? 'all'],
+    queryFn: async (): Promise<Alert[]> => {
+      const alerts = await fetchAlerts(scope, status);
+      return alerts.map(transformAlert);
+    },
+    refetchInterval: 30000,
+  });
+};
+
+export const useWorkloads = (scope: PodScope = { cluster: null, namespace: null }) => {
+  return useQuery({
+    queryKey: ['workloads', scope.cluster, scope.namespace],
+    queryFn: async (): Promise<Workload[]> => {
+      const workloads = await fetchWorkloads(scope);
+      return workloads.map(transformWorkload);
+    },
+    refetchInterval: 30000,
+  });
+};
+
+export interface VersionImpactQuery {
+  cluster: string;
+  namespace: string;
+  deployment: string;
+  // Default to the newest version and the one before it
+  version?: string | null;
+  baselineVersion?: string | null;
+  windowMinutes?: number;
+}
+
+// Shared by useVersionImpact and the per-deployment queries of useImpactScores, so both read the same cache entry
+export const versionImpactQueryOptions = (query: VersionImpactQuery) => ({
+  queryKey: [
+    'version-impact',
+    query.cluster,
+    query.namespace,
+    query.deployment,
+    query.version ?? null,
+    query.baselineVersion ?? null,
+    query.windowMinutes ?? null,
+  ],
+  queryFn: async (): Promise<VersionImpact | null> => {
+    const impact = await fetchVersionImpact(query);
+    return impact ? transformVersionImpact(impact) : null;
+  },
+  refetchInterval: 30000,
+});
+
+export const useVersionImpact = (query: VersionImpactQuery | null) => {
+  return useQuery({
+    ...versionImpactQueryOptions(query ?? { cluster: '', namespace: '', deployment: '' }),
+    enabled: !!query,
+  });
+};
+
+// Right-sizing of a deployment's containers, or of one container's name within its deployment
+export const useResourceRecommendations = (
+  target: { cluster: string; namespace: string; deployment: string } | { containerId: string } | null
+) => {
+  return useQuery({
+    queryKey: [
+      'resource-recommendations',
+      target && 'containerId' in target ? target.containerId : null,
+      target && 'deployment' in target ? [target.cluster, target.namespace, target.deployment] : null,
+    ],
+    queryFn: async (): Promise<ResourceRecommendations | null> => {
+      if (!target) return null;
+      const recommendations = await fetchResourceRecommendations(target);
+      return recommendations ? transformResourceRecommendations(recommendations) : null;
+    },
+    enabled: !!target,
+    // Percentiles over days of samples barely move between polls
+    refetchInterval: 300000,
+  });
+};
+
+export const useAlertDeliveries = (alertId: string | null) => {
+  return useQuery({
+    queryKey: ['alert-deliveries', alertId],
+    queryFn: async (): Promise<AlertDelivery[]> => {
+      if (!alertId) return [];
+      const deliveries = await fetchAlertDeliveries(alertId);
+      return deliveries.map(transformAlertDelivery);
+    },
+    enabled: !!alertId,
+  });
+};
+
+export const useAlertActions = () => {
+  const queryClient = useQueryClient();
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: ['alerts'] });
+
+  const acknowledge = useMutation({
+    mutationFn: (alertId: string) => acknowledgeAlert(alertId),
+    onSuccess,
+  });
+  const silence = useMutation({
+    mutationFn: ({ alertId, minutes }: { alertId: string; minutes: number }) => silenceAlert(alertId, minutes),
+    onSuccess,
+  });
+
+  return { acknowledge, silence };
+};
+
+// null means the API wants a (new) token; rechecked periodically so a revoked token signs the user out
+export const useSession = () => {
+  return useQuery({
+    queryKey: ['session'],
+    queryFn: async (): Promise<Session | null> => {
+      const session = await fetchSession();
+      return session ? transformSession(session) : null;
+    },
+    refetchInterval: 60000,
+    retry: false,
+  });
+};
+
+export const useDataFreshness = (scope: PodScope = { cluster: null, namespace: null }) => {
+  return useQuery({
+    queryKey: ['data-freshness', scope.cluster, scope.namespace],
+    queryFn: async (): Promise<DataFreshness | null> => transformHealth(await checkDatabaseHealth(scope)),
+    refetchInterval: 30000,
+  });
+};
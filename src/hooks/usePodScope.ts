@@ -0,0 +1,37 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { PodScope } from '@/types/kubernetes';
+
+// Cluster/namespace scope lives in the URL (?cluster=&namespace=) so shared links open the same view.
+export const usePodScope = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const cluster = searchParams.get('cluster');
+  const namespace = searchParams.get('namespace');
+
+  const scope = useMemo<PodScope>(() => ({ cluster, namespace }), [cluster, namespace]);
+
+  const setScope = useCallback(
+    (next: PodScope) => {
+      setSearchParams((prev) => {
+        const params = new URLSearchParams(prev);
+        if (next.cluster) params.set('cluster', next.cluster);
+        else params.delete('cluster');
+        if (next.namespace) params.set('namespace', next.namespace);
+        else params.delete('namespace');
+        return params;
+      });
+    },
+    [setSearchParams]
+  );
+
+  // Query string carrying only the scope, for links to other pages
+  const scopeSearch = useMemo(() => {
+    const params = new URLSearchParams();
+    if (cluster) params.set('cluster', cluster);
+    if (namespace) params.set('namespace', namespace);
+    const value = params.toString();
+    return value ? `?${value}` : '';
+  }, [cluster, namespace]);
+
+  return { scope, setScope, scopeSearch };
+};
@@ -153,7 +153,7 @@ export type Database = {
     }
     Enums: {
       container_status: "Running" | "Waiting" | "Terminated"
-      log_level: "info" | "warn" | "error"
+      log_level: "debug" | "info" | "warn" | "error" | "fatal"
       pod_status:
         | "Running"
         | "Pending"
@@ -290,7 +290,7 @@ export const Constants = {
   public: {
     Enums: {
       container_status: ["Running", "Waiting", "Terminated"],
-      log_level: ["info", "warn", "error"],
+      log_level: ["debug", "info", "warn", "error", "fatal"],
       pod_status: [
         "Running",
         "Pending",
@@ -0,0 +1,16 @@
+import { Alert } from '@/types/kubernetes';
+
+export const ALERT_RULE_LABELS: Record<Alert['ruleType'], string> = {
+  pod_health: 'Pod health',
+  restart_increase: 'Restarts',
+  error_rate: 'Error log rate',
+  memory_p95: 'Memory p95',
+  version_impact: 'Version impact',
+};
+
+export const isAlertSilenced = (alert: Alert, now = Date.now()): boolean =>
+  !!alert.silencedUntil && new Date(alert.silencedUntil).getTime() > now;
+
+// Firing alerts nobody has acknowledged or silenced yet; these drive the header badge.
+export const isAlertActionable = (alert: Alert, now = Date.now()): boolean =>
+  alert.status === 'firing' && !alert.acknowledgedAt && !isAlertSilenced(alert, now);
@@ -0,0 +1,15 @@
+import { Session, UserRole } from '@/types/kubernetes';
+
+const API_TOKEN_STORAGE_KEY = 'k8s-monitor.apiToken';
+
+const ROLE_RANK: Record<UserRole, number> = { viewer: 1, operator: 2, admin: 3 };
+
+export const getApiToken = (): string | null => localStorage.getItem(API_TOKEN_STORAGE_KEY);
+
+export const setApiToken = (token: string) => localStorage.setItem(API_TOKEN_STORAGE_KEY, token);
+
+export const clearApiToken = () => localStorage.removeItem(API_TOKEN_STORAGE_KEY);
+
+// Mirrors the API's role check; the server enforces it, this only hides controls that would be rejected.
+export const hasRole = (session: Session | null | undefined, role: UserRole): boolean =>
+  !!session && ROLE_RANK[session.role] >= ROLE_RANK[role];
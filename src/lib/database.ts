@@ -1,3 +1,5 @@
+import { getApiToken } from '@/lib/auth';
+
 // All database access goes through the edge function, which connects to external PostgreSQL.
 
 const getBaseUrl = () => {
@@ -6,10 +8,13 @@ const getBaseUrl = () => {
   return `${url.replace(/\/$/, '')}/functions/v1/database`;
 };
 
+// The publishable key is for the Supabase gateway; the API token identifies the user to the database API.
 const getAuthHeaders = () => {
   const publishableKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+  const apiToken = getApiToken();
   return {
     ...(publishableKey ? { 'Authorization': `Bearer ${publishableKey}` } : {}),
+    ...(apiToken ? { 'X-Api-Token': apiToken } : {}),
     'Content-Type': 'application/json',
   };
 };
@@ -19,6 +24,7 @@ export interface DbPod {
   id: string;
   name: string;
   namespace: string;
+  cluster: string;
   status: string;
   node_name: string | null;
   pod_ip: string | null;
@@ -26,6 +32,12 @@ export interface DbPod {
   restarts: number | null;
   created_at: string;
   updated_at: string;
+  // Last sync that listed the pod, and when it disappeared from the Kubernetes API (null while it exists)
+  last_seen_at: string | null;
+  deleted_at: string | null;
+  // Top-level owner from ownerReferences (Deployment, StatefulSet, CronJob, ...); null for bare pods
+  workload_kind: string | null;
+  workload_name: string | null;
 }
 
 export interface DbContainer {
@@ -54,19 +66,244 @@ export interface DbLog {
   timestamp: string;
   level: string;
   message: string;
+  // Scalar fields parsed from JSON log lines; null for plain-text lines
+  fields: Record<string, string | number | boolean | null> | null;
+  // Ids of the redaction detectors that rewrote the line at ingest; null when nothing was redacted
+  redactions: string[] | null;
   created_at: string;
 }
 
+export interface DbLogSearchHit extends DbLog {
+  pod_id: string;
+  pod_name: string;
+  container_name: string;
+}
+
+export interface DbLogSearchFacets {
+  containers: Array<{ container_id: string; hit_count: number }>;
+  // True when counting stopped at the server-side scan cap
+  truncated: boolean;
+}
+
+export interface DbLogSearchPage {
+  logs: DbLogSearchHit[];
+  nextCursor: string | null;
+  // Full-history counts for a single container; only returned for the first page
+  summary: DbContainerLogSummary | null;
+  facets: DbLogSearchFacets | null;
+}
+
+// Search target: one container, or any mix of pod/container ids and cluster/namespace scope
+export interface LogSearchParams {
+  containerId?: string;
+  containerIds?: string[];
+  podIds?: string[];
+  cluster?: string | null;
+  namespace?: string | null;
+  facets?: boolean;
+  query?: string;
+  levels?: Array<'debug' | 'info' | 'warn' | 'error' | 'fatal'>;
+  exceptionsOnly?: boolean;
+  // Structured field values a log line must contain, e.g. { trace_id: 'abc' }
+  fields?: Record<string, string | number | boolean | null>;
+  from?: string | null;
+  to?: string | null;
+  cursor?: string | null;
+  limit?: number;
+}
+
 export interface DbContainerLogSummary {
+  // Includes fatal lines
   error_count: number;
+  fatal_count: number;
   warning_count: number;
+  debug_count: number;
   exception_count: number;
 }
 
+export type DbResourceResolution = 'raw' | '1m' | '5m' | '1h';
+
 export interface DbResourceSample {
   sampled_at: string;
+  // Bucket averages for rollup resolutions
   cpu_millicores: number;
   memory_bytes: number;
+  // Rollup resolutions only
+  cpu_min_millicores?: number;
+  cpu_p95_millicores?: number;
+  cpu_max_millicores?: number;
+  memory_min_bytes?: number;
+  memory_p95_bytes?: number;
+  memory_max_bytes?: number;
+  sample_count?: number;
+}
+
+export interface ResourceSamplesParams {
+  from?: string;
+  to?: string;
+  // The API picks one for the range when left out
+  resolution?: DbResourceResolution;
+}
+
+export type DbImpactStatus = 'degraded' | 'improved' | 'stable' | 'unknown';
+
+export interface DbImpactStats {
+  cpu_p95: number;
+  memory_p95: number;
+  sample_count: number;
+}
+
+export type DbImpactDimension =
+  | 'cpu'
+  | 'memory'
+  | 'error_rate'
+  | 'exception_rate'
+  | 'restart_rate'
+  | 'time_to_ready';
+
+export interface DbDimensionImpact {
+  current: number | null;
+  baseline: number | null;
+  delta_percent: number | null;
+  status: DbImpactStatus;
+  p_value: number | null;
+  weight: number;
+}
+
+export interface DbVersionImpact {
+  cluster: string;
+  namespace: string;
+  deployment: string;
+  version: string;
+  baseline_version: string | null;
+  window_minutes: number;
+  computed_at: string;
+  score: number | null;
+  status: DbImpactStatus;
+  // Per container name, over all pods of each version
+  containers: {
+    name: string;
+    current: DbImpactStats | null;
+    baseline: DbImpactStats | null;
+    cpu_delta_percent: number | null;
+    memory_delta_percent: number | null;
+    score: number | null;
+    status: DbImpactStatus;
+    // Mann-Whitney p-value and 1 - p; null below the API's minimum sample count (absent in results stored before)
+    p_value?: number | null;
+    confidence?: number | null;
+    dimensions?: Partial<Record<DbImpactDimension, DbDimensionImpact>>;
+  }[];
+  // Keyed by container id / pod id of the compared version
+  container_impacts: Record<
+    string,
+    {
+      status: DbImpactStatus;
+      score: number | null;
+      cpu_delta_percent: number | null;
+      memory_delta_percent: number | null;
+      p_value?: number | null;
+      confidence?: number | null;
+      sample_count?: number;
+      baseline_sample_count?: number;
+      dimensions?: Partial<Record<DbImpactDimension, DbDimensionImpact>>;
+    }
+  >;
+  pod_impacts: Record<
+    string,
+    {
+      status: DbImpactStatus;
+      score: number | null;
+      degraded_count: number;
+      improved_count: number;
+      dimensions?: Partial<Record<DbImpactDimension, DbImpactStatus>>;
+    }
+  >;
+  // Recent versions, newest first, with deployment totals of the container p95s
+  versions: {
+    version: string;
+    created_at: string;
+    pod_count: number;
+    cpu_p95_total: number;
+    memory_p95_total: number;
+    sample_count: number;
+  }[];
+  // Average pod usage per minute relative to each version's newest sample (rel_min <= 0)
+  series: { version: string; rel_min: number; cpu_millicores: number; memory_bytes: number }[];
+}
+
+export type DbRecommendationFlag =
+  | 'no_cpu_limit'
+  | 'no_memory_limit'
+  | 'cpu_limit_oversized'
+  | 'memory_limit_oversized'
+  | 'cpu_request_low'
+  | 'memory_request_low';
+
+export interface DbResourceSettings {
+  cpu_request_millicores: number | null;
+  cpu_limit_millicores: number | null;
+  memory_request_bytes: number | null;
+  memory_limit_bytes: number | null;
+}
+
+export interface DbContainerRecommendation {
+  name: string;
+  // Running pods with this container
+  replicas: number;
+  sample_count: number;
+  pod_count: number;
+  first_sampled_at: string | null;
+  last_sampled_at: string | null;
+  // Of the newest running pod
+  current: DbResourceSettings;
+  usage: {
+    cpu_p95_millicores: number;
+    cpu_p99_millicores: number;
+    cpu_max_millicores: number;
+    memory_p95_bytes: number;
+    memory_p99_bytes: number;
+    memory_max_bytes: number;
+  } | null;
+  // Null below the API's minimum sample count
+  suggested: {
+    cpu_request_millicores: number;
+    cpu_limit_millicores: number;
+    memory_request_bytes: number;
+    memory_limit_bytes: number;
+  } | null;
+  flags: DbRecommendationFlag[];
+  reclaimable_cpu_millicores: number;
+  reclaimable_memory_bytes: number;
+}
+
+export interface DbResourceRecommendations {
+  cluster: string;
+  namespace: string;
+  deployment: string;
+  days: number;
+  min_samples: number;
+  computed_at: string;
+  containers: DbContainerRecommendation[];
+  reclaimable_cpu_millicores: number;
+  reclaimable_memory_bytes: number;
+}
+
+export interface DbContainerStatusHistory {
+  container_id: string;
+  status: string;
+  ready: boolean | null;
+  restart_count: number | null;
+  reason: string | null;
+  exit_code: number | null;
+  message: string | null;
+  started_at: string | null;
+  recorded_at: string;
+}
+
+export interface DbPodStatusHistory extends DbContainerStatusHistory {
+  pod_id: string;
+  container_name: string;
 }
 
 export interface DbPodLogSummary {
@@ -76,13 +313,164 @@ export interface DbPodLogSummary {
   exception_count: number;
 }
 
-// Fetch pods and containers from database (via edge function → external PostgreSQL)
-export async function fetchPodsAndContainers(): Promise<{
+export interface DbPodEventSummary {
+  pod_id: string;
+  warning_count: number;
+  last_warning_reason: string | null;
+  last_warning_message: string | null;
+  last_warning_at: string | null;
+}
+
+export interface DbEvent {
+  id: string;
+  cluster: string;
+  namespace: string;
+  involved_kind: string;
+  involved_name: string;
+  involved_uid: string;
+  type: string;
+  reason: string | null;
+  message: string | null;
+  count: number | null;
+  source_component: string | null;
+  first_timestamp: string | null;
+  last_timestamp: string;
+}
+
+// Normalized error message aggregated over a set of pods, one row per fingerprint and version
+export interface DbErrorFingerprint {
+  fingerprint: string;
+  version: string;
+  pattern: string;
+  sample_message: string;
+  level: string;
+  occurrences: number;
+  container_count: number;
+  first_seen: string;
+  last_seen: string;
+}
+
+export interface DbAlert {
+  id: string;
+  dedup_key: string;
+  rule_id: string;
+  rule_type: string;
+  severity: string;
+  status: string;
+  cluster: string;
+  namespace: string;
+  deployment_name: string | null;
+  pod_id: string | null;
+  pod_name: string | null;
+  container_name: string | null;
+  title: string;
+  message: string | null;
+  value: number | null;
+  threshold: number | null;
+  started_at: string;
+  last_seen_at: string;
+  resolved_at: string | null;
+  acknowledged_at: string | null;
+  silenced_until: string | null;
+}
+
+export interface DbAlertDelivery {
+  id: string;
+  alert_id: string;
+  notifier_id: string;
+  notifier_type: string;
+  event: string;
+  status: string;
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export interface DbSession {
+  authRequired: boolean;
+  principal: {
+    name: string;
+    role: string;
+    namespaces: string[] | null;
+  };
+}
+
+export interface DbWorkload {
+  id: string;
+  cluster: string;
+  namespace: string;
+  kind: string;
+  name: string;
+  desired_replicas: number;
+  ready_replicas: number;
+  available_replicas: number;
+  updated_replicas: number;
+  conditions: Array<{
+    type: string;
+    status: string;
+    reason: string | null;
+    message: string | null;
+    lastTransitionTime: string | null;
+  }> | null;
+  rollout_status: string;
+  rollout_message: string | null;
+  rollout_started_at: string | null;
+  updated_at: string;
+}
+
+export interface DbCollectorRun {
+  collector: string;
+  cluster: string;
+  namespace: string;
+  status: string;
+  started_at: string;
+  finished_at: string | null;
+  pods_seen: number | null;
+  logs_inserted: number | null;
+  samples_inserted: number | null;
+  error_count: number;
+  error: string | null;
+  last_success_at: string | null;
+}
+
+// freshness and collector_runs are only returned when the caller may read pods
+export interface DbHealth {
+  status: string;
+  timestamp: string;
+  freshness?: {
+    pods_updated_at: string | null;
+    resource_sampled_at: string | null;
+    pods_stale_after_minutes: number;
+    samples_stale_after_minutes: number;
+  };
+  collector_runs?: DbCollectorRun[];
+}
+
+export interface DbNamespace {
+  cluster: string;
+  namespace: string;
+  pod_count: number;
+}
+
+// Fetch pods and containers from database (via edge function → external PostgreSQL),
+// optionally restricted to one cluster and/or namespace. Deleted pods are only included on request.
+export async function fetchPodsAndContainers(
+  scope: { cluster?: string | null; namespace?: string | null } = {},
+  { includeDeleted = false }: { includeDeleted?: boolean } = {}
+): Promise<{
   pods: DbPod[];
   containers: DbContainer[];
   podLogSummaries: DbPodLogSummary[];
+  podEventSummaries: DbPodEventSummary[];
 }> {
-  const response = await fetch(`${getBaseUrl()}?action=getPods`, {
+  const params = new URLSearchParams({ action: 'getPods' });
+  if (scope.cluster) params.set('cluster', scope.cluster);
+  if (scope.namespace) params.set('namespace', scope.namespace);
+  if (includeDeleted) params.set('includeDeleted', 'true');
+
+  const response = await fetch(`${getBaseUrl()}?${params.toString()}`, {
     headers: getAuthHeaders(),
   });
 
@@ -96,9 +484,25 @@ export async function fetchPodsAndContainers(): Promise<{
     pods: result.pods || [],
     containers: result.containers || [],
     podLogSummaries: result.podLogSummaries || [],
+    podEventSummaries: result.podEventSummaries || [],
   };
 }
 
+// Fetch every known cluster/namespace pair with its pod count
+export async function fetchNamespaces(): Promise<DbNamespace[]> {
+  const response = await fetch(`${getBaseUrl()}?action=getNamespaces`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to fetch namespaces');
+  }
+
+  const result = await response.json();
+  return result.namespaces || [];
+}
+
 // Fetch logs plus full-history counts for a specific container
 export async function fetchContainerLogs(
   containerId: string,
@@ -118,28 +522,226 @@ export async function fetchContainerLogs(
   const result = await response.json();
   return {
     logs: result.logs || [],
-    summary: result.summary || { error_count: 0, warning_count: 0, exception_count: 0 },
+    summary: result.summary || { error_count: 0, fatal_count: 0, warning_count: 0, debug_count: 0, exception_count: 0 },
+  };
+}
+
+// Search logs server-side, newest first; pass `nextCursor` back to page further into the past
+export async function searchLogs(params: LogSearchParams): Promise<DbLogSearchPage> {
+  const search = new URLSearchParams({ action: 'searchLogs' });
+  if (params.containerId) search.set('containerId', params.containerId);
+  if (params.containerIds && params.containerIds.length > 0) search.set('containerIds', params.containerIds.join(','));
+  if (params.podIds && params.podIds.length > 0) search.set('podIds', params.podIds.join(','));
+  if (params.cluster) search.set('cluster', params.cluster);
+  if (params.namespace) search.set('namespace', params.namespace);
+  if (params.facets) search.set('facets', 'true');
+  if (params.query) search.set('q', params.query);
+  if (params.levels && params.levels.length > 0) search.set('level', params.levels.join(','));
+  if (params.exceptionsOnly) search.set('exceptions', 'true');
+  if (params.fields && Object.keys(params.fields).length > 0) search.set('fields', JSON.stringify(params.fields));
+  if (params.from) search.set('from', params.from);
+  if (params.to) search.set('to', params.to);
+  if (params.cursor) search.set('cursor', params.cursor);
+  if (params.limit) search.set('limit', String(params.limit));
+
+  const response = await fetch(`${getBaseUrl()}?${search.toString()}`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to search logs');
+  }
+
+  const result = await response.json();
+  return {
+    logs: result.logs || [],
+    nextCursor: result.nextCursor ?? null,
+    summary: result.summary ?? null,
+    facets: result.facets ?? null,
   };
 }
 
-export async function fetchContainerResourceSamples(containerId: string): Promise<DbResourceSample[]> {
+// Stream new log rows for one container over server-sent events until the server closes the
+// stream or `signal` aborts. Resolves with the last event id, to resume from on reconnect.
+export async function streamLogTail(
+  params: Omit<LogSearchParams, 'cursor' | 'limit' | 'facets'> & { containerId: string },
+  options: {
+    lastEventId?: string | null;
+    // created_at to start after on the first connection; reconnects resume from lastEventId
+    since?: string | null;
+    signal: AbortSignal;
+    onOpen?: () => void;
+    onLogs: (logs: DbLog[]) => void;
+  }
+): Promise<string | null> {
+  const search = new URLSearchParams({ action: 'tailLogs', containerId: params.containerId });
+  if (params.query) search.set('q', params.query);
+  if (params.levels && params.levels.length > 0) search.set('level', params.levels.join(','));
+  if (params.exceptionsOnly) search.set('exceptions', 'true');
+  if (params.fields && Object.keys(params.fields).length > 0) search.set('fields', JSON.stringify(params.fields));
+  if (options.since && !options.lastEventId) search.set('since', options.since);
+
+  const response = await fetch(`${getBaseUrl()}?${search.toString()}`, {
+    headers: {
+      ...getAuthHeaders(),
+      Accept: 'text/event-stream',
+      ...(options.lastEventId ? { 'Last-Event-ID': options.lastEventId } : {}),
+    },
+    signal: options.signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to open log stream');
+  }
+  options.onOpen?.();
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let lastEventId = options.lastEventId ?? null;
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return lastEventId;
+    buffer += value;
+
+    // Events are separated by a blank line; keep any incomplete tail in the buffer.
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let eventName = 'message';
+      const dataLines: string[] = [];
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) eventName = line.slice(6).trim();
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+        else if (line.startsWith('id:')) lastEventId = line.slice(3).trim();
+      }
+      if (dataLines.length === 0) continue;
+
+      const data = JSON.parse(dataLines.join('\n'));
+      if (eventName === 'error') throw new Error(data.error || 'Log stream failed');
+      if (eventName === 'logs') options.onLogs(data);
+    }
+  }
+}
+
+// Without params: the container's latest raw samples. With a range: raw samples or rollup buckets, oldest first;
+// `resolution` is what the API returned, which is `raw` when rollups are not available.
+export async function fetchContainerResourceSamples(
+  containerId: string,
+  params: ResourceSamplesParams = {}
+): Promise<{ resolution: DbResourceResolution; samples: DbResourceSample[] }> {
+  const searchParams = new URLSearchParams({ action: 'getResourceSamples', containerId });
+  if (params.from) searchParams.set('from', params.from);
+  if (params.to) searchParams.set('to', params.to);
+  if (params.resolution) searchParams.set('resolution', params.resolution);
+
+  const response = await fetch(`${getBaseUrl()}?${searchParams.toString()}`, { headers: getAuthHeaders() });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to fetch resource samples');
+  }
+
+  const result = await response.json();
+  return { resolution: result.resolution || 'raw', samples: result.samples || [] };
+}
+
+// Fetch recorded state changes for a container over the last `hours` hours (oldest first)
+export async function fetchContainerHistory(
+  containerId: string,
+  hours = 6
+): Promise<DbContainerStatusHistory[]> {
   const response = await fetch(
-    `${getBaseUrl()}?action=getResourceSamples&containerId=${encodeURIComponent(containerId)}`,
+    `${getBaseUrl()}?action=getContainerHistory&containerId=${encodeURIComponent(containerId)}&hours=${hours}`,
     { headers: getAuthHeaders() }
   );
 
   if (!response.ok) {
     const err = await response.json().catch(() => ({}));
-    throw new Error(err.error || 'Failed to fetch resource samples');
+    throw new Error(err.error || 'Failed to fetch container history');
   }
 
   const result = await response.json();
-  return result.samples || [];
+  return result.history || [];
 }
 
-// Check database health
-export async function checkDatabaseHealth(): Promise<{ status: string; timestamp: string }> {
-  const response = await fetch(`${getBaseUrl()}?action=health`, {
+// Fetch recorded container state changes of the given pods since they were created (oldest first)
+export async function fetchPodStatusHistory(podIds: string[]): Promise<DbPodStatusHistory[]> {
+  const search = new URLSearchParams({ action: 'getPodStatusHistory', podIds: podIds.join(',') });
+  const response = await fetch(`${getBaseUrl()}?${search.toString()}`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to fetch pod status history');
+  }
+
+  const result = await response.json();
+  return result.history || [];
+}
+
+// Fetch Kubernetes events recorded against a pod, newest first
+export async function fetchPodEvents(podId: string, limit = 200): Promise<DbEvent[]> {
+  const response = await fetch(
+    `${getBaseUrl()}?action=getEvents&podId=${encodeURIComponent(podId)}&limit=${limit}`,
+    { headers: getAuthHeaders() }
+  );
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to fetch events');
+  }
+
+  const result = await response.json();
+  return result.events || [];
+}
+
+// Fetch error fingerprints seen in the given pods (typically all pods of one deployment)
+export async function fetchTopErrors(podIds: string[]): Promise<DbErrorFingerprint[]> {
+  const search = new URLSearchParams({ action: 'getTopErrors', podIds: podIds.join(',') });
+  const response = await fetch(`${getBaseUrl()}?${search.toString()}`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to fetch top errors');
+  }
+
+  const result = await response.json();
+  return result.fingerprints || [];
+}
+
+// Who the stored API token belongs to; null when the API rejects it (or requires one and none is stored)
+export async function fetchSession(): Promise<DbSession | null> {
+  const response = await fetch(`${getBaseUrl()}?action=whoami`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (response.status === 401) return null;
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to fetch session');
+  }
+
+  return response.json();
+}
+
+// Health check; for a caller who may read pods it also reports data freshness and the latest collector runs in scope
+export async function checkDatabaseHealth(
+  scope: { cluster?: string | null; namespace?: string | null } = {}
+): Promise<DbHealth> {
+  const params = new URLSearchParams({ action: 'health' });
+  if (scope.cluster) params.set('cluster', scope.cluster);
+  if (scope.namespace) params.set('namespace', scope.namespace);
+
+  const response = await fetch(`${getBaseUrl()}?${params}`, {
     headers: getAuthHeaders(),
   });
 
@@ -149,3 +751,158 @@ export async function checkDatabaseHealth(): Promise<{ status: string; timestamp
 
   return response.json();
 }
+
+// Fetch Deployments, StatefulSets and DaemonSets with replica counts and rollout state
+export async function fetchWorkloads(
+  scope: { cluster?: string | null; namespace?: string | null } = {}
+): Promise<DbWorkload[]> {
+  const params = new URLSearchParams({ action: 'getWorkloads' });
+  if (scope.cluster) params.set('cluster', scope.cluster);
+  if (scope.namespace) params.set('namespace', scope.namespace);
+
+  const response = await fetch(`${getBaseUrl()}?${params.toString()}`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to fetch workloads');
+  }
+
+  const result = await response.json();
+  return result.workloads || [];
+}
+
+// Fetch the CPU/RAM impact of a deployment version against a baseline version, computed and persisted by the API.
+// Versions default to the newest one and the one before it; null when the deployment has no pods.
+export async function fetchVersionImpact(options: {
+  cluster: string;
+  namespace: string;
+  deployment: string;
+  version?: string | null;
+  baselineVersion?: string | null;
+  windowMinutes?: number;
+}): Promise<DbVersionImpact | null> {
+  const params = new URLSearchParams({
+    action: 'getVersionImpact',
+    cluster: options.cluster,
+    namespace: options.namespace,
+    deployment: options.deployment,
+  });
+  if (options.version) params.set('version', options.version);
+  if (options.baselineVersion) params.set('baselineVersion', options.baselineVersion);
+  if (options.windowMinutes) params.set('windowMinutes', String(options.windowMinutes));
+
+  const response = await fetch(`${getBaseUrl()}?${params.toString()}`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to fetch version impact');
+  }
+
+  const result = await response.json();
+  return result.impact ?? null;
+}
+
+// Fetch right-sizing recommendations for a deployment's containers, or for the container name of one container
+// within its deployment. Null when the deployment has no running pods.
+export async function fetchResourceRecommendations(
+  target: { cluster: string; namespace: string; deployment: string } | { containerId: string },
+  days?: number
+): Promise<DbResourceRecommendations | null> {
+  const params = new URLSearchParams({ action: 'getResourceRecommendations' });
+  if ('containerId' in target) {
+    params.set('containerId', target.containerId);
+  } else {
+    params.set('cluster', target.cluster);
+    params.set('namespace', target.namespace);
+    params.set('deployment', target.deployment);
+  }
+  if (days) params.set('days', String(days));
+
+  const response = await fetch(`${getBaseUrl()}?${params.toString()}`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to fetch resource recommendations');
+  }
+
+  const result = await response.json();
+  return result.recommendations ?? null;
+}
+
+// Fetch alerts raised by the collector's alert rules, firing first
+export async function fetchAlerts(
+  scope: { cluster?: string | null; namespace?: string | null } = {},
+  status?: 'firing' | 'resolved'
+): Promise<DbAlert[]> {
+  const params = new URLSearchParams({ action: 'getAlerts' });
+  if (scope.cluster) params.set('cluster', scope.cluster);
+  if (scope.namespace) params.set('namespace', scope.namespace);
+  if (status) params.set('status', status);
+
+  const response = await fetch(`${getBaseUrl()}?${params.toString()}`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to fetch alerts');
+  }
+
+  const result = await response.json();
+  return result.alerts || [];
+}
+
+// Notification delivery log for one alert, newest first
+export async function fetchAlertDeliveries(alertId: string): Promise<DbAlertDelivery[]> {
+  const params = new URLSearchParams({ action: 'getAlertDeliveries', alertId });
+  const response = await fetch(`${getBaseUrl()}?${params.toString()}`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to fetch alert deliveries');
+  }
+
+  const result = await response.json();
+  return result.deliveries || [];
+}
+
+export async function acknowledgeAlert(alertId: string): Promise<DbAlert> {
+  const params = new URLSearchParams({ action: 'acknowledgeAlert', alertId });
+  const response = await fetch(`${getBaseUrl()}?${params.toString()}`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to acknowledge alert');
+  }
+
+  const result = await response.json();
+  return result.alert;
+}
+
+// Silences the alert (and any re-fire of the same condition) for `minutes`; 0 lifts the silence.
+export async function silenceAlert(alertId: string, minutes: number): Promise<DbAlert> {
+  const params = new URLSearchParams({ action: 'silenceAlert', alertId, minutes: String(minutes) });
+  const response = await fetch(`${getBaseUrl()}?${params.toString()}`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err.error || 'Failed to silence alert');
+  }
+
+  const result = await response.json();
+  return result.alert;
+}
@@ -0,0 +1,31 @@
+import { DimensionImpact, ImpactDimension, ImpactStatus } from '@/types/kubernetes';
+
+const bytesToMiB = (value: number) => value / (1024 * 1024);
+
+// Display order and labels of the version impact dimensions; higher is worse for every one of them
+export const IMPACT_DIMENSIONS: { key: ImpactDimension; label: string; format: (value: number) => string }[] = [
+  { key: 'cpu', label: 'CPU p95', format: (value) => `${value.toFixed(0)}m` },
+  { key: 'memory', label: 'RAM p95', format: (value) => `${bytesToMiB(value).toFixed(1)}Mi` },
+  { key: 'errorRate', label: 'Error logs', format: (value) => `${value.toFixed(1)}/h` },
+  { key: 'exceptionRate', label: 'Exceptions', format: (value) => `${value.toFixed(1)}/h` },
+  { key: 'restartRate', label: 'Restarts', format: (value) => `${value.toFixed(2)}/h` },
+  { key: 'timeToReady', label: 'Time to ready', format: (value) => `${value.toFixed(0)}s` },
+];
+
+// "+12.5%", or "new" for a rate that was zero on the baseline
+export const formatDimensionDelta = (dimension: DimensionImpact): string => {
+  if (dimension.deltaPercent !== null) {
+    return `${dimension.deltaPercent > 0 ? '+' : ''}${dimension.deltaPercent.toFixed(1)}%`;
+  }
+  return dimension.current !== null && dimension.current > 0 && dimension.baseline === 0 ? 'new' : 'n/a';
+};
+
+// Labels of the dimensions with the given verdict, e.g. the reasons behind a degraded pod or container
+export const dimensionsWithStatus = (
+  dimensions: Partial<Record<ImpactDimension, DimensionImpact | ImpactStatus>>,
+  status: ImpactStatus
+): string[] =>
+  IMPACT_DIMENSIONS.filter(({ key }) => {
+    const dimension = dimensions[key];
+    return (typeof dimension === 'string' ? dimension : dimension?.status) === status;
+  }).map(({ label }) => label);
@@ -7,8 +7,12 @@ import {
   Container,
   ContainerSeverity,
   DeploymentGroup,
+  Workload,
+  ContainerStatusEvent,
 } from '@/types/kubernetes';
 
+// A stuck rollout ranks between failing containers (100+) and crashed pods (200)
+const STUCK_ROLLOUT_ATTENTION_SCORE = 150;
 const INITIALIZING_REASONS = new Set(['ContainerCreating', 'PodInitializing']);
 const SIDECAR_HINTS = ['istio', 'istio-proxy', 'vault-agent', 'fluent-bit', 'fluentbit', 'alog'];
 const ERROR_REASONS = new Set([
@@ -34,7 +38,10 @@ export const isSidecarContainer = (container: Container): boolean => {
   return name.includes('sidecar');
 };
 
+// The owner-reference workload when the collector resolved one; label/name heuristics for bare pods and older rows
 export const extractDeploymentName = (pod: Pod): string => {
+  if (pod.workloadName) return pod.workloadName;
+
   const deploymentLabelKeys = [
     'app.kubernetes.io/name',
     'app.kubernetes.io/instance',
@@ -59,6 +66,14 @@ export const extractDeploymentName = (pod: Pod): string => {
   return name;
 };
 
+// Terminated, crash/image/config errors, or restarting over and over; also applied to recorded state changes
+export const isContainerFailure = ({
+  status,
+  reason,
+  restartCount,
+}: Pick<ContainerStatusEvent, 'status' | 'reason' | 'restartCount'>): boolean =>
+  status === 'Terminated' || ERROR_REASONS.has(reason ?? '') || restartCount >= 5;
+
 export const classifyContainerSeverity = (
   container: Container
 ): {
@@ -70,7 +85,7 @@ export const classifyContainerSeverity = (
   const reason = container.lastState?.reason ?? '';
   const isInitializing = INITIALIZING_REASONS.has(reason) || reason.startsWith('Init:');
 
-  if (container.status === 'Terminated' || ERROR_REASONS.has(reason) || container.restartCount >= 5) {
+  if (isContainerFailure({ status: container.status, reason, restartCount: container.restartCount })) {
     return {
       severity: 'error',
       label: reason || 'Container failure',
@@ -135,6 +150,17 @@ export const computePodHealth = (
     };
   }
 
+  // Warning events (FailedScheduling, FailedMount, Unhealthy, Evicted, ...) often
+  // never surface in container statuses or logs.
+  const warningEvents = pod.eventSummary.warnings;
+  if (warningEvents > 0) {
+    return {
+      health: 'warning',
+      attentionScore: Math.max(50 + Math.min(warningEvents, 30), hasErrorLogs ? 60 : 0, maxAssessment.score),
+      attentionReason: pod.eventSummary.lastWarningReason || 'Warning events',
+    };
+  }
+
   if (hasErrorLogs) {
     return { health: 'warning', attentionScore: 60, attentionReason: 'Error logs detected' };
   }
@@ -203,6 +229,8 @@ export const enrichPodWithHealth = (
   };
 };
 
+export const isPodDeleted = (pod: Pod): boolean => pod.deletedAt !== null;
+
 // Group pods by version
 export const groupPodsByVersion = (pods: PodWithHealth[]): VersionGroup[] => {
   const versionMap = new Map<string, PodWithHealth[]>();
@@ -216,10 +244,12 @@ export const groupPodsByVersion = (pods: PodWithHealth[]): VersionGroup[] => {
   const groups: VersionGroup[] = [];
 
   versionMap.forEach((versionPods, version) => {
+    // Deleted pods stay in the group as history but no longer count toward its health
+    const activePods = versionPods.filter((p) => !isPodDeleted(p));
     const healthSummary = {
-      healthy: versionPods.filter((p) => p.health === 'healthy').length,
-      warning: versionPods.filter((p) => p.health === 'warning').length,
-      error: versionPods.filter((p) => p.health === 'error').length,
+      healthy: activePods.filter((p) => p.health === 'healthy').length,
+      warning: activePods.filter((p) => p.health === 'warning').length,
+      error: activePods.filter((p) => p.health === 'error').length,
     };
 
     // Get earliest created date for the version
@@ -263,14 +293,35 @@ export const sortPodsByCreatedDesc = (pods: PodWithHealth[]): PodWithHealth[] =>
   );
 };
 
-export const groupPodsByDeployment = (pods: PodWithHealth[]): DeploymentGroup[] => {
+export const buildDeploymentKey = (cluster: string, namespace: string, name: string): string =>
+  `${cluster}/${namespace}/${name}`;
+
+// Workloads are matched by cluster, namespace and name, and by kind when the pods' owner kind is known
+const findWorkload = (
+  workloads: Workload[],
+  pod: PodWithHealth,
+  name: string
+): Workload | null =>
+  workloads.find(
+    (workload) =>
+      workload.cluster === pod.cluster &&
+      workload.namespace === pod.namespace &&
+      workload.name === name &&
+      (!pod.workloadKind || workload.kind === pod.workloadKind)
+  ) ?? null;
+
+export const groupPodsByDeployment = (pods: PodWithHealth[], workloads: Workload[] = []): DeploymentGroup[] => {
   const grouped = new Map<string, PodWithHealth[]>();
+  const historical = new Map<string, PodWithHealth[]>();
 
+  // Same-named workloads in different clusters/namespaces are distinct deployments.
+  // Deleted pods are attached as history; a deployment whose pods are all deleted is not listed.
   for (const pod of pods) {
-    const key = pod.deploymentName || 'unknown';
-    const list = grouped.get(key) ?? [];
+    const key = buildDeploymentKey(pod.cluster, pod.namespace, pod.deploymentName || 'unknown');
+    const target = isPodDeleted(pod) ? historical : grouped;
+    const list = target.get(key) ?? [];
     list.push(pod);
-    grouped.set(key, list);
+    target.set(key, list);
   }
 
   const healthPriority: Record<HealthStatus, number> = {
@@ -280,21 +331,33 @@ export const groupPodsByDeployment = (pods: PodWithHealth[]): DeploymentGroup[]
   };
 
   const deployments: DeploymentGroup[] = [];
-  for (const [name, deploymentPods] of grouped.entries()) {
+  for (const [key, deploymentPods] of grouped.entries()) {
     const podsSorted = sortPodsByCreatedDesc(deploymentPods);
+    const { cluster, namespace } = podsSorted[0];
+    const name = podsSorted[0].deploymentName || 'unknown';
     const healthSummary = {
       healthy: podsSorted.filter((pod) => pod.health === 'healthy').length,
       warning: podsSorted.filter((pod) => pod.health === 'warning').length,
       error: podsSorted.filter((pod) => pod.health === 'error').length,
     };
+    const workload = findWorkload(workloads, podsSorted[0], name);
+    const rolloutStuck = workload?.rolloutStatus === 'stuck';
     const health: HealthStatus =
-      healthSummary.error > 0 ? 'error' : healthSummary.warning > 0 ? 'warning' : 'healthy';
-    const attentionScore = podsSorted.reduce((max, pod) => Math.max(max, pod.attentionScore), 0);
+      healthSummary.error > 0 ? 'error' : healthSummary.warning > 0 || rolloutStuck ? 'warning' : 'healthy';
+    const attentionScore = podsSorted.reduce(
+      (max, pod) => Math.max(max, pod.attentionScore),
+      rolloutStuck ? STUCK_ROLLOUT_ATTENTION_SCORE : 0
+    );
 
     deployments.push({
-      id: name,
+      id: key,
       name,
+      kind: podsSorted[0].workloadKind,
+      workload,
+      cluster,
+      namespace,
       pods: podsSorted,
+      historicalPods: sortPodsByCreatedDesc(historical.get(key) ?? []),
       health,
       attentionScore,
       latestCreatedAt: podsSorted[0]?.createdAt ?? new Date(0).toISOString(),
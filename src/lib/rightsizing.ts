@@ -0,0 +1,35 @@
+import { RecommendationFlag, ResourceSettings } from '@/types/kubernetes';
+
+const MIB = 1024 * 1024;
+const GIB = 1024 * MIB;
+
+export const RECOMMENDATION_FLAG_LABELS: Record<RecommendationFlag, string> = {
+  noCpuLimit: 'No CPU limit',
+  noMemoryLimit: 'No memory limit',
+  cpuLimitOversized: 'CPU limit far above usage',
+  memoryLimitOversized: 'Memory limit far above usage',
+  cpuRequestLow: 'CPU p95 above request',
+  memoryRequestLow: 'Memory p95 above request',
+};
+
+// Kubernetes quantity strings, e.g. "250m" and "512Mi" / "2Gi"
+export const formatCpuQuantity = (millicores: number) => `${Math.round(millicores)}m`;
+
+export const formatMemoryQuantity = (bytes: number) =>
+  bytes >= GIB && bytes % GIB === 0 ? `${bytes / GIB}Gi` : `${Math.ceil(bytes / MIB)}Mi`;
+
+// `resources:` block of a container spec; unset values are left out
+export const resourcesYaml = (settings: ResourceSettings): string => {
+  const section = (name: string, cpu: number | null, memory: number | null) => {
+    const lines = [
+      cpu !== null && `    cpu: ${formatCpuQuantity(cpu)}`,
+      memory !== null && `    memory: ${formatMemoryQuantity(memory)}`,
+    ].filter((line): line is string => typeof line === 'string');
+    return lines.length > 0 ? [`  ${name}:`, ...lines] : [];
+  };
+  return [
+    'resources:',
+    ...section('requests', settings.cpuRequestMillicores, settings.memoryRequestBytes),
+    ...section('limits', settings.cpuLimitMillicores, settings.memoryLimitBytes),
+  ].join('\n');
+};
@@ -0,0 +1,181 @@
+import { PodStatusEvent, PodWithHealth, VersionGroup } from '@/types/kubernetes';
+import { isContainerFailure } from '@/lib/podHealth';
+
+// Rollouts are detected between consecutive versions; older versions only add noise to the chart
+const MAX_ROLLOUT_VERSIONS = 5;
+
+export type RolloutState = 'complete' | 'in_progress' | 'superseded';
+
+export interface Rollout {
+  fromVersion: string;
+  toVersion: string;
+  startedAt: number;
+  // First moment the new version ran the target number of pods; null until it did
+  availableAt: number | null;
+  // When the last pod of the previous version went away; null while some still run
+  drainedAt: number | null;
+  completedAt: number | null;
+  // End of the surge window: completion, the next rollout's start, or now
+  windowEnd: number;
+  state: RolloutState;
+  targetReplicas: number;
+  // Restarts up to windowEnd, and pods failed (as of windowEnd) or replaced, of the new version's surge pods
+  restarts: number;
+  failedPods: PodWithHealth[];
+  flagged: boolean;
+}
+
+export interface RolloutPoint {
+  time: number;
+  // Live pod count per version key (see buildRolloutSeries)
+  [versionKey: string]: number;
+}
+
+const createdAt = (pod: PodWithHealth) => new Date(pod.createdAt).getTime();
+const deletedAt = (pod: PodWithHealth) => (pod.deletedAt ? new Date(pod.deletedAt).getTime() : null);
+
+const liveCount = (pods: PodWithHealth[], time: number) =>
+  pods.filter((pod) => createdAt(pod) <= time && (deletedAt(pod) ?? Infinity) > time).length;
+
+// Pods that can be the new version of a detected rollout; their status history feeds detectRollouts
+export const rolloutPodIds = (versionGroups: VersionGroup[]): string[] =>
+  versionGroups.slice(0, MAX_ROLLOUT_VERSIONS - 1).flatMap((group) => group.pods.map((pod) => pod.id));
+
+/**
+ * Restarts and failure of a pod as of `time`, from its recorded container state changes (oldest first).
+ * Pods without recorded history only have their live state, which is used while the window is still open.
+ */
+const podStateAt = (pod: PodWithHealth, history: PodStatusEvent[] | undefined, time: number, now: number) => {
+  if (!history || history.length === 0) {
+    return time >= now ? { restarts: pod.restarts, failed: pod.health === 'error' } : { restarts: 0, failed: false };
+  }
+  const latestByContainer = new Map<string, PodStatusEvent>();
+  for (const event of history) {
+    if (new Date(event.timestamp).getTime() > time) break;
+    latestByContainer.set(event.containerId, event);
+  }
+  const states = [...latestByContainer.values()];
+  return {
+    restarts: states.reduce((sum, state) => sum + state.restartCount, 0),
+    failed: states.some(isContainerFailure),
+  };
+};
+
+/**
+ * Rollouts between consecutive versions, reconstructed from pod created/deleted timestamps.
+ * The target is the workload's desired replicas when known, otherwise the previous version's pod count
+ * just before the rollout started. Counts are of existing pods, not ready ones.
+ * Surge restarts and failures come from the pods' status history (see rolloutPodIds) as of the window end.
+ * Returned oldest first.
+ */
+export const detectRollouts = (
+  versionGroups: VersionGroup[],
+  desiredReplicas: number | null = null,
+  now = Date.now(),
+  statusHistory: PodStatusEvent[] = []
+): Rollout[] => {
+  // VersionGroups come newest first
+  const versions = versionGroups.slice(0, MAX_ROLLOUT_VERSIONS).reverse();
+  const rollouts: Rollout[] = [];
+  const historyByPod = new Map<string, PodStatusEvent[]>();
+  for (const event of statusHistory) {
+    const events = historyByPod.get(event.podId) ?? [];
+    events.push(event);
+    historyByPod.set(event.podId, events);
+  }
+
+  for (let index = 1; index < versions.length; index += 1) {
+    const previous = versions[index - 1];
+    const next = versions[index];
+    const nextPods = next.pods;
+    if (nextPods.length === 0) continue;
+
+    const startedAt = Math.min(...nextPods.map(createdAt));
+    const targetReplicas = Math.max(1, desiredReplicas ?? liveCount(previous.pods, startedAt - 1));
+
+    const availableAt =
+      [...nextPods]
+        .map(createdAt)
+        .sort((a, b) => a - b)
+        .find((time) => liveCount(nextPods, time) >= targetReplicas) ?? null;
+    const previousDeletions = previous.pods.map(deletedAt);
+    const drainedAt = previousDeletions.every((time) => time !== null)
+      ? Math.max(...(previousDeletions as number[]))
+      : null;
+    const completedAt = availableAt !== null && drainedAt !== null ? Math.max(availableAt, drainedAt) : null;
+
+    const nextRolloutStart =
+      index + 1 < versions.length && versions[index + 1].pods.length > 0
+        ? Math.min(...versions[index + 1].pods.map(createdAt))
+        : null;
+    const windowEnd = completedAt ?? nextRolloutStart ?? now;
+
+    const surgePods = nextPods.filter((pod) => createdAt(pod) >= startedAt && createdAt(pod) <= windowEnd);
+    const surgeStates = surgePods.map((pod) => ({
+      pod,
+      ...podStateAt(pod, historyByPod.get(pod.id), windowEnd, now),
+    }));
+    const restarts = surgeStates.reduce((sum, state) => sum + state.restarts, 0);
+    // New pods that had failed at the window end, or were removed again before the rollout finished
+    const failedPods = surgeStates
+      .filter(({ pod, failed }) => {
+        const removedAt = deletedAt(pod);
+        return failed || (removedAt !== null && removedAt <= windowEnd);
+      })
+      .map(({ pod }) => pod);
+
+    rollouts.push({
+      fromVersion: previous.version,
+      toVersion: next.version,
+      startedAt,
+      availableAt,
+      drainedAt,
+      completedAt,
+      windowEnd,
+      state: completedAt !== null ? 'complete' : nextRolloutStart !== null ? 'superseded' : 'in_progress',
+      targetReplicas,
+      restarts,
+      failedPods,
+      flagged: restarts > 0 || failedPods.length > 0,
+    });
+  }
+
+  return rollouts;
+};
+
+/**
+ * Step series of live pods per version between `from` and `to`, one point per pod created/deleted in between.
+ * Versions are keyed v0, v1, ... (version strings are not safe CSS variable names for the chart colors).
+ */
+export const buildRolloutSeries = (
+  versionGroups: VersionGroup[],
+  from: number,
+  to: number
+): { versionKeys: Record<string, string>; points: RolloutPoint[] } => {
+  const versions = versionGroups.slice(0, MAX_ROLLOUT_VERSIONS).reverse();
+  const versionKeys: Record<string, string> = {};
+  versions.forEach((group, index) => {
+    versionKeys[`v${index}`] = group.version;
+  });
+
+  const times = new Set<number>([from, to]);
+  for (const group of versions) {
+    for (const pod of group.pods) {
+      for (const time of [createdAt(pod), deletedAt(pod)]) {
+        if (time !== null && time > from && time < to) times.add(time);
+      }
+    }
+  }
+
+  const points = [...times]
+    .sort((a, b) => a - b)
+    .map((time) => {
+      const point: RolloutPoint = { time };
+      versions.forEach((group, index) => {
+        point[`v${index}`] = liveCount(group.pods, time);
+      });
+      return point;
+    });
+
+  return { versionKeys, points };
+};
@@ -0,0 +1,66 @@
+import { LogEntry } from '@/types/kubernetes';
+
+// Same patterns the API uses for the exceptions filter and exception_count
+export const EXCEPTION_PATTERN = /(exception|stacktrace|traceback|(^|\s)at\s+\S+)/i;
+export const STACK_CONTINUATION_PATTERN = /^(\s+|Caused by:|Suppressed:|\.\.\. [0-9]+ more|goroutine [0-9]+ \[|at [^ ]+\()/;
+
+// Go frames after a "goroutine N [running]:" header are not indented: "main.main()", "created by main.run"
+const GO_FRAME_PATTERN = /^(created by )?[\w./*()[\]{}-]+\(.*\)( in goroutine \d+)?$/;
+const PYTHON_TRACEBACK_PATTERN = /^Traceback \(most recent call last\)/;
+// Last line of a Python traceback: "ValueError: bad input", "KeyboardInterrupt"
+const PYTHON_EXCEPTION_LINE_PATTERN = /^[A-Za-z_][\w.]*(Error|Exception|Exit|Interrupt|Warning)\b/;
+const PYTHON_CHAINED_PATTERN = /^(During handling of the above exception|The above exception was the direct cause)/;
+// Continuation lines are written in one burst; anything later belongs to a new entry
+const CONTINUATION_MAX_GAP_MS = 1000;
+
+export interface LogGroup {
+  head: LogEntry;
+  // Stack frames and other continuation lines that follow `head`, oldest first
+  continuation: LogEntry[];
+}
+
+// A line that starts a new exception, as opposed to a frame/cause line inside one.
+export const isExceptionHead = (message: string): boolean =>
+  EXCEPTION_PATTERN.test(message) && !STACK_CONTINUATION_PATTERN.test(message);
+
+const isContinuation = (group: LogGroup, log: LogEntry): boolean => {
+  const previous = group.continuation[group.continuation.length - 1] ?? group.head;
+  const gapMs = new Date(log.timestamp).getTime() - new Date(previous.timestamp).getTime();
+  if (!(gapMs >= 0 && gapMs <= CONTINUATION_MAX_GAP_MS)) return false;
+
+  if (STACK_CONTINUATION_PATTERN.test(log.message)) return true;
+
+  // logger.exception() writes the error message first, then the traceback
+  if (PYTHON_TRACEBACK_PATTERN.test(log.message)) {
+    return previous.level === 'error' || previous.level === 'fatal' || PYTHON_CHAINED_PATTERN.test(previous.message);
+  }
+
+  const lines = [group.head, ...group.continuation];
+  if (lines.some((line) => line.message.startsWith('goroutine '))) {
+    return GO_FRAME_PATTERN.test(log.message);
+  }
+  if (lines.some((line) => PYTHON_TRACEBACK_PATTERN.test(line.message))) {
+    // Python prints the exception itself after the indented frames
+    return (
+      PYTHON_CHAINED_PATTERN.test(log.message) ||
+      (/^\s/.test(previous.message) && PYTHON_EXCEPTION_LINE_PATTERN.test(log.message))
+    );
+  }
+  return false;
+};
+
+// Folds multi-line stack traces (Java/JS "at ..." frames, "Caused by:", Python tracebacks,
+// Go goroutine dumps) that were collected as separate rows into their head line.
+// Expects logs oldest-first.
+export const groupStackTraces = (logs: LogEntry[]): LogGroup[] => {
+  const groups: LogGroup[] = [];
+  for (const log of logs) {
+    const current = groups[groups.length - 1];
+    if (current && isContinuation(current, log)) {
+      current.continuation.push(log);
+    } else {
+      groups.push({ head: log, continuation: [] });
+    }
+  }
+  return groups;
+};
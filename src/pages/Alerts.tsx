@@ -0,0 +1,307 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { ArrowLeft, BellOff, Check, CheckCircle2, ChevronDown, ChevronRight, Loader2, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import { useAlertActions, useAlertDeliveries, useAlerts, useSession } from '@/hooks/useKubernetesData';
+import { usePodScope } from '@/hooks/usePodScope';
+import { buildDashboardPath } from '@/hooks/useDashboardRoute';
+import { ALERT_RULE_LABELS, isAlertActionable, isAlertSilenced } from '@/lib/alerts';
+import { hasRole } from '@/lib/auth';
+import { Alert } from '@/types/kubernetes';
+import { ScopeSelector } from '@/components/ScopeSelector';
+import { SessionMenu } from '@/components/SessionMenu';
+
+const STATUS_FILTERS = [
+  { value: 'firing', label: 'Firing' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'all', label: 'All' },
+] as const;
+
+type StatusFilter = (typeof STATUS_FILTERS)[number]['value'];
+
+const SILENCE_OPTIONS = [
+  { label: '1 hour', minutes: 60 },
+  { label: '4 hours', minutes: 4 * 60 },
+  { label: '24 hours', minutes: 24 * 60 },
+  { label: '7 days', minutes: 7 * 24 * 60 },
+];
+
+const SEVERITY_STYLES: Record<Alert['severity'], string> = {
+  critical: 'bg-[hsl(var(--status-error)/0.15)] text-[hsl(var(--status-error))]',
+  warning: 'bg-[hsl(var(--status-warning)/0.15)] text-[hsl(var(--status-warning))]',
+  info: 'bg-secondary text-muted-foreground',
+};
+
+const AlertDeliveries = ({ alertId }: { alertId: string }) => {
+  const { data: deliveries = [], isLoading, error } = useAlertDeliveries(alertId);
+
+  if (isLoading) return <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />;
+  if (error) return <p className="text-xs text-destructive">Failed to load notifications: {error.message}</p>;
+  if (deliveries.length === 0) {
+    return <p className="text-xs text-muted-foreground">No notifications sent for this alert.</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-[11px]">
+      {deliveries.map((delivery) => (
+        <li key={delivery.id} className="flex items-center gap-2">
+          <span
+            className={cn(
+              'w-14 shrink-0 font-medium',
+              delivery.status === 'sent' ? 'text-[hsl(var(--status-ready))]' : 'text-[hsl(var(--status-error))]'
+            )}
+          >
+            {delivery.status}
+          </span>
+          <span className="font-mono">{delivery.notifierId}</span>
+          <span className="text-muted-foreground">
+            {delivery.notifierType} · {delivery.event} · {delivery.attempts} attempt{delivery.attempts !== 1 ? 's' : ''}
+          </span>
+          {delivery.error && (
+            <span className="text-[hsl(var(--status-error))] truncate" title={delivery.error}>
+              {delivery.error}
+            </span>
+          )}
+          <span className="ml-auto text-muted-foreground shrink-0" title={format(new Date(delivery.createdAt), 'PPpp')}>
+            {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const AlertRow = ({ alert, showScope }: { alert: Alert; showScope: boolean }) => {
+  const { acknowledge, silence } = useAlertActions();
+  const { data: session } = useSession();
+  // Acknowledging and silencing need the operator role
+  const canOperate = hasRole(session, 'operator');
+  const [showDeliveries, setShowDeliveries] = useState(false);
+  const silenced = isAlertSilenced(alert);
+  const firing = alert.status === 'firing';
+  const target = [alert.deploymentName, alert.podName, alert.containerName].filter(Boolean).join(' / ');
+  const targetPath =
+    alert.deploymentName && alert.podName
+      ? `${buildDashboardPath(
+          { cluster: alert.cluster, namespace: alert.namespace, name: alert.deploymentName },
+          alert.podName,
+          alert.containerName
+        )}?${new URLSearchParams({
+          cluster: alert.cluster,
+          namespace: alert.namespace,
+        })}`
+      : null;
+
+  const onError = (error: Error) => toast.error(error.message);
+
+  return (
+    <li
+      className={cn(
+        'rounded-xl border bg-card p-3 text-sm',
+        isAlertActionable(alert) ? 'border-[hsl(var(--status-error)/0.45)]' : 'border-border',
+        !firing && 'opacity-75'
+      )}
+    >
+      <div className="flex items-start gap-3">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className={cn('px-1.5 py-0.5 rounded text-[10px] font-medium uppercase', SEVERITY_STYLES[alert.severity])}>
+              {alert.severity}
+            </span>
+            <span className="px-1.5 py-0.5 rounded bg-secondary text-muted-foreground text-[10px]">
+              {ALERT_RULE_LABELS[alert.ruleType] ?? alert.ruleType}
+            </span>
+            <span className="font-medium">{alert.title}</span>
+          </div>
+          {alert.message && <p className="mt-1 text-xs text-muted-foreground break-words">{alert.message}</p>}
+          <div className="mt-1.5 flex items-center gap-2 flex-wrap text-[11px] text-muted-foreground">
+            {showScope && (
+              <span>
+                {alert.cluster}/{alert.namespace}
+              </span>
+            )}
+            {targetPath ? (
+              <Link to={targetPath} className="font-mono hover:text-foreground hover:underline">
+                {target}
+              </Link>
+            ) : (
+              target && <span className="font-mono">{target}</span>
+            )}
+            <span title={format(new Date(alert.startedAt), 'PPpp')}>
+              started {formatDistanceToNow(new Date(alert.startedAt), { addSuffix: true })}
+            </span>
+            {alert.resolvedAt ? (
+              <span className="flex items-center gap-1 text-[hsl(var(--status-ready))]">
+                <CheckCircle2 className="w-3 h-3" />
+                resolved {formatDistanceToNow(new Date(alert.resolvedAt), { addSuffix: true })}
+              </span>
+            ) : (
+              <span title={format(new Date(alert.lastSeenAt), 'PPpp')}>
+                last seen {formatDistanceToNow(new Date(alert.lastSeenAt), { addSuffix: true })}
+              </span>
+            )}
+            {alert.acknowledgedAt && (
+              <span className="flex items-center gap-1">
+                <Check className="w-3 h-3" />
+                acknowledged {formatDistanceToNow(new Date(alert.acknowledgedAt), { addSuffix: true })}
+              </span>
+            )}
+            {silenced && alert.silencedUntil && (
+              <span className="flex items-center gap-1" title={format(new Date(alert.silencedUntil), 'PPpp')}>
+                <BellOff className="w-3 h-3" />
+                silenced until {format(new Date(alert.silencedUntil), 'MMM d, HH:mm')}
+              </span>
+            )}
+            <button
+              onClick={() => setShowDeliveries((prev) => !prev)}
+              className="flex items-center gap-1 hover:text-foreground"
+            >
+              {showDeliveries ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+              <Send className="w-3 h-3" />
+              notifications
+            </button>
+          </div>
+          {showDeliveries && (
+            <div className="mt-2 pt-2 border-t border-border">
+              <AlertDeliveries alertId={alert.id} />
+            </div>
+          )}
+        </div>
+
+        {firing && canOperate && (
+          <div className="flex items-center gap-2 shrink-0">
+            {!alert.acknowledgedAt && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={acknowledge.isPending}
+                onClick={() => acknowledge.mutate(alert.id, { onError })}
+              >
+                <Check className="w-4 h-4 mr-1.5" />
+                Acknowledge
+              </Button>
+            )}
+            {silenced ? (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={silence.isPending}
+                onClick={() => silence.mutate({ alertId: alert.id, minutes: 0 }, { onError })}
+              >
+                Unsilence
+              </Button>
+            ) : (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={silence.isPending}>
+                    <BellOff className="w-4 h-4 mr-1.5" />
+                    Silence
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {SILENCE_OPTIONS.map((option) => (
+                    <DropdownMenuItem
+                      key={option.minutes}
+                      onSelect={() => silence.mutate({ alertId: alert.id, minutes: option.minutes }, { onError })}
+                    >
+                      {option.label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+        )}
+      </div>
+    </li>
+  );
+};
+
+const Alerts = () => {
+  const { scope, setScope, scopeSearch } = usePodScope();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('firing');
+  const { data: alerts = [], isLoading, error } = useAlerts(scope);
+
+  const counts = useMemo(
+    () => ({
+      firing: alerts.filter((alert) => alert.status === 'firing').length,
+      resolved: alerts.filter((alert) => alert.status === 'resolved').length,
+      all: alerts.length,
+    }),
+    [alerts]
+  );
+  const visibleAlerts = useMemo(
+    () => (statusFilter === 'all' ? alerts : alerts.filter((alert) => alert.status === statusFilter)),
+    [alerts, statusFilter]
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/80 backdrop-blur-sm sticky top-0 z-20">
+        <div className="container mx-auto px-4 py-2.5 flex items-center justify-between gap-3">
+          <h1 className="text-lg font-bold">Alerts</h1>
+          <div className="flex items-center gap-2">
+            <ScopeSelector scope={scope} onChange={setScope} />
+            <Button asChild variant="outline" size="sm">
+              <Link to={`/${scopeSearch}`}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Dashboard
+              </Link>
+            </Button>
+            <SessionMenu />
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-3 space-y-3">
+        <div className="flex items-center gap-1">
+          {STATUS_FILTERS.map((filter) => (
+            <button
+              key={filter.value}
+              onClick={() => setStatusFilter(filter.value)}
+              className={cn(
+                'px-3 py-1 rounded-md text-xs font-medium transition-colors',
+                statusFilter === filter.value
+                  ? 'bg-primary/15 text-primary'
+                  : 'text-muted-foreground hover:bg-secondary hover:text-foreground'
+              )}
+            >
+              {filter.label} ({counts[filter.value]})
+            </button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12 text-muted-foreground">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <div className="rounded-xl border border-[hsl(var(--status-error)/0.4)] bg-[hsl(var(--status-error)/0.08)] p-4 text-sm text-[hsl(var(--status-error))]">
+            Failed to load alerts: {error.message}
+          </div>
+        ) : visibleAlerts.length === 0 ? (
+          <div className="rounded-xl border border-border bg-card p-8 text-center text-sm text-muted-foreground">
+            {statusFilter === 'firing' ? 'No alerts are firing.' : 'No alerts recorded yet.'}
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {visibleAlerts.map((alert) => (
+              <AlertRow key={alert.id} alert={alert} showScope={!scope.namespace} />
+            ))}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Alerts;
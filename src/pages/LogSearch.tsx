@@ -0,0 +1,424 @@
+import { FormEvent, UIEvent, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, EyeOff, Loader2, Search, SearchX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import {
+  LogSearchFilters,
+  useLogSearch,
+  useLogSearchFacets,
+  usePods,
+} from '@/hooks/useKubernetesData';
+import { usePodScope } from '@/hooks/usePodScope';
+import { LogFocus, LogSearchHit, PodWithHealth } from '@/types/kubernetes';
+import { enrichPodWithHealth, groupPodsByDeployment } from '@/lib/podHealth';
+import { ScopeSelector } from '@/components/ScopeSelector';
+import { PodDetailPanel } from '@/components/PodDetailPanel';
+
+const TIME_RANGES = [
+  { value: '15m', label: 'Last 15 minutes', minutes: 15 },
+  { value: '1h', label: 'Last hour', minutes: 60 },
+  { value: '6h', label: 'Last 6 hours', minutes: 6 * 60 },
+  { value: '24h', label: 'Last 24 hours', minutes: 24 * 60 },
+  { value: '7d', label: 'Last 7 days', minutes: 7 * 24 * 60 },
+  { value: 'all', label: 'All retained logs', minutes: null },
+] as const;
+
+type TimeRange = (typeof TIME_RANGES)[number]['value'];
+
+const resolveFrom = (range: TimeRange): string | null => {
+  const minutes = TIME_RANGES.find((item) => item.value === range)?.minutes ?? null;
+  return minutes === null ? null : new Date(Date.now() - minutes * 60 * 1000).toISOString();
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const HighlightedMessage = ({ message, query }: { message: string; query: string }) => {
+  if (!query) return <>{message}</>;
+  const parts = message.split(new RegExp(`(${escapeRegExp(query)})`, 'gi'));
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.toLowerCase() === query.toLowerCase() ? (
+          <mark key={index} className="bg-[hsl(var(--status-warning)/0.35)] text-foreground rounded-sm">
+            {part}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </>
+  );
+};
+
+const FacetButton = ({
+  label,
+  count,
+  active,
+  onClick,
+}: {
+  label: string;
+  count: number;
+  active: boolean;
+  onClick: () => void;
+}) => (
+  <button
+    onClick={onClick}
+    className={cn(
+      'w-full flex items-center justify-between gap-2 px-2 py-1 rounded text-xs text-left',
+      active ? 'bg-primary/15 text-primary' : 'hover:bg-secondary text-foreground'
+    )}
+  >
+    <span className="truncate font-mono">{label}</span>
+    <span className="text-muted-foreground shrink-0">{count}</span>
+  </button>
+);
+
+const LogSearch = () => {
+  const { scope, setScope, scopeSearch } = usePodScope();
+  // Deleted pods are included so hits from them can still be opened
+  const { data: rawPods = [], isLoading: podsLoading } = usePods(scope, { includeDeleted: true });
+  const containerLogsMap = useMemo(() => new Map<string, []>(), []);
+
+  const [queryInput, setQueryInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [timeRange, setTimeRange] = useState<TimeRange>('1h');
+  const [from, setFrom] = useState<string | null>(() => resolveFrom('1h'));
+  const [deploymentId, setDeploymentId] = useState<string | null>(null);
+  const [podId, setPodId] = useState<string | null>(null);
+  const [containerId, setContainerId] = useState<string | null>(null);
+  const [focus, setFocus] = useState<(LogFocus & { podId: string }) | null>(null);
+
+  const podsWithHealth: PodWithHealth[] = useMemo(
+    () => rawPods.map((pod) => enrichPodWithHealth(pod, containerLogsMap)),
+    [rawPods, containerLogsMap]
+  );
+  const deployments = useMemo(() => groupPodsByDeployment(podsWithHealth), [podsWithHealth]);
+  const selectedDeployment = deployments.find((deployment) => deployment.id === deploymentId) ?? null;
+  const selectedPod = podsWithHealth.find((pod) => pod.id === podId) ?? null;
+
+  // Query, time range and cluster/namespace; facet counts are computed over this base.
+  const baseFilters: LogSearchFilters | null = useMemo(
+    () =>
+      query
+        ? { query, from, cluster: scope.cluster, namespace: scope.namespace }
+        : null,
+    [query, from, scope.cluster, scope.namespace]
+  );
+
+  const resultFilters: LogSearchFilters | null = useMemo(() => {
+    if (!baseFilters) return null;
+    if (containerId) return { ...baseFilters, containerIds: [containerId] };
+    if (podId) return { ...baseFilters, podIds: [podId] };
+    if (selectedDeployment) return { ...baseFilters, podIds: selectedDeployment.pods.map((pod) => pod.id) };
+    return baseFilters;
+  }, [baseFilters, containerId, podId, selectedDeployment]);
+
+  const {
+    logs,
+    isLoading,
+    error,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useLogSearch(resultFilters);
+  const { data: facets } = useLogSearchFacets(baseFilters);
+
+  // Newest first, interleaved across every matching container
+  const hits = useMemo(() => [...logs].reverse(), [logs]);
+
+  const hitsByContainerId = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const row of facets?.containers ?? []) {
+      counts.set(row.container_id, Number(row.hit_count));
+    }
+    return counts;
+  }, [facets]);
+
+  const countForPod = (pod: PodWithHealth) =>
+    pod.containers.reduce((sum, container) => sum + (hitsByContainerId.get(container.id) ?? 0), 0);
+
+  const deploymentFacets = deployments
+    .map((deployment) => ({
+      deployment,
+      count: deployment.pods.reduce((sum, pod) => sum + countForPod(pod), 0),
+    }))
+    .filter((item) => item.count > 0)
+    .sort((a, b) => b.count - a.count);
+
+  const podFacets = (selectedDeployment ? selectedDeployment.pods : podsWithHealth)
+    .map((pod) => ({ pod, count: countForPod(pod) }))
+    .filter((item) => item.count > 0)
+    .sort((a, b) => b.count - a.count);
+
+  const containerFacets = (selectedPod?.containers ?? [])
+    .map((container) => ({ container, count: hitsByContainerId.get(container.id) ?? 0 }))
+    .filter((item) => item.count > 0);
+
+  const focusedPod = focus ? podsWithHealth.find((pod) => pod.id === focus.podId) ?? null : null;
+
+  const submitSearch = (event: FormEvent) => {
+    event.preventDefault();
+    setQuery(queryInput.trim());
+    setFrom(resolveFrom(timeRange));
+    setFocus(null);
+  };
+
+  const changeTimeRange = (range: TimeRange) => {
+    setTimeRange(range);
+    setFrom(resolveFrom(range));
+  };
+
+  const selectDeployment = (id: string | null) => {
+    setDeploymentId(id);
+    setPodId(null);
+    setContainerId(null);
+  };
+
+  const selectPod = (id: string | null) => {
+    setPodId(id);
+    setContainerId(null);
+  };
+
+  const openHit = (hit: LogSearchHit) => {
+    setFocus({ podId: hit.podId, containerId: hit.containerId, logId: hit.id, timestamp: hit.timestamp });
+  };
+
+  const handleResultsScroll = (event: UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollHeight, clientHeight } = event.currentTarget;
+    if (scrollHeight - scrollTop - clientHeight < 120 && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/80 backdrop-blur-sm sticky top-0 z-20">
+        <div className="container mx-auto px-4 py-2.5 flex items-center justify-between gap-3">
+          <h1 className="text-lg font-bold">Log Search</h1>
+          <div className="flex items-center gap-2">
+            <ScopeSelector scope={scope} onChange={setScope} />
+            <Button asChild variant="outline" size="sm">
+              <Link to={`/${scopeSearch}`}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Dashboard
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-3 space-y-3">
+        <form onSubmit={submitSearch} className="rounded-xl border border-border bg-card p-3 flex flex-wrap items-center gap-2">
+          <div className="relative flex-1 min-w-[240px]">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder='Search all containers, e.g. "connection refused"'
+              value={queryInput}
+              onChange={(e) => setQueryInput(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+          <select
+            value={timeRange}
+            onChange={(e) => changeTimeRange(e.target.value as TimeRange)}
+            className="bg-background border border-border rounded px-2 py-2 text-[13px]"
+          >
+            {TIME_RANGES.map((range) => (
+              <option key={range.value} value={range.value}>
+                {range.label}
+              </option>
+            ))}
+          </select>
+          <Button type="submit" size="sm" disabled={!queryInput.trim()}>
+            Search
+          </Button>
+        </form>
+
+        <div className="grid grid-cols-12 gap-3 items-start">
+          <aside className="col-span-3 rounded-xl border border-border bg-card p-3 space-y-4">
+            <div>
+              <div className="flex items-center justify-between mb-1.5">
+                <h3 className="text-[11px] uppercase tracking-wide text-muted-foreground">Deployments</h3>
+                {deploymentId && (
+                  <button onClick={() => selectDeployment(null)} className="text-[11px] text-primary hover:underline">
+                    clear
+                  </button>
+                )}
+              </div>
+              {deploymentFacets.length === 0 ? (
+                <p className="text-xs text-muted-foreground">{query ? 'No hits' : 'Run a search to see hits'}</p>
+              ) : (
+                deploymentFacets.map(({ deployment, count }) => (
+                  <FacetButton
+                    key={deployment.id}
+                    label={scope.namespace ? deployment.name : `${deployment.namespace}/${deployment.name}`}
+                    count={count}
+                    active={deployment.id === deploymentId}
+                    onClick={() => selectDeployment(deployment.id === deploymentId ? null : deployment.id)}
+                  />
+                ))
+              )}
+            </div>
+
+            {podFacets.length > 0 && (
+              <div>
+                <div className="flex items-center justify-between mb-1.5">
+                  <h3 className="text-[11px] uppercase tracking-wide text-muted-foreground">Pods</h3>
+                  {podId && (
+                    <button onClick={() => selectPod(null)} className="text-[11px] text-primary hover:underline">
+                      clear
+                    </button>
+                  )}
+                </div>
+                {podFacets.map(({ pod, count }) => (
+                  <FacetButton
+                    key={pod.id}
+                    label={pod.name}
+                    count={count}
+                    active={pod.id === podId}
+                    onClick={() => selectPod(pod.id === podId ? null : pod.id)}
+                  />
+                ))}
+              </div>
+            )}
+
+            {containerFacets.length > 0 && (
+              <div>
+                <div className="flex items-center justify-between mb-1.5">
+                  <h3 className="text-[11px] uppercase tracking-wide text-muted-foreground">Containers</h3>
+                  {containerId && (
+                    <button onClick={() => setContainerId(null)} className="text-[11px] text-primary hover:underline">
+                      clear
+                    </button>
+                  )}
+                </div>
+                {containerFacets.map(({ container, count }) => (
+                  <FacetButton
+                    key={container.id}
+                    label={container.name}
+                    count={count}
+                    active={container.id === containerId}
+                    onClick={() => setContainerId(container.id === containerId ? null : container.id)}
+                  />
+                ))}
+              </div>
+            )}
+
+            {facets?.truncated && (
+              <p className="text-[11px] text-muted-foreground">Counts are capped; narrow the query or time range for exact numbers.</p>
+            )}
+          </aside>
+
+          <section
+            className={cn(
+              'rounded-xl border border-border bg-card overflow-hidden',
+              focus ? 'col-span-5' : 'col-span-9'
+            )}
+          >
+            <div
+              onScroll={handleResultsScroll}
+              className="max-h-[calc(100vh-12rem)] overflow-y-auto scrollbar-thin font-mono text-xs"
+            >
+              {!query ? (
+                <div className="p-8 text-center text-muted-foreground font-sans text-sm">
+                  Search the logs of every container in the selected cluster/namespace.
+                </div>
+              ) : isLoading || podsLoading ? (
+                <div className="p-8 flex justify-center text-muted-foreground">
+                  <Loader2 className="w-6 h-6 animate-spin" />
+                </div>
+              ) : error ? (
+                <div className="p-4 text-destructive font-sans text-sm">Search failed: {error.message}</div>
+              ) : hits.length === 0 ? (
+                <div className="p-8 text-center text-muted-foreground font-sans text-sm">
+                  <SearchX className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                  No matching log lines.
+                </div>
+              ) : (
+                <>
+                  {hits.map((hit) => (
+                    <button
+                      key={hit.id}
+                      onClick={() => openHit(hit)}
+                      className={cn(
+                        'w-full text-left px-3 py-1.5 border-b border-border/50 hover:bg-secondary/60',
+                        focus?.logId === hit.id && 'bg-primary/10'
+                      )}
+                    >
+                      <div className="flex items-center gap-2 mb-0.5 font-sans">
+                        <span className="text-muted-foreground font-mono">
+                          {format(new Date(hit.timestamp), 'MM-dd HH:mm:ss.SSS')}
+                        </span>
+                        <span
+                          className={cn(
+                            'text-[10px] px-1 rounded uppercase',
+                            hit.level === 'fatal' && 'bg-[hsl(var(--status-error))] text-white',
+                            hit.level === 'error' && 'bg-[hsl(var(--status-error)/0.15)] text-[hsl(var(--status-error))]',
+                            hit.level === 'warn' && 'bg-[hsl(var(--status-warning)/0.15)] text-[hsl(var(--status-warning))]',
+                            (hit.level === 'info' || hit.level === 'debug') && 'bg-secondary text-muted-foreground'
+                          )}
+                        >
+                          {hit.level}
+                        </span>
+                        <span className="text-[10px] px-1.5 rounded bg-primary/10 text-primary truncate max-w-[40%]">
+                          {hit.podName}
+                        </span>
+                        <span className="text-[10px] px-1.5 rounded bg-secondary text-muted-foreground truncate">
+                          {hit.containerName}
+                        </span>
+                        {hit.redactions && hit.redactions.length > 0 && (
+                          <span
+                            className="flex items-center gap-0.5 text-[10px] px-1 rounded bg-[hsl(var(--status-warning)/0.15)] text-[hsl(var(--status-warning))]"
+                            title={`Redacted at ingest: ${hit.redactions.join(', ')}`}
+                          >
+                            <EyeOff className="w-3 h-3" />
+                            redacted
+                          </span>
+                        )}
+                      </div>
+                      <div className="break-all line-clamp-3">
+                        <HighlightedMessage message={hit.message} query={query} />
+                      </div>
+                    </button>
+                  ))}
+                  <div className="py-2 text-center text-[11px] text-muted-foreground font-sans">
+                    {isFetchingNextPage ? (
+                      <Loader2 className="w-4 h-4 animate-spin mx-auto" />
+                    ) : hasNextPage ? (
+                      <button onClick={() => fetchNextPage()} className="text-primary hover:underline">
+                        Load older results
+                      </button>
+                    ) : (
+                      'No older results'
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          </section>
+
+          {focus && (
+            <section className="col-span-4">
+              {focusedPod ? (
+                <PodDetailPanel
+                  pod={focusedPod}
+                  focusLog={focus}
+                  onClose={() => setFocus(null)}
+                />
+              ) : (
+                <div className="rounded-xl border border-border bg-card p-4 text-sm text-muted-foreground">
+                  This pod is no longer in the current scope.
+                </div>
+              )}
+            </section>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default LogSearch;
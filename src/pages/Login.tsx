@@ -0,0 +1,72 @@
+import { FormEvent, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { KeyRound, Layers, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { fetchSession } from '@/lib/database';
+import { clearApiToken, setApiToken } from '@/lib/auth';
+
+const Login = () => {
+  const queryClient = useQueryClient();
+  const [token, setToken] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const onSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!token.trim()) return;
+    setSubmitting(true);
+    setError(null);
+    setApiToken(token.trim());
+    try {
+      const session = await fetchSession();
+      if (!session) {
+        clearApiToken();
+        setError('This token is invalid, expired or revoked.');
+        return;
+      }
+      // Drop anything cached for the previous token
+      await queryClient.resetQueries();
+    } catch (err) {
+      clearApiToken();
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <form onSubmit={onSubmit} className="w-full max-w-sm rounded-xl border border-border bg-card p-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+            <Layers className="w-6 h-6 text-primary" />
+          </div>
+          <div>
+            <h1 className="text-lg font-bold">Kubernetes Monitor</h1>
+            <p className="text-xs text-muted-foreground">Sign in with an API token</p>
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          <Input
+            type="password"
+            autoFocus
+            placeholder="API token"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+          />
+          <p className="text-[11px] text-muted-foreground">
+            Ask an admin for a token (<code className="font-mono">npm run tokens -- create</code>).
+          </p>
+        </div>
+        {error && <p className="text-xs text-[hsl(var(--status-error))]">{error}</p>}
+        <Button type="submit" className="w-full" disabled={submitting || !token.trim()}>
+          {submitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <KeyRound className="w-4 h-4 mr-2" />}
+          Sign in
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default Login;
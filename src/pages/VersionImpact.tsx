@@ -3,12 +3,15 @@ import { Link } from 'react-router-dom';
 import { ArrowLeft, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { usePods } from '@/hooks/useKubernetesData';
+import { usePodScope } from '@/hooks/usePodScope';
 import { PodWithHealth } from '@/types/kubernetes';
 import { enrichPodWithHealth, groupPodsByDeployment } from '@/lib/podHealth';
 import { VersionImpactPanel } from '@/components/VersionImpactPanel';
+import { ScopeSelector } from '@/components/ScopeSelector';
 
 const VersionImpact = () => {
-  const { data: rawPods = [], isLoading, error } = usePods();
+  const { scope, setScope, scopeSearch } = usePodScope();
+  const { data: rawPods = [], isLoading, error } = usePods(scope);
   const [selectedDeploymentId, setSelectedDeploymentId] = useState<string | null>(null);
   const containerLogsMap = useMemo(() => new Map<string, []>(), []);
 
@@ -20,8 +23,9 @@ const VersionImpact = () => {
   const deployments = useMemo(() => groupPodsByDeployment(podsWithHealth), [podsWithHealth]);
 
   useEffect(() => {
-    if (!selectedDeploymentId && deployments[0]) {
-      setSelectedDeploymentId(deployments[0].id);
+    const exists = deployments.some((deployment) => deployment.id === selectedDeploymentId);
+    if (!exists) {
+      setSelectedDeploymentId(deployments[0]?.id ?? null);
     }
   }, [deployments, selectedDeploymentId]);
 
@@ -41,12 +45,15 @@ const VersionImpact = () => {
       <header className="border-b border-border bg-card/80 backdrop-blur-sm sticky top-0 z-20">
         <div className="container mx-auto px-4 py-2.5 flex items-center justify-between gap-3">
           <h1 className="text-lg font-bold">Version Impact</h1>
-          <Button asChild variant="outline" size="sm">
-            <Link to="/">
-              <ArrowLeft className="w-4 h-4 mr-2" />
-              Back to Dashboard
-            </Link>
-          </Button>
+          <div className="flex items-center gap-2">
+            <ScopeSelector scope={scope} onChange={setScope} />
+            <Button asChild variant="outline" size="sm">
+              <Link to={`/${scopeSearch}`}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Dashboard
+              </Link>
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -66,13 +73,14 @@ const VersionImpact = () => {
               >
                 {deployments.map((deployment) => (
                   <option key={deployment.id} value={deployment.id}>
-                    {deployment.name}
+                    {scope.namespace ? deployment.name : `${deployment.name} (${deployment.cluster}/${deployment.namespace})`}
                   </option>
                 ))}
               </select>
             </div>
 
-            <VersionImpactPanel deployment={selectedDeployment} />
+            {/* Keyed so version selections do not carry over to another deployment */}
+            <VersionImpactPanel key={selectedDeployment?.id} deployment={selectedDeployment} />
           </>
         )}
       </main>
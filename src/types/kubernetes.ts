@@ -27,10 +27,17 @@ export interface Pod {
   id: string;
   name: string;
   namespace: string;
+  cluster: string;
   status: PodStatus;
   nodeName: string;
   podIP: string;
   createdAt: string;
+  // Set once the pod disappeared from the Kubernetes API; such pods are kept as rollout history
+  deletedAt: string | null;
+  lastSeenAt: string | null;
+  // Owning workload resolved from ownerReferences by the collector; null for bare pods and older rows
+  workloadKind: string | null;
+  workloadName: string | null;
   containers: Container[];
   labels: Record<string, string>;
   restarts: number;
@@ -39,6 +46,12 @@ export interface Pod {
     warnings: number;
     exceptions: number;
   };
+  eventSummary: {
+    warnings: number;
+    lastWarningReason: string | null;
+    lastWarningMessage: string | null;
+    lastWarningAt: string | null;
+  };
 }
 
 // Extended pod with computed health status
@@ -51,10 +64,44 @@ export interface PodWithHealth extends Pod {
   deploymentName: string;
 }
 
+export type RolloutStatus = 'complete' | 'progressing' | 'stuck' | 'paused';
+
+// Deployment, StatefulSet or DaemonSet as synced by the collector
+export interface Workload {
+  id: string;
+  cluster: string;
+  namespace: string;
+  kind: string;
+  name: string;
+  desiredReplicas: number;
+  readyReplicas: number;
+  availableReplicas: number;
+  updatedReplicas: number;
+  conditions: Array<{
+    type: string;
+    status: string;
+    reason: string | null;
+    message: string | null;
+    lastTransitionTime: string | null;
+  }>;
+  rolloutStatus: RolloutStatus;
+  rolloutMessage: string | null;
+  rolloutStartedAt: string | null;
+  updatedAt: string;
+}
+
 export interface DeploymentGroup {
   id: string;
   name: string;
+  // Workload kind of the newest pod (Deployment, StatefulSet, DaemonSet, CronJob, ...); null when grouped by labels
+  kind: string | null;
+  // Replica counts and rollout state; null for kinds without a spec (Jobs, bare pods) or before the collector synced it
+  workload: Workload | null;
+  cluster: string;
+  namespace: string;
   pods: PodWithHealth[];
+  // Deleted pods of the deployment, newest first (only present when deleted pods were requested)
+  historicalPods: PodWithHealth[];
   health: HealthStatus;
   attentionScore: number;
   latestCreatedAt: string;
@@ -65,6 +112,18 @@ export interface DeploymentGroup {
   };
 }
 
+// Cluster/namespace selection; null means "all"
+export interface PodScope {
+  cluster: string | null;
+  namespace: string | null;
+}
+
+export interface NamespaceOption {
+  cluster: string;
+  namespace: string;
+  podCount: number;
+}
+
 // Version group for comparing deployments
 export interface VersionGroup {
   version: string;
@@ -77,26 +136,191 @@ export interface VersionGroup {
   createdAt: string;
 }
 
+export type LogFieldValue = string | number | boolean | null;
+
 export interface LogEntry {
   id: string;
   timestamp: string;
-  level: 'info' | 'warn' | 'error';
+  level: 'debug' | 'info' | 'warn' | 'error' | 'fatal';
+  message: string;
+  // Structured fields parsed from JSON log lines (level, logger, trace_id, msg, ...)
+  fields?: Record<string, LogFieldValue>;
+  // Redaction detectors (jwt, email, ...) that masked part of this line at ingest
+  redactions?: string[];
+  // When the collector stored the line; the live tail resumes from the newest one
+  createdAt: string;
+}
+
+// Kubernetes Event recorded against a pod (FailedScheduling, BackOff, Unhealthy, ...)
+export interface PodEvent {
+  id: string;
+  type: 'Normal' | 'Warning';
+  reason: string;
   message: string;
+  count: number;
+  source: string | null;
+  firstTimestamp: string;
+  lastTimestamp: string;
+}
+
+// Normalized error/exception message counted per version (numbers, UUIDs, IPs, timestamps stripped)
+export interface ErrorFingerprint {
+  fingerprint: string;
+  version: string;
+  pattern: string;
+  sampleMessage: string;
+  level: LogEntry['level'];
+  occurrences: number;
+  containerCount: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export type AlertRuleType = 'pod_health' | 'restart_increase' | 'error_rate' | 'memory_p95' | 'version_impact';
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+// Raised by the collector's alert rules; one firing alert per condition (dedup key) at a time
+export interface Alert {
+  id: string;
+  ruleId: string;
+  ruleType: AlertRuleType;
+  severity: AlertSeverity;
+  status: 'firing' | 'resolved';
+  cluster: string;
+  namespace: string;
+  deploymentName: string | null;
+  podId: string | null;
+  podName: string | null;
+  containerName: string | null;
+  title: string;
+  message: string | null;
+  value: number | null;
+  threshold: number | null;
+  startedAt: string;
+  lastSeenAt: string;
+  resolvedAt: string | null;
+  acknowledgedAt: string | null;
+  silencedUntil: string | null;
+}
+
+export type UserRole = 'viewer' | 'operator' | 'admin';
+
+// Who the API sees for the stored token (or "anonymous" when the API does not require one)
+export interface Session {
+  authRequired: boolean;
+  name: string;
+  role: UserRole;
+  // Granted namespaces ("cluster/namespace", "*/namespace", "cluster/*"); null means all
+  namespaces: string[] | null;
+}
+
+// One notification sent (or given up on after retries) for an alert
+export interface AlertDelivery {
+  id: string;
+  notifierId: string;
+  notifierType: 'webhook' | 'slack' | 'email';
+  event: 'firing' | 'resolved';
+  status: 'sent' | 'failed';
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+}
+
+// Latest pass of one collector for one cluster/namespace, as recorded in collector_runs
+export interface CollectorRun {
+  collector: string;
+  cluster: string;
+  namespace: string;
+  status: 'running' | 'succeeded' | 'failed';
+  startedAt: string;
+  finishedAt: string | null;
+  podsSeen: number | null;
+  logsInserted: number | null;
+  samplesInserted: number | null;
+  errorCount: number;
+  error: string | null;
+  lastSuccessAt: string | null;
+}
+
+// How old the stored snapshot is; null timestamps mean nothing has been collected in scope
+export interface DataFreshness {
+  podsUpdatedAt: string | null;
+  resourceSampledAt: string | null;
+  podsStaleAfterMinutes: number;
+  samplesStaleAfterMinutes: number;
+  collectorRuns: CollectorRun[];
+}
+
+// Log line returned by server-side search, tagged with where it came from
+export interface LogSearchHit extends LogEntry {
+  podId: string;
+  podName: string;
+  containerId: string;
+  containerName: string;
+}
+
+// Log line to open a container's log viewer on (e.g. a hit from the log search page)
+export interface LogFocus {
+  containerId: string;
+  logId: string;
+  timestamp: string;
 }
 
+export type LogQuickFilter = 'all' | 'fatal' | 'error' | 'warning' | 'exception' | 'debug';
+
+export type PodDetailTab = 'logs' | 'resources' | 'events';
+
+export type ResourceResolution = 'raw' | '1m' | '5m' | '1h';
+
 export interface ResourceSample {
   sampledAt: string;
+  // Bucket averages for rollup resolutions
   cpuMillicores: number;
   memoryBytes: number;
+  // Rollup resolutions only; null for raw samples
+  cpuMinMillicores: number | null;
+  cpuP95Millicores: number | null;
+  cpuMaxMillicores: number | null;
+  memoryMinBytes: number | null;
+  memoryP95Bytes: number | null;
+  memoryMaxBytes: number | null;
+}
+
+// Samples of one container over a time range, at the resolution the API returned
+export interface ResourceSeries {
+  resolution: ResourceResolution;
+  samples: ResourceSample[];
 }
 
 export type ImpactStatus = 'degraded' | 'improved' | 'stable' | 'unknown';
 
+export type ImpactDimension = 'cpu' | 'memory' | 'errorRate' | 'exceptionRate' | 'restartRate' | 'timeToReady';
+
+// One dimension of a comparison. Values are CPU millicores / memory bytes (p95), events per hour, or median
+// seconds to ready.
+export interface DimensionImpact {
+  current: number | null;
+  baseline: number | null;
+  deltaPercent: number | null;
+  status: ImpactStatus;
+  // Corrected p-value of the change; null when the dimension could not be tested
+  pValue: number | null;
+  // Weight in the comparison's score; 0 means shown but never deciding the verdict
+  weight: number;
+}
+
 export interface ContainerImpact {
   status: ImpactStatus;
   score: number | null;
   cpuDeltaPercent: number | null;
   memoryDeltaPercent: number | null;
+  // P-value and 1 - p of the dimensions that decided the verdict; null when none could be tested
+  pValue: number | null;
+  confidence: number | null;
+  sampleCount: number;
+  baselineSampleCount: number;
+  dimensions: Partial<Record<ImpactDimension, DimensionImpact>>;
 }
 
 export interface PodImpact {
@@ -104,14 +328,134 @@ export interface PodImpact {
   score: number | null;
   degradedCount: number;
   improvedCount: number;
+  // Worst verdict per dimension over the pod's containers
+  dimensions: Partial<Record<ImpactDimension, ImpactStatus>>;
+}
+
+export interface ImpactStats {
+  cpuP95: number;
+  memoryP95: number;
+  sampleCount: number;
+}
+
+// One container name compared across all pods of the two versions
+export interface ContainerNameImpact {
+  name: string;
+  current: ImpactStats | null;
+  baseline: ImpactStats | null;
+  cpuDeltaPercent: number | null;
+  memoryDeltaPercent: number | null;
+  score: number | null;
+  status: ImpactStatus;
+  pValue: number | null;
+  confidence: number | null;
+  dimensions: Partial<Record<ImpactDimension, DimensionImpact>>;
+}
+
+export interface VersionResourceTotals {
+  version: string;
+  createdAt: string;
+  podCount: number;
+  cpuP95Total: number;
+  memoryP95Total: number;
+  sampleCount: number;
+}
+
+// Average pod usage per minute, relative to the version's newest sample
+export interface VersionImpactSeriesPoint {
+  version: string;
+  relMin: number;
+  cpuMillicores: number;
+  memoryBytes: number;
+}
+
+// Server-computed impact of a deployment version against a baseline version (getVersionImpact)
+export interface VersionImpact {
+  cluster: string;
+  namespace: string;
+  deployment: string;
+  version: string;
+  baselineVersion: string | null;
+  windowMinutes: number;
+  computedAt: string;
+  score: number | null;
+  status: ImpactStatus;
+  containers: ContainerNameImpact[];
+  containerImpactsByContainerId: Record<string, ContainerImpact>;
+  podImpactsByPodId: Record<string, PodImpact>;
+  // Recent versions of the deployment, newest first
+  versions: VersionResourceTotals[];
+  series: VersionImpactSeriesPoint[];
 }
 
-// Container status history for timeline
+export type RecommendationFlag =
+  | 'noCpuLimit'
+  | 'noMemoryLimit'
+  | 'cpuLimitOversized'
+  | 'memoryLimitOversized'
+  | 'cpuRequestLow'
+  | 'memoryRequestLow';
+
+export interface ResourceSettings {
+  cpuRequestMillicores: number | null;
+  cpuLimitMillicores: number | null;
+  memoryRequestBytes: number | null;
+  memoryLimitBytes: number | null;
+}
+
+// Right-sizing of one container name of a deployment, from the usage of all its pods
+export interface ContainerRecommendation {
+  name: string;
+  // Running pods with this container
+  replicas: number;
+  sampleCount: number;
+  podCount: number;
+  firstSampledAt: string | null;
+  lastSampledAt: string | null;
+  // Requests/limits of the newest running pod
+  current: ResourceSettings;
+  usage: {
+    cpuP95Millicores: number;
+    cpuP99Millicores: number;
+    cpuMaxMillicores: number;
+    memoryP95Bytes: number;
+    memoryP99Bytes: number;
+    memoryMaxBytes: number;
+  } | null;
+  // Requests from p95 and limits from p99 usage plus headroom; null until enough samples were collected
+  suggested: ResourceSettings | null;
+  flags: RecommendationFlag[];
+  // Requests of all replicas beyond the suggestion
+  reclaimableCpuMillicores: number;
+  reclaimableMemoryBytes: number;
+}
+
+// Server-computed right-sizing of a deployment (getResourceRecommendations)
+export interface ResourceRecommendations {
+  cluster: string;
+  namespace: string;
+  deployment: string;
+  days: number;
+  minSamples: number;
+  computedAt: string;
+  containers: ContainerRecommendation[];
+  reclaimableCpuMillicores: number;
+  reclaimableMemoryBytes: number;
+}
+
+// Container status history for timeline (one entry per recorded state change)
 export interface ContainerStatusEvent {
   containerId: string;
   containerName: string;
   status: Container['status'];
   ready: boolean;
+  restartCount: number;
   timestamp: string;
   reason?: string;
+  exitCode?: number;
+  message?: string;
+}
+
+export interface PodStatusEvent extends ContainerStatusEvent {
+  podId: string;
 }
@@ -2,8 +2,118 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { Pool } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
 
 const CORS_ALLOW_ORIGIN = Deno.env.get("CORS_ALLOW_ORIGIN") ?? "";
+const API_AUTH_REQUIRED = Deno.env.get("API_AUTH_REQUIRED") === "true";
 const LOG_QUERY_LIMIT_DEFAULT = parseInt(Deno.env.get("LOG_QUERY_LIMIT_DEFAULT") ?? "2000", 10);
 const LOG_QUERY_LIMIT_MAX = parseInt(Deno.env.get("LOG_QUERY_LIMIT_MAX") ?? "5000", 10);
+const EVENT_QUERY_LIMIT_MAX = 1000;
+const EVENT_WARNING_WINDOW_MINUTES = parseInt(Deno.env.get("EVENT_WARNING_WINDOW_MINUTES") ?? "60", 10);
+// The health action reports pods / resource samples older than this as stale
+const PODS_STALE_AFTER_MINUTES = parseInt(Deno.env.get("PODS_STALE_AFTER_MINUTES") ?? "15", 10);
+const SAMPLES_STALE_AFTER_MINUTES = parseInt(Deno.env.get("SAMPLES_STALE_AFTER_MINUTES") ?? "5", 10);
+const CONTAINER_HISTORY_HOURS_DEFAULT = 6;
+const CONTAINER_HISTORY_HOURS_MAX = 168;
+const CONTAINER_HISTORY_ROW_LIMIT = 500;
+// Rows returned by getPodStatusHistory, oldest first (rollout surge windows sit at the start of a pod's life)
+const POD_STATUS_HISTORY_ROW_LIMIT = 5000;
+// (fingerprint, version) rows returned by getTopErrors, most recently seen first
+const TOP_ERRORS_ROW_LIMIT = 1000;
+const ALERTS_ROW_LIMIT = 500;
+const ALERT_STATUSES = ["firing", "resolved"];
+const ALERT_SILENCE_MINUTES_MAX = 7 * 24 * 60;
+const ALERT_DELIVERIES_ROW_LIMIT = 100;
+// Bucket size of each getResourceSamples resolution; raw samples are assumed at the default 30s interval
+const RESOURCE_SAMPLE_RESOLUTIONS: Record<string, number> = { raw: 30, "1m": 60, "5m": 300, "1h": 3600 };
+// Without an explicit resolution, the finest one that keeps the range under this many points
+const RESOURCE_SAMPLES_TARGET_POINTS = 500;
+const RESOURCE_SAMPLES_ROW_LIMIT = 2000;
+const VERSION_IMPACT_WINDOW_MINUTES_DEFAULT = 30;
+const VERSION_IMPACT_WINDOW_MINUTES_MAX = 24 * 60;
+// Persisted impacts younger than this are returned as they are instead of being recomputed
+const VERSION_IMPACT_MAX_AGE_SECONDS = parseInt(Deno.env.get("VERSION_IMPACT_MAX_AGE_SECONDS") ?? "60", 10);
+const VERSION_IMPACT_VERSION_LIMIT = 10;
+// Change (%) of a dimension from which a significant change counts as degraded or improved
+const VERSION_IMPACT_THRESHOLD_PERCENT = 10;
+// Samples needed on each side before a comparison gets a verdict
+const VERSION_IMPACT_MIN_SAMPLES = parseInt(Deno.env.get("VERSION_IMPACT_MIN_SAMPLES") ?? "30", 10);
+// Corrected p-value below which a change counts as real rather than noise
+const VERSION_IMPACT_SIGNIFICANCE = 0.05;
+// Weight of each dimension in a comparison's score. A dimension with weight 0 is still shown but never sets
+// the verdict.
+const VERSION_IMPACT_WEIGHTS = {
+  cpu: 1,
+  memory: 1,
+  error_rate: 2,
+  exception_rate: 2,
+  restart_rate: 3,
+  time_to_ready: 1,
+};
+// Started containers needed on each side before time-to-ready gets a verdict
+const VERSION_IMPACT_MIN_READY_SAMPLES = 5;
+// A container's time-to-ready only counts when its status history starts this close to pod creation
+const VERSION_IMPACT_READY_HISTORY_SLACK_MINUTES = 5;
+// Days of raw samples right-sizing recommendations are computed from; longer than SAMPLE_RETENTION_DAYS only
+// helps when the raw retention was raised
+const RECOMMENDATION_DAYS_DEFAULT = 7;
+const RECOMMENDATION_DAYS_MAX = 30;
+// Samples of a container name needed before anything is suggested for it (an hour at the 30s interval)
+const RECOMMENDATION_MIN_SAMPLES = parseInt(Deno.env.get("RECOMMENDATION_MIN_SAMPLES") ?? "120", 10);
+// Headroom on top of observed usage: requests are sized from p95, limits from p99
+const RECOMMENDATION_HEADROOM = { cpu_request: 0.2, cpu_limit: 0.5, memory_request: 0.2, memory_limit: 0.3 };
+// Limits more than this many times the p99 usage are flagged as oversized
+const RECOMMENDATION_LIMIT_OVERSIZE_FACTOR = 4;
+const RECOMMENDATION_CPU_STEP_MILLICORES = 5;
+const RECOMMENDATION_MIN_CPU_MILLICORES = 10;
+const RECOMMENDATION_MEMORY_STEP_BYTES = 1024 * 1024;
+const RECOMMENDATION_MIN_MEMORY_BYTES = 16 * 1024 * 1024;
+// Same label keys the dashboard groups deployments and versions by
+const DEPLOYMENT_LABEL_KEYS = ["app.kubernetes.io/name", "app.kubernetes.io/instance", "app", "k8s-app"];
+const VERSION_LABEL_KEYS = [
+  "version",
+  "app.kubernetes.io/version",
+  "helm.sh/chart",
+  "app.kubernetes.io/instance",
+  "deployment-version",
+  "release",
+];
+// BIGSERIAL ids are returned as text so both API servers serialize them the same way
+const ALERT_COLUMNS = `id::text AS id, dedup_key, rule_id, rule_type, severity, status, cluster, namespace,
+  deployment_name, pod_id, pod_name, container_name, title, message, value, threshold,
+  started_at, last_seen_at, resolved_at, acknowledged_at, silenced_until`;
+type Role = "viewer" | "operator" | "admin";
+interface Principal {
+  id: string | null;
+  name: string;
+  role: Role;
+  namespaces: string[] | null;
+}
+interface NamespaceTarget {
+  cluster: string | null;
+  namespace: string | null;
+  pod_id?: string | null;
+  container_id?: string | null;
+}
+const ROLE_RANK: Record<Role, number> = { viewer: 1, operator: 2, admin: 3 };
+// Minimum role per action; anything not listed needs viewer. `health` is open so probes work without a token.
+const ACTION_ROLES: Record<string, Role> = { acknowledgeAlert: "operator", silenceAlert: "operator", getAuditLog: "admin" };
+const PUBLIC_ACTIONS = ["health"];
+// Without API_AUTH_REQUIRED, requests without a token get read-only access; changes always need a token.
+const ANONYMOUS_PRINCIPAL: Principal = { id: null, name: "anonymous", role: "viewer", namespaces: null };
+// last_used_at is only rewritten when older than this, so reads don't turn into a write per request
+const TOKEN_TOUCH_INTERVAL_MINUTES = 5;
+const AUDIT_LOG_ROW_LIMIT = 500;
+const LOG_SEARCH_PAGE_SIZE_DEFAULT = 200;
+const LOG_SEARCH_FACET_SCAN_LIMIT = 10000;
+const ID_LIST_PARAM_MAX = 500;
+const LOG_TAIL_POLL_INTERVAL_MS = parseInt(Deno.env.get("LOG_TAIL_POLL_INTERVAL_MS") ?? "2000", 10);
+const LOG_TAIL_HEARTBEAT_MS = 15000;
+const LOG_TAIL_MAX_SECONDS = 300;
+// Rows are matched on created_at; collector transactions can commit rows stamped slightly in the past.
+const LOG_TAIL_LOOKBACK_SECONDS = 120;
+const LOG_TAIL_BATCH_SIZE = 500;
+const LOG_LEVELS = ["debug", "info", "warn", "error", "fatal"];
+const EXCEPTION_PATTERN = "(exception|stacktrace|traceback|(^|\\s)at\\s+\\S+)";
+// Stack frames and "Caused by:" lines belong to the exception above them, so they are not counted again.
+const STACK_CONTINUATION_PATTERN = "^(\\s+|Caused by:|Suppressed:|\\.\\.\\. [0-9]+ more|goroutine [0-9]+ \\[|at [^ ]+\\()";
 
 function resolveAllowedOrigin(origin: string | null): string {
   if (!CORS_ALLOW_ORIGIN) return "*";
@@ -14,7 +124,8 @@ function resolveAllowedOrigin(origin: string | null): string {
 function buildCorsHeaders(origin: string | null) {
   return {
     "Access-Control-Allow-Origin": resolveAllowedOrigin(origin),
-    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, last-event-id, x-api-token",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
   };
 }
 
@@ -24,6 +135,217 @@ function parseLogLimit(raw: string | null): number {
   return Math.min(parsed, LOG_QUERY_LIMIT_MAX);
 }
 
+// Builds a WHERE clause restricting pods (aliased as `alias`) to the requested cluster/namespace
+// and to the namespaces the caller's token is granted.
+function buildPodScopeFilter(
+  url: URL,
+  alias = "p",
+  principal: Principal = ANONYMOUS_PRINCIPAL,
+  { activeOnly = false }: { activeOnly?: boolean } = {}
+): { clause: string; conditions: string[]; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const grantCondition = buildGrantCondition(principal, alias, params);
+  if (grantCondition) {
+    conditions.push(grantCondition);
+  }
+  // Pods that disappeared from the Kubernetes API are kept as history; activeOnly hides them
+  if (activeOnly) {
+    conditions.push(`${alias}.deleted_at IS NULL`);
+  }
+  const cluster = url.searchParams.get("cluster");
+  const namespace = url.searchParams.get("namespace");
+
+  if (cluster) {
+    params.push(cluster);
+    conditions.push(`${alias}.cluster = $${params.length}`);
+  }
+  if (namespace) {
+    params.push(namespace);
+    conditions.push(`${alias}.namespace = $${params.length}`);
+  }
+
+  return {
+    clause: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "",
+    conditions,
+    params,
+  };
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// Token grants are "cluster/namespace", "cluster/*" or a bare "namespace" (any cluster); null means all namespaces.
+function normalizeGrants(namespaces: string[] | null): string[] | null {
+  if (!namespaces) return null;
+  return namespaces.map((grant) => (grant.includes("/") ? grant : `*/${grant}`));
+}
+
+function isNamespaceGranted(principal: Principal, cluster: string | null, namespace: string | null): boolean {
+  if (!principal.namespaces) return true;
+  return principal.namespaces.some((grant) => {
+    const [grantCluster, grantNamespace] = grant.split("/");
+    return (grantCluster === "*" || grantCluster === cluster) && (grantNamespace === "*" || grantNamespace === namespace);
+  });
+}
+
+// SQL counterpart of isNamespaceGranted for rows aliased as `alias`; null when the caller is unrestricted.
+function buildGrantCondition(principal: Principal, alias: string, params: unknown[]): string | null {
+  if (!principal.namespaces) return null;
+  params.push(principal.namespaces);
+  return `EXISTS (
+    SELECT 1 FROM unnest($${params.length}::text[]) g
+    WHERE split_part(g, '/', 1) IN ('*', ${alias}.cluster) AND split_part(g, '/', 2) IN ('*', ${alias}.namespace)
+  )`;
+}
+
+function authorizeAction(principal: Principal, action: string | null) {
+  const required = (action && ACTION_ROLES[action]) || "viewer";
+  if (ROLE_RANK[principal.role] < ROLE_RANK[required]) {
+    throw new HttpError(403, `${action} requires the ${required} role`);
+  }
+}
+
+function assertNamespaceGranted(principal: Principal, target: NamespaceTarget) {
+  if (!isNamespaceGranted(principal, target.cluster, target.namespace)) {
+    throw new HttpError(403, `No access to namespace ${target.cluster}/${target.namespace}`);
+  }
+}
+
+// Query parameters worth keeping in the audit trail for log reads
+function auditLogQueryDetails(url: URL): Record<string, string> {
+  const details: Record<string, string> = {};
+  for (const key of ["q", "level", "exceptions", "fields", "from", "to", "cluster", "namespace", "containerIds", "podIds"]) {
+    const value = url.searchParams.get(key);
+    if (value) details[key] = value;
+  }
+  return details;
+}
+
+// Keyset cursor over (timestamp, id); the timestamp is kept as Postgres text to preserve microseconds.
+function encodeLogCursor(timestampKey: string, id: string): string {
+  return btoa(`${timestampKey}|${id}`);
+}
+
+function decodeLogCursor(raw: string): { timestamp: string; id: string } {
+  let decoded: string;
+  try {
+    decoded = atob(raw);
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+  const separator = decoded.lastIndexOf("|");
+  if (separator <= 0) {
+    throw new Error("Invalid cursor");
+  }
+  return { timestamp: decoded.slice(0, separator), id: decoded.slice(separator + 1) };
+}
+
+function parseTimestampParam(url: URL, name: string): string | null {
+  const raw = url.searchParams.get(name);
+  if (!raw) return null;
+  if (Number.isNaN(Date.parse(raw))) {
+    throw new Error(`Invalid ${name} timestamp`);
+  }
+  return raw;
+}
+
+// `fields` is a JSON object of structured field values a log line must contain, e.g. {"trace_id":"abc"}.
+function parseFieldsParam(url: URL): Record<string, unknown> | null {
+  const raw = url.searchParams.get("fields");
+  if (!raw) return null;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("Invalid fields filter");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("Invalid fields filter");
+  }
+  const fields = parsed as Record<string, unknown>;
+  return Object.keys(fields).length > 0 ? fields : null;
+}
+
+function parseIdListParam(url: URL, name: string): string[] {
+  return (url.searchParams.get(name) ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+    .slice(0, ID_LIST_PARAM_MAX);
+}
+
+// Mutating actions (acknowledgeAlert, silenceAlert) must be sent as POST.
+function requirePost(req: Request, action: string) {
+  if (req.method !== "POST") {
+    throw new Error(`${action} requires POST`);
+  }
+}
+
+function parseAlertId(url: URL): string {
+  const alertId = url.searchParams.get("alertId") ?? "";
+  if (!/^\d+$/.test(alertId)) {
+    throw new Error("alertId is required");
+  }
+  return alertId;
+}
+
+// Builds WHERE conditions for searchLogs (logs aliased as `l`): text query, levels, structured fields, time range and cursor.
+function buildLogSearchFilter(
+  url: URL,
+  params: unknown[]
+): { conditions: string[] } {
+  const conditions: string[] = [];
+
+  const query = url.searchParams.get("q")?.trim();
+  if (query) {
+    params.push(`%${query.replace(/[\\%_]/g, (ch) => `\\${ch}`)}%`);
+    conditions.push(`l.message ILIKE $${params.length}`);
+  }
+
+  const levels = (url.searchParams.get("level") ?? "")
+    .split(",")
+    .map((level) => level.trim())
+    .filter((level) => LOG_LEVELS.includes(level));
+  if (levels.length > 0) {
+    params.push(levels);
+    conditions.push(`l.level = ANY($${params.length}::log_level[])`);
+  }
+
+  if (url.searchParams.get("exceptions") === "true") {
+    conditions.push(`l.message ~* '${EXCEPTION_PATTERN}'`);
+  }
+
+  const fields = parseFieldsParam(url);
+  if (fields) {
+    params.push(JSON.stringify(fields));
+    conditions.push(`l.fields @> $${params.length}::jsonb`);
+  }
+
+  const from = parseTimestampParam(url, "from");
+  if (from) {
+    params.push(from);
+    conditions.push(`l.timestamp >= $${params.length}::timestamptz`);
+  }
+  const to = parseTimestampParam(url, "to");
+  if (to) {
+    params.push(to);
+    conditions.push(`l.timestamp <= $${params.length}::timestamptz`);
+  }
+
+  const rawCursor = url.searchParams.get("cursor");
+  if (rawCursor) {
+    const cursor = decodeLogCursor(rawCursor);
+    params.push(cursor.timestamp, cursor.id);
+    conditions.push(`(l.timestamp, l.id) < ($${params.length - 1}::timestamptz, $${params.length}::uuid)`);
+  }
+
+  return { conditions };
+}
+
 // Database connection configuration from environment variables
 const databaseUrl = Deno.env.get("DATABASE_URL");
 const dbHost = Deno.env.get("DB_HOST");
@@ -59,6 +381,1292 @@ function getPool(): Pool {
   return pool;
 }
 
+async function queryRows<T>(pool: Pool, sql: string, params: unknown[] = []): Promise<T[]> {
+  const connection = await pool.connect();
+  try {
+    const result = await connection.queryObject<T>(sql, params);
+    return result.rows;
+  } finally {
+    connection.release();
+  }
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Resolves the X-Api-Token header to a principal; tokens are stored as SHA-256 hashes.
+async function authenticate(req: Request, pool: Pool): Promise<Principal> {
+  const token = req.headers.get("x-api-token");
+  if (!token) {
+    if (API_AUTH_REQUIRED) {
+      throw new HttpError(401, "API token required");
+    }
+    return ANONYMOUS_PRINCIPAL;
+  }
+  const rows = await queryRows<{ id: string; name: string; role: Role; namespaces: string[] | null; stale: boolean }>(
+    pool,
+    `
+      SELECT id::text AS id, name, role, namespaces,
+             (last_used_at IS NULL OR last_used_at < now() - make_interval(mins => $2)) AS stale
+      FROM api_tokens
+      WHERE token_hash = $1 AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > now())
+    `,
+    [await sha256Hex(token), TOKEN_TOUCH_INTERVAL_MINUTES]
+  );
+  const row = rows[0];
+  if (!row) {
+    throw new HttpError(401, "Invalid or expired API token");
+  }
+  if (row.stale) {
+    queryRows(pool, "UPDATE api_tokens SET last_used_at = now() WHERE id = $1", [row.id]).catch((error) => {
+      console.warn("Failed to update token last_used_at:", error instanceof Error ? error.message : String(error));
+    });
+  }
+  return { id: row.id, name: row.name, role: row.role, namespaces: normalizeGrants(row.namespaces) };
+}
+
+// Looks up the pod a container belongs to and checks the caller may read it.
+async function authorizeContainer(pool: Pool, principal: Principal, containerId: string): Promise<NamespaceTarget> {
+  const rows = await queryRows<NamespaceTarget>(pool, `
+    SELECT c.id::text AS container_id, c.pod_id::text AS pod_id, p.cluster, p.namespace
+    FROM containers c
+    JOIN pods p ON p.id = c.pod_id
+    WHERE c.id = $1
+  `, [containerId]);
+  const target = rows[0];
+  if (!target) {
+    if (principal.namespaces) {
+      throw new HttpError(404, "Container not found");
+    }
+    return { container_id: containerId, pod_id: null, cluster: null, namespace: null };
+  }
+  assertNamespaceGranted(principal, target);
+  return target;
+}
+
+async function authorizePod(pool: Pool, principal: Principal, podId: string) {
+  if (!principal.namespaces) return;
+  const rows = await queryRows<NamespaceTarget>(pool, "SELECT cluster, namespace FROM pods WHERE id::text = $1", [podId]);
+  if (!rows[0]) {
+    throw new HttpError(404, "Pod not found");
+  }
+  assertNamespaceGranted(principal, rows[0]);
+}
+
+async function authorizeAlert(pool: Pool, principal: Principal, alertId: string): Promise<NamespaceTarget> {
+  const rows = await queryRows<NamespaceTarget>(pool, "SELECT cluster, namespace FROM alerts WHERE id = $1", [alertId]);
+  if (!rows[0]) {
+    throw new HttpError(404, "Alert not found");
+  }
+  assertNamespaceGranted(principal, rows[0]);
+  return rows[0];
+}
+
+// Who read which logs and who changed alerts. A failed write is logged but does not fail the request.
+async function recordAudit(
+  pool: Pool,
+  principal: Principal,
+  action: string,
+  target: Partial<NamespaceTarget> = {},
+  details: Record<string, unknown> = {}
+) {
+  try {
+    await queryRows(pool, `
+      INSERT INTO audit_log (token_id, actor, role, action, cluster, namespace, pod_id, container_id, details)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `, [
+      principal.id,
+      principal.name,
+      principal.role,
+      action,
+      target.cluster ?? null,
+      target.namespace ?? null,
+      target.pod_id ?? null,
+      target.container_id ?? null,
+      JSON.stringify(details),
+    ]);
+  } catch (error) {
+    console.warn("Failed to write audit log:", error instanceof Error ? error.message : String(error));
+  }
+}
+
+// Newest pod update and resource sample in scope, plus the latest run of each collector, for the health action.
+async function fetchHealthDetails(pool: Pool, url: URL, principal: Principal) {
+  const podScope = buildPodScopeFilter(url, "p", principal, { activeOnly: true });
+  const [podsRow] = await queryRows<{ pods_updated_at: string | null }>(
+    pool,
+    `SELECT MAX(p.updated_at) AS pods_updated_at FROM pods p ${podScope.clause}`,
+    podScope.params
+  );
+
+  let samplesRows: { resource_sampled_at: string | null }[];
+  try {
+    // Newest sample per container via the (container_id, sampled_at) index instead of scanning all samples
+    samplesRows = await queryRows(pool, `
+      SELECT MAX(latest.sampled_at) AS resource_sampled_at
+      FROM pods p
+      JOIN containers c ON c.pod_id = p.id
+      CROSS JOIN LATERAL (
+        SELECT s.sampled_at
+        FROM container_resource_samples s
+        WHERE s.container_id = c.id
+        ORDER BY s.sampled_at DESC
+        LIMIT 1
+      ) latest
+      ${podScope.clause}
+    `, podScope.params);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.includes("container_resource_samples")) {
+      samplesRows = [];
+    } else {
+      throw error;
+    }
+  }
+
+  const runScope = buildPodScopeFilter(url, "r", principal);
+  let runs: Record<string, unknown>[];
+  try {
+    runs = await queryRows(pool, `
+      SELECT DISTINCT ON (r.collector, r.cluster, r.namespace)
+             r.collector, r.cluster, r.namespace, r.status, r.started_at, r.finished_at,
+             r.pods_seen, r.logs_inserted, r.samples_inserted, r.error_count, r.error,
+             (
+               SELECT MAX(s.finished_at)
+               FROM collector_runs s
+               WHERE s.collector = r.collector
+                 AND s.cluster = r.cluster
+                 AND s.namespace = r.namespace
+                 AND s.status = 'succeeded'
+             ) AS last_success_at
+      FROM collector_runs r
+      ${runScope.clause}
+      ORDER BY r.collector, r.cluster, r.namespace, r.started_at DESC
+    `, runScope.params);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.includes("collector_runs")) {
+      runs = [];
+    } else {
+      throw error;
+    }
+  }
+
+  return {
+    freshness: {
+      pods_updated_at: podsRow?.pods_updated_at ?? null,
+      resource_sampled_at: samplesRows[0]?.resource_sampled_at ?? null,
+      pods_stale_after_minutes: PODS_STALE_AFTER_MINUTES,
+      samples_stale_after_minutes: SAMPLES_STALE_AFTER_MINUTES,
+    },
+    collector_runs: runs,
+  };
+}
+
+type ImpactStatus = "degraded" | "improved" | "stable" | "unknown";
+interface ImpactStats {
+  cpu_p95: number;
+  memory_p95: number;
+  sample_count: number;
+}
+interface ImpactVersion {
+  version: string;
+  created_at: string;
+  pod_ids: string[];
+}
+type ImpactDimension = keyof typeof VERSION_IMPACT_WEIGHTS;
+interface DimensionImpact {
+  current: number | null;
+  baseline: number | null;
+  delta_percent: number | null;
+  status: ImpactStatus;
+  p_value: number | null;
+  weight: number;
+}
+// One side of a comparison: resource samples, event counts over the observed hours and time-to-ready values
+interface ImpactSide {
+  cpu: number[];
+  memory: number[];
+  cpu_p95: number | null;
+  memory_p95: number | null;
+  observed_hours: number;
+  error_count: number;
+  exception_count: number;
+  restarts: number;
+  ready_seconds: number[];
+}
+interface PairSampleRow {
+  version: string;
+  container_id: string;
+  container_name: string;
+  cpu_millicores: number;
+  memory_bytes: number;
+}
+interface ContainerEventRow {
+  version: string;
+  pod_id: string;
+  container_id: string;
+  container_name: string;
+  observed_hours: number;
+  error_count: number;
+  exception_count: number;
+  restarts: number;
+  ready_seconds: number | null;
+}
+
+// Samples of the pods in $1 (with their versions in $2), limited per version to the $3 minutes before that
+// version's newest sample, so a version whose pods are gone is still compared on its last stretch of samples.
+const VERSION_WINDOW_SAMPLES_CTE = `
+  version_pods AS (
+    SELECT * FROM unnest($1::uuid[], $2::text[]) AS v(pod_id, version)
+  ),
+  version_latest AS (
+    SELECT v.version, MAX(latest.sampled_at) AS sampled_at
+    FROM version_pods v
+    JOIN containers c ON c.pod_id = v.pod_id
+    CROSS JOIN LATERAL (
+      SELECT s.sampled_at
+      FROM container_resource_samples s
+      WHERE s.container_id = c.id
+      ORDER BY s.sampled_at DESC
+      LIMIT 1
+    ) latest
+    GROUP BY v.version
+  ),
+  windowed AS (
+    SELECT v.version, c.pod_id, c.id AS container_id, c.name AS container_name,
+           s.sampled_at, l.sampled_at AS version_sampled_at, s.cpu_millicores, s.memory_bytes
+    FROM version_pods v
+    JOIN version_latest l ON l.version = v.version
+    JOIN containers c ON c.pod_id = v.pod_id
+    JOIN container_resource_samples s
+      ON s.container_id = c.id AND s.sampled_at >= l.sampled_at - make_interval(mins => $3)
+  )`;
+
+// Error logs, exception lines and restarts of each container of the pods in $1 (versions in $2) over the last
+// $3 minutes of its pod's life, and its time-to-ready from pod creation to the first ready history row.
+// Restarts before the window are taken from the last history row before it.
+const VERSION_CONTAINER_EVENTS_SQL = `
+  WITH pod_windows AS (
+    SELECT v.pod_id, v.version, p.created_at,
+           GREATEST(p.created_at, COALESCE(p.deleted_at, now()) - make_interval(mins => $3)) AS window_start,
+           COALESCE(p.deleted_at, now()) AS window_end
+    FROM unnest($1::uuid[], $2::text[]) AS v(pod_id, version)
+    JOIN pods p ON p.id = v.pod_id
+  )
+  SELECT w.version, w.pod_id, c.id AS container_id, c.name AS container_name,
+         (EXTRACT(EPOCH FROM w.window_end - w.window_start) / 3600)::float8 AS observed_hours,
+         log_counts.error_count, log_counts.exception_count,
+         GREATEST(
+           0,
+           COALESCE(c.restart_count, 0) - CASE
+             WHEN w.window_start <= w.created_at THEN 0
+             ELSE COALESCE(before.restart_count, c.restart_count, 0)
+           END
+         )::int AS restarts,
+         CASE
+           WHEN history.first_recorded_at <= w.created_at + make_interval(mins => $4)
+           THEN GREATEST(0, EXTRACT(EPOCH FROM history.first_ready_at - w.created_at))::float8
+         END AS ready_seconds
+  FROM pod_windows w
+  JOIN containers c ON c.pod_id = w.pod_id
+  CROSS JOIN LATERAL (
+    SELECT COUNT(*) FILTER (WHERE l.level IN ('error', 'fatal'))::int AS error_count,
+           COUNT(*) FILTER (
+             WHERE l.message ~* '${EXCEPTION_PATTERN}'
+               AND l.message !~ '${STACK_CONTINUATION_PATTERN}'
+           )::int AS exception_count
+    FROM logs l
+    WHERE l.container_id = c.id AND l.timestamp >= w.window_start AND l.timestamp <= w.window_end
+  ) log_counts
+  LEFT JOIN LATERAL (
+    SELECT h.restart_count
+    FROM container_status_history h
+    WHERE h.container_id = c.id AND h.recorded_at <= w.window_start
+    ORDER BY h.recorded_at DESC
+    LIMIT 1
+  ) before ON true
+  LEFT JOIN LATERAL (
+    SELECT MIN(h.recorded_at) AS first_recorded_at, MIN(h.recorded_at) FILTER (WHERE h.ready) AS first_ready_at
+    FROM container_status_history h
+    WHERE h.container_id = c.id
+  ) history ON true`;
+
+// The owner-reference workload when the collector resolved one, otherwise the dashboard's label/name heuristics
+function deploymentNameFor(podName: string, labels: Record<string, string> | null, workloadName: string | null): string {
+  if (workloadName) return workloadName;
+  for (const key of DEPLOYMENT_LABEL_KEYS) {
+    const value = labels?.[key]?.trim();
+    if (value) return value;
+  }
+  const deploymentStyleMatch = podName.match(/^(.*)-[a-f0-9]{8,10}-[a-z0-9]{5}$/);
+  if (deploymentStyleMatch?.[1]) return deploymentStyleMatch[1];
+  const statefulSetStyleMatch = podName.match(/^(.*)-\d+$/);
+  if (statefulSetStyleMatch?.[1]) return statefulSetStyleMatch[1];
+  return podName;
+}
+
+function versionFor(labels: Record<string, string> | null): string {
+  for (const key of VERSION_LABEL_KEYS) {
+    if (labels?.[key]) return labels[key];
+  }
+  return "unknown";
+}
+
+function parseImpactWindow(url: URL): number {
+  const raw = url.searchParams.get("windowMinutes");
+  const parsed = raw ? parseInt(raw, 10) : VERSION_IMPACT_WINDOW_MINUTES_DEFAULT;
+  if (!Number.isFinite(parsed) || parsed <= 0) return VERSION_IMPACT_WINDOW_MINUTES_DEFAULT;
+  return Math.min(parsed, VERSION_IMPACT_WINDOW_MINUTES_MAX);
+}
+
+function deltaPercent(current: number | null, baseline: number | null): number | null {
+  if (current === null || baseline === null) return null;
+  if (baseline === 0) return current === 0 ? 0 : null;
+  return ((current - baseline) / baseline) * 100;
+}
+
+function meanScore(values: (number | null)[]): number | null {
+  const known = values.filter((value): value is number => value !== null);
+  return known.length > 0 ? known.reduce((sum, value) => sum + value, 0) / known.length : null;
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, absolute error below 1.5e-7)
+function normalCdf(z: number): number {
+  const t = 1 / (1 + (0.3275911 * Math.abs(z)) / Math.SQRT2);
+  const polynomial = ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t;
+  const erf = 1 - polynomial * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Two-sided Mann-Whitney U test, normal approximation with tie and continuity correction: the probability of
+// a difference at least this large if both samples came from the same distribution. Consecutive samples of a
+// container are correlated, so the p-value is optimistic; the minimum sample count and threshold guard against that.
+function mannWhitneyPValue(current: number[], baseline: number[]): number | null {
+  const n1 = current.length;
+  const n2 = baseline.length;
+  if (n1 === 0 || n2 === 0) return null;
+  const n = n1 + n2;
+  const combined = [
+    ...current.map((value) => ({ value, current: true })),
+    ...baseline.map((value) => ({ value, current: false })),
+  ].sort((a, b) => a.value - b.value);
+
+  let currentRankSum = 0;
+  let tieTerm = 0;
+  for (let start = 0; start < n; ) {
+    let end = start;
+    while (end + 1 < n && combined[end + 1].value === combined[start].value) end += 1;
+    const ties = end - start + 1;
+    const averageRank = (start + end + 2) / 2;
+    for (let index = start; index <= end; index += 1) {
+      if (combined[index].current) currentRankSum += averageRank;
+    }
+    tieTerm += ties ** 3 - ties;
+    start = end + 1;
+  }
+
+  const u = currentRankSum - (n1 * (n1 + 1)) / 2;
+  const variance = ((n1 * n2) / 12) * (n + 1 - tieTerm / (n * (n - 1)));
+  // Every sample has the same value: nothing changed
+  if (variance <= 0) return 1;
+  const z = Math.max(0, Math.abs(u - (n1 * n2) / 2) - 0.5) / Math.sqrt(variance);
+  return Math.min(1, 2 * (1 - normalCdf(z)));
+}
+
+// Two-sided test of two Poisson rates (events over observed hours): given the total count, the current side's
+// share is binomial with its share of the observed time. Normal approximation with continuity correction.
+function poissonRatePValue(count: number, hours: number, baselineCount: number, baselineHours: number): number | null {
+  if (hours <= 0 || baselineHours <= 0) return null;
+  const total = count + baselineCount;
+  if (total === 0) return 1;
+  const share = hours / (hours + baselineHours);
+  const z = Math.max(0, Math.abs(count - total * share) - 0.5) / Math.sqrt(total * share * (1 - share));
+  return Math.min(1, 2 * (1 - normalCdf(z)));
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Resource samples and container events grouped by `key` into one side of a comparison; the CPU/RAM p95s are
+// filled in by the caller.
+function groupSides(
+  sampleRows: PairSampleRow[],
+  eventRows: ContainerEventRow[],
+  key: "container_id" | "container_name"
+): Map<string, ImpactSide> {
+  const sides = new Map<string, ImpactSide>();
+  const sideFor = (id: string): ImpactSide => {
+    let side = sides.get(id);
+    if (!side) {
+      side = {
+        cpu: [],
+        memory: [],
+        cpu_p95: null,
+        memory_p95: null,
+        observed_hours: 0,
+        error_count: 0,
+        exception_count: 0,
+        restarts: 0,
+        ready_seconds: [],
+      };
+      sides.set(id, side);
+    }
+    return side;
+  };
+  for (const row of sampleRows) {
+    const side = sideFor(row[key]);
+    side.cpu.push(row.cpu_millicores);
+    side.memory.push(row.memory_bytes);
+  }
+  for (const row of eventRows) {
+    const side = sideFor(row[key]);
+    side.observed_hours += row.observed_hours;
+    side.error_count += row.error_count;
+    side.exception_count += row.exception_count;
+    side.restarts += row.restarts;
+    if (row.ready_seconds !== null) side.ready_seconds.push(row.ready_seconds);
+  }
+  return sides;
+}
+
+function dimensionImpact(
+  dimension: ImpactDimension,
+  current: number | null,
+  baseline: number | null,
+  pValue: number | null
+): DimensionImpact {
+  const delta = deltaPercent(current, baseline);
+  let status: ImpactStatus = pValue === null ? "unknown" : "stable";
+  if (pValue !== null && pValue < VERSION_IMPACT_SIGNIFICANCE && current !== null && baseline !== null) {
+    // A rate that was zero on the baseline has no percent change; any significant rise counts
+    if (current > baseline && (delta === null || delta >= VERSION_IMPACT_THRESHOLD_PERCENT)) status = "degraded";
+    if (current < baseline && delta !== null && delta <= -VERSION_IMPACT_THRESHOLD_PERCENT) status = "improved";
+  }
+  return {
+    current,
+    baseline,
+    delta_percent: delta,
+    status,
+    p_value: pValue,
+    weight: VERSION_IMPACT_WEIGHTS[dimension],
+  };
+}
+
+// Worst verdict wins: degraded over improved over stable over unknown
+function worstStatus(statuses: ImpactStatus[]): ImpactStatus {
+  for (const status of ["degraded", "improved", "stable"] as ImpactStatus[]) {
+    if (statuses.includes(status)) return status;
+  }
+  return "unknown";
+}
+
+// Verdict per dimension of one comparison: CPU/RAM p95 and time-to-ready by Mann-Whitney test, error, exception
+// and restart rates per hour by Poisson rate test. P-values are Bonferroni-corrected over the dimensions tested.
+// Too few samples on either side gives `unknown`; a change that is small or not significant is `stable`.
+// The comparison's score is the weighted mean change and its status the worst weighted dimension verdict.
+function compareSides(current: ImpactSide | undefined, baseline: ImpactSide | undefined) {
+  const sampleCount = current?.cpu.length ?? 0;
+  const baselineSampleCount = baseline?.cpu.length ?? 0;
+  const dimensions: Partial<Record<ImpactDimension, DimensionImpact>> = {};
+  if (current && baseline) {
+    const enoughSamples = Math.min(sampleCount, baselineSampleCount) >= VERSION_IMPACT_MIN_SAMPLES;
+    const enoughReady =
+      Math.min(current.ready_seconds.length, baseline.ready_seconds.length) >= VERSION_IMPACT_MIN_READY_SAMPLES;
+    const perHour = (side: ImpactSide, count: number) => (side.observed_hours > 0 ? count / side.observed_hours : null);
+    const rateTest = (currentCount: number, baselineCount: number): [number | null, number | null, number | null] => [
+      perHour(current, currentCount),
+      perHour(baseline, baselineCount),
+      poissonRatePValue(currentCount, current.observed_hours, baselineCount, baseline.observed_hours),
+    ];
+    const tests: Record<ImpactDimension, [number | null, number | null, number | null]> = {
+      cpu: [current.cpu_p95, baseline.cpu_p95, enoughSamples ? mannWhitneyPValue(current.cpu, baseline.cpu) : null],
+      memory: [
+        current.memory_p95,
+        baseline.memory_p95,
+        enoughSamples ? mannWhitneyPValue(current.memory, baseline.memory) : null,
+      ],
+      error_rate: rateTest(current.error_count, baseline.error_count),
+      exception_rate: rateTest(current.exception_count, baseline.exception_count),
+      restart_rate: rateTest(current.restarts, baseline.restarts),
+      time_to_ready: [
+        median(current.ready_seconds),
+        median(baseline.ready_seconds),
+        enoughReady ? mannWhitneyPValue(current.ready_seconds, baseline.ready_seconds) : null,
+      ],
+    };
+    const testedCount = Object.values(tests).filter(([, , pValue]) => pValue !== null).length;
+    for (const dimension of Object.keys(VERSION_IMPACT_WEIGHTS) as ImpactDimension[]) {
+      const [currentValue, baselineValue, pValue] = tests[dimension];
+      dimensions[dimension] = dimensionImpact(
+        dimension,
+        currentValue,
+        baselineValue,
+        pValue === null ? null : Math.min(1, pValue * testedCount)
+      );
+    }
+  }
+
+  const weighted = Object.values(dimensions).filter((item) => item.weight > 0);
+  const scored = weighted.filter((item) => item.delta_percent !== null);
+  const totalWeight = scored.reduce((sum, item) => sum + item.weight, 0);
+  const score =
+    totalWeight > 0
+      ? scored.reduce((sum, item) => sum + (item.delta_percent as number) * item.weight, 0) / totalWeight
+      : null;
+  const status = worstStatus(weighted.map((item) => item.status));
+  // The strongest evidence behind the verdict: the smallest p-value of the dimensions that set it
+  const deciding = weighted.filter(
+    (item) => item.p_value !== null && (status === "stable" || item.status === status)
+  );
+  const pValue = deciding.length > 0 ? Math.min(...deciding.map((item) => item.p_value as number)) : null;
+  return {
+    score,
+    status,
+    p_value: pValue,
+    confidence: pValue === null ? null : 1 - pValue,
+    sample_count: sampleCount,
+    baseline_sample_count: baselineSampleCount,
+    dimensions,
+  };
+}
+
+function isMissingTableError(error: unknown, table: string): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.includes(table);
+}
+
+// CPU/RAM p95, error/exception/restart rates and time-to-ready of a deployment's version against a baseline
+// version (default: the newest version and the one before it), per container name and per container of the
+// version's pods. Results are persisted per version
+// pair and window in version_impacts and reused for VERSION_IMPACT_MAX_AGE_SECONDS, so every page reads the
+// same numbers. Returns null when the deployment has no pods.
+async function fetchVersionImpact(pool: Pool, url: URL, principal: Principal) {
+  const cluster = url.searchParams.get("cluster");
+  const namespace = url.searchParams.get("namespace");
+  const deployment = url.searchParams.get("deployment");
+  if (!cluster || !namespace || !deployment) {
+    throw new Error("cluster, namespace and deployment are required");
+  }
+  assertNamespaceGranted(principal, { cluster, namespace });
+  const windowMinutes = parseImpactWindow(url);
+
+  const pods = await queryRows<{
+    id: string;
+    name: string;
+    labels: Record<string, string> | null;
+    workload_name: string | null;
+    created_at: string;
+  }>(pool, `
+    SELECT p.id, p.name, p.labels, p.workload_name, p.created_at
+    FROM pods p
+    WHERE p.cluster = $1 AND p.namespace = $2
+  `, [cluster, namespace]);
+  const versionsByName = new Map<string, ImpactVersion>();
+  for (const pod of pods) {
+    if (deploymentNameFor(pod.name, pod.labels, pod.workload_name) !== deployment) continue;
+    const name = versionFor(pod.labels);
+    const entry = versionsByName.get(name) ?? { version: name, created_at: pod.created_at, pod_ids: [] };
+    if (new Date(pod.created_at) < new Date(entry.created_at)) entry.created_at = pod.created_at;
+    entry.pod_ids.push(pod.id);
+    versionsByName.set(name, entry);
+  }
+  // Newest first by each version's first pod, like the dashboard's version timeline
+  const allVersions = [...versionsByName.values()].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+  if (allVersions.length === 0) return null;
+
+  const version = url.searchParams.get("version") || allVersions[0].version;
+  const currentVersion = versionsByName.get(version);
+  if (!currentVersion) throw new HttpError(404, `No pods of version ${version} in ${deployment}`);
+  const currentIndex = allVersions.indexOf(currentVersion);
+  const baselineVersion = url.searchParams.get("baselineVersion") || allVersions[currentIndex + 1]?.version || null;
+  if (baselineVersion && !versionsByName.has(baselineVersion)) {
+    throw new HttpError(404, `No pods of version ${baselineVersion} in ${deployment}`);
+  }
+  const impactKey = [cluster, namespace, deployment, version, baselineVersion, windowMinutes];
+
+  if (baselineVersion) {
+    try {
+      const [cached] = await queryRows<{ result: Record<string, unknown> }>(pool, `
+        SELECT result
+        FROM version_impacts
+        WHERE cluster = $1 AND namespace = $2 AND deployment = $3 AND version = $4
+          AND baseline_version = $5 AND window_minutes = $6
+          AND computed_at >= now() - make_interval(secs => $7)
+      `, [...impactKey, VERSION_IMPACT_MAX_AGE_SECONDS]);
+      if (cached) return cached.result;
+    } catch (error) {
+      if (!isMissingTableError(error, "version_impacts")) throw error;
+    }
+  }
+
+  const versions = allVersions.slice(0, VERSION_IMPACT_VERSION_LIMIT);
+  for (const name of [version, baselineVersion]) {
+    const entry = name ? versionsByName.get(name) : undefined;
+    if (entry && !versions.includes(entry)) versions.push(entry);
+  }
+  const sampleParams = [
+    versions.flatMap((entry) => entry.pod_ids),
+    versions.flatMap((entry) => entry.pod_ids.map(() => entry.version)),
+    windowMinutes,
+  ];
+
+  let statsRows: ({ version: string; container_name: string } & ImpactStats)[] = [];
+  let currentContainerRows: ({ pod_id: string; container_id: string; container_name: string } & ImpactStats)[] = [];
+  let seriesRows: Record<string, unknown>[] = [];
+  let pairSampleRows: PairSampleRow[] = [];
+  try {
+    statsRows = await queryRows(pool, `
+      WITH ${VERSION_WINDOW_SAMPLES_CTE}
+      SELECT version, container_name,
+             percentile_cont(0.95) WITHIN GROUP (ORDER BY cpu_millicores)::float8 AS cpu_p95,
+             percentile_cont(0.95) WITHIN GROUP (ORDER BY memory_bytes)::float8 AS memory_p95,
+             COUNT(*)::int AS sample_count
+      FROM windowed
+      GROUP BY version, container_name
+    `, sampleParams);
+    currentContainerRows = await queryRows(pool, `
+      WITH ${VERSION_WINDOW_SAMPLES_CTE}
+      SELECT c.pod_id, c.id AS container_id, c.name AS container_name,
+             percentile_cont(0.95) WITHIN GROUP (ORDER BY w.cpu_millicores)::float8 AS cpu_p95,
+             percentile_cont(0.95) WITHIN GROUP (ORDER BY w.memory_bytes)::float8 AS memory_p95,
+             COUNT(w.sampled_at)::int AS sample_count
+      FROM containers c
+      LEFT JOIN windowed w ON w.container_id = c.id
+      WHERE c.pod_id = ANY($4::uuid[])
+      GROUP BY c.pod_id, c.id, c.name
+    `, [...sampleParams, currentVersion.pod_ids]);
+    // Average pod usage per minute, relative to each version's newest sample
+    seriesRows = await queryRows(pool, `
+      WITH ${VERSION_WINDOW_SAMPLES_CTE},
+      per_container AS (
+        SELECT version, container_name,
+               ROUND(EXTRACT(EPOCH FROM sampled_at - version_sampled_at) / 60)::int AS rel_min,
+               AVG(cpu_millicores) AS cpu_millicores, AVG(memory_bytes) AS memory_bytes
+        FROM windowed
+        WHERE version = ANY($4::text[])
+        GROUP BY 1, 2, 3
+      )
+      SELECT version, rel_min, SUM(cpu_millicores)::float8 AS cpu_millicores,
+             SUM(memory_bytes)::float8 AS memory_bytes
+      FROM per_container
+      GROUP BY version, rel_min
+      ORDER BY version, rel_min
+    `, [...sampleParams, [version, baselineVersion].filter(Boolean)]);
+    // Raw samples of the two compared versions for the Mann-Whitney tests
+    pairSampleRows = await queryRows(pool, `
+      WITH ${VERSION_WINDOW_SAMPLES_CTE}
+      SELECT version, container_id, container_name, cpu_millicores::float8 AS cpu_millicores,
+             memory_bytes::float8 AS memory_bytes
+      FROM windowed
+      WHERE version = ANY($4::text[])
+    `, [...sampleParams, [version, baselineVersion].filter(Boolean)]);
+  } catch (error) {
+    if (!isMissingTableError(error, "container_resource_samples")) throw error;
+  }
+  const pairVersions = [currentVersion, baselineVersion ? versionsByName.get(baselineVersion) : undefined].filter(
+    (entry): entry is ImpactVersion => Boolean(entry)
+  );
+  let eventRows: ContainerEventRow[] = [];
+  try {
+    eventRows = await queryRows(pool, VERSION_CONTAINER_EVENTS_SQL, [
+      pairVersions.flatMap((entry) => entry.pod_ids),
+      pairVersions.flatMap((entry) => entry.pod_ids.map(() => entry.version)),
+      windowMinutes,
+      VERSION_IMPACT_READY_HISTORY_SLACK_MINUTES,
+    ]);
+  } catch (error) {
+    if (!isMissingTableError(error, "container_status_history")) throw error;
+  }
+
+  const statsByVersion = new Map<string, Map<string, ImpactStats>>();
+  for (const row of statsRows) {
+    const byName = statsByVersion.get(row.version) ?? new Map<string, ImpactStats>();
+    byName.set(row.container_name, {
+      cpu_p95: row.cpu_p95,
+      memory_p95: row.memory_p95,
+      sample_count: row.sample_count,
+    });
+    statsByVersion.set(row.version, byName);
+  }
+  const currentStats = statsByVersion.get(version) ?? new Map<string, ImpactStats>();
+  const baselineStats = (baselineVersion && statsByVersion.get(baselineVersion)) || new Map<string, ImpactStats>();
+  const currentSamples = pairSampleRows.filter((row) => row.version === version);
+  const currentEvents = eventRows.filter((row) => row.version === version);
+  const currentSidesByName = groupSides(currentSamples, currentEvents, "container_name");
+  const currentSidesByContainer = groupSides(currentSamples, currentEvents, "container_id");
+  const baselineSidesByName = groupSides(
+    pairSampleRows.filter((row) => row.version === baselineVersion),
+    eventRows.filter((row) => row.version === baselineVersion),
+    "container_name"
+  );
+  for (const [sides, stats] of [
+    [currentSidesByName, currentStats],
+    [baselineSidesByName, baselineStats],
+  ] as [Map<string, ImpactSide>, Map<string, ImpactStats>][]) {
+    for (const [name, side] of sides) {
+      side.cpu_p95 = stats.get(name)?.cpu_p95 ?? null;
+      side.memory_p95 = stats.get(name)?.memory_p95 ?? null;
+    }
+  }
+
+  const containerNames = new Set([...currentSidesByName.keys(), ...baselineSidesByName.keys()]);
+  const containers = [...containerNames].sort().map((name) => {
+    const current = currentStats.get(name) ?? null;
+    const baseline = baselineStats.get(name) ?? null;
+    const verdict = compareSides(currentSidesByName.get(name), baselineSidesByName.get(name));
+    return {
+      name,
+      current,
+      baseline,
+      cpu_delta_percent: deltaPercent(current?.cpu_p95 ?? null, baseline?.cpu_p95 ?? null),
+      memory_delta_percent: deltaPercent(current?.memory_p95 ?? null, baseline?.memory_p95 ?? null),
+      score: verdict.score,
+      status: verdict.status,
+      p_value: verdict.p_value,
+      confidence: verdict.confidence,
+      dimensions: verdict.dimensions,
+    };
+  });
+
+  // Each container of the version's pods against the baseline version's containers of the same name
+  const containerImpacts: Record<string, Record<string, unknown>> = {};
+  const podVerdicts = new Map<string, ReturnType<typeof compareSides>[]>();
+  for (const row of currentContainerRows) {
+    const baseline = baselineSidesByName.get(row.container_name);
+    if (!baseline) continue;
+    const current = currentSidesByContainer.get(row.container_id);
+    if (current) {
+      current.cpu_p95 = row.sample_count > 0 ? row.cpu_p95 : null;
+      current.memory_p95 = row.sample_count > 0 ? row.memory_p95 : null;
+    }
+    const verdict = compareSides(current, baseline);
+    containerImpacts[row.container_id] = {
+      status: verdict.status,
+      score: verdict.score,
+      cpu_delta_percent: verdict.dimensions.cpu?.delta_percent ?? null,
+      memory_delta_percent: verdict.dimensions.memory?.delta_percent ?? null,
+      p_value: verdict.p_value,
+      confidence: verdict.confidence,
+      sample_count: verdict.sample_count,
+      baseline_sample_count: verdict.baseline_sample_count,
+      dimensions: verdict.dimensions,
+    };
+    const pod = podVerdicts.get(row.pod_id) ?? [];
+    pod.push(verdict);
+    podVerdicts.set(row.pod_id, pod);
+  }
+  const podImpacts: Record<string, Record<string, unknown>> = {};
+  for (const podId of currentVersion.pod_ids) {
+    const verdicts = podVerdicts.get(podId) ?? [];
+    const dimensions: Partial<Record<ImpactDimension, ImpactStatus>> = {};
+    for (const dimension of Object.keys(VERSION_IMPACT_WEIGHTS) as ImpactDimension[]) {
+      const statuses = verdicts.map((verdict) => verdict.dimensions[dimension]?.status ?? "unknown");
+      if (statuses.length > 0) dimensions[dimension] = worstStatus(statuses);
+    }
+    podImpacts[podId] = {
+      status: worstStatus(verdicts.map((verdict) => verdict.status)),
+      score: meanScore(verdicts.map((verdict) => verdict.score)),
+      degraded_count: verdicts.filter((verdict) => verdict.status === "degraded").length,
+      improved_count: verdicts.filter((verdict) => verdict.status === "improved").length,
+      dimensions,
+    };
+  }
+
+  // Deployment totals per version: sum of the container p95s
+  const versionTotals = allVersions.slice(0, VERSION_IMPACT_VERSION_LIMIT).map((entry) => {
+    const stats = [...(statsByVersion.get(entry.version)?.values() ?? [])];
+    return {
+      version: entry.version,
+      created_at: entry.created_at,
+      pod_count: entry.pod_ids.length,
+      cpu_p95_total: stats.reduce((sum, item) => sum + item.cpu_p95, 0),
+      memory_p95_total: stats.reduce((sum, item) => sum + item.memory_p95, 0),
+      sample_count: stats.reduce((sum, item) => sum + item.sample_count, 0),
+    };
+  });
+
+  const score = meanScore(containers.map((container) => container.score));
+  const impact = {
+    cluster,
+    namespace,
+    deployment,
+    version,
+    baseline_version: baselineVersion,
+    window_minutes: windowMinutes,
+    computed_at: new Date().toISOString(),
+    score,
+    status: worstStatus(containers.map((container) => container.status)),
+    containers,
+    container_impacts: containerImpacts,
+    pod_impacts: podImpacts,
+    versions: versionTotals,
+    series: seriesRows,
+  };
+
+  if (baselineVersion) {
+    try {
+      await queryRows(pool, `
+        INSERT INTO version_impacts
+          (cluster, namespace, deployment, version, baseline_version, window_minutes, score, status, result, computed_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        ON CONFLICT (cluster, namespace, deployment, version, baseline_version, window_minutes)
+        DO UPDATE SET score = EXCLUDED.score, status = EXCLUDED.status, result = EXCLUDED.result,
+                      computed_at = EXCLUDED.computed_at
+      `, [...impactKey, score, impact.status, JSON.stringify(impact), impact.computed_at]);
+    } catch (error) {
+      if (!isMissingTableError(error, "version_impacts")) throw error;
+    }
+  }
+
+  return impact;
+}
+
+// Raw samples or rollup buckets of one container between `from` (default: an hour before `to`) and `to`
+// (default: now), oldest first. Without any of from/to/resolution it returns the latest 120 raw samples,
+// however old, which the log viewer matches log lines against. Rollup rows carry the bucket average as
+// cpu_millicores/memory_bytes plus min/p95/max; without the rollup table (resource collector not upgraded
+// yet) raw samples are returned instead.
+async function fetchResourceSamples(pool: Pool, url: URL, containerId: string) {
+  const fromParam = parseTimestampParam(url, "from");
+  const toParam = parseTimestampParam(url, "to");
+  const requestedResolution = url.searchParams.get("resolution");
+  if (requestedResolution && !(requestedResolution in RESOURCE_SAMPLE_RESOLUTIONS)) {
+    throw new Error(`resolution must be one of ${Object.keys(RESOURCE_SAMPLE_RESOLUTIONS).join(", ")}`);
+  }
+
+  if (!fromParam && !toParam && (!requestedResolution || requestedResolution === "raw")) {
+    try {
+      const samples = await queryRows(pool, `
+        SELECT sampled_at, cpu_millicores, memory_bytes
+        FROM container_resource_samples
+        WHERE container_id = $1
+        ORDER BY sampled_at DESC
+        LIMIT 120
+      `, [containerId]);
+      return { resolution: "raw", samples: samples.reverse() };
+    } catch (error) {
+      if (!isMissingTableError(error, "container_resource_samples")) throw error;
+      return { resolution: "raw", samples: [] };
+    }
+  }
+
+  const to = toParam ? new Date(toParam) : new Date();
+  const from = fromParam ? new Date(fromParam) : new Date(to.getTime() - 60 * 60 * 1000);
+  if (from >= to) throw new Error("from must be before to");
+  const rangeSeconds = (to.getTime() - from.getTime()) / 1000;
+  const resolution =
+    requestedResolution ||
+    Object.keys(RESOURCE_SAMPLE_RESOLUTIONS).find(
+      (key) => rangeSeconds / RESOURCE_SAMPLE_RESOLUTIONS[key] <= RESOURCE_SAMPLES_TARGET_POINTS
+    ) ||
+    "1h";
+
+  if (resolution !== "raw") {
+    try {
+      const rollups = await queryRows(pool, `
+        SELECT bucket_start AS sampled_at, cpu_avg_millicores AS cpu_millicores, memory_avg_bytes AS memory_bytes,
+               cpu_min_millicores, cpu_p95_millicores, cpu_max_millicores,
+               memory_min_bytes, memory_p95_bytes, memory_max_bytes, sample_count
+        FROM container_resource_rollups
+        WHERE container_id = $1 AND resolution = $2 AND bucket_start >= $3 AND bucket_start <= $4
+        ORDER BY bucket_start DESC
+        LIMIT $5
+      `, [containerId, resolution, from.toISOString(), to.toISOString(), RESOURCE_SAMPLES_ROW_LIMIT]);
+      return { resolution, samples: rollups.reverse() };
+    } catch (error) {
+      if (!isMissingTableError(error, "container_resource_rollups")) throw error;
+    }
+  }
+
+  try {
+    const samples = await queryRows(pool, `
+      SELECT sampled_at, cpu_millicores, memory_bytes
+      FROM container_resource_samples
+      WHERE container_id = $1 AND sampled_at >= $2 AND sampled_at <= $3
+      ORDER BY sampled_at DESC
+      LIMIT $4
+    `, [containerId, from.toISOString(), to.toISOString(), RESOURCE_SAMPLES_ROW_LIMIT]);
+    return { resolution: "raw", samples: samples.reverse() };
+  } catch (error) {
+    if (!isMissingTableError(error, "container_resource_samples")) throw error;
+    return { resolution: "raw", samples: [] };
+  }
+}
+
+interface ResourceSettings {
+  cpu_request_millicores: number | null;
+  cpu_limit_millicores: number | null;
+  memory_request_bytes: number | null;
+  memory_limit_bytes: number | null;
+}
+interface ResourceUsage {
+  cpu_p95_millicores: number;
+  cpu_p99_millicores: number;
+  cpu_max_millicores: number;
+  memory_p95_bytes: number;
+  memory_p99_bytes: number;
+  memory_max_bytes: number;
+}
+
+function parseRecommendationDays(url: URL): number {
+  const raw = url.searchParams.get("days");
+  const parsed = raw ? parseInt(raw, 10) : RECOMMENDATION_DAYS_DEFAULT;
+  if (!Number.isFinite(parsed) || parsed <= 0) return RECOMMENDATION_DAYS_DEFAULT;
+  return Math.min(parsed, RECOMMENDATION_DAYS_MAX);
+}
+
+function roundUpTo(value: number, step: number, minimum: number): number {
+  return Math.max(minimum, Math.ceil(value / step) * step);
+}
+
+// Requests from p95 and limits from p99 usage plus headroom; a memory limit never goes below the highest
+// usage seen, since going over it means an OOM kill rather than throttling
+function suggestResources(usage: ResourceUsage) {
+  return {
+    cpu_request_millicores: roundUpTo(
+      usage.cpu_p95_millicores * (1 + RECOMMENDATION_HEADROOM.cpu_request),
+      RECOMMENDATION_CPU_STEP_MILLICORES,
+      RECOMMENDATION_MIN_CPU_MILLICORES
+    ),
+    cpu_limit_millicores: roundUpTo(
+      usage.cpu_p99_millicores * (1 + RECOMMENDATION_HEADROOM.cpu_limit),
+      RECOMMENDATION_CPU_STEP_MILLICORES,
+      RECOMMENDATION_MIN_CPU_MILLICORES
+    ),
+    memory_request_bytes: roundUpTo(
+      usage.memory_p95_bytes * (1 + RECOMMENDATION_HEADROOM.memory_request),
+      RECOMMENDATION_MEMORY_STEP_BYTES,
+      RECOMMENDATION_MIN_MEMORY_BYTES
+    ),
+    memory_limit_bytes: roundUpTo(
+      Math.max(usage.memory_p99_bytes * (1 + RECOMMENDATION_HEADROOM.memory_limit), usage.memory_max_bytes),
+      RECOMMENDATION_MEMORY_STEP_BYTES,
+      RECOMMENDATION_MIN_MEMORY_BYTES
+    ),
+  };
+}
+
+function recommendationFlags(current: ResourceSettings, usage: ResourceUsage | null): string[] {
+  const flags: string[] = [];
+  if (current.cpu_limit_millicores === null) flags.push("no_cpu_limit");
+  if (current.memory_limit_bytes === null) flags.push("no_memory_limit");
+  if (!usage) return flags;
+  const cpuFloor = Math.max(usage.cpu_p99_millicores, RECOMMENDATION_MIN_CPU_MILLICORES);
+  const memoryFloor = Math.max(usage.memory_p99_bytes, RECOMMENDATION_MIN_MEMORY_BYTES);
+  const cpuLimit = current.cpu_limit_millicores;
+  const memoryLimit = current.memory_limit_bytes;
+  if (cpuLimit !== null && cpuLimit > cpuFloor * RECOMMENDATION_LIMIT_OVERSIZE_FACTOR) flags.push("cpu_limit_oversized");
+  if (memoryLimit !== null && memoryLimit > memoryFloor * RECOMMENDATION_LIMIT_OVERSIZE_FACTOR) {
+    flags.push("memory_limit_oversized");
+  }
+  if (current.cpu_request_millicores !== null && usage.cpu_p95_millicores > current.cpu_request_millicores) {
+    flags.push("cpu_request_low");
+  }
+  if (current.memory_request_bytes !== null && usage.memory_p95_bytes > current.memory_request_bytes) {
+    flags.push("memory_request_low");
+  }
+  return flags;
+}
+
+// Reserved by the requests of all replicas beyond the suggestion; 0 when nothing is requested or the
+// suggestion is higher
+function reclaimable(currentRequest: number | null, suggestedRequest: number | null, replicas: number): number {
+  if (currentRequest === null || suggestedRequest === null) return 0;
+  return Math.max(0, currentRequest - suggestedRequest) * replicas;
+}
+
+// Right-sizing of each container name of a deployment's running pods: current requests/limits (from the newest
+// pod), p95/p99/max usage over the last `days` days of raw samples of all the deployment's pods, suggested
+// requests/limits, flags and the requests that could be given back. With containerId, only that container's
+// name within its deployment is returned. Null when the deployment has no running pods.
+async function fetchResourceRecommendations(pool: Pool, url: URL, principal: Principal) {
+  const containerId = url.searchParams.get("containerId");
+  let cluster = url.searchParams.get("cluster");
+  let namespace = url.searchParams.get("namespace");
+  let deployment = url.searchParams.get("deployment");
+  let containerName: string | null = null;
+  if (containerId) {
+    const [container] = await queryRows<{
+      name: string;
+      cluster: string;
+      namespace: string;
+      pod_name: string;
+      labels: Record<string, string> | null;
+      workload_name: string | null;
+    }>(pool, `
+      SELECT c.name, p.cluster, p.namespace, p.name AS pod_name, p.labels, p.workload_name
+      FROM containers c
+      JOIN pods p ON p.id = c.pod_id
+      WHERE c.id = $1
+    `, [containerId]);
+    if (!container) throw new HttpError(404, "Container not found");
+    ({ cluster, namespace } = container);
+    deployment = deploymentNameFor(container.pod_name, container.labels, container.workload_name);
+    containerName = container.name;
+  }
+  if (!cluster || !namespace || !deployment) {
+    throw new Error("containerId, or cluster, namespace and deployment are required");
+  }
+  assertNamespaceGranted(principal, { cluster, namespace });
+  const days = parseRecommendationDays(url);
+
+  const pods = await queryRows<{
+    id: string;
+    name: string;
+    labels: Record<string, string> | null;
+    workload_name: string | null;
+    deleted_at: string | null;
+  }>(pool, `
+    SELECT p.id, p.name, p.labels, p.workload_name, p.deleted_at
+    FROM pods p
+    WHERE p.cluster = $1 AND p.namespace = $2
+  `, [cluster, namespace]);
+  const deploymentPods = pods.filter(
+    (pod) => deploymentNameFor(pod.name, pod.labels, pod.workload_name) === deployment
+  );
+  const livePodIds = deploymentPods.filter((pod) => pod.deleted_at === null).map((pod) => pod.id);
+  if (livePodIds.length === 0) return null;
+
+  const containerRows = await queryRows<ResourceSettings & { name: string }>(pool, `
+    SELECT c.name,
+           c.cpu_request_millicores::float8 AS cpu_request_millicores,
+           c.cpu_limit_millicores::float8 AS cpu_limit_millicores,
+           c.memory_request_bytes::float8 AS memory_request_bytes,
+           c.memory_limit_bytes::float8 AS memory_limit_bytes
+    FROM containers c
+    JOIN pods p ON p.id = c.pod_id
+    WHERE c.pod_id = ANY($1::uuid[]) AND ($2::text IS NULL OR c.name = $2)
+    ORDER BY p.created_at DESC
+  `, [livePodIds, containerName]);
+  const currentByName = new Map<string, { replicas: number; current: ResourceSettings }>();
+  for (const row of containerRows) {
+    const entry = currentByName.get(row.name);
+    if (entry) {
+      entry.replicas += 1;
+      continue;
+    }
+    currentByName.set(row.name, {
+      replicas: 1,
+      current: {
+        cpu_request_millicores: row.cpu_request_millicores,
+        cpu_limit_millicores: row.cpu_limit_millicores,
+        memory_request_bytes: row.memory_request_bytes,
+        memory_limit_bytes: row.memory_limit_bytes,
+      },
+    });
+  }
+
+  type UsageRow = ResourceUsage & {
+    container_name: string;
+    sample_count: number;
+    pod_count: number;
+    first_sampled_at: string;
+    last_sampled_at: string;
+  };
+  let usageRows: UsageRow[] = [];
+  try {
+    usageRows = await queryRows<UsageRow>(pool, `
+      SELECT c.name AS container_name,
+             COUNT(*)::int AS sample_count,
+             COUNT(DISTINCT c.pod_id)::int AS pod_count,
+             percentile_cont(0.95) WITHIN GROUP (ORDER BY s.cpu_millicores)::float8 AS cpu_p95_millicores,
+             percentile_cont(0.99) WITHIN GROUP (ORDER BY s.cpu_millicores)::float8 AS cpu_p99_millicores,
+             MAX(s.cpu_millicores)::float8 AS cpu_max_millicores,
+             percentile_cont(0.95) WITHIN GROUP (ORDER BY s.memory_bytes)::float8 AS memory_p95_bytes,
+             percentile_cont(0.99) WITHIN GROUP (ORDER BY s.memory_bytes)::float8 AS memory_p99_bytes,
+             MAX(s.memory_bytes)::float8 AS memory_max_bytes,
+             MIN(s.sampled_at) AS first_sampled_at,
+             MAX(s.sampled_at) AS last_sampled_at
+      FROM containers c
+      JOIN container_resource_samples s ON s.container_id = c.id
+      WHERE c.pod_id = ANY($1::uuid[]) AND ($2::text IS NULL OR c.name = $2)
+        AND s.sampled_at >= now() - make_interval(days => $3)
+      GROUP BY c.name
+    `, [deploymentPods.map((pod) => pod.id), containerName, days]);
+  } catch (error) {
+    if (!isMissingTableError(error, "container_resource_samples")) throw error;
+  }
+  const usageByName = new Map(usageRows.map((row) => [row.container_name, row]));
+
+  const containers = [...currentByName.keys()].sort().map((name) => {
+    const { replicas, current } = currentByName.get(name)!;
+    const row = usageByName.get(name);
+    const usage: ResourceUsage | null = row
+      ? {
+          cpu_p95_millicores: row.cpu_p95_millicores,
+          cpu_p99_millicores: row.cpu_p99_millicores,
+          cpu_max_millicores: row.cpu_max_millicores,
+          memory_p95_bytes: row.memory_p95_bytes,
+          memory_p99_bytes: row.memory_p99_bytes,
+          memory_max_bytes: row.memory_max_bytes,
+        }
+      : null;
+    const sampleCount = row?.sample_count ?? 0;
+    const suggested = usage && sampleCount >= RECOMMENDATION_MIN_SAMPLES ? suggestResources(usage) : null;
+    return {
+      name,
+      replicas,
+      sample_count: sampleCount,
+      pod_count: row?.pod_count ?? 0,
+      first_sampled_at: row?.first_sampled_at ?? null,
+      last_sampled_at: row?.last_sampled_at ?? null,
+      current,
+      usage,
+      suggested,
+      flags: recommendationFlags(current, suggested ? usage : null),
+      reclaimable_cpu_millicores: reclaimable(
+        current.cpu_request_millicores,
+        suggested?.cpu_request_millicores ?? null,
+        replicas
+      ),
+      reclaimable_memory_bytes: reclaimable(
+        current.memory_request_bytes,
+        suggested?.memory_request_bytes ?? null,
+        replicas
+      ),
+    };
+  });
+
+  return {
+    cluster,
+    namespace,
+    deployment,
+    days,
+    min_samples: RECOMMENDATION_MIN_SAMPLES,
+    computed_at: new Date().toISOString(),
+    containers,
+    reclaimable_cpu_millicores: containers.reduce((sum, item) => sum + item.reclaimable_cpu_millicores, 0),
+    reclaimable_memory_bytes: containers.reduce((sum, item) => sum + item.reclaimable_memory_bytes, 0),
+  };
+}
+
+// Server-sent events stream of new log rows for one container (action=tailLogs).
+// Each `logs` event carries a JSON array of rows; the event id is the created_at watermark,
+// so a reconnecting client resumes via Last-Event-ID.
+async function streamLogTail(
+  req: Request,
+  url: URL,
+  pool: Pool,
+  corsHeaders: Record<string, string>,
+  principal: Principal
+): Promise<Response> {
+  const containerId = url.searchParams.get("containerId");
+  if (!containerId) {
+    throw new Error("containerId is required");
+  }
+  const target = await authorizeContainer(pool, principal, containerId);
+  // Reconnects carry Last-Event-ID; only the first connection is audited
+  if (!req.headers.get("last-event-id")) {
+    await recordAudit(pool, principal, "tailLogs", target, auditLogQueryDetails(url));
+  }
+
+  let floor = req.headers.get("last-event-id") ?? parseTimestampParam(url, "since");
+  if (!floor) {
+    const connection = await pool.connect();
+    try {
+      const nowResult = await connection.queryObject<{ floor: string }>("SELECT now()::text AS floor");
+      floor = nowResult.rows[0].floor;
+    } finally {
+      connection.release();
+    }
+  }
+  const startFloor = floor;
+
+  let closed = false;
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      let watermark = startFloor;
+      let watermarkMs = 0;
+      let lastWriteAt = Date.now();
+      const sentIds = new Map<string, number>();
+      const startedAt = Date.now();
+
+      write("retry: 2000\n\n");
+
+      while (!closed) {
+        try {
+          const params: unknown[] = [containerId];
+          const filterConditions = buildLogSearchFilter(url, params).conditions;
+          params.push(startFloor, watermark, LOG_TAIL_LOOKBACK_SECONDS, [...sentIds.keys()]);
+          const n = params.length;
+
+          const connection = await pool.connect();
+          let rows: Array<Record<string, unknown>>;
+          try {
+            const batchResult = await connection.queryObject<Record<string, unknown>>(`
+              SELECT l.id, l.container_id, l.timestamp, l.level, l.message, l.fields, l.redactions, l.created_at,
+                     l.created_at::text AS created_key
+              FROM logs l
+              WHERE l.container_id = $1
+                AND l.created_at > GREATEST($${n - 3}::timestamptz, $${n - 2}::timestamptz - make_interval(secs => $${n - 1}))
+                AND NOT (l.id = ANY($${n}::uuid[]))
+                ${filterConditions.map((condition) => `AND ${condition}`).join(" ")}
+              ORDER BY l.created_at, l.id
+              LIMIT ${LOG_TAIL_BATCH_SIZE}
+            `, params);
+            rows = batchResult.rows;
+          } finally {
+            connection.release();
+          }
+
+          if (rows.length > 0) {
+            for (const row of rows) {
+              const createdMs = new Date(row.created_at as string).getTime();
+              sentIds.set(String(row.id), createdMs);
+              if (createdMs > watermarkMs) {
+                watermarkMs = createdMs;
+                watermark = String(row.created_key);
+              }
+            }
+            for (const [id, createdMs] of sentIds) {
+              if (createdMs < watermarkMs - LOG_TAIL_LOOKBACK_SECONDS * 1000) sentIds.delete(id);
+            }
+            const payload = rows.map(({ created_key: _createdKey, ...row }) => row);
+            write(`id: ${watermark}\nevent: logs\ndata: ${JSON.stringify(payload)}\n\n`);
+            lastWriteAt = Date.now();
+          } else if (Date.now() - lastWriteAt >= LOG_TAIL_HEARTBEAT_MS) {
+            write(": heartbeat\n\n");
+            lastWriteAt = Date.now();
+          }
+        } catch (error) {
+          console.error("Log tail error:", error);
+          const message = error instanceof Error ? error.message : "Unknown error";
+          write(`event: error\ndata: ${JSON.stringify({ error: message })}\n\n`);
+          break;
+        }
+
+        if (Date.now() - startedAt >= LOG_TAIL_MAX_SECONDS * 1000) break;
+        await new Promise((resolve) => setTimeout(resolve, LOG_TAIL_POLL_INTERVAL_MS));
+      }
+
+      if (!closed) controller.close();
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+    },
+  });
+}
+
 serve(async (req) => {
   const corsHeaders = buildCorsHeaders(req.headers.get("origin"));
   // Handle CORS preflight
@@ -70,44 +1678,90 @@ serve(async (req) => {
     const url = new URL(req.url);
     const action = url.searchParams.get("action");
     const pool = getPool();
+    const principal = action && PUBLIC_ACTIONS.includes(action) ? ANONYMOUS_PRINCIPAL : await authenticate(req, pool);
+    authorizeAction(principal, action);
+
+    if (action === "tailLogs") {
+      return await streamLogTail(req, url, pool, corsHeaders, principal);
+    }
 
     let result: any;
 
     switch (action) {
       case "getPods": {
+        const scope = buildPodScopeFilter(url, "p", principal, {
+          activeOnly: url.searchParams.get("includeDeleted") !== "true",
+        });
         const connection = await pool.connect();
         try {
           const podsResult = await connection.queryObject(`
-            SELECT id, name, namespace, status, node_name, pod_ip, labels, restarts, created_at, updated_at
-            FROM pods
-            ORDER BY created_at DESC
-          `);
+            SELECT p.id, p.name, p.namespace, p.cluster, p.status, p.node_name, p.pod_ip, p.labels, p.restarts,
+                   p.created_at, p.updated_at, p.last_seen_at, p.deleted_at, p.workload_kind, p.workload_name
+            FROM pods p
+            ${scope.clause}
+            ORDER BY p.created_at DESC
+          `, scope.params);
 
           const containersResult = await connection.queryObject(`
-            SELECT id, pod_id, name, image, status, ready, restart_count, started_at, 
-                   last_state_reason, last_state_exit_code, last_state_message,
-                   cpu_request_millicores, cpu_limit_millicores, memory_request_bytes, memory_limit_bytes,
-                   created_at, updated_at
-            FROM containers
-          `);
+            SELECT c.id, c.pod_id, c.name, c.image, c.status, c.ready, c.restart_count, c.started_at,
+                   c.last_state_reason, c.last_state_exit_code, c.last_state_message,
+                   c.cpu_request_millicores, c.cpu_limit_millicores, c.memory_request_bytes, c.memory_limit_bytes,
+                   c.created_at, c.updated_at
+            FROM containers c
+            JOIN pods p ON p.id = c.pod_id
+            ${scope.clause}
+          `, scope.params);
 
           const podLogSummariesResult = await connection.queryObject(`
             SELECT
               c.pod_id,
-              COUNT(*) FILTER (WHERE l.level = 'error')::int AS error_count,
+              COUNT(*) FILTER (WHERE l.level IN ('error', 'fatal'))::int AS error_count,
               COUNT(*) FILTER (WHERE l.level = 'warn')::int AS warning_count,
               COUNT(*) FILTER (
-                WHERE l.message ~* '(exception|stacktrace|traceback|(^|\\s)at\\s+\\S+)'
+                WHERE l.message ~* '${EXCEPTION_PATTERN}'
+                  AND l.message !~ '${STACK_CONTINUATION_PATTERN}'
               )::int AS exception_count
             FROM logs l
             JOIN containers c ON c.id = l.container_id
+            JOIN pods p ON p.id = c.pod_id
+            ${scope.clause}
             GROUP BY c.pod_id
-          `);
+          `, scope.params);
+
+          const eventConditions = [
+            ...scope.conditions,
+            "e.type = 'Warning'",
+            "e.involved_kind = 'Pod'",
+            `e.last_timestamp >= now() - make_interval(mins => $${scope.params.length + 1})`,
+          ];
+          let podEventSummariesResult;
+          try {
+            podEventSummariesResult = await connection.queryObject(`
+              SELECT
+                e.involved_uid AS pod_id,
+                SUM(e.count)::int AS warning_count,
+                (ARRAY_AGG(e.reason ORDER BY e.last_timestamp DESC))[1] AS last_warning_reason,
+                (ARRAY_AGG(e.message ORDER BY e.last_timestamp DESC))[1] AS last_warning_message,
+                MAX(e.last_timestamp) AS last_warning_at
+              FROM events e
+              JOIN pods p ON p.id::text = e.involved_uid
+              WHERE ${eventConditions.join(" AND ")}
+              GROUP BY e.involved_uid
+            `, [...scope.params, EVENT_WARNING_WINDOW_MINUTES]);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            if (message.includes('relation "events"')) {
+              podEventSummariesResult = { rows: [] };
+            } else {
+              throw error;
+            }
+          }
 
           result = {
             pods: podsResult.rows,
             containers: containersResult.rows,
             podLogSummaries: podLogSummariesResult.rows,
+            podEventSummaries: podEventSummariesResult.rows,
           };
         } finally {
           connection.release();
@@ -115,18 +1769,39 @@ serve(async (req) => {
         break;
       }
 
+      case "getNamespaces": {
+        const params: unknown[] = [];
+        const grantCondition = buildGrantCondition(principal, "p", params);
+        const connection = await pool.connect();
+        try {
+          const namespacesResult = await connection.queryObject(`
+            SELECT p.cluster, p.namespace, COUNT(*) FILTER (WHERE p.deleted_at IS NULL)::int AS pod_count
+            FROM pods p
+            ${grantCondition ? `WHERE ${grantCondition}` : ""}
+            GROUP BY p.cluster, p.namespace
+            ORDER BY p.cluster, p.namespace
+          `, params);
+          result = { namespaces: namespacesResult.rows };
+        } finally {
+          connection.release();
+        }
+        break;
+      }
+
       case "getLogs": {
         const containerId = url.searchParams.get("containerId");
         if (!containerId) {
           throw new Error("containerId is required");
         }
+        const target = await authorizeContainer(pool, principal, containerId);
+        await recordAudit(pool, principal, action, target, auditLogQueryDetails(url));
         const limit = parseLogLimit(url.searchParams.get("limit"));
 
         const connection = await pool.connect();
         try {
           const [logsResult, summaryResult] = await Promise.all([
             connection.queryObject(`
-              SELECT id, container_id, timestamp, level, message, created_at
+              SELECT id, container_id, timestamp, level, message, fields, redactions, created_at
               FROM logs
               WHERE container_id = $1
               ORDER BY timestamp DESC
@@ -134,10 +1809,13 @@ serve(async (req) => {
             `, [containerId, limit]),
             connection.queryObject(`
               SELECT
-                COUNT(*) FILTER (WHERE level = 'error')::int AS error_count,
+                COUNT(*) FILTER (WHERE level IN ('error', 'fatal'))::int AS error_count,
+                COUNT(*) FILTER (WHERE level = 'fatal')::int AS fatal_count,
                 COUNT(*) FILTER (WHERE level = 'warn')::int AS warning_count,
+                COUNT(*) FILTER (WHERE level = 'debug')::int AS debug_count,
                 COUNT(*) FILTER (
-                  WHERE message ~* '(exception|stacktrace|traceback|(^|\\s)at\\s+\\S+)'
+                  WHERE message ~* '${EXCEPTION_PATTERN}'
+                    AND message !~ '${STACK_CONTINUATION_PATTERN}'
                 )::int AS exception_count
               FROM logs
               WHERE container_id = $1
@@ -148,7 +1826,9 @@ serve(async (req) => {
             logs: [...logsResult.rows].reverse(),
             summary: summaryResult.rows[0] ?? {
               error_count: 0,
+              fatal_count: 0,
               warning_count: 0,
+              debug_count: 0,
               exception_count: 0,
             },
           };
@@ -158,39 +1838,493 @@ serve(async (req) => {
         break;
       }
 
-      case "getResourceSamples": {
+      case "searchLogs": {
+        // Scoped to one container (LogViewer) or across pods/containers/namespaces (log search page).
+        const containerId = url.searchParams.get("containerId");
+        const containerIds = parseIdListParam(url, "containerIds");
+        const podIds = parseIdListParam(url, "podIds");
+        const rawLimit = parseInt(url.searchParams.get("limit") ?? "", 10);
+        const limit = Number.isFinite(rawLimit) && rawLimit > 0
+          ? Math.min(rawLimit, LOG_QUERY_LIMIT_MAX)
+          : LOG_SEARCH_PAGE_SIZE_DEFAULT;
+
+        const scope = buildPodScopeFilter(url, "p", principal);
+        const params: unknown[] = [...scope.params];
+        const conditions = [...scope.conditions];
+        const isFirstPage = !url.searchParams.get("cursor");
+        // The container summary below reads logs directly, so the container itself has to be granted
+        const target: Partial<NamespaceTarget> = containerId
+          ? await authorizeContainer(pool, principal, containerId)
+          : {};
+        // Paging through older results is part of the same search, so only the first page is audited
+        if (isFirstPage) {
+          await recordAudit(pool, principal, action, target, auditLogQueryDetails(url));
+        }
+        if (containerId) {
+          params.push(containerId);
+          conditions.push(`l.container_id = $${params.length}`);
+        }
+        if (containerIds.length > 0) {
+          params.push(containerIds);
+          conditions.push(`l.container_id = ANY($${params.length}::uuid[])`);
+        }
+        if (podIds.length > 0) {
+          params.push(podIds);
+          conditions.push(`c.pod_id = ANY($${params.length}::uuid[])`);
+        }
+        conditions.push(...buildLogSearchFilter(url, params).conditions);
+        const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+        const fromClause = `
+          FROM logs l
+          JOIN containers c ON c.id = l.container_id
+          JOIN pods p ON p.id = c.pod_id
+        `;
+
+        const connection = await pool.connect();
+        try {
+          // Newest first so each page continues backwards from the previous cursor.
+          const logsResult = await connection.queryObject<Record<string, unknown>>(`
+            SELECT l.id, l.container_id, l.timestamp, l.level, l.message, l.fields, l.redactions, l.created_at,
+                   c.pod_id, p.name AS pod_name, c.name AS container_name,
+                   l.timestamp::text AS timestamp_key
+            ${fromClause}
+            ${whereClause}
+            ORDER BY l.timestamp DESC, l.id DESC
+            LIMIT $${params.length + 1}
+          `, [...params, limit + 1]);
+
+          const hasMore = logsResult.rows.length > limit;
+          const pageRows = logsResult.rows.slice(0, limit);
+          const oldest = pageRows[pageRows.length - 1];
+
+          let summary = null;
+          if (containerId && isFirstPage) {
+            const summaryResult = await connection.queryObject(`
+              SELECT
+                COUNT(*) FILTER (WHERE level IN ('error', 'fatal'))::int AS error_count,
+                COUNT(*) FILTER (WHERE level = 'fatal')::int AS fatal_count,
+                COUNT(*) FILTER (WHERE level = 'warn')::int AS warning_count,
+                COUNT(*) FILTER (WHERE level = 'debug')::int AS debug_count,
+                COUNT(*) FILTER (
+                  WHERE message ~* '${EXCEPTION_PATTERN}'
+                    AND message !~ '${STACK_CONTINUATION_PATTERN}'
+                )::int AS exception_count
+              FROM logs
+              WHERE container_id = $1
+            `, [containerId]);
+            summary = summaryResult.rows[0] ?? { error_count: 0, fatal_count: 0, warning_count: 0, debug_count: 0, exception_count: 0 };
+          }
+
+          // Hit counts per container for the facet lists, bounded so broad queries stay cheap.
+          let facets = null;
+          if (url.searchParams.get("facets") === "true" && isFirstPage) {
+            const facetsResult = await connection.queryObject(`
+              SELECT hits.container_id, COUNT(*)::int AS hit_count
+              FROM (
+                SELECT l.container_id
+                ${fromClause}
+                ${whereClause}
+                LIMIT $${params.length + 1}
+              ) hits
+              GROUP BY hits.container_id
+            `, [...params, LOG_SEARCH_FACET_SCAN_LIMIT]);
+            const facetRows = facetsResult.rows as Array<{ hit_count: number }>;
+            const scanned = facetRows.reduce((sum, row) => sum + Number(row.hit_count), 0);
+            facets = { containers: facetRows, truncated: scanned >= LOG_SEARCH_FACET_SCAN_LIMIT };
+          }
+
+          result = {
+            logs: pageRows.map(({ timestamp_key: _timestampKey, ...row }) => row).reverse(),
+            nextCursor: hasMore && oldest ? encodeLogCursor(String(oldest.timestamp_key), String(oldest.id)) : null,
+            summary,
+            facets,
+          };
+        } finally {
+          connection.release();
+        }
+        break;
+      }
+
+      case "getEvents": {
+        const podId = url.searchParams.get("podId");
+        if (!podId) {
+          throw new Error("podId is required");
+        }
+        await authorizePod(pool, principal, podId);
+        const type = url.searchParams.get("type");
+        const rawLimit = parseInt(url.searchParams.get("limit") ?? "200", 10);
+        const limit = Number.isFinite(rawLimit) && rawLimit > 0 ? Math.min(rawLimit, EVENT_QUERY_LIMIT_MAX) : 200;
+
+        const connection = await pool.connect();
+        try {
+          const eventsResult = await connection.queryObject(`
+            SELECT id, cluster, namespace, involved_kind, involved_name, involved_uid, type, reason, message,
+                   count, source_component, first_timestamp, last_timestamp
+            FROM events
+            WHERE involved_uid = $1
+              AND ($2::text IS NULL OR type = $2)
+            ORDER BY last_timestamp DESC
+            LIMIT $3
+          `, [podId, type, limit]);
+
+          result = { events: eventsResult.rows };
+        } finally {
+          connection.release();
+        }
+        break;
+      }
+
+      case "getContainerHistory": {
         const containerId = url.searchParams.get("containerId");
         if (!containerId) {
           throw new Error("containerId is required");
         }
+        await authorizeContainer(pool, principal, containerId);
+        const rawHours = parseInt(url.searchParams.get("hours") ?? "", 10);
+        const hours = Number.isFinite(rawHours) && rawHours > 0
+          ? Math.min(rawHours, CONTAINER_HISTORY_HOURS_MAX)
+          : CONTAINER_HISTORY_HOURS_DEFAULT;
 
         const connection = await pool.connect();
         try {
-          let samplesResult;
+          let historyResult;
           try {
-            samplesResult = await connection.queryObject(`
-              SELECT sampled_at, cpu_millicores, memory_bytes
-              FROM container_resource_samples
-              WHERE container_id = $1
-              ORDER BY sampled_at DESC
-              LIMIT 120
-            `, [containerId]);
+            // Include the last change before the window so the timeline starts in a known state.
+            historyResult = await connection.queryObject(`
+              SELECT h.*
+              FROM (
+                (
+                  SELECT container_id, status, ready, restart_count, reason, exit_code, message, started_at, recorded_at
+                  FROM container_status_history
+                  WHERE container_id = $1
+                    AND recorded_at < now() - make_interval(hours => $2)
+                  ORDER BY recorded_at DESC
+                  LIMIT 1
+                )
+                UNION ALL
+                (
+                  SELECT container_id, status, ready, restart_count, reason, exit_code, message, started_at, recorded_at
+                  FROM container_status_history
+                  WHERE container_id = $1
+                    AND recorded_at >= now() - make_interval(hours => $2)
+                  ORDER BY recorded_at DESC
+                  LIMIT $3
+                )
+              ) h
+              ORDER BY h.recorded_at ASC
+            `, [containerId, hours, CONTAINER_HISTORY_ROW_LIMIT]);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            if (message.includes("container_status_history")) {
+              historyResult = { rows: [] };
+            } else {
+              throw error;
+            }
+          }
+
+          result = { history: historyResult.rows, hours };
+        } finally {
+          connection.release();
+        }
+        break;
+      }
+
+      case "getPodStatusHistory": {
+        const podIds = parseIdListParam(url, "podIds");
+        if (podIds.length === 0) {
+          throw new Error("podIds is required");
+        }
+        const params: unknown[] = [podIds, POD_STATUS_HISTORY_ROW_LIMIT];
+        const grantCondition = buildGrantCondition(principal, "p", params);
+
+        const connection = await pool.connect();
+        try {
+          let historyResult;
+          try {
+            historyResult = await connection.queryObject(`
+              SELECT c.pod_id, c.name AS container_name,
+                     h.container_id, h.status, h.ready, h.restart_count, h.reason, h.exit_code, h.message,
+                     h.started_at, h.recorded_at
+              FROM container_status_history h
+              JOIN containers c ON c.id = h.container_id
+              JOIN pods p ON p.id = c.pod_id
+              WHERE c.pod_id = ANY($1::uuid[])
+                ${grantCondition ? `AND ${grantCondition}` : ""}
+              ORDER BY h.recorded_at ASC
+              LIMIT $2
+            `, params);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            if (message.includes("container_status_history")) {
+              historyResult = { rows: [] };
+            } else {
+              throw error;
+            }
+          }
+
+          result = { history: historyResult.rows };
+        } finally {
+          connection.release();
+        }
+        break;
+      }
+
+      case "getTopErrors": {
+        const podIds = parseIdListParam(url, "podIds");
+        if (podIds.length === 0) {
+          throw new Error("podIds is required");
+        }
+        const params: unknown[] = [podIds, TOP_ERRORS_ROW_LIMIT];
+        const grantCondition = buildGrantCondition(principal, "p", params);
+
+        const connection = await pool.connect();
+        try {
+          let fingerprintsResult;
+          try {
+            // One row per fingerprint and version; the dashboard compares versions to spot new errors.
+            fingerprintsResult = await connection.queryObject(`
+              SELECT f.fingerprint, f.version,
+                     MIN(f.pattern) AS pattern,
+                     (array_agg(f.sample_message ORDER BY f.last_seen DESC))[1] AS sample_message,
+                     MAX(f.level)::text AS level,
+                     SUM(f.occurrences)::int AS occurrences,
+                     COUNT(*)::int AS container_count,
+                     MIN(f.first_seen) AS first_seen,
+                     MAX(f.last_seen) AS last_seen
+              FROM error_fingerprints f
+              JOIN containers c ON c.id = f.container_id
+              JOIN pods p ON p.id = c.pod_id
+              WHERE c.pod_id = ANY($1::uuid[])
+                ${grantCondition ? `AND ${grantCondition}` : ""}
+              GROUP BY f.fingerprint, f.version
+              ORDER BY MAX(f.last_seen) DESC
+              LIMIT $2
+            `, params);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            if (message.includes("error_fingerprints")) {
+              fingerprintsResult = { rows: [] };
+            } else {
+              throw error;
+            }
+          }
+
+          result = { fingerprints: fingerprintsResult.rows };
+        } finally {
+          connection.release();
+        }
+        break;
+      }
+
+      case "getWorkloads": {
+        const scope = buildPodScopeFilter(url, "w", principal);
+        const connection = await pool.connect();
+        try {
+          let workloadsResult;
+          try {
+            workloadsResult = await connection.queryObject(`
+              SELECT w.id, w.cluster, w.namespace, w.kind, w.name, w.desired_replicas, w.ready_replicas,
+                     w.available_replicas, w.updated_replicas, w.conditions, w.rollout_status, w.rollout_message,
+                     w.rollout_started_at, w.updated_at
+              FROM workloads w
+              ${scope.clause}
+              ORDER BY w.cluster, w.namespace, w.name
+            `, scope.params);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            if (message.includes("workloads")) {
+              workloadsResult = { rows: [] };
+            } else {
+              throw error;
+            }
+          }
+
+          result = { workloads: workloadsResult.rows };
+        } finally {
+          connection.release();
+        }
+        break;
+      }
+
+      case "getAlerts": {
+        const scope = buildPodScopeFilter(url, "a", principal);
+        const params: unknown[] = [...scope.params];
+        const conditions = [...scope.conditions];
+        const status = url.searchParams.get("status");
+        if (status && ALERT_STATUSES.includes(status)) {
+          params.push(status);
+          conditions.push(`a.status = $${params.length}`);
+        }
+        params.push(ALERTS_ROW_LIMIT);
+
+        const connection = await pool.connect();
+        try {
+          let alertsResult;
+          try {
+            alertsResult = await connection.queryObject(`
+              SELECT ${ALERT_COLUMNS}
+              FROM alerts a
+              ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+              ORDER BY (a.status = 'firing') DESC, a.started_at DESC
+              LIMIT $${params.length}
+            `, params);
           } catch (error) {
             const message = error instanceof Error ? error.message : String(error);
-            if (message.includes("container_resource_samples")) {
-              samplesResult = { rows: [] };
+            if (message.includes("alerts")) {
+              alertsResult = { rows: [] };
             } else {
               throw error;
             }
           }
 
-          result = { samples: [...samplesResult.rows].reverse() };
+          result = { alerts: alertsResult.rows };
         } finally {
           connection.release();
         }
         break;
       }
 
+      case "getAlertDeliveries": {
+        const alertId = parseAlertId(url);
+        await authorizeAlert(pool, principal, alertId);
+
+        const connection = await pool.connect();
+        try {
+          let deliveriesResult;
+          try {
+            deliveriesResult = await connection.queryObject(`
+              SELECT id::text AS id, alert_id::text AS alert_id, notifier_id, notifier_type, event, status,
+                     attempts, response_status, error, created_at, delivered_at
+              FROM alert_deliveries
+              WHERE alert_id = $1
+              ORDER BY created_at DESC
+              LIMIT $2
+            `, [alertId, ALERT_DELIVERIES_ROW_LIMIT]);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            if (message.includes("alert_deliveries")) {
+              deliveriesResult = { rows: [] };
+            } else {
+              throw error;
+            }
+          }
+
+          result = { deliveries: deliveriesResult.rows };
+        } finally {
+          connection.release();
+        }
+        break;
+      }
+
+      case "acknowledgeAlert": {
+        requirePost(req, action);
+        const alertId = parseAlertId(url);
+        const target = await authorizeAlert(pool, principal, alertId);
+
+        const connection = await pool.connect();
+        try {
+          const alertResult = await connection.queryObject(`
+            UPDATE alerts
+            SET acknowledged_at = COALESCE(acknowledged_at, now())
+            WHERE id = $1
+            RETURNING ${ALERT_COLUMNS}
+          `, [alertId]);
+          if (alertResult.rows.length === 0) {
+            throw new Error("Alert not found");
+          }
+          result = { alert: alertResult.rows[0] };
+        } finally {
+          connection.release();
+        }
+        await recordAudit(pool, principal, action, target, { alertId });
+        break;
+      }
+
+      case "silenceAlert": {
+        requirePost(req, action);
+        const alertId = parseAlertId(url);
+        // minutes=0 lifts the silence
+        const rawMinutes = parseInt(url.searchParams.get("minutes") ?? "", 10);
+        if (!Number.isFinite(rawMinutes) || rawMinutes < 0) {
+          throw new Error("minutes is required");
+        }
+        const minutes = Math.min(rawMinutes, ALERT_SILENCE_MINUTES_MAX);
+        const target = await authorizeAlert(pool, principal, alertId);
+
+        const connection = await pool.connect();
+        try {
+          const alertResult = await connection.queryObject(`
+            UPDATE alerts
+            SET silenced_until = CASE WHEN $2::int > 0 THEN now() + make_interval(mins => $2::int) END
+            WHERE id = $1
+            RETURNING ${ALERT_COLUMNS}
+          `, [alertId, minutes]);
+          if (alertResult.rows.length === 0) {
+            throw new Error("Alert not found");
+          }
+          result = { alert: alertResult.rows[0] };
+        } finally {
+          connection.release();
+        }
+        await recordAudit(pool, principal, action, target, { alertId, minutes });
+        break;
+      }
+
+      case "getVersionImpact": {
+        result = { impact: await fetchVersionImpact(pool, url, principal) };
+        break;
+      }
+
+      case "getResourceSamples": {
+        const containerId = url.searchParams.get("containerId");
+        if (!containerId) {
+          throw new Error("containerId is required");
+        }
+        await authorizeContainer(pool, principal, containerId);
+        result = await fetchResourceSamples(pool, url, containerId);
+        break;
+      }
+      case "getResourceRecommendations": {
+        result = { recommendations: await fetchResourceRecommendations(pool, url, principal) };
+        break;
+      }
+
+      case "whoami": {
+        result = {
+          authRequired: API_AUTH_REQUIRED,
+          principal: { name: principal.name, role: principal.role, namespaces: principal.namespaces },
+        };
+        break;
+      }
+
+      case "getAuditLog": {
+        const scope = buildPodScopeFilter(url, "a", principal);
+        const params: unknown[] = [...scope.params];
+        const conditions = [...scope.conditions];
+        const actor = url.searchParams.get("actor");
+        if (actor) {
+          params.push(actor);
+          conditions.push(`a.actor = $${params.length}`);
+        }
+        const auditAction = url.searchParams.get("auditAction");
+        if (auditAction) {
+          params.push(auditAction);
+          conditions.push(`a.action = $${params.length}`);
+        }
+        params.push(AUDIT_LOG_ROW_LIMIT);
+
+        const entries = await queryRows(pool, `
+          SELECT a.id::text AS id, a.token_id::text AS token_id, a.actor, a.role, a.action, a.cluster, a.namespace,
+                 a.pod_id, a.container_id, a.details, a.created_at
+          FROM audit_log a
+          ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+          ORDER BY a.created_at DESC
+          LIMIT $${params.length}
+        `, params);
+        result = { entries };
+        break;
+      }
+
       case "health": {
         const connection = await pool.connect();
         try {
@@ -199,6 +2333,10 @@ serve(async (req) => {
         } finally {
           connection.release();
         }
+        // Probes call health without a token; freshness and collector runs need the same access as getPods
+        if (req.headers.get("x-api-token") || !API_AUTH_REQUIRED) {
+          Object.assign(result, await fetchHealthDetails(pool, url, await authenticate(req, pool)));
+        }
         break;
       }
 
@@ -211,11 +2349,14 @@ serve(async (req) => {
     });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error("Database error:", error);
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) {
+      console.error("Database error:", error);
+    }
     return new Response(
       JSON.stringify({ error: errorMessage }),
       { 
-        status: 500, 
+        status, 
         headers: { ...corsHeaders, "Content-Type": "application/json" } 
       }
     );
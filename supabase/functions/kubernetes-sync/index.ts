@@ -10,6 +10,7 @@ const corsHeaders = {
 const k8sApiServer = Deno.env.get("K8S_API_SERVER");
 const k8sToken = Deno.env.get("K8S_TOKEN");
 const k8sNamespace = Deno.env.get("K8S_NAMESPACE") || ""; // Empty = all namespaces
+const k8sClusterName = Deno.env.get("K8S_CLUSTER_NAME") || "default";
 const k8sCaCert = Deno.env.get("K8S_CA_CERT"); // Optional: Base64 encoded CA cert
 const k8sSkipTlsVerify = Deno.env.get("K8S_SKIP_TLS_VERIFY") === "true";
 
@@ -22,12 +23,19 @@ const dbUser = Deno.env.get("DB_USER");
 const dbPassword = Deno.env.get("DB_PASSWORD") ?? "";
 const dbSsl = Deno.env.get("DB_SSL") !== "false";
 
+interface K8sOwnerReference {
+  kind: string;
+  name: string;
+  controller?: boolean;
+}
+
 interface K8sPod {
   metadata: {
     uid: string;
     name: string;
     namespace: string;
     labels?: Record<string, string>;
+    ownerReferences?: K8sOwnerReference[];
     creationTimestamp: string;
   };
   spec: {
@@ -61,6 +69,66 @@ interface K8sPodList {
   items: K8sPod[];
 }
 
+interface K8sEvent {
+  metadata: {
+    uid: string;
+    namespace: string;
+    creationTimestamp: string;
+  };
+  involvedObject: {
+    kind?: string;
+    name?: string;
+    uid?: string;
+  };
+  type?: string;
+  reason?: string;
+  message?: string;
+  count?: number;
+  firstTimestamp?: string | null;
+  lastTimestamp?: string | null;
+  eventTime?: string | null;
+  source?: { component?: string };
+}
+
+interface K8sEventList {
+  items: K8sEvent[];
+}
+
+// ReplicaSets and Jobs, read only to follow their ownerReferences up to a Deployment / CronJob
+interface K8sOwnedObject {
+  metadata: {
+    name: string;
+    namespace: string;
+    ownerReferences?: K8sOwnerReference[];
+  };
+}
+
+interface K8sOwnedObjectList {
+  items: K8sOwnedObject[];
+}
+
+type K8sResource = "pods" | "events" | "replicasets" | "jobs";
+
+const K8S_RESOURCE_API: Record<K8sResource, string> = {
+  pods: "api/v1",
+  events: "api/v1",
+  replicasets: "apis/apps/v1",
+  jobs: "apis/batch/v1",
+};
+
+// Owner kinds usually managed by another workload, and the kind that manages them
+const WORKLOAD_PARENT_KINDS: Record<string, string> = {
+  ReplicaSet: "Deployment",
+  Job: "CronJob",
+};
+
+type OwnerIndex = Map<string, K8sOwnerReference[]>;
+
+interface PodWorkload {
+  kind: string | null;
+  name: string | null;
+}
+
 let pool: Pool | null = null;
 
 function getPool(): Pool {
@@ -85,14 +153,17 @@ function getPool(): Pool {
   throw new Error("Database configuration missing. Set DATABASE_URL or DB_HOST, DB_NAME, DB_USER (DB_PASSWORD optional).");
 }
 
-async function fetchK8sPods(): Promise<K8sPod[]> {
+async function fetchK8sList<TList extends { items: unknown[] }>(
+  resource: K8sResource
+): Promise<TList["items"]> {
   if (!k8sApiServer || !k8sToken) {
     throw new Error("Kubernetes API configuration missing. Set K8S_API_SERVER and K8S_TOKEN.");
   }
 
+  const api = K8S_RESOURCE_API[resource];
   const endpoint = k8sNamespace
-    ? `${k8sApiServer}/api/v1/namespaces/${k8sNamespace}/pods`
-    : `${k8sApiServer}/api/v1/pods`;
+    ? `${k8sApiServer}/${api}/namespaces/${k8sNamespace}/${resource}`
+    : `${k8sApiServer}/${api}/${resource}`;
 
   const response = await fetch(endpoint, {
     headers: {
@@ -106,10 +177,67 @@ async function fetchK8sPods(): Promise<K8sPod[]> {
     throw new Error(`Kubernetes API error: ${response.status} - ${errorText}`);
   }
 
-  const data: K8sPodList = await response.json();
+  const data: TList = await response.json();
   return data.items;
 }
 
+function fetchK8sPods(): Promise<K8sPod[]> {
+  return fetchK8sList<K8sPodList>("pods");
+}
+
+// Events are extra context: a list that cannot be read (e.g. missing RBAC) must not stop the pod sync
+async function fetchK8sEvents(): Promise<K8sEvent[]> {
+  try {
+    return await fetchK8sList<K8sEventList>("events");
+  } catch (error) {
+    console.warn("Skipping events:", error instanceof Error ? error.message : String(error));
+    return [];
+  }
+}
+
+// "<kind>/<namespace>/<name>" -> ownerReferences of every ReplicaSet and Job. A list that cannot be read
+// (e.g. missing RBAC) is skipped, and pods owned through it keep their direct owner.
+async function fetchK8sOwnerIndex(): Promise<OwnerIndex> {
+  const index: OwnerIndex = new Map();
+  const sources: Array<[string, K8sResource]> = [["ReplicaSet", "replicasets"], ["Job", "jobs"]];
+  for (const [kind, resource] of sources) {
+    try {
+      for (const item of await fetchK8sList<K8sOwnedObjectList>(resource)) {
+        index.set(`${kind}/${item.metadata.namespace}/${item.metadata.name}`, item.metadata.ownerReferences ?? []);
+      }
+    } catch (error) {
+      console.warn(`Skipping ${kind} owner lookup:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+  return index;
+}
+
+function controllerOf(ownerReferences?: K8sOwnerReference[]): K8sOwnerReference | null {
+  if (!ownerReferences || ownerReferences.length === 0) return null;
+  return ownerReferences.find((ref) => ref.controller) ?? ownerReferences[0];
+}
+
+// Same resolution as scripts/workload-owners.mjs: ReplicaSet -> Deployment, Job -> CronJob, bare pods -> null.
+function resolvePodWorkload(pod: K8sPod, owners: OwnerIndex): PodWorkload {
+  const owner = controllerOf(pod.metadata.ownerReferences);
+  if (!owner) return { kind: null, name: null };
+
+  const parentKind = WORKLOAD_PARENT_KINDS[owner.kind];
+  if (!parentKind) return { kind: owner.kind, name: owner.name };
+
+  const ownerReferences = owners.get(`${owner.kind}/${pod.metadata.namespace}/${owner.name}`) ?? null;
+  const parent = controllerOf(ownerReferences ?? undefined);
+  if (parent?.kind === parentKind) return { kind: parent.kind, name: parent.name };
+
+  // A ReplicaSet that is already gone (or unreadable) is named "<deployment>-<pod-template-hash>"
+  const templateHash = pod.metadata.labels?.["pod-template-hash"];
+  if (ownerReferences === null && owner.kind === "ReplicaSet" && templateHash && owner.name.endsWith(`-${templateHash}`)) {
+    return { kind: "Deployment", name: owner.name.slice(0, -(templateHash.length + 1)) };
+  }
+
+  return { kind: owner.kind, name: owner.name };
+}
+
 function mapPodStatus(phase: string, containerStatuses?: K8sPod["status"]["containerStatuses"]): string {
   if (containerStatuses) {
     for (const cs of containerStatuses) {
@@ -143,28 +271,43 @@ function mapContainerStatus(state: ContainerState): string {
   return "Waiting";
 }
 
-async function syncToDb(pods: K8sPod[]): Promise<{ podsUpserted: number; containersUpserted: number }> {
+async function syncToDb(
+  pods: K8sPod[],
+  events: K8sEvent[],
+  owners: OwnerIndex
+): Promise<{ podsUpserted: number; containersUpserted: number; eventsUpserted: number; podsDeleted: number }> {
   const dbPool = getPool();
   const connection = await dbPool.connect();
   let podsUpserted = 0;
   let containersUpserted = 0;
+  let eventsUpserted = 0;
+  let podsDeleted = 0;
 
   try {
     for (const pod of pods) {
       const totalRestarts = pod.status.containerStatuses?.reduce((sum, cs) => sum + cs.restartCount, 0) || 0;
+      const workload = resolvePodWorkload(pod, owners);
 
       await connection.queryObject(`
-        INSERT INTO pods (id, name, namespace, status, node_name, pod_ip, labels, restarts, created_at, updated_at)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        INSERT INTO pods (
+          id, name, namespace, status, node_name, pod_ip, labels, restarts, created_at, updated_at, cluster, last_seen_at,
+          workload_kind, workload_name
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $10, $12, $13)
         ON CONFLICT (id) DO UPDATE SET
           name = EXCLUDED.name,
           namespace = EXCLUDED.namespace,
+          cluster = EXCLUDED.cluster,
           status = EXCLUDED.status,
           node_name = EXCLUDED.node_name,
           pod_ip = EXCLUDED.pod_ip,
           labels = EXCLUDED.labels,
           restarts = EXCLUDED.restarts,
-          updated_at = EXCLUDED.updated_at
+          workload_kind = EXCLUDED.workload_kind,
+          workload_name = EXCLUDED.workload_name,
+          updated_at = EXCLUDED.updated_at,
+          last_seen_at = EXCLUDED.last_seen_at,
+          deleted_at = NULL
       `, [
         pod.metadata.uid,
         pod.metadata.name,
@@ -176,6 +319,9 @@ async function syncToDb(pods: K8sPod[]): Promise<{ podsUpserted: number; contain
         totalRestarts,
         pod.metadata.creationTimestamp,
         new Date().toISOString(),
+        k8sClusterName,
+        workload.kind,
+        workload.name,
       ]);
       podsUpserted++;
 
@@ -215,11 +361,57 @@ async function syncToDb(pods: K8sPod[]): Promise<{ podsUpserted: number; contain
         }
       }
     }
+
+    // Pods of this cluster (and namespace, when one is configured) that the API no longer lists are kept as history
+    const deletedResult = await connection.queryObject(`
+      UPDATE pods
+      SET deleted_at = now()
+      WHERE cluster = $1
+        AND ($2 = '' OR namespace = $2)
+        AND deleted_at IS NULL
+        AND NOT (id::text = ANY($3::text[]))
+    `, [k8sClusterName, k8sNamespace, pods.map((pod) => pod.metadata.uid)]);
+    podsDeleted = deletedResult.rowCount ?? 0;
+
+    for (const event of events) {
+      const lastSeen = event.lastTimestamp || event.eventTime || event.metadata.creationTimestamp;
+
+      await connection.queryObject(`
+        INSERT INTO events (
+          id, cluster, namespace, involved_kind, involved_name, involved_uid, type, reason, message,
+          count, source_component, first_timestamp, last_timestamp, updated_at
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+        ON CONFLICT (id) DO UPDATE SET
+          type = EXCLUDED.type,
+          reason = EXCLUDED.reason,
+          message = EXCLUDED.message,
+          count = EXCLUDED.count,
+          last_timestamp = EXCLUDED.last_timestamp,
+          updated_at = EXCLUDED.updated_at
+      `, [
+        event.metadata.uid,
+        k8sClusterName,
+        event.metadata.namespace,
+        event.involvedObject.kind || "Unknown",
+        event.involvedObject.name || "",
+        event.involvedObject.uid || null,
+        event.type || "Normal",
+        event.reason || "",
+        event.message || "",
+        event.count ?? 1,
+        event.source?.component || null,
+        event.firstTimestamp || lastSeen,
+        lastSeen,
+        new Date().toISOString(),
+      ]);
+      eventsUpserted++;
+    }
   } finally {
     connection.release();
   }
 
-  return { podsUpserted, containersUpserted };
+  return { podsUpserted, containersUpserted, eventsUpserted, podsDeleted };
 }
 
 serve(async (req) => {
@@ -235,10 +427,10 @@ serve(async (req) => {
       case "sync": {
         console.log("Starting Kubernetes sync...");
 
-        const pods = await fetchK8sPods();
-        console.log(`Fetched ${pods.length} pods from Kubernetes`);
+        const [pods, events, owners] = await Promise.all([fetchK8sPods(), fetchK8sEvents(), fetchK8sOwnerIndex()]);
+        console.log(`Fetched ${pods.length} pods and ${events.length} events from Kubernetes`);
 
-        const result = await syncToDb(pods);
+        const result = await syncToDb(pods, events, owners);
 
         const response = {
           success: true,
@@ -247,7 +439,9 @@ serve(async (req) => {
             podsFetched: pods.length,
             podsUpserted: result.podsUpserted,
             containersUpserted: result.containersUpserted,
-            podsDeleted: 0,
+            eventsFetched: events.length,
+            eventsUpserted: result.eventsUpserted,
+            podsDeleted: result.podsDeleted,
           },
         };
 
@@ -266,6 +460,7 @@ serve(async (req) => {
           kubernetes: {
             configured: hasK8sConfig,
             apiServer: k8sApiServer ? k8sApiServer.replace(/\/\/.*@/, "//***@") : null,
+            cluster: k8sClusterName,
             namespace: k8sNamespace || "all",
           },
           database: {
@@ -2,6 +2,9 @@
 -- Run: psql $DATABASE_URL -f supabase/migrations/ext_local_schema.sql
 -- Or: psql -h $DB_HOST -p ${DB_PORT:-5432} -U $DB_USER -d $DB_NAME -f supabase/migrations/ext_local_schema.sql
 
+-- Trigram matching for server-side log search (searchLogs action)
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
 -- Create enum for pod status
 CREATE TYPE public.pod_status AS ENUM ('Running', 'Pending', 'Error', 'OOMKilled', 'CrashLoopBackOff', 'Terminated', 'Unknown');
 
@@ -10,6 +13,8 @@ CREATE TYPE public.container_status AS ENUM ('Running', 'Waiting', 'Terminated')
 
 -- Create enum for log level
 CREATE TYPE public.log_level AS ENUM ('info', 'warn', 'error');
+ALTER TYPE public.log_level ADD VALUE IF NOT EXISTS 'debug' BEFORE 'info';
+ALTER TYPE public.log_level ADD VALUE IF NOT EXISTS 'fatal' AFTER 'error';
 
 -- Create pods table
 CREATE TABLE IF NOT EXISTS public.pods (
@@ -21,10 +26,24 @@ CREATE TABLE IF NOT EXISTS public.pods (
     pod_ip TEXT,
     labels JSONB DEFAULT '{}',
     restarts INTEGER DEFAULT 0,
+    cluster TEXT NOT NULL DEFAULT 'default',
     created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
     updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
 );
 
+ALTER TABLE public.pods
+    ADD COLUMN IF NOT EXISTS cluster TEXT NOT NULL DEFAULT 'default';
+
+-- Lifecycle: last sync that listed the pod, and when it disappeared from the Kubernetes API (NULL while it exists)
+ALTER TABLE public.pods
+    ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Top-level workload from ownerReferences (ReplicaSet -> Deployment, Job -> CronJob); NULL for bare pods
+ALTER TABLE public.pods
+    ADD COLUMN IF NOT EXISTS workload_kind TEXT,
+    ADD COLUMN IF NOT EXISTS workload_name TEXT;
+
 -- Create containers table
 CREATE TABLE IF NOT EXISTS public.containers (
     id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
@@ -62,10 +81,197 @@ CREATE TABLE IF NOT EXISTS public.logs (
     created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
 );
 
+-- Structured fields parsed from JSON log lines (level, logger, trace_id, msg, ...)
+ALTER TABLE public.logs
+    ADD COLUMN IF NOT EXISTS fields JSONB;
+
+-- Ids of the redaction detectors that rewrote the line at ingest (jwt, email, ...); NULL when nothing was redacted
+ALTER TABLE public.logs
+    ADD COLUMN IF NOT EXISTS redactions TEXT[];
+
+-- Create events table (Kubernetes Events such as FailedScheduling, FailedMount, BackOff, Evicted)
+CREATE TABLE IF NOT EXISTS public.events (
+    id TEXT NOT NULL PRIMARY KEY,
+    cluster TEXT NOT NULL DEFAULT 'default',
+    namespace TEXT NOT NULL,
+    involved_kind TEXT NOT NULL,
+    involved_name TEXT NOT NULL,
+    involved_uid TEXT,
+    type TEXT NOT NULL DEFAULT 'Normal',
+    reason TEXT NOT NULL DEFAULT '',
+    message TEXT NOT NULL DEFAULT '',
+    count INTEGER NOT NULL DEFAULT 1,
+    source_component TEXT,
+    first_timestamp TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    last_timestamp TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create container status history table (one row per observed state change)
+CREATE TABLE IF NOT EXISTS public.container_status_history (
+    id BIGSERIAL PRIMARY KEY,
+    container_id UUID REFERENCES public.containers(id) ON DELETE CASCADE NOT NULL,
+    pod_id UUID NOT NULL,
+    status container_status NOT NULL,
+    ready BOOLEAN,
+    restart_count INTEGER,
+    reason TEXT,
+    exit_code INTEGER,
+    message TEXT,
+    started_at TIMESTAMP WITH TIME ZONE,
+    recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create error fingerprints table (normalized error/exception messages counted per container and version)
+CREATE TABLE IF NOT EXISTS public.error_fingerprints (
+    container_id UUID REFERENCES public.containers(id) ON DELETE CASCADE NOT NULL,
+    fingerprint TEXT NOT NULL,
+    version TEXT NOT NULL DEFAULT 'unknown',
+    pattern TEXT NOT NULL,
+    sample_message TEXT NOT NULL,
+    level log_level NOT NULL,
+    occurrences BIGINT NOT NULL DEFAULT 0,
+    first_seen TIMESTAMP WITH TIME ZONE NOT NULL,
+    last_seen TIMESTAMP WITH TIME ZONE NOT NULL,
+    PRIMARY KEY (container_id, fingerprint)
+);
+
+-- Create alerts table (raised and resolved by the collector's alert rules)
+CREATE TABLE IF NOT EXISTS public.alerts (
+    id BIGSERIAL PRIMARY KEY,
+    dedup_key TEXT NOT NULL,
+    rule_id TEXT NOT NULL,
+    rule_type TEXT NOT NULL,
+    severity TEXT NOT NULL DEFAULT 'warning',
+    status TEXT NOT NULL DEFAULT 'firing' CHECK (status IN ('firing', 'resolved')),
+    cluster TEXT NOT NULL DEFAULT 'default',
+    namespace TEXT NOT NULL,
+    deployment_name TEXT,
+    pod_id UUID,
+    pod_name TEXT,
+    container_name TEXT,
+    title TEXT NOT NULL,
+    message TEXT,
+    value DOUBLE PRECISION,
+    threshold DOUBLE PRECISION,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    acknowledged_at TIMESTAMP WITH TIME ZONE,
+    silenced_until TIMESTAMP WITH TIME ZONE
+);
+
+-- Create alert deliveries table (one row per notification sent, or given up on, by a notifier)
+CREATE TABLE IF NOT EXISTS public.alert_deliveries (
+    id BIGSERIAL PRIMARY KEY,
+    alert_id BIGINT REFERENCES public.alerts(id) ON DELETE CASCADE NOT NULL,
+    notifier_id TEXT NOT NULL,
+    notifier_type TEXT NOT NULL,
+    event TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 1,
+    response_status INTEGER,
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    delivered_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create API tokens table (static tokens for the database API; only the SHA-256 hash of a token is stored)
+-- namespaces: NULL grants every namespace, otherwise entries like 'prod-cluster/payments', 'prod-cluster/*' or 'payments'
+CREATE TABLE IF NOT EXISTS public.api_tokens (
+    id BIGSERIAL PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    token_hash TEXT NOT NULL UNIQUE,
+    role TEXT NOT NULL CHECK (role IN ('viewer', 'operator', 'admin')),
+    namespaces TEXT[],
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    expires_at TIMESTAMP WITH TIME ZONE,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create audit log table (log reads and alert changes, written by the database API)
+CREATE TABLE IF NOT EXISTS public.audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    token_id BIGINT REFERENCES public.api_tokens(id) ON DELETE SET NULL,
+    actor TEXT NOT NULL,
+    role TEXT NOT NULL,
+    action TEXT NOT NULL,
+    cluster TEXT,
+    namespace TEXT,
+    pod_id UUID,
+    container_id UUID,
+    details JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create collector runs table (one row per collector pass: outcome and counts, used for data freshness)
+CREATE TABLE IF NOT EXISTS public.collector_runs (
+    id BIGSERIAL PRIMARY KEY,
+    collector TEXT NOT NULL,
+    cluster TEXT NOT NULL DEFAULT 'default',
+    namespace TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    finished_at TIMESTAMP WITH TIME ZONE,
+    pods_seen INTEGER,
+    logs_inserted INTEGER,
+    samples_inserted INTEGER,
+    error_count INTEGER NOT NULL DEFAULT 0,
+    error TEXT
+);
+
+-- Create workloads table (Deployments, StatefulSets and DaemonSets: desired/ready/available/updated replicas and rollout state)
+CREATE TABLE IF NOT EXISTS public.workloads (
+    id UUID PRIMARY KEY,
+    cluster TEXT NOT NULL DEFAULT 'default',
+    namespace TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    name TEXT NOT NULL,
+    desired_replicas INTEGER NOT NULL DEFAULT 0,
+    ready_replicas INTEGER NOT NULL DEFAULT 0,
+    available_replicas INTEGER NOT NULL DEFAULT 0,
+    updated_replicas INTEGER NOT NULL DEFAULT 0,
+    conditions JSONB NOT NULL DEFAULT '[]'::jsonb,
+    rollout_status TEXT NOT NULL DEFAULT 'complete' CHECK (rollout_status IN ('complete', 'progressing', 'stuck', 'paused')),
+    rollout_message TEXT,
+    rollout_started_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create version impacts table (CPU/RAM p95 of a version compared with a baseline version, computed and cached by the API's getVersionImpact)
+CREATE TABLE IF NOT EXISTS public.version_impacts (
+    id BIGSERIAL PRIMARY KEY,
+    cluster TEXT NOT NULL DEFAULT 'default',
+    namespace TEXT NOT NULL,
+    deployment TEXT NOT NULL,
+    version TEXT NOT NULL,
+    baseline_version TEXT NOT NULL,
+    window_minutes INTEGER NOT NULL,
+    score DOUBLE PRECISION,
+    status TEXT NOT NULL CHECK (status IN ('degraded', 'improved', 'stable', 'unknown')),
+    result JSONB NOT NULL,
+    computed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (cluster, namespace, deployment, version, baseline_version, window_minutes)
+);
+
 -- Enable Row Level Security
 ALTER TABLE public.pods ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.containers ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.container_status_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.error_fingerprints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.alert_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.collector_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workloads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.version_impacts ENABLE ROW LEVEL SECURITY;
+-- No read policies: token hashes and the audit trail are only reachable through the database API
+ALTER TABLE public.api_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
 
 -- Create public read policies (for monitoring dashboard)
 DROP POLICY IF EXISTS "Allow public read access to pods" ON public.pods;
@@ -77,6 +283,30 @@ CREATE POLICY "Allow public read access to containers" ON public.containers FOR
 DROP POLICY IF EXISTS "Allow public read access to logs" ON public.logs;
 CREATE POLICY "Allow public read access to logs" ON public.logs FOR SELECT USING (true);
 
+DROP POLICY IF EXISTS "Allow public read access to events" ON public.events;
+CREATE POLICY "Allow public read access to events" ON public.events FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow public read access to container_status_history" ON public.container_status_history;
+CREATE POLICY "Allow public read access to container_status_history" ON public.container_status_history FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow public read access to error_fingerprints" ON public.error_fingerprints;
+CREATE POLICY "Allow public read access to error_fingerprints" ON public.error_fingerprints FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow public read access to alerts" ON public.alerts;
+CREATE POLICY "Allow public read access to alerts" ON public.alerts FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow public read access to alert_deliveries" ON public.alert_deliveries;
+CREATE POLICY "Allow public read access to alert_deliveries" ON public.alert_deliveries FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow public read access to collector_runs" ON public.collector_runs;
+CREATE POLICY "Allow public read access to collector_runs" ON public.collector_runs FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow public read access to workloads" ON public.workloads;
+CREATE POLICY "Allow public read access to workloads" ON public.workloads FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow public read access to version_impacts" ON public.version_impacts;
+CREATE POLICY "Allow public read access to version_impacts" ON public.version_impacts FOR SELECT USING (true);
+
 -- Create function to update timestamps
 CREATE OR REPLACE FUNCTION public.update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -95,10 +325,59 @@ DROP TRIGGER IF EXISTS update_containers_updated_at ON public.containers;
 CREATE TRIGGER update_containers_updated_at
 BEFORE UPDATE ON public.containers FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
 
+-- Record container state transitions; containers rows are upserted in place by every writer
+CREATE OR REPLACE FUNCTION public.record_container_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT'
+       OR NEW.status IS DISTINCT FROM OLD.status
+       OR NEW.ready IS DISTINCT FROM OLD.ready
+       OR NEW.restart_count IS DISTINCT FROM OLD.restart_count
+       OR NEW.last_state_reason IS DISTINCT FROM OLD.last_state_reason THEN
+        INSERT INTO public.container_status_history (
+            container_id, pod_id, status, ready, restart_count, reason, exit_code, message, started_at
+        )
+        VALUES (
+            NEW.id, NEW.pod_id, NEW.status, NEW.ready, NEW.restart_count,
+            NEW.last_state_reason, NEW.last_state_exit_code, NEW.last_state_message, NEW.started_at
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_containers_status_history ON public.containers;
+CREATE TRIGGER record_containers_status_history
+AFTER INSERT OR UPDATE ON public.containers FOR EACH ROW EXECUTE FUNCTION public.record_container_status_change();
+
 -- Create indexes for better query performance
 CREATE INDEX IF NOT EXISTS idx_pods_namespace ON public.pods(namespace);
+CREATE INDEX IF NOT EXISTS idx_pods_cluster_namespace ON public.pods(cluster, namespace);
 CREATE INDEX IF NOT EXISTS idx_pods_status ON public.pods(status);
+CREATE INDEX IF NOT EXISTS idx_pods_deleted_at ON public.pods(deleted_at) WHERE deleted_at IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_containers_pod_id ON public.containers(pod_id);
+CREATE INDEX IF NOT EXISTS idx_events_involved_uid_last ON public.events(involved_uid, last_timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_events_last_timestamp ON public.events(last_timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_container_status_history_container_recorded
+    ON public.container_status_history(container_id, recorded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_error_fingerprints_last_seen
+    ON public.error_fingerprints(last_seen);
+-- At most one firing alert per dedup key; resolved alerts are kept as history
+CREATE UNIQUE INDEX IF NOT EXISTS idx_alerts_firing_dedup_key
+    ON public.alerts(dedup_key) WHERE status = 'firing';
+CREATE INDEX IF NOT EXISTS idx_alerts_cluster_namespace_started
+    ON public.alerts(cluster, namespace, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_alert_created
+    ON public.alert_deliveries(alert_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_collector_runs_collector_scope_started
+    ON public.collector_runs(collector, cluster, namespace, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_workloads_cluster_namespace_kind_name ON public.workloads(cluster, namespace, kind, name);
+CREATE INDEX IF NOT EXISTS idx_version_impacts_cluster_namespace_deployment
+    ON public.version_impacts(cluster, namespace, deployment, computed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_created
+    ON public.audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor_created
+    ON public.audit_log(actor, created_at DESC);
 DROP INDEX IF EXISTS public.idx_logs_container_id;
 DROP INDEX IF EXISTS public.idx_logs_timestamp;
 DROP INDEX IF EXISTS public.idx_logs_container_timestamp_message;
@@ -110,3 +389,9 @@ WHERE a.ctid < b.ctid
   AND a.message = b.message;
 CREATE UNIQUE INDEX IF NOT EXISTS idx_logs_container_timestamp_message_hash
     ON public.logs(container_id, timestamp, md5(message));
+CREATE INDEX IF NOT EXISTS idx_logs_container_timestamp_id
+    ON public.logs(container_id, timestamp DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_logs_message_trgm
+    ON public.logs USING gin (message gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_logs_fields
+    ON public.logs USING gin (fields jsonb_path_ops);